@@ -0,0 +1,428 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { BeamVisualization } from '@/components/BeamVisualization'
+import { SectionInput, SectionInputValue, defaultSectionDimensions, parseSectionInput } from '@/components/SectionInput'
+import { SectionOption, SectionSelect } from '@/components/SectionSelect'
+import { calculateSectionProperties, profileDimensions, profileProperties } from '@/lib/sections'
+import { analyzeBeam, calculateBeamStrength, calculateSelfWeightLoad, checkDeflectionLimit, BeamExtreme, BeamLoad, DeflectionCriterion, SupportCondition } from '@/lib/calculations'
+import { LoadListEditor, LoadRow, createLoadRow, parseLoadRow } from '@/components/LoadListEditor'
+
+type BeamMaterial = Pick<Material, 'id' | 'name' | 'density' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface BeamDeflectionCalculatorProps {
+  materials: BeamMaterial[]
+  sections: SectionOption[]
+}
+
+// Either describe the section by hand or pick a catalogue profile
+type SectionSource = 'custom' | 'profile'
+
+const supportOptions: { value: SupportCondition; label: string }[] = [
+  { value: 'simply-supported', label: 'Simply supported' },
+  { value: 'cantilever', label: 'Cantilever (fixed left)' },
+  { value: 'fixed-fixed', label: 'Fixed–fixed' },
+  { value: 'propped-cantilever', label: 'Propped cantilever (fixed left)' },
+]
+
+// Serviceability presets are span ratios; the custom options take a ratio or a value in mm
+type DeflectionLimitOption = '180' | '240' | '250' | '360' | 'custom-ratio' | 'custom-absolute'
+
+const deflectionLimitOptions: { value: DeflectionLimitOption; label: string }[] = [
+  { value: '180', label: 'L/180' },
+  { value: '240', label: 'L/240' },
+  { value: '250', label: 'L/250' },
+  { value: '360', label: 'L/360' },
+  { value: 'custom-ratio', label: 'Custom L/n' },
+  { value: 'custom-absolute', label: 'Custom absolute (mm)' },
+]
+
+// A directly entered I is in mm⁴; everything is converted to SI before calculating
+const MM4 = 1e-12
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// Picks whichever extreme is larger in magnitude, keeping its sign
+function governingExtreme(extreme: { max: BeamExtreme; min: BeamExtreme }): BeamExtreme {
+  return Math.abs(extreme.min.value) > Math.abs(extreme.max.value) ? extreme.min : extreme.max
+}
+
+function SafetyFactorCard({ label, value }: { label: string; value: number | null }) {
+  const fails = value !== null && value < 1
+  return (
+    <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>
+        {value === null ? 'n/a' : Number.isFinite(value) ? value.toFixed(2) : '∞'}
+      </dd>
+      <dd className={`text-xs ${fails ? 'font-medium text-red-700' : 'text-gray-500'}`}>
+        {value === null ? 'Strength not available for this material' : fails ? 'Fails: stress exceeds strength' : 'OK'}
+      </dd>
+    </div>
+  )
+}
+
+export default function BeamDeflectionCalculator({ materials, sections }: BeamDeflectionCalculatorProps) {
+  const [length, setLength] = useState('2')
+  const [support, setSupport] = useState<SupportCondition>('simply-supported')
+  const [loadRows, setLoadRows] = useState<LoadRow[]>(() => [createLoadRow()])
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+  const [section, setSection] = useState<SectionInputValue>({ shape: 'rectangle', dimensions: defaultSectionDimensions })
+  const [sectionSource, setSectionSource] = useState<SectionSource>('custom')
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '')
+  const [limitOption, setLimitOption] = useState<DeflectionLimitOption>('360')
+  const [customRatio, setCustomRatio] = useState('500')
+  const [customLimit, setCustomLimit] = useState('10')
+  const [includeSelfWeight, setIncludeSelfWeight] = useState(false)
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const selectedProfile = sectionSource === 'profile' ? sections.find((s) => s.id === sectionId) : undefined
+
+  const L = parsePositive(length)
+  const E = selectedMaterial?.youngsModulus ?? null
+
+  // Bending is about the section's x axis (strong axis for the standard shapes)
+  const sectionDimensions = useMemo(
+    () => (selectedProfile ? profileDimensions(selectedProfile) : parseSectionInput(section)),
+    [selectedProfile, section]
+  )
+  // Published profile values include root radii, so they beat the idealised geometry
+  const sectionProperties = useMemo(() => {
+    if (selectedProfile) {
+      return profileProperties(selectedProfile)
+    }
+    return sectionDimensions ? calculateSectionProperties(sectionDimensions) : null
+  }, [selectedProfile, sectionDimensions])
+  const directI = parsePositive(section.dimensions.directI ?? '')
+  const I = sectionSource === 'custom' && section.shape === 'direct'
+    ? (directI !== null ? directI * MM4 : null)
+    : sectionProperties?.Ix ?? null
+
+  // Inline validation messages
+  const lengthError = L === null ? 'Length must be greater than 0' : null
+  const parsedLoads = useMemo(() => loadRows.map((row) => parseLoadRow(row, L)), [loadRows, L])
+  const loadErrors = parsedLoads.map((parsed) => ('error' in parsed ? parsed.error : null))
+  const loads = useMemo(
+    () => parsedLoads.flatMap((parsed) => ('load' in parsed ? [parsed.load] : [])) as BeamLoad[],
+    [parsedLoads]
+  )
+  const hasLoadErrors = loadErrors.some((error) => error !== null)
+
+  // Self-weight needs both a density and a real section area
+  const density = selectedMaterial?.density ?? null
+  const selfWeightLoad = useMemo(() => {
+    if (!includeSelfWeight || L === null || !density || !sectionProperties) {
+      return null
+    }
+    return calculateSelfWeightLoad(density, sectionProperties.area, L)
+  }, [includeSelfWeight, L, density, sectionProperties])
+
+  const result = useMemo(() => {
+    if (L === null || hasLoadErrors || !E || !I) {
+      return null
+    }
+    return analyzeBeam(support, selfWeightLoad ? [...loads, selfWeightLoad] : loads, L, E, I)
+  }, [support, loads, selfWeightLoad, L, E, I, hasLoadErrors])
+
+  // Self-weight on its own, so its share of the results can be reported separately
+  const selfWeightResult = useMemo(() => {
+    if (!selfWeightLoad || L === null || !E || !I) {
+      return null
+    }
+    return analyzeBeam(support, [selfWeightLoad], L, E, I)
+  }, [support, selfWeightLoad, L, E, I])
+
+  let criterion: DeflectionCriterion | null = null
+  if (limitOption === 'custom-absolute') {
+    const limitMm = parsePositive(customLimit)
+    criterion = limitMm !== null ? { type: 'absolute', limit: limitMm / 1000 } : null
+  } else {
+    const ratio = limitOption === 'custom-ratio' ? parsePositive(customRatio) : parseFloat(limitOption)
+    criterion = ratio !== null ? { type: 'ratio', ratio } : null
+  }
+  // Span ratios for a cantilever apply to twice its length
+  const limitSpan = L !== null && support === 'cantilever' ? 2 * L : L
+  const deflectionCheck = result && criterion && limitSpan !== null
+    ? checkDeflectionLimit(result.maxDeflection.maxDeflection, limitSpan, criterion)
+    : null
+
+  // Stresses need the section geometry, so a directly entered I only gives deflections
+  const strength = useMemo(() => {
+    if (!result || !sectionProperties || !selectedMaterial) {
+      return null
+    }
+    return calculateBeamStrength(result, sectionProperties, selectedMaterial.yieldStrength, selectedMaterial.ultimateTensileStrength)
+  }, [result, sectionProperties, selectedMaterial])
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Beam</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <NumberField id="length" label="Length, L" unit="m" min={0} value={length} onChange={setLength} error={lengthError} />
+            <div>
+              <label htmlFor="support" className="block text-sm font-medium text-gray-700">Supports</label>
+              <select
+                id="support"
+                value={support}
+                onChange={(e) => setSupport(e.target.value as SupportCondition)}
+                className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500"
+              >
+                {supportOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Loads</h2>
+          <LoadListEditor rows={loadRows} errors={loadErrors} onChange={setLoadRows} />
+          <label className="mt-4 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeSelfWeight}
+              onChange={(e) => setIncludeSelfWeight(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Include self-weight (ρ·A·g)
+          </label>
+          {includeSelfWeight && !selfWeightLoad && (
+            <p className="mt-1 text-xs text-red-600">
+              {!density ? 'The selected material has no density.' : 'Self-weight needs a section shape or profile (not a direct I).'}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Deflection Limit</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="deflectionLimit" className="block text-sm font-medium text-gray-700">Criterion</label>
+              <select
+                id="deflectionLimit"
+                value={limitOption}
+                onChange={(e) => setLimitOption(e.target.value as DeflectionLimitOption)}
+                className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500"
+              >
+                {deflectionLimitOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            {limitOption === 'custom-ratio' && (
+              <NumberField
+                id="customRatio"
+                label="Span ratio, n"
+                unit="L/n"
+                min={0}
+                value={customRatio}
+                onChange={setCustomRatio}
+                error={parsePositive(customRatio) === null ? 'Ratio must be greater than 0' : null}
+              />
+            )}
+            {limitOption === 'custom-absolute' && (
+              <NumberField
+                id="customLimit"
+                label="Allowable deflection"
+                unit="mm"
+                min={0}
+                value={customLimit}
+                onChange={setCustomLimit}
+                error={parsePositive(customLimit) === null ? 'Limit must be greater than 0' : null}
+              />
+            )}
+          </div>
+          {support === 'cantilever' && limitOption !== 'custom-absolute' && (
+            <p className="mt-2 text-xs text-gray-500">For cantilevers the ratio is applied to twice the cantilever length.</p>
+          )}
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Material</h2>
+          <MaterialSelect
+            materials={materials}
+            selectedMaterialId={materialId}
+            onChange={setMaterialId}
+            showYoungsModulus
+            showYieldStrength
+          />
+          {materials.length === 0 && (
+            <p className="mt-2 text-sm text-red-600">No materials with a Young&apos;s modulus are available.</p>
+          )}
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Cross-Section</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['custom', 'profile'] as const).map((source) => (
+              <label key={source} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="sectionSource"
+                  value={source}
+                  checked={sectionSource === source}
+                  onChange={() => setSectionSource(source)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {source === 'custom' ? 'Custom shape' : 'Standard profile'}
+              </label>
+            ))}
+          </div>
+          {sectionSource === 'profile' ? (
+            <>
+              <SectionSelect sections={sections} selectedSectionId={sectionId} onChange={setSectionId} />
+              {sections.length === 0 && (
+                <p className="mt-2 text-sm text-red-600">No standard profiles are available. Run the database seed.</p>
+              )}
+            </>
+          ) : (
+            <SectionInput value={section} onChange={setSection} allowDirect />
+          )}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {result ? (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Max deflection</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(result.maxDeflection.maxDeflection * 1000).toFixed(3)} mm</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Location of max deflection</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{result.maxDeflection.location.toFixed(3)} m</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Max bending moment</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{governingExtreme(result.extremes.moment).value.toFixed(1)} N·m</dd>
+                <dd className="text-xs text-gray-500">at x = {governingExtreme(result.extremes.moment).location.toFixed(3)} m</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Max shear force</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{governingExtreme(result.extremes.shear).value.toFixed(1)} N</dd>
+                <dd className="text-xs text-gray-500">at x = {governingExtreme(result.extremes.shear).location.toFixed(3)} m</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Max slope</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{governingExtreme(result.extremes.slope).value.toFixed(5)} rad</dd>
+                <dd className="text-xs text-gray-500">at x = {governingExtreme(result.extremes.slope).location.toFixed(3)} m</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">E · I</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{((E ?? 0) * (I ?? 0)).toExponential(3)} N·m²</dd>
+              </div>
+            </dl>
+
+            {selfWeightLoad && selfWeightLoad.type === 'uniform' && selfWeightResult && (
+              <div className="mt-4 rounded-md border border-gray-200 p-4 text-sm">
+                <h3 className="mb-2 font-semibold text-gray-700">Self-weight contribution (included above)</h3>
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+                  <dt className="text-gray-500">Distributed load, ρ·A·g</dt>
+                  <dd className="text-gray-900">{selfWeightLoad.magnitude.toFixed(1)} N/m</dd>
+                  <dt className="text-gray-500">Total weight</dt>
+                  <dd className="text-gray-900">{(selfWeightLoad.magnitude * (L ?? 0)).toFixed(1)} N</dd>
+                  <dt className="text-gray-500">Deflection from self-weight</dt>
+                  <dd className="text-gray-900">{(selfWeightResult.maxDeflection.maxDeflection * 1000).toFixed(3)} mm</dd>
+                  <dt className="text-gray-500">Moment from self-weight</dt>
+                  <dd className="text-gray-900">{governingExtreme(selfWeightResult.extremes.moment).value.toFixed(1)} N·m</dd>
+                </dl>
+              </div>
+            )}
+
+            {deflectionCheck && (
+              <div className={`mt-4 rounded-md p-4 text-sm ${deflectionCheck.passes ? 'bg-green-50' : 'bg-red-50'}`}>
+                <div className="flex justify-between">
+                  <span className="text-gray-700">
+                    Deflection limit {(deflectionCheck.allowable * 1000).toFixed(2)} mm
+                    {criterion?.type === 'ratio' && <span className="text-gray-500"> (L/{criterion.ratio})</span>}
+                  </span>
+                  <span className={`font-semibold ${deflectionCheck.passes ? 'text-green-700' : 'text-red-700'}`}>
+                    {deflectionCheck.passes ? 'Pass' : 'Fail'}
+                  </span>
+                </div>
+                <div className="mt-2 h-2 w-full rounded bg-gray-200">
+                  <div
+                    className={`h-2 rounded ${deflectionCheck.passes ? 'bg-green-500' : 'bg-red-500'}`}
+                    style={{ width: `${Math.min(deflectionCheck.utilization, 1) * 100}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-600">Utilization {(deflectionCheck.utilization * 100).toFixed(1)}%</p>
+              </div>
+            )}
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Strength</h3>
+            {strength ? (
+              <>
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                  <div className="rounded-md bg-gray-50 p-4">
+                    <dt className="text-gray-500">Max bending stress, M·c/I</dt>
+                    <dd className="text-2xl font-semibold text-gray-900">{(strength.maxBendingStress.value / 1e6).toFixed(1)} MPa</dd>
+                    <dd className="text-xs text-gray-500">at x = {strength.maxBendingStress.location.toFixed(3)} m, extreme fibre</dd>
+                  </div>
+                  <div className="rounded-md bg-gray-50 p-4">
+                    <dt className="text-gray-500">Max shear stress, V·Q/(I·b)</dt>
+                    <dd className="text-2xl font-semibold text-gray-900">{(strength.maxShearStress.value / 1e6).toFixed(2)} MPa</dd>
+                    <dd className="text-xs text-gray-500">at x = {strength.maxShearStress.location.toFixed(3)} m, neutral axis</dd>
+                  </div>
+                  <SafetyFactorCard label="Safety factor vs yield" value={strength.yieldSafetyFactor} />
+                  <SafetyFactorCard label="Safety factor vs UTS" value={strength.ultimateSafetyFactor} />
+                </dl>
+                <p className="mt-2 text-xs text-gray-500">
+                  Governed by {strength.governingMode === 'bending' ? 'bending' : 'shear (√3·τ)'}; equivalent stress {(strength.equivalentStress / 1e6).toFixed(1)} MPa.
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Describe the cross-section by its shape or pick a profile to calculate stresses.</p>
+            )}
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Support reactions</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 font-medium">Support</th>
+                  <th className="py-1 font-medium">Force (N, up +)</th>
+                  <th className="py-1 font-medium">Moment (N·m, ccw +)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {(['left', 'right'] as const).map((side) => (
+                  <tr key={side}>
+                    <td className="py-1 capitalize text-gray-700">{side}</td>
+                    <td className="py-1 text-gray-900">{result.reactions[side].force.toFixed(1)}</td>
+                    <td className="py-1 text-gray-900">{result.reactions[side].moment.toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <BeamVisualization
+              length={L ?? 0}
+              deflection={result.maxDeflection.maxDeflection}
+              shape={selectedProfile ? sectionDimensions?.shape ?? 'direct' : section.shape}
+              section={sectionDimensions}
+              analysis={result}
+              deflectionLimit={deflectionCheck?.allowable}
+            />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Enter valid inputs and select a material to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Linear-elastic Euler–Bernoulli beam theory; shear stress from the idealised section geometry. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
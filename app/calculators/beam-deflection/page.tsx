@@ -0,0 +1,32 @@
+import Link from 'next/link'
+import { getCalculatorMaterials, getStandardSections } from '@/lib/queries'
+import BeamDeflectionCalculator from './BeamDeflectionCalculator'
+
+// Force dynamic rendering so newly seeded materials and sections show up
+export const dynamic = 'force-dynamic';
+
+export default async function BeamDeflectionPage() {
+  // Only materials with a Young's modulus are useful for deflection
+  const [materials, sections] = await Promise.all([getCalculatorMaterials(['youngsModulus']), getStandardSections()]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6 flex justify-start items-center">
+          <Link href="/" className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+            &larr; Back to Home
+          </Link>
+        </div>
+
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">Beam Deflection</h1>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+            Single-span beams under any combination of point loads, moments and distributed loads. Results update as you type.
+          </p>
+        </div>
+
+        <BeamDeflectionCalculator materials={materials} sections={sections} />
+      </div>
+    </div>
+  )
+}
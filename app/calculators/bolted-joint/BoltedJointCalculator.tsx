@@ -0,0 +1,289 @@
+'use client'
+
+import { useState } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { calculateBoltedJoint } from '@/lib/boltedJoint'
+import { ThreadSeries, isUnifiedThread, threadGeometry, threadSeries, threadSizes } from '@/lib/threads'
+
+type JointMaterial = Pick<Material, 'id' | 'name' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface BoltedJointCalculatorProps {
+  materials: JointMaterial[]
+}
+
+type GeometryKey = 'gripLength' | 'shankLength' | 'headBearingDiameter' | 'holeDiameter' | 'memberOuterDiameter' | 'engagedLength'
+
+const geometryFields: { key: GeometryKey; label: string }[] = [
+  { key: 'gripLength', label: 'Grip length, lₖ' },
+  { key: 'shankLength', label: 'Unthreaded shank in grip' },
+  { key: 'headBearingDiameter', label: 'Head bearing diameter, d_W' },
+  { key: 'holeDiameter', label: 'Clearance hole, d_h' },
+  { key: 'memberOuterDiameter', label: 'Clamped part width, D_A' },
+  { key: 'engagedLength', label: 'Engaged thread length, m' },
+]
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MM = 1e-3
+const KN = 1e3
+const MPA = 1e6
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// The shank and the minimum load may be zero
+function parseNonNegative(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+// Typical proportions for a hex bolt and nut of diameter d (mm): bearing face, medium clearance hole and nut height
+function defaultGeometry(d: number): Partial<Record<GeometryKey, string>> {
+  const round = (value: number) => String(Math.round(value * 10) / 10)
+  return {
+    headBearingDiameter: round(1.5 * d),
+    holeDiameter: round(1.1 * d),
+    engagedLength: round(0.8 * d),
+  }
+}
+
+function SafetyFactorCard({ label, value, failure }: { label: string; value: number | null; failure: string }) {
+  const fails = value !== null && value < 1
+  return (
+    <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>{value !== null ? value.toFixed(2) : '—'}</dd>
+      {fails && <dd className="text-xs font-medium text-red-700">{failure}</dd>}
+    </div>
+  )
+}
+
+export default function BoltedJointCalculator({ materials }: BoltedJointCalculatorProps) {
+  const [series, setSeries] = useState<ThreadSeries>('iso-coarse')
+  const [designation, setDesignation] = useState('M10')
+  const [geometry, setGeometry] = useState<Record<GeometryKey, string>>({
+    gripLength: '30',
+    shankLength: '0',
+    headBearingDiameter: '15',
+    holeDiameter: '11',
+    memberOuterDiameter: '40',
+    engagedLength: '8',
+  })
+  const [torque, setTorque] = useState('50')
+  const [nutFactor, setNutFactor] = useState('0.2')
+  const [loadIntroduction, setLoadIntroduction] = useState('1')
+  const [maxLoad, setMaxLoad] = useState('10')
+  const [minLoad, setMinLoad] = useState('0')
+  const [boltMaterialId, setBoltMaterialId] = useState(materials[0]?.id ?? '')
+  const [memberMaterialId, setMemberMaterialId] = useState(materials[0]?.id ?? '')
+  const [nutMaterialId, setNutMaterialId] = useState(materials[0]?.id ?? '')
+
+  const boltMaterial = materials.find((m) => m.id === boltMaterialId)
+  const memberMaterial = materials.find((m) => m.id === memberMaterialId)
+  const nutMaterial = materials.find((m) => m.id === nutMaterialId)
+
+  const size = threadSizes.find((s) => s.designation === designation && s.series === series)
+  const thread = size ? threadGeometry(size.diameter, size.pitch, isUnifiedThread(size.series)) : null
+
+  const handleSizeChange = (value: string) => {
+    const next = threadSizes.find((s) => s.designation === value && s.series === series)
+    setDesignation(value)
+    if (next) {
+      setGeometry((current) => ({ ...current, ...defaultGeometry(next.diameter / MM) }))
+    }
+  }
+
+  const handleSeriesChange = (value: ThreadSeries) => {
+    setSeries(value)
+    const first = threadSizes.find((s) => s.series === value)
+    if (first) {
+      setDesignation(first.designation)
+      setGeometry((current) => ({ ...current, ...defaultGeometry(first.diameter / MM) }))
+    }
+  }
+
+  const lengths = Object.fromEntries(geometryFields.map(({ key }) => [
+    key,
+    key === 'shankLength' ? parseNonNegative(geometry[key]) : parsePositive(geometry[key]),
+  ])) as Record<GeometryKey, number | null>
+  const T = parsePositive(torque)
+  const K = parsePositive(nutFactor)
+  const n = parsePositive(loadIntroduction)
+  const FAmax = parseNonNegative(maxLoad)
+  const FAmin = parseNonNegative(minLoad)
+
+  const missingUltimate = !boltMaterial?.ultimateTensileStrength
+
+  // Cheap enough to recompute on every render
+  const computeResult = () => {
+    if (!thread || T === null || K === null || n === null || FAmax === null || FAmin === null) {
+      return null
+    }
+    if (Object.values(lengths).some((v) => v === null)) {
+      return null
+    }
+    if (!boltMaterial?.youngsModulus || !boltMaterial.yieldStrength || !boltMaterial.ultimateTensileStrength
+      || !memberMaterial?.youngsModulus || !nutMaterial?.yieldStrength) {
+      return null
+    }
+    const si = (key: GeometryKey) => (lengths[key] as number) * MM
+    return calculateBoltedJoint(
+      thread,
+      {
+        gripLength: si('gripLength'),
+        shankLength: si('shankLength'),
+        headBearingDiameter: si('headBearingDiameter'),
+        holeDiameter: si('holeDiameter'),
+        memberOuterDiameter: si('memberOuterDiameter'),
+        engagedLength: si('engagedLength'),
+      },
+      { tighteningTorque: T, nutFactor: K, loadIntroductionFactor: n, maxExternalLoad: FAmax * KN, minExternalLoad: FAmin * KN },
+      {
+        bolt: { E: boltMaterial.youngsModulus, yieldStrength: boltMaterial.yieldStrength, ultimateTensileStrength: boltMaterial.ultimateTensileStrength },
+        member: { E: memberMaterial.youngsModulus },
+        internalThread: { yieldStrength: nutMaterial.yieldStrength },
+      }
+    )
+  }
+  const result = computeResult()
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Thread</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="series" className="block text-sm font-medium text-gray-700">Series</label>
+              <select id="series" value={series} onChange={(e) => handleSeriesChange(e.target.value as ThreadSeries)} className={selectClassName}>
+                {(Object.keys(threadSeries) as ThreadSeries[]).map((key) => <option key={key} value={key}>{threadSeries[key]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="size" className="block text-sm font-medium text-gray-700">Size</label>
+              <select id="size" value={designation} onChange={(e) => handleSizeChange(e.target.value)} className={selectClassName}>
+                {threadSizes.filter((s) => s.series === series).map((s) => <option key={s.designation} value={s.designation}>{s.designation}</option>)}
+              </select>
+            </div>
+          </div>
+          {thread && (
+            <p className="mt-2 text-xs text-gray-500">
+              d = {(thread.diameter / MM).toFixed(2)} mm, P = {(thread.pitch / MM).toFixed(3)} mm, d₂ = {(thread.pitchDiameter / MM).toFixed(2)} mm,
+              d₃ = {(thread.minorDiameter / MM).toFixed(2)} mm, A<sub>s</sub> = {(thread.stressArea / (MM * MM)).toFixed(1)} mm²
+            </p>
+          )}
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Joint Geometry</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {geometryFields.map(({ key, label }) => (
+              <NumberField
+                key={key}
+                id={key}
+                label={label}
+                unit="mm"
+                min={0}
+                value={geometry[key]}
+                onChange={(value) => setGeometry((current) => ({ ...current, [key]: value }))}
+                error={lengths[key] === null ? (key === 'shankLength' ? 'Must be 0 or more' : 'Must be greater than 0') : null}
+              />
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">Through-bolted with a hex head and nut. Changing the size resets d_W, d_h and m to typical proportions.</p>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Tightening and Loading</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <NumberField id="torque" label="Tightening torque, T" unit="N·m" min={0} value={torque} onChange={setTorque}
+              error={T === null ? 'Must be greater than 0' : null} />
+            <NumberField id="nutFactor" label="Nut factor, K" min={0} step={0.01} value={nutFactor} onChange={setNutFactor}
+              error={K === null ? 'Must be greater than 0' : null} />
+            <NumberField id="maxLoad" label="Max. external load, F_A,max" unit="kN" min={0} value={maxLoad} onChange={setMaxLoad}
+              error={FAmax === null ? 'Must be 0 or more' : null} />
+            <NumberField id="minLoad" label="Min. external load, F_A,min" unit="kN" min={0} value={minLoad} onChange={setMinLoad}
+              error={FAmin === null || (FAmax !== null && FAmin > FAmax) ? 'Must be between 0 and the maximum' : null} />
+            <NumberField id="loadIntroduction" label="Load introduction factor, n" min={0} step={0.05} value={loadIntroduction} onChange={setLoadIntroduction}
+              error={n === null || n > 1 ? 'Must be between 0 and 1' : null} />
+          </div>
+          <p className="mt-2 text-xs text-gray-500">K ≈ 0.2 for dry steel, 0.15–0.18 lubricated. n = 1 when the load acts under the head and nut, about 0.5 for loads introduced mid-flange.</p>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Bolt Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={boltMaterialId} onChange={setBoltMaterialId} showYoungsModulus showYieldStrength />
+          {missingUltimate && <p className="mt-2 text-sm text-red-600">The bolt material needs an ultimate tensile strength for the fatigue check.</p>}
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Clamped Parts Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={memberMaterialId} onChange={setMemberMaterialId} showYoungsModulus />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Nut Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={nutMaterialId} onChange={setNutMaterialId} showYieldStrength />
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {result ? (
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div className={`rounded-md p-4 ${result.preloadUtilization > 1 ? 'bg-red-50' : 'bg-gray-50'}`}>
+              <dt className="text-gray-500">Preload, F<sub>i</sub> = T / (K·d)</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(result.preload / KN).toFixed(2)} kN</dd>
+              <dd className="text-xs text-gray-500">
+                σ<sub>i</sub> = {(result.preloadStress / MPA).toFixed(0)} MPa, {(result.preloadUtilization * 100).toFixed(0)}% of yield
+              </dd>
+              {result.preloadUtilization > 1 && <dd className="text-xs font-medium text-red-700">The bolt yields while tightening: reduce the torque</dd>}
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Stiffness</dt>
+              <dd className="text-gray-900">Bolt k<sub>S</sub> = {(result.boltStiffness / (KN / MM)).toFixed(0)} kN/mm</dd>
+              <dd className="text-gray-900">Clamped parts k<sub>P</sub> = {(result.memberStiffness / (KN / MM)).toFixed(0)} kN/mm</dd>
+              <dd className="text-xs text-gray-500">Cone tan φ = {result.coneTangent.toFixed(3)}</dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Load factor, Φ<sub>n</sub></dt>
+              <dd className="text-2xl font-semibold text-gray-900">{result.loadFactor.toFixed(3)}</dd>
+              <dd className="text-xs text-gray-500">Share of the external load carried by the bolt</dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">At the maximum external load</dt>
+              <dd className="text-gray-900">Bolt load: {(result.maxBoltLoad / KN).toFixed(2)} kN</dd>
+              <dd className="text-gray-900">Residual clamp load: {(result.minClampLoad / KN).toFixed(2)} kN</dd>
+            </div>
+            <SafetyFactorCard label="Separation safety factor" value={result.separationSafetyFactor} failure="Joint separates under the maximum load" />
+            <SafetyFactorCard label="Bolt yield safety factor" value={result.yieldSafetyFactor} failure="Bolt yields under the maximum load" />
+            <div className={`rounded-md p-4 ${result.fatigue.safetyFactor !== null && result.fatigue.safetyFactor < 1 ? 'bg-red-50' : 'bg-gray-50'}`}>
+              <dt className="text-gray-500">Fatigue safety factor (Goodman)</dt>
+              <dd className={`text-2xl font-semibold ${result.fatigue.safetyFactor !== null && result.fatigue.safetyFactor < 1 ? 'text-red-700' : 'text-gray-900'}`}>
+                {result.fatigue.safetyFactor !== null ? result.fatigue.safetyFactor.toFixed(2) : '—'}
+              </dd>
+              <dd className="text-xs text-gray-500">
+                σ<sub>a</sub> = {(result.fatigue.stressAmplitude / MPA).toFixed(1)} MPa against σ<sub>ASV</sub> = {(result.fatigue.enduranceLimit / MPA).toFixed(0)} MPa
+              </dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Thread stripping safety factors</dt>
+              <dd className={result.stripping.boltSafetyFactor < 1 ? 'font-medium text-red-700' : 'text-gray-900'}>Bolt thread: {result.stripping.boltSafetyFactor.toFixed(2)}</dd>
+              <dd className={result.stripping.internalSafetyFactor < 1 ? 'font-medium text-red-700' : 'text-gray-900'}>Nut thread: {result.stripping.internalSafetyFactor.toFixed(2)}</dd>
+              <dd className="text-xs text-gray-500">Shear yield over {(result.stripping.internalShearArea / (MM * MM)).toFixed(0)} / {(result.stripping.boltShearArea / (MM * MM)).toFixed(0)} mm² (nut / bolt)</dd>
+            </div>
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500">Enter valid inputs and select materials to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Simplified VDI 2230 analysis of a concentric, axially loaded joint: no embedding losses, tightening scatter, bending or transverse slip. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
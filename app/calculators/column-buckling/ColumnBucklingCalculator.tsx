@@ -0,0 +1,268 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { SectionInput, SectionInputValue, defaultSectionDimensions, parseSectionInput } from '@/components/SectionInput'
+import { SectionOption, SectionSelect } from '@/components/SectionSelect'
+import { calculateSectionProperties, profileProperties } from '@/lib/sections'
+import { ColumnBucklingResult, ColumnEndCondition, calculateColumnBuckling, effectiveLengthFactors } from '@/lib/buckling'
+
+type ColumnMaterial = Pick<Material, 'id' | 'name' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface ColumnBucklingCalculatorProps {
+  materials: ColumnMaterial[]
+  sections: SectionOption[]
+}
+
+type KSource = 'recommended' | 'theoretical' | 'custom'
+
+type BucklingAxis = 'x' | 'y' | 'z'
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// Critical stress against slenderness, with the column's own point marked
+function BucklingCurve({ E, yieldStrength, results }: { E: number; yieldStrength: number | null; results: ColumnBucklingResult[] }) {
+  const width = 400
+  const height = 200
+  const padding = 36
+  const maxSlenderness = Math.max(200, ...results.map((r) => r.slenderness * 1.2))
+  // Cap the axis at yield (or twice the highest critical stress without one) so the Euler branch stays readable
+  const maxStress = yieldStrength ?? Math.max(...results.map((r) => r.criticalStress)) * 2
+  const toX = (slenderness: number) => padding + (slenderness / maxSlenderness) * (width - 2 * padding)
+  const toY = (stress: number) => height - padding - (Math.min(stress, maxStress) / maxStress) * (height - 2 * padding)
+
+  const curve = Array.from({ length: 121 }, (_, i) => {
+    const slenderness = Math.max((maxSlenderness * i) / 120, 1e-6)
+    const point = calculateColumnBuckling(E, yieldStrength, 1, 1, slenderness, 1)
+    return point ? `${toX(slenderness)},${toY(point.criticalStress)}` : ''
+  }).join(' ')
+  const euler = Array.from({ length: 121 }, (_, i) => {
+    const slenderness = Math.max((maxSlenderness * i) / 120, 1e-6)
+    return `${toX(slenderness)},${toY((Math.PI * Math.PI * E) / (slenderness * slenderness))}`
+  }).join(' ')
+  const transition = results[0]?.transitionSlenderness ?? null
+
+  return (
+    <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className="mt-4">
+      <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="#6b7280" strokeWidth="1" />
+      <line x1={padding} y1={padding} x2={padding} y2={height - padding} stroke="#6b7280" strokeWidth="1" />
+      <polyline points={euler} fill="none" stroke="#9ca3af" /* gray-400 */ strokeWidth="1" strokeDasharray="4 2" />
+      <polyline points={curve} fill="none" stroke="#0ea5e9" /* sky-500 */ strokeWidth="2" />
+      {transition !== null && transition < maxSlenderness && (
+        <g>
+          <line x1={toX(transition)} y1={padding} x2={toX(transition)} y2={height - padding} stroke="#f59e0b" /* amber-500 */ strokeDasharray="2 2" />
+          <text x={toX(transition) + 3} y={padding + 8} fontSize="9" fill="#b45309" /* amber-700 */>Cc = {transition.toFixed(0)}</text>
+        </g>
+      )}
+      {results.map((r, i) => (
+        <circle key={i} cx={toX(r.slenderness)} cy={toY(r.criticalStress)} r="4" fill={i === 0 ? '#ef4444' : '#7c3aed'} />
+      ))}
+      <text x={width / 2} y={height - 8} fontSize="10" fill="#374151" textAnchor="middle">Slenderness ratio KL/r</text>
+      <text x={10} y={height / 2} fontSize="10" fill="#374151" textAnchor="middle" transform={`rotate(-90 10 ${height / 2})`}>σcr</text>
+      <text x={padding - 4} y={padding + 3} fontSize="9" fill="#374151" textAnchor="end">{(maxStress / 1e6).toFixed(0)}</text>
+      <text x={padding - 4} y={height - padding} fontSize="9" fill="#374151" textAnchor="end">0</text>
+      <text x={width - padding} y={height - padding + 12} fontSize="9" fill="#374151" textAnchor="end">{maxSlenderness.toFixed(0)}</text>
+    </svg>
+  )
+}
+
+export default function ColumnBucklingCalculator({ materials, sections }: ColumnBucklingCalculatorProps) {
+  const [length, setLength] = useState('3')
+  const [endCondition, setEndCondition] = useState<ColumnEndCondition>('pinned-pinned')
+  const [kSource, setKSource] = useState<KSource>('recommended')
+  const [customK, setCustomK] = useState('1')
+  const [load, setLoad] = useState('100000')
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+  const [section, setSection] = useState<SectionInputValue>({ shape: 'tube', dimensions: { ...defaultSectionDimensions, outerDiameter: '88.9', wallThickness: '4' } })
+  const [sectionSource, setSectionSource] = useState<'custom' | 'profile'>('custom')
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '')
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const selectedProfile = sectionSource === 'profile' ? sections.find((s) => s.id === sectionId) : undefined
+  const E = selectedMaterial?.youngsModulus ?? null
+  const yieldStrength = selectedMaterial?.yieldStrength ?? null
+
+  const L = parsePositive(length)
+  const K = kSource === 'custom' ? parsePositive(customK) : effectiveLengthFactors[endCondition][kSource]
+  const P = parsePositive(load)
+
+  const sectionProperties = useMemo(() => {
+    if (selectedProfile) {
+      return profileProperties(selectedProfile)
+    }
+    const dimensions = parseSectionInput(section)
+    return dimensions ? calculateSectionProperties(dimensions) : null
+  }, [selectedProfile, section])
+
+  // Same K about every axis; unsymmetric shapes such as angles also buckle about their
+  // minor principal axis z, whose radius of gyration is below both rx and ry
+  const axes = useMemo(() => {
+    if (!E || !sectionProperties || L === null || K === null) {
+      return null
+    }
+    const { rx, ry, rz } = sectionProperties
+    const radii: [BucklingAxis, number][] = [['x', rx], ['y', ry]]
+    if (rz < Math.min(rx, ry) * (1 - 1e-6)) {
+      radii.push(['z', rz])
+    }
+    const results: (ColumnBucklingResult & { axis: BucklingAxis })[] = []
+    for (const [axis, r] of radii) {
+      const result = calculateColumnBuckling(E, yieldStrength, sectionProperties.area, r, L, K, P ?? undefined)
+      if (!result) {
+        return null
+      }
+      results.push({ axis, ...result })
+    }
+    return results
+  }, [E, yieldStrength, sectionProperties, L, K, P])
+  const governing = axes ? axes.reduce((min, result) => (result.criticalLoad < min.criticalLoad ? result : min)) : null
+  const fails = governing?.safetyFactor !== null && governing?.safetyFactor !== undefined && governing.safetyFactor < 1
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Column</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <NumberField id="length" label="Unbraced length, L" unit="m" min={0} value={length} onChange={setLength}
+              error={L === null ? 'Length must be greater than 0' : null} />
+            <NumberField id="load" label="Axial load, P" unit="N" min={0} value={load} onChange={setLoad}
+              error={P === null ? 'Load must be greater than 0' : null} />
+            <div>
+              <label htmlFor="endCondition" className="block text-sm font-medium text-gray-700">End conditions</label>
+              <select
+                id="endCondition"
+                value={endCondition}
+                onChange={(e) => setEndCondition(e.target.value as ColumnEndCondition)}
+                className={selectClassName}
+              >
+                {(Object.keys(effectiveLengthFactors) as ColumnEndCondition[]).map((condition) => (
+                  <option key={condition} value={condition}>{effectiveLengthFactors[condition].label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="kSource" className="block text-sm font-medium text-gray-700">Effective length factor</label>
+              <select
+                id="kSource"
+                value={kSource}
+                onChange={(e) => setKSource(e.target.value as KSource)}
+                className={selectClassName}
+              >
+                <option value="recommended">Recommended design value (K = {effectiveLengthFactors[endCondition].recommended})</option>
+                <option value="theoretical">Theoretical (K = {effectiveLengthFactors[endCondition].theoretical})</option>
+                <option value="custom">Custom</option>
+              </select>
+            </div>
+            {kSource === 'custom' && (
+              <NumberField id="customK" label="K" min={0} value={customK} onChange={setCustomK}
+                error={parsePositive(customK) === null ? 'K must be greater than 0' : null} />
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={materialId} onChange={setMaterialId} showYoungsModulus showYieldStrength />
+          {selectedMaterial && !yieldStrength && (
+            <p className="mt-2 text-xs text-amber-700">No yield strength for this material: only the Euler formula is used.</p>
+          )}
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Cross-Section</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['custom', 'profile'] as const).map((source) => (
+              <label key={source} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="sectionSource"
+                  value={source}
+                  checked={sectionSource === source}
+                  onChange={() => setSectionSource(source)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {source === 'custom' ? 'Custom shape' : 'Standard profile'}
+              </label>
+            ))}
+          </div>
+          {sectionSource === 'profile' ? (
+            <SectionSelect sections={sections} selectedSectionId={sectionId} onChange={setSectionId} />
+          ) : (
+            <SectionInput value={section} onChange={setSection} />
+          )}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {axes && governing && E ? (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Critical load, P<sub>cr</sub></dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(governing.criticalLoad / 1000).toFixed(2)} kN</dd>
+                <dd className="text-xs text-gray-500">{governing.mode === 'euler' ? 'Euler (elastic)' : 'Johnson (inelastic)'}, about the {governing.axis} axis</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Critical stress, σ<sub>cr</sub></dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(governing.criticalStress / 1e6).toFixed(1)} MPa</dd>
+              </div>
+              <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+                <dt className="text-gray-500">Safety factor, P<sub>cr</sub> / P</dt>
+                <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>{governing.safetyFactor?.toFixed(2) ?? '—'}</dd>
+                {fails && <dd className="text-xs font-medium text-red-700">Fails: the column buckles under this load</dd>}
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Slenderness, KL/r</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{governing.slenderness.toFixed(1)}</dd>
+                <dd className="text-xs text-gray-500">
+                  {governing.transitionSlenderness !== null ? `Transition Cc = ${governing.transitionSlenderness.toFixed(1)}` : 'No transition without a yield strength'}
+                </dd>
+              </div>
+            </dl>
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">By axis</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 font-medium">Axis</th>
+                  <th className="py-1 font-medium">KL/r</th>
+                  <th className="py-1 font-medium">Formula</th>
+                  <th className="py-1 font-medium">P<sub>cr</sub> (kN)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {axes.map((result) => (
+                  <tr key={result.axis}>
+                    <td className="py-1 text-gray-700">{result.axis === 'z' ? 'z (minor principal)' : result.axis}</td>
+                    <td className="py-1 text-gray-900">{result.slenderness.toFixed(1)}</td>
+                    <td className="py-1 text-gray-900">{result.mode === 'euler' ? 'Euler' : 'Johnson'}</td>
+                    <td className="py-1 text-gray-900">{(result.criticalLoad / 1000).toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500">Effective length KL = {governing.effectiveLength.toFixed(3)} m (K = {K?.toFixed(3)})</p>
+
+            <BucklingCurve E={E} yieldStrength={yieldStrength} results={[governing]} />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Enter valid inputs and select a material to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Ideal concentrically loaded column; local buckling, eccentricity and design code resistance factors are not included. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import Link from 'next/link'
+import { getCalculatorMaterials, getStandardSections } from '@/lib/queries'
+import ColumnBucklingCalculator from './ColumnBucklingCalculator'
+
+// Force dynamic rendering so newly seeded materials and sections show up
+export const dynamic = 'force-dynamic';
+
+export default async function ColumnBucklingPage() {
+  // Buckling needs a Young's modulus; the yield strength is used for short columns
+  const [materials, sections] = await Promise.all([getCalculatorMaterials(['youngsModulus']), getStandardSections()]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6 flex justify-start items-center">
+          <Link href="/" className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+            &larr; Back to Home
+          </Link>
+        </div>
+
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">Column Buckling</h1>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+            Critical load of axially loaded columns by Euler or the Johnson parabola, depending on slenderness.
+          </p>
+        </div>
+
+        <ColumnBucklingCalculator materials={materials} sections={sections} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,344 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { BeamVisualization } from '@/components/BeamVisualization'
+import { LoadListEditor, LoadRow, createLoadRow, parseLoadRow } from '@/components/LoadListEditor'
+import { SectionInput, SectionInputValue, defaultSectionDimensions, parseSectionInput } from '@/components/SectionInput'
+import { SectionOption, SectionSelect } from '@/components/SectionSelect'
+import { calculateSectionProperties, profileDimensions, profileProperties } from '@/lib/sections'
+import {
+  analyzeContinuousBeam,
+  calculateBeamStrength,
+  continuousBeamEnvelope,
+  BeamExtreme,
+  BeamLoad,
+  BeamSupport,
+} from '@/lib/calculations'
+
+type BeamMaterial = Pick<Material, 'id' | 'name' | 'density' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface ContinuousBeamCalculatorProps {
+  materials: BeamMaterial[]
+  sections: SectionOption[]
+}
+
+// A free end turns the outermost span into an overhang
+type EndCondition = 'pin' | 'fixed' | 'free'
+
+const endOptions: { value: EndCondition; label: string }[] = [
+  { value: 'pin', label: 'Pinned' },
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'free', label: 'Free (overhang)' },
+]
+
+interface SpanRow {
+  id: number
+  length: string
+}
+
+let nextSpanId = 1
+const createSpanRow = (length = '4'): SpanRow => ({ id: nextSpanId++, length })
+
+const MM4 = 1e-12
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+function governingExtreme(extreme: { max: BeamExtreme; min: BeamExtreme }): BeamExtreme {
+  return Math.abs(extreme.min.value) > Math.abs(extreme.max.value) ? extreme.min : extreme.max
+}
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+export default function ContinuousBeamCalculator({ materials, sections }: ContinuousBeamCalculatorProps) {
+  const [spanRows, setSpanRows] = useState<SpanRow[]>(() => [createSpanRow(), createSpanRow(), createSpanRow()])
+  const [leftEnd, setLeftEnd] = useState<EndCondition>('pin')
+  const [rightEnd, setRightEnd] = useState<EndCondition>('pin')
+  const [loadRows, setLoadRows] = useState<LoadRow[]>(() => [
+    createLoadRow({ type: 'uniform', magnitude: '5000', start: '0', end: '12' }),
+  ])
+  const [variableLoad, setVariableLoad] = useState('0')
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+  const [section, setSection] = useState<SectionInputValue>({ shape: 'i-beam', dimensions: { ...defaultSectionDimensions, width: '100', height: '200' } })
+  const [sectionSource, setSectionSource] = useState<'custom' | 'profile'>('custom')
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '')
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const selectedProfile = sectionSource === 'profile' ? sections.find((s) => s.id === sectionId) : undefined
+  const E = selectedMaterial?.youngsModulus ?? null
+
+  // Supports sit at the span boundaries; the ends only get one if they are not free
+  const spanLengths = useMemo(() => spanRows.map((row) => parsePositive(row.length)), [spanRows])
+  const spansValid = spanLengths.every((length) => length !== null)
+  const L = spansValid ? spanLengths.reduce<number>((sum, length) => sum + (length ?? 0), 0) : null
+  const supports = useMemo(() => {
+    if (spanLengths.some((length) => length === null)) {
+      return []
+    }
+    const boundaries = spanLengths.reduce<number[]>((xs, length) => [...xs, xs[xs.length - 1] + (length ?? 0)], [0])
+    return boundaries.flatMap((position, i): BeamSupport[] => {
+      if (i === 0) return leftEnd === 'free' ? [] : [{ position, type: leftEnd }]
+      if (i === boundaries.length - 1) return rightEnd === 'free' ? [] : [{ position, type: rightEnd }]
+      return [{ position, type: 'pin' }]
+    })
+  }, [spanLengths, leftEnd, rightEnd])
+
+  const sectionDimensions = useMemo(
+    () => (selectedProfile ? profileDimensions(selectedProfile) : parseSectionInput(section)),
+    [selectedProfile, section]
+  )
+  const sectionProperties = useMemo(() => {
+    if (selectedProfile) {
+      return profileProperties(selectedProfile)
+    }
+    return sectionDimensions ? calculateSectionProperties(sectionDimensions) : null
+  }, [selectedProfile, sectionDimensions])
+  const directI = parsePositive(section.dimensions.directI ?? '')
+  const I = sectionSource === 'custom' && section.shape === 'direct'
+    ? (directI !== null ? directI * MM4 : null)
+    : sectionProperties?.Ix ?? null
+
+  const parsedLoads = useMemo(() => loadRows.map((row) => parseLoadRow(row, L)), [loadRows, L])
+  const loadErrors = parsedLoads.map((parsed) => ('error' in parsed ? parsed.error : null))
+  const loads = useMemo(
+    () => parsedLoads.flatMap((parsed) => ('load' in parsed ? [parsed.load] : [])) as BeamLoad[],
+    [parsedLoads]
+  )
+  const hasLoadErrors = loadErrors.some((error) => error !== null)
+  const variable = parseFloat(variableLoad)
+  const variableError = Number.isFinite(variable) ? null : 'Enter a load (0 for none)'
+
+  const result = useMemo(() => {
+    if (L === null || hasLoadErrors || !E || !I) {
+      return null
+    }
+    return analyzeContinuousBeam(supports, loads, L, E, I)
+  }, [supports, loads, L, E, I, hasLoadErrors])
+
+  // Envelopes are only meaningful with a variable load to pattern
+  const envelope = useMemo(() => {
+    if (!result || L === null || !E || !I || !Number.isFinite(variable) || variable === 0) {
+      return null
+    }
+    return continuousBeamEnvelope(supports, loads, variable, L, E, I)
+  }, [result, supports, loads, variable, L, E, I])
+
+  const strength = useMemo(() => {
+    if (!result || !sectionProperties || !selectedMaterial) {
+      return null
+    }
+    return calculateBeamStrength(result, sectionProperties, selectedMaterial.yieldStrength, selectedMaterial.ultimateTensileStrength)
+  }, [result, sectionProperties, selectedMaterial])
+
+  const envelopeExtremes = envelope && {
+    momentMax: Math.max(...envelope.map((p) => p.momentMax)),
+    momentMin: Math.min(...envelope.map((p) => p.momentMin)),
+    shearMax: Math.max(...envelope.map((p) => p.shearMax)),
+    shearMin: Math.min(...envelope.map((p) => p.shearMin)),
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Spans</h2>
+          <div className="space-y-2">
+            {spanRows.map((row, index) => {
+              const length = spanLengths[index]
+              return (
+                <div key={row.id} className="flex items-end gap-2">
+                  <NumberField
+                    id={`span-${row.id}`}
+                    label={`Span ${index + 1}`}
+                    unit="m"
+                    min={0}
+                    value={row.length}
+                    onChange={(text) => setSpanRows(spanRows.map((r) => (r.id === row.id ? { ...r, length: text } : r)))}
+                    error={length === null ? 'Length must be greater than 0' : null}
+                    className="flex-grow"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSpanRows(spanRows.filter((r) => r.id !== row.id))}
+                    disabled={spanRows.length === 1}
+                    className="px-3 py-2 text-sm font-medium text-red-600 hover:text-red-800 disabled:text-gray-300"
+                    aria-label={`Remove span ${index + 1}`}
+                  >
+                    Remove
+                  </button>
+                </div>
+              )
+            })}
+            <button
+              type="button"
+              onClick={() => setSpanRows([...spanRows, createSpanRow()])}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              + Add span
+            </button>
+          </div>
+          <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="leftEnd" className="block text-sm font-medium text-gray-700">Left end</label>
+              <select id="leftEnd" value={leftEnd} onChange={(e) => setLeftEnd(e.target.value as EndCondition)} className={selectClassName}>
+                {endOptions.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="rightEnd" className="block text-sm font-medium text-gray-700">Right end</label>
+              <select id="rightEnd" value={rightEnd} onChange={(e) => setRightEnd(e.target.value as EndCondition)} className={selectClassName}>
+                {endOptions.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">Interior supports are pinned. Total length: {L !== null ? `${L.toFixed(3)} m` : '—'}</p>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Loads</h2>
+          <LoadListEditor rows={loadRows} errors={loadErrors} onChange={setLoadRows} />
+          <div className="mt-4">
+            <NumberField
+              id="variableLoad"
+              label="Variable uniform load for pattern loading"
+              unit="N/m"
+              value={variableLoad}
+              onChange={setVariableLoad}
+              error={variableError}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Applied span by span in the worst arrangement to build the envelopes; the loads above are permanent.
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Material</h2>
+          <MaterialSelect
+            materials={materials}
+            selectedMaterialId={materialId}
+            onChange={setMaterialId}
+            showYoungsModulus
+            showYieldStrength
+          />
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Cross-Section</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['custom', 'profile'] as const).map((source) => (
+              <label key={source} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="sectionSource"
+                  value={source}
+                  checked={sectionSource === source}
+                  onChange={() => setSectionSource(source)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {source === 'custom' ? 'Custom shape' : 'Standard profile'}
+              </label>
+            ))}
+          </div>
+          {sectionSource === 'profile' ? (
+            <SectionSelect sections={sections} selectedSectionId={sectionId} onChange={setSectionId} />
+          ) : (
+            <SectionInput value={section} onChange={setSection} allowDirect />
+          )}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {result ? (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Max deflection</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(result.maxDeflection.maxDeflection * 1000).toFixed(3)} mm</dd>
+                <dd className="text-xs text-gray-500">at x = {result.maxDeflection.location.toFixed(3)} m</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Max bending moment</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{governingExtreme(result.extremes.moment).value.toFixed(1)} N·m</dd>
+                <dd className="text-xs text-gray-500">at x = {governingExtreme(result.extremes.moment).location.toFixed(3)} m</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Max shear force</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{governingExtreme(result.extremes.shear).value.toFixed(1)} N</dd>
+                <dd className="text-xs text-gray-500">at x = {governingExtreme(result.extremes.shear).location.toFixed(3)} m</dd>
+              </div>
+              {strength && (
+                <div className={`rounded-md p-4 ${strength.yieldSafetyFactor !== null && strength.yieldSafetyFactor < 1 ? 'bg-red-50' : 'bg-gray-50'}`}>
+                  <dt className="text-gray-500">Max bending stress</dt>
+                  <dd className="text-2xl font-semibold text-gray-900">{(strength.maxBendingStress.value / 1e6).toFixed(1)} MPa</dd>
+                  <dd className="text-xs text-gray-500">
+                    Safety factor vs yield: {strength.yieldSafetyFactor === null ? 'n/a' : Number.isFinite(strength.yieldSafetyFactor) ? strength.yieldSafetyFactor.toFixed(2) : '∞'}
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            {envelopeExtremes && (
+              <>
+                <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Pattern-loading envelopes</h3>
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  <dt className="text-gray-500">Max sagging moment</dt>
+                  <dd className="text-gray-900">{envelopeExtremes.momentMax.toFixed(1)} N·m</dd>
+                  <dt className="text-gray-500">Max hogging moment</dt>
+                  <dd className="text-gray-900">{envelopeExtremes.momentMin.toFixed(1)} N·m</dd>
+                  <dt className="text-gray-500">Shear range</dt>
+                  <dd className="text-gray-900">{envelopeExtremes.shearMin.toFixed(1)} to {envelopeExtremes.shearMax.toFixed(1)} N</dd>
+                </dl>
+              </>
+            )}
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Support reactions (permanent loads)</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 font-medium">Support at x (m)</th>
+                  <th className="py-1 font-medium">Force (N, up +)</th>
+                  <th className="py-1 font-medium">Moment (N·m, ccw +)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.supports.map((support) => (
+                  <tr key={support.position}>
+                    <td className="py-1 text-gray-700">{support.position.toFixed(3)} ({support.type})</td>
+                    <td className="py-1 text-gray-900">{support.force.toFixed(1)}</td>
+                    <td className="py-1 text-gray-900">{support.type === 'fixed' ? support.moment.toFixed(1) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <BeamVisualization
+              length={L ?? 0}
+              deflection={result.maxDeflection.maxDeflection}
+              shape={selectedProfile ? sectionDimensions?.shape ?? 'direct' : section.shape}
+              section={sectionDimensions}
+              analysis={result}
+              envelope={envelope}
+            />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            {L !== null && supports.length < 2 && !supports.some((s) => s.type === 'fixed')
+              ? 'The beam needs at least two supports, or a fixed end, to be stable.'
+              : 'Enter valid inputs and select a material to see results.'}
+          </p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Linear-elastic Euler–Bernoulli beam theory with constant EI and rigid supports. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
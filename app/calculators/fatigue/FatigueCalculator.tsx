@@ -0,0 +1,340 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { SNCurveChart } from '@/components/SNCurveChart'
+import { steelCategories } from '@/lib/shaftDesign'
+import {
+  FatigueLoadBlock,
+  FatigueLoading,
+  MeanStressCriterion,
+  SurfaceFinish,
+  calculateEnduranceLimit,
+  calculateMinerDamage,
+  createSNCurve,
+  fatigueLoadings,
+  meanStressCriteria,
+  reliabilityFactors,
+  surfaceFinishes,
+} from '@/lib/fatigue'
+import RainflowSpectrum from './RainflowSpectrum'
+
+type FatigueMaterial = Pick<Material, 'id' | 'name' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'category' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface FatigueCalculatorProps {
+  materials: FatigueMaterial[]
+}
+
+// Spectrum rows; stresses in MPa, kept as strings while being edited
+interface BlockRow {
+  id: number
+  alternating: string
+  mean: string
+  cycles: string
+}
+
+type SpectrumSource = 'blocks' | 'rainflow'
+
+let nextRowId = 1
+const createBlockRow = (partial: Partial<Omit<BlockRow, 'id'>> = {}): BlockRow => ({
+  id: nextRowId++, alternating: '200', mean: '0', cycles: '10000', ...partial,
+})
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+const inputClassName = 'block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MPA = 1e6
+const MM = 1e-3
+
+function parseNumber(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function parsePositive(value: string): number | null {
+  const parsed = parseNumber(value)
+  return parsed !== null && parsed > 0 ? parsed : null
+}
+
+// Large cycle counts read better in exponent form
+function formatCycles(cycles: number): string {
+  if (!Number.isFinite(cycles)) return '∞'
+  return cycles >= 1e5 ? cycles.toExponential(2) : cycles.toFixed(0)
+}
+
+export default function FatigueCalculator({ materials }: FatigueCalculatorProps) {
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+  const [finish, setFinish] = useState<SurfaceFinish>('machined')
+  const [diameter, setDiameter] = useState('25')
+  const [loading, setLoading] = useState<FatigueLoading>('bending')
+  const [temperature, setTemperature] = useState('20')
+  const [reliability, setReliability] = useState(50)
+  const [miscellaneous, setMiscellaneous] = useState('1')
+  const [measuredLimit, setMeasuredLimit] = useState('')
+  const [criterion, setCriterion] = useState<MeanStressCriterion>('goodman')
+  const [spectrumSource, setSpectrumSource] = useState<SpectrumSource>('blocks')
+  const [rainflowBlocks, setRainflowBlocks] = useState<FatigueLoadBlock[] | null>(null)
+  const [blockRows, setBlockRows] = useState<BlockRow[]>(() => [
+    createBlockRow({ alternating: '220', mean: '50', cycles: '1000' }),
+    createBlockRow({ alternating: '200', mean: '0', cycles: '10000' }),
+    createBlockRow({ alternating: '120', mean: '0', cycles: '1000000' }),
+  ])
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const Sut = selectedMaterial?.ultimateTensileStrength ?? null
+  const Sy = selectedMaterial?.yieldStrength ?? null
+  const d = parsePositive(diameter)
+  const T = parseNumber(temperature)
+  const kf = parsePositive(miscellaneous)
+  // Se′ = 0.5 Sut is a steel correlation; anything else needs a measured value
+  const canEstimate = !selectedMaterial || steelCategories.includes(selectedMaterial.category)
+  const SePrime = canEstimate ? null : parsePositive(measuredLimit)
+
+  const updateBlock = (id: number, changes: Partial<BlockRow>) =>
+    setBlockRows((rows) => rows.map((row) => (row.id === id ? { ...row, ...changes } : row)))
+
+  const endurance = useMemo(() => {
+    if (!Sut || d === null || T === null || kf === null || (!canEstimate && SePrime === null)) {
+      return null
+    }
+    return calculateEnduranceLimit(Sut, {
+      finish,
+      diameter: d * MM,
+      loading,
+      temperature: T,
+      reliability,
+      miscellaneous: kf,
+      unmodifiedLimit: SePrime === null ? undefined : SePrime * MPA,
+    })
+  }, [Sut, d, T, kf, canEstimate, SePrime, finish, loading, reliability])
+
+  const curve = useMemo(() => (endurance && Sut ? createSNCurve(Sut, endurance.enduranceLimit) : null), [endurance, Sut])
+
+  const { damage, spectrumError } = useMemo(() => {
+    if (!curve) {
+      return { damage: null, spectrumError: null }
+    }
+    if (spectrumSource === 'rainflow' && !rainflowBlocks) {
+      return { damage: null, spectrumError: 'Enter a time series with at least one reversal, a positive stress scale and repetitions.' }
+    }
+    const blocks = spectrumSource === 'rainflow' && rainflowBlocks ? rainflowBlocks : blockRows.map((row) => ({
+      alternatingStress: (parseNumber(row.alternating) ?? NaN) * MPA,
+      meanStress: (parseNumber(row.mean) ?? NaN) * MPA,
+      cycles: parseNumber(row.cycles) ?? NaN,
+    }))
+    if (blocks.some((b) => !(b.alternatingStress >= 0) || !Number.isFinite(b.meanStress) || !(b.cycles >= 0))) {
+      return { damage: null, spectrumError: 'Every block needs an amplitude and cycle count of 0 or more and a mean stress.' }
+    }
+    const result = calculateMinerDamage(curve, blocks, criterion, Sy)
+    return { damage: result, spectrumError: result ? null : 'The Soderberg criterion needs a material with a yield strength.' }
+  }, [curve, spectrumSource, rainflowBlocks, blockRows, criterion, Sy])
+
+  const failed = damage !== null && damage.totalDamage >= 1
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={materialId} onChange={setMaterialId} showYieldStrength />
+          {Sut !== null && <p className="mt-2 text-xs text-gray-500">Ultimate tensile strength S<sub>ut</sub> = {(Sut / MPA).toFixed(0)} MPa</p>}
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Endurance Limit (Marin Factors)</h2>
+          {!canEstimate && selectedMaterial && (
+            <div className="mb-4">
+              <p className="mb-2 text-sm text-amber-700">
+                Sₑ′ = 0.5 S<sub>ut</sub> only holds for steels; enter the rotating-beam endurance limit of {selectedMaterial.name} (at 5×10⁸ cycles for alloys without one).
+              </p>
+              <NumberField id="measuredLimit" label="Measured endurance limit, Sₑ′" unit="MPa" min={0} value={measuredLimit} onChange={setMeasuredLimit}
+                error={SePrime === null ? 'Required for non-steel materials' : null} />
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="finish" className="block text-sm font-medium text-gray-700">Surface finish</label>
+              <select id="finish" value={finish} onChange={(e) => setFinish(e.target.value as SurfaceFinish)} className={selectClassName}>
+                {(Object.keys(surfaceFinishes) as SurfaceFinish[]).map((f) => <option key={f} value={f}>{surfaceFinishes[f].label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="loading" className="block text-sm font-medium text-gray-700">Loading</label>
+              <select id="loading" value={loading} onChange={(e) => setLoading(e.target.value as FatigueLoading)} className={selectClassName}>
+                {(Object.keys(fatigueLoadings) as FatigueLoading[]).map((l) => <option key={l} value={l}>{fatigueLoadings[l].label}</option>)}
+              </select>
+            </div>
+            <NumberField id="diameter" label="Diameter (or equivalent), d" unit="mm" min={0} value={diameter} onChange={setDiameter}
+              error={d === null ? 'Diameter must be greater than 0' : null} />
+            <NumberField id="temperature" label="Operating temperature" unit="°C" value={temperature} onChange={setTemperature}
+              error={T === null ? 'Enter a temperature' : null} />
+            <div>
+              <label htmlFor="reliability" className="block text-sm font-medium text-gray-700">Reliability</label>
+              <select id="reliability" value={reliability} onChange={(e) => setReliability(Number(e.target.value))} className={selectClassName}>
+                {reliabilityFactors.map((r) => <option key={r.reliability} value={r.reliability}>{r.reliability}%</option>)}
+              </select>
+            </div>
+            <NumberField id="miscellaneous" label="Miscellaneous factor, kf" min={0} value={miscellaneous} onChange={setMiscellaneous}
+              error={kf === null ? 'Must be greater than 0' : null} />
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Use the equivalent diameter for non-round or non-rotating parts (e.g. 0.808√(hb) for a rectangle in bending). Stress concentrations belong in the stresses below.
+          </p>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Load Spectrum</h2>
+          <div className="mb-4">
+            <label htmlFor="criterion" className="block text-sm font-medium text-gray-700">Mean stress correction</label>
+            <select id="criterion" value={criterion} onChange={(e) => setCriterion(e.target.value as MeanStressCriterion)} className={selectClassName}>
+              {(Object.keys(meanStressCriteria) as MeanStressCriterion[]).map((c) => <option key={c} value={c}>{meanStressCriteria[c]}</option>)}
+            </select>
+          </div>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['blocks', 'rainflow'] as const).map((source) => (
+              <label key={source} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="spectrumSource"
+                  value={source}
+                  checked={spectrumSource === source}
+                  onChange={() => setSpectrumSource(source)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {source === 'blocks' ? 'Load blocks' : 'Rainflow count of a time series'}
+              </label>
+            ))}
+          </div>
+          {/* Hidden rather than unmounted so the time series survives switching sources */}
+          <div className={spectrumSource === 'rainflow' ? undefined : 'hidden'}>
+            <RainflowSpectrum onBlocksChange={setRainflowBlocks} />
+          </div>
+          {spectrumSource === 'blocks' && (
+            <div className="space-y-2">
+              {blockRows.map((row, index) => (
+                <div key={row.id} className="grid grid-cols-5 gap-2 items-end">
+                  <span className="pb-2 text-sm font-medium text-gray-700">Block {index + 1}</span>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600">σₐ (MPa)</label>
+                    <input type="number" min={0} step="any" value={row.alternating} onChange={(e) => updateBlock(row.id, { alternating: e.target.value })} className={inputClassName} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600">σₘ (MPa)</label>
+                    <input type="number" step="any" value={row.mean} onChange={(e) => updateBlock(row.id, { mean: e.target.value })} className={inputClassName} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600">Cycles, n</label>
+                    <input type="number" min={0} step="any" value={row.cycles} onChange={(e) => updateBlock(row.id, { cycles: e.target.value })} className={inputClassName} />
+                  </div>
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={() => setBlockRows(blockRows.filter((r) => r.id !== row.id))}
+                      className="px-3 py-2 text-sm font-medium text-red-600 hover:text-red-800"
+                      aria-label={`Remove block ${index + 1}`}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setBlockRows([...blockRows, createBlockRow()])}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                + Add block
+              </button>
+              <p className="text-xs text-gray-500">Cycles are counted per repetition of the spectrum (e.g. per day or per flight).</p>
+            </div>
+          )}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {endurance && curve ? (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Endurance limit, S<sub>e</sub></dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(endurance.enduranceLimit / MPA).toFixed(1)} MPa</dd>
+                <dd className="text-xs text-gray-500">S<sub>e</sub>′ = {(endurance.unmodifiedLimit / MPA).toFixed(0)} MPa</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Marin factors</dt>
+                <dd className="text-gray-900">
+                  {Object.entries(endurance.factors).map(([name, value]) => `${name} = ${value.toFixed(3)}`).join(', ')}
+                </dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Basquin curve, S = a·N<sup>b</sup></dt>
+                <dd className="text-gray-900">a = {(curve.a / MPA).toFixed(1)} MPa, b = {curve.b.toFixed(4)}</dd>
+                <dd className="text-xs text-gray-500">f = {curve.f.toFixed(3)} at 10³ cycles</dd>
+              </div>
+              {damage && (
+                <div className={`rounded-md p-4 ${failed ? 'bg-red-50' : 'bg-gray-50'}`}>
+                  <dt className="text-gray-500">Miner damage per spectrum, D</dt>
+                  <dd className={`text-2xl font-semibold ${failed ? 'text-red-700' : 'text-gray-900'}`}>{damage.totalDamage.toPrecision(3)}</dd>
+                  <dd className={`text-xs ${failed ? 'font-medium text-red-700' : 'text-gray-500'}`}>
+                    {Number.isFinite(damage.repetitionsToFailure)
+                      ? `${damage.repetitionsToFailure.toPrecision(3)} repetitions to failure`
+                      : 'Infinite life: every block is below the endurance limit'}
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            {spectrumError && <p className="mt-4 text-sm text-red-600">{spectrumError}</p>}
+
+            {spectrumSource === 'rainflow' && damage && (
+              <p className="mt-4 text-sm text-gray-700">
+                {damage.blocks.length} rainflow cycles; {damage.blocks.filter((b) => b.damage > 0).length} of them are above the endurance limit.
+              </p>
+            )}
+
+            {spectrumSource === 'blocks' && damage && damage.blocks.length > 0 && (
+              <>
+                <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Damage by block</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 font-medium">Block</th>
+                      <th className="py-1 font-medium">σ<sub>ar</sub> (MPa)</th>
+                      <th className="py-1 font-medium">N</th>
+                      <th className="py-1 font-medium">n / N</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {damage.blocks.map((block, i) => (
+                      <tr key={i}>
+                        <td className="py-1 text-gray-700">{i + 1}</td>
+                        <td className="py-1 text-gray-900">{Number.isFinite(block.equivalentStress) ? (block.equivalentStress / MPA).toFixed(1) : '∞'}</td>
+                        <td className="py-1 text-gray-900">{formatCycles(block.cyclesToFailure)}</td>
+                        <td className="py-1 text-gray-900">{block.damage.toPrecision(3)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            <SNCurveChart
+              curve={curve}
+              points={(spectrumSource === 'blocks' ? damage?.blocks ?? [] : []).filter((b) => Number.isFinite(b.equivalentStress)).map((b) => ({ stress: b.equivalentStress, cycles: b.cyclesToFailure }))}
+            />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Enter valid inputs and select a material with an ultimate tensile strength to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Stress-life estimates for steels following Shigley; linear damage summation ignores load sequence effects. Verify critical designs with test data.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, useMemo, useEffect } from 'react'
+import { NumberField } from '@/components/NumberField'
+import { FatigueLoadBlock } from '@/lib/fatigue'
+import { parseTimeSeriesCsv, rainflowCount, rainflowMatrix } from '@/lib/rainflow'
+
+interface RainflowSpectrumProps {
+  // Called with one block per counted (half) cycle, in Pa, or null while the input is invalid
+  onBlocksChange: (blocks: FatigueLoadBlock[] | null) => void
+}
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MPA = 1e6
+
+const sampleHistory = ['time,stress', ...[0, 120, -80, 200, -150, 60, -40, 180, -190, 90, -20, 150, -100, 0].map((s, i) => `${(i * 0.1).toFixed(1)},${s}`)].join('\n')
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// Range histogram (counts summed over the mean bins)
+function RangeHistogram({ edges, counts }: { edges: number[]; counts: number[] }) {
+  const width = 400
+  const height = 160
+  const padding = 32
+  const maxCount = Math.max(...counts, 1)
+  const barWidth = (width - 2 * padding) / counts.length
+
+  return (
+    <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className="mt-2">
+      {counts.map((count, i) => {
+        const barHeight = (count / maxCount) * (height - 2 * padding)
+        return (
+          <g key={i}>
+            <rect x={padding + i * barWidth + 1} y={height - padding - barHeight} width={barWidth - 2} height={barHeight} fill="#0ea5e9" /* sky-500 */ />
+            {count > 0 && (
+              <text x={padding + (i + 0.5) * barWidth} y={height - padding - barHeight - 3} fontSize="8" fill="#374151" textAnchor="middle">{count}</text>
+            )}
+          </g>
+        )
+      })}
+      <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="#6b7280" />
+      <text x={padding} y={height - padding + 12} fontSize="9" fill="#374151" textAnchor="middle">0</text>
+      <text x={width - padding} y={height - padding + 12} fontSize="9" fill="#374151" textAnchor="middle">{edges[edges.length - 1].toPrecision(3)}</text>
+      <text x={width / 2} y={height - 6} fontSize="10" fill="#374151" textAnchor="middle">Range (signal units)</text>
+      <text x={10} y={height / 2} fontSize="10" fill="#374151" textAnchor="middle" transform={`rotate(-90 10 ${height / 2})`}>Cycles</text>
+    </svg>
+  )
+}
+
+export default function RainflowSpectrum({ onBlocksChange }: RainflowSpectrumProps) {
+  const [text, setText] = useState(sampleHistory)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [column, setColumn] = useState(-1) // -1 picks the last column
+  const [scale, setScale] = useState('1')
+  const [repetitions, setRepetitions] = useState('1')
+  const [rangeBins, setRangeBins] = useState('10')
+  const [meanBins, setMeanBins] = useState('5')
+
+  const series = useMemo(() => parseTimeSeriesCsv(text), [text])
+  const columnIndex = series ? (column >= 0 && column < series.columns.length ? column : series.columns.length - 1) : -1
+  const cycles = useMemo(() => (series ? rainflowCount(series.columns[columnIndex]) : []), [series, columnIndex])
+
+  const k = parsePositive(scale)
+  const n = parsePositive(repetitions)
+  const bins = { range: parsePositive(rangeBins), mean: parsePositive(meanBins) }
+  const matrix = useMemo(
+    () => (cycles.length > 0 && bins.range && bins.mean ? rainflowMatrix(cycles, bins.range, bins.mean) : null),
+    [cycles, bins.range, bins.mean]
+  )
+
+  // Each (half) cycle becomes a Miner block: amplitude = range / 2, scaled to stress
+  useEffect(() => {
+    if (cycles.length === 0 || k === null || n === null) {
+      onBlocksChange(null)
+      return
+    }
+    onBlocksChange(cycles.map((c) => ({ alternatingStress: (c.range / 2) * k * MPA, meanStress: c.mean * k * MPA, cycles: c.count * n })))
+  }, [cycles, k, n, onBlocksChange])
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setText(await file.text())
+  }
+
+  const fullCycles = cycles.filter((c) => c.count === 1).length
+  const halfCycles = cycles.length - fullCycles
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="timeSeries" className="block text-sm font-medium text-gray-700">Time series (CSV)</label>
+        <textarea
+          id="timeSeries"
+          rows={6}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value)
+            setFileName(null)
+          }}
+          className="mt-1 block w-full rounded-md border-gray-300 font-mono text-xs shadow-sm focus:border-primary-500 focus:ring-primary-500"
+        />
+        <div className="mt-2 flex items-center gap-3 text-sm">
+          <label className="inline-flex cursor-pointer items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50">
+            Upload CSV
+            <input type="file" accept=".csv,.txt,text/csv,text/plain" className="sr-only" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </label>
+          {fileName && <span className="text-xs text-gray-500">{fileName}</span>}
+        </div>
+        {!series && <p className="mt-2 text-sm text-red-600">No numeric rows found. Paste one value per line or columns separated by commas, semicolons or tabs.</p>}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="column" className="block text-sm font-medium text-gray-700">Signal column</label>
+          <select id="column" value={columnIndex} onChange={(e) => setColumn(Number(e.target.value))} className={selectClassName} disabled={!series}>
+            {series?.headers.map((header, i) => <option key={i} value={i}>{header}</option>)}
+          </select>
+        </div>
+        <NumberField id="scale" label="Stress per signal unit" unit="MPa" min={0} value={scale} onChange={setScale}
+          error={k === null ? 'Must be greater than 0' : null} />
+        <NumberField id="repetitions" label="Repetitions of the history" min={0} value={repetitions} onChange={setRepetitions}
+          error={n === null ? 'Must be greater than 0' : null} />
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField id="rangeBins" label="Range bins" min={1} step={1} value={rangeBins} onChange={setRangeBins}
+            error={bins.range === null ? 'At least 1' : null} />
+          <NumberField id="meanBins" label="Mean bins" min={1} step={1} value={meanBins} onChange={setMeanBins}
+            error={bins.mean === null ? 'At least 1' : null} />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Use 1 MPa per unit for a stress history in MPa, the elastic modulus in MPa for a strain history, or the stress per unit load at the critical location.
+      </p>
+
+      {series && (
+        <div>
+          <p className="text-sm text-gray-700">
+            {series.columns[columnIndex].length} samples, {fullCycles} full and {halfCycles} half cycles counted.
+          </p>
+          {matrix && (
+            <>
+              <RangeHistogram edges={matrix.rangeEdges} counts={matrix.counts.map((row) => row.reduce((sum, c) => sum + c, 0))} />
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 pr-2 font-medium">Range \ Mean</th>
+                      {matrix.meanEdges.slice(0, -1).map((edge, j) => (
+                        <th key={j} className="py-1 pr-2 font-medium">{edge.toPrecision(3)} – {matrix.meanEdges[j + 1].toPrecision(3)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {matrix.counts.map((row, i) => (
+                      <tr key={i}>
+                        <td className="py-1 pr-2 text-gray-700">{matrix.rangeEdges[i].toPrecision(3)} – {matrix.rangeEdges[i + 1].toPrecision(3)}</td>
+                        {row.map((count, j) => <td key={j} className="py-1 pr-2 text-gray-900">{count > 0 ? count : ''}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
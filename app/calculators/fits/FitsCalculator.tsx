@@ -0,0 +1,277 @@
+'use client'
+
+import { useState } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { FitZoneDiagram } from '@/components/FitZoneDiagram'
+import {
+  FitType,
+  HoleLetter,
+  ShaftLetter,
+  ToleranceZone,
+  calculateFit,
+  calculatePressFit,
+  holeLetters,
+  preferredFits,
+  shaftLetters,
+  toleranceGrades,
+} from '@/lib/limitsFits'
+
+type FitMaterial = Pick<Material, 'id' | 'name' | 'density' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface FitsCalculatorProps {
+  materials: FitMaterial[]
+}
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MM = 1e-3
+const UM = 1e-6
+const MPA = 1e6
+const KN = 1e3
+
+const fitTypeLabels: Record<FitType, string> = {
+  clearance: 'Clearance fit',
+  transition: 'Transition fit',
+  interference: 'Interference fit',
+}
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// A solid shaft has a bore of zero
+function parseNonNegative(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+// Deviations in µm with an explicit sign, as printed in the ISO tables
+function formatDeviation(value: number): string {
+  const um = Math.round(value / UM * 10) / 10
+  return um > 0 ? `+${um}` : `${um}`
+}
+
+function SafetyFactorCard({ label, value, failure }: { label: string; value: number | null; failure: string }) {
+  const fails = value !== null && value < 1
+  return (
+    <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>{value !== null ? value.toFixed(2) : '—'}</dd>
+      {fails && <dd className="text-xs font-medium text-red-700">{failure}</dd>}
+    </div>
+  )
+}
+
+function ZoneCard({ title, zone, nominal }: { title: string; zone: ToleranceZone; nominal: number }) {
+  return (
+    <div className="rounded-md bg-gray-50 p-4">
+      <dt className="text-gray-500">{title} {zone.designation}</dt>
+      <dd className="text-gray-900">Maximum: {((nominal + zone.upper) / MM).toFixed(4)} mm</dd>
+      <dd className="text-gray-900">Minimum: {((nominal + zone.lower) / MM).toFixed(4)} mm</dd>
+      <dd className="text-xs text-gray-500">
+        Deviations {formatDeviation(zone.upper)} / {formatDeviation(zone.lower)} µm; tolerance {(zone.tolerance / UM).toFixed(1)} µm
+      </dd>
+    </div>
+  )
+}
+
+export default function FitsCalculator({ materials }: FitsCalculatorProps) {
+  const [nominalSize, setNominalSize] = useState('50')
+  const [holeLetter, setHoleLetter] = useState<HoleLetter>('H')
+  const [holeGrade, setHoleGrade] = useState(7)
+  const [shaftLetter, setShaftLetter] = useState<ShaftLetter>('s')
+  const [shaftGrade, setShaftGrade] = useState(6)
+  const [shaftBore, setShaftBore] = useState('0')
+  const [hubOuterDiameter, setHubOuterDiameter] = useState('100')
+  const [length, setLength] = useState('40')
+  const [friction, setFriction] = useState('0.12')
+  const [shaftMaterialId, setShaftMaterialId] = useState(materials[0]?.id ?? '')
+  const [hubMaterialId, setHubMaterialId] = useState(materials[0]?.id ?? '')
+
+  const size = parsePositive(nominalSize)
+  const bore = parseNonNegative(shaftBore)
+  const hubOD = parsePositive(hubOuterDiameter)
+  const L = parsePositive(length)
+  const mu = parseNonNegative(friction)
+
+  const preferredIndex = preferredFits.findIndex((fit) =>
+    fit.hole.letter === holeLetter && fit.hole.grade === holeGrade && fit.shaft.letter === shaftLetter && fit.shaft.grade === shaftGrade
+  )
+  const choosePreferred = (value: string) => {
+    const fit = preferredFits[Number(value)]
+    if (!fit) return
+    setHoleLetter(fit.hole.letter)
+    setHoleGrade(fit.hole.grade)
+    setShaftLetter(fit.shaft.letter)
+    setShaftGrade(fit.shaft.grade)
+  }
+
+  const toMember = (material: FitMaterial | undefined) =>
+    material?.youngsModulus && material.poissonsRatio !== null
+      ? { E: material.youngsModulus, poissonsRatio: material.poissonsRatio, yieldStrength: material.yieldStrength }
+      : null
+  const shaftMaterial = toMember(materials.find((m) => m.id === shaftMaterialId))
+  const hubMaterial = toMember(materials.find((m) => m.id === hubMaterialId))
+
+  // Cheap enough to recompute on every render
+  const fit = size !== null && size <= 500
+    ? calculateFit(size * MM, { letter: holeLetter, grade: holeGrade }, { letter: shaftLetter, grade: shaftGrade })
+    : null
+  const canInterfere = fit !== null && fit.minClearance < 0
+  const pressFit = fit && canInterfere && shaftMaterial && hubMaterial && bore !== null && hubOD !== null && L !== null && mu !== null
+    ? calculatePressFit(fit, { shaftBore: bore * MM, hubOuterDiameter: hubOD * MM, length: L * MM, friction: mu }, shaftMaterial, hubMaterial)
+    : null
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Fit</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <NumberField id="nominalSize" label="Nominal size" unit="mm" min={0} value={nominalSize} onChange={setNominalSize}
+              error={size === null || size > 500 ? 'Must be above 0 and up to 500 mm' : null} />
+            <div>
+              <label htmlFor="preferredFit" className="block text-sm font-medium text-gray-700">Preferred fit</label>
+              <select id="preferredFit" value={preferredIndex} onChange={(e) => choosePreferred(e.target.value)} className={selectClassName}>
+                <option value={-1} disabled>Custom</option>
+                {preferredFits.map((option, i) => (
+                  <option key={option.label} value={i}>
+                    {option.hole.letter}{option.hole.grade}/{option.shaft.letter}{option.shaft.grade} – {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="holeLetter" className="block text-sm font-medium text-gray-700">Hole deviation</label>
+              <select id="holeLetter" value={holeLetter} onChange={(e) => setHoleLetter(e.target.value as HoleLetter)} className={selectClassName}>
+                {holeLetters.map((letter) => <option key={letter} value={letter}>{letter}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="holeGrade" className="block text-sm font-medium text-gray-700">Hole grade</label>
+              <select id="holeGrade" value={holeGrade} onChange={(e) => setHoleGrade(Number(e.target.value))} className={selectClassName}>
+                {toleranceGrades.map((grade) => <option key={grade} value={grade}>IT{grade}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="shaftLetter" className="block text-sm font-medium text-gray-700">Shaft deviation</label>
+              <select id="shaftLetter" value={shaftLetter} onChange={(e) => setShaftLetter(e.target.value as ShaftLetter)} className={selectClassName}>
+                {shaftLetters.map((letter) => <option key={letter} value={letter}>{letter}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="shaftGrade" className="block text-sm font-medium text-gray-700">Shaft grade</label>
+              <select id="shaftGrade" value={shaftGrade} onChange={(e) => setShaftGrade(Number(e.target.value))} className={selectClassName}>
+                {toleranceGrades.map((grade) => <option key={grade} value={grade}>IT{grade}</option>)}
+              </select>
+            </div>
+          </div>
+          {size !== null && size <= 500 && !fit && (
+            <p className="mt-2 text-sm text-red-600">
+              {holeLetter}{holeGrade}/{shaftLetter}{shaftGrade} is not defined by ISO 286 for {size} mm.
+            </p>
+          )}
+        </div>
+
+        {canInterfere && (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">Press Fit</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <NumberField id="shaftBore" label="Shaft bore (0 for solid)" unit="mm" min={0} value={shaftBore} onChange={setShaftBore}
+                  error={bore === null || (size !== null && bore >= size) ? 'Must be 0 or less than the nominal size' : null} />
+                <NumberField id="hubOuterDiameter" label="Hub outside diameter" unit="mm" min={0} value={hubOuterDiameter} onChange={setHubOuterDiameter}
+                  error={hubOD === null || (size !== null && hubOD <= size) ? 'Must be larger than the nominal size' : null} />
+                <NumberField id="length" label="Engaged length" unit="mm" min={0} value={length} onChange={setLength}
+                  error={L === null ? 'Must be greater than 0' : null} />
+                <NumberField id="friction" label="Friction coefficient, μ" min={0} step={0.01} value={friction} onChange={setFriction}
+                  error={mu === null ? 'Must be 0 or more' : null} />
+              </div>
+              <p className="mt-2 text-xs text-gray-500">Typical μ for pressing dry steel on steel is 0.1–0.15; lubricated 0.05–0.1.</p>
+            </div>
+
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">Materials</h2>
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-600 mb-1">Shaft</h3>
+                  <MaterialSelect materials={materials} selectedMaterialId={shaftMaterialId} onChange={setShaftMaterialId} showYoungsModulus showYieldStrength />
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-600 mb-1">Hub</h3>
+                  <MaterialSelect materials={materials} selectedMaterialId={hubMaterialId} onChange={setHubMaterialId} showYoungsModulus showYieldStrength />
+                </div>
+              </div>
+              {(!shaftMaterial || !hubMaterial) && (
+                <p className="mt-2 text-sm text-red-600">Press fits need each part&apos;s Young&apos;s modulus and Poisson&apos;s ratio.</p>
+              )}
+            </div>
+          </>
+        )}
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {fit ? (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4 sm:col-span-2">
+                <dt className="text-gray-500">{fit.hole.designation}/{fit.shaft.designation} at {(fit.nominalSize / MM).toString()} mm</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{fitTypeLabels[fit.type]}</dd>
+              </div>
+              <ZoneCard title="Hole" zone={fit.hole} nominal={fit.nominalSize} />
+              <ZoneCard title="Shaft" zone={fit.shaft} nominal={fit.nominalSize} />
+              {fit.maxClearance > 0 && (
+                <div className="rounded-md bg-gray-50 p-4">
+                  <dt className="text-gray-500">Maximum clearance</dt>
+                  <dd className="text-2xl font-semibold text-gray-900">{(fit.maxClearance / UM).toFixed(1)} µm</dd>
+                  {fit.type === 'clearance' && <dd className="text-xs text-gray-500">Minimum clearance {(fit.minClearance / UM).toFixed(1)} µm</dd>}
+                </div>
+              )}
+              {fit.minClearance < 0 && (
+                <div className="rounded-md bg-gray-50 p-4">
+                  <dt className="text-gray-500">Maximum interference</dt>
+                  <dd className="text-2xl font-semibold text-gray-900">{(-fit.minClearance / UM).toFixed(1)} µm</dd>
+                  {fit.type === 'interference' && <dd className="text-xs text-gray-500">Minimum interference {(-fit.maxClearance / UM).toFixed(1)} µm</dd>}
+                </div>
+              )}
+
+              {pressFit && (
+                <>
+                  <div className="rounded-md bg-gray-50 p-4">
+                    <dt className="text-gray-500">Contact pressure</dt>
+                    <dd className="text-2xl font-semibold text-gray-900">{(pressFit.maxPressure / MPA).toFixed(1)} MPa</dd>
+                    <dd className="text-xs text-gray-500">{(pressFit.minPressure / MPA).toFixed(1)} MPa at the minimum interference</dd>
+                  </div>
+                  <div className="rounded-md bg-gray-50 p-4">
+                    <dt className="text-gray-500">Assembly force</dt>
+                    <dd className="text-2xl font-semibold text-gray-900">{(pressFit.maxForce / KN).toFixed(2)} kN</dd>
+                    <dd className="text-xs text-gray-500">{(pressFit.minForce / KN).toFixed(2)} kN at the minimum interference</dd>
+                  </div>
+                  <SafetyFactorCard label="Shaft safety factor (von Mises)" value={pressFit.shaftSafetyFactor} failure="The shaft yields at the maximum interference" />
+                  <SafetyFactorCard label="Hub safety factor (von Mises)" value={pressFit.hubSafetyFactor} failure="The hub yields at the maximum interference" />
+                </>
+              )}
+            </dl>
+            {fit.type === 'transition' && pressFit && (
+              <div className="mt-4 rounded-md bg-amber-50 p-4 text-sm text-amber-700">
+                A transition fit may also assemble with clearance, so it cannot be relied on to transmit load by friction.
+              </div>
+            )}
+            <FitZoneDiagram fit={fit} />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Enter a nominal size and choose tolerance classes to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Deviations from ISO 286-1 for sizes up to 500 mm. Press-fit pressure from thick-cylinder theory for a hub as long as the engagement; stress concentrations at the hub edges are not included. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import { useState } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { MohrCircle } from '@/components/MohrCircle'
+import { analyzeStressState, calculatePlaneStress, transformPlaneStress } from '@/lib/stressState'
+
+type StressMaterial = Pick<Material, 'id' | 'name' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface MohrCircleCalculatorProps {
+  materials: StressMaterial[]
+}
+
+type StressMode = 'plane' | 'general'
+type ComponentKey = 'sx' | 'sy' | 'sz' | 'txy' | 'tyz' | 'tzx'
+
+const componentFields: { key: ComponentKey; label: string; general: boolean }[] = [
+  { key: 'sx', label: 'σx', general: false },
+  { key: 'sy', label: 'σy', general: false },
+  { key: 'txy', label: 'τxy', general: false },
+  { key: 'sz', label: 'σz', general: true },
+  { key: 'tyz', label: 'τyz', general: true },
+  { key: 'tzx', label: 'τzx', general: true },
+]
+
+const MPA = 1e6
+const DEG = Math.PI / 180
+
+function parseNumber(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function SafetyFactorCard({ label, value }: { label: string; value: number | null }) {
+  const fails = value !== null && value < 1
+  return (
+    <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>{value !== null ? value.toFixed(2) : '—'}</dd>
+      {fails && <dd className="text-xs font-medium text-red-700">Yields under this stress state</dd>}
+    </div>
+  )
+}
+
+export default function MohrCircleCalculator({ materials }: MohrCircleCalculatorProps) {
+  const [mode, setMode] = useState<StressMode>('plane')
+  const [components, setComponents] = useState<Record<ComponentKey, string>>({
+    sx: '80', sy: '-40', sz: '0', txy: '30', tyz: '0', tzx: '0',
+  })
+  const [angle, setAngle] = useState('30')
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const values = Object.fromEntries(componentFields.map(({ key, general }) => [
+    key,
+    mode === 'plane' && general ? 0 : parseNumber(components[key]),
+  ])) as Record<ComponentKey, number | null>
+  const theta = parseNumber(angle)
+
+  // Cheap enough to recompute on every render
+  const stress = Object.values(values).every((v) => v !== null)
+    ? Object.fromEntries(Object.entries(values).map(([key, v]) => [key, (v as number) * MPA])) as Record<ComponentKey, number>
+    : null
+  const result = stress ? analyzeStressState(stress, selectedMaterial?.yieldStrength) : null
+  const planeResult = stress && mode === 'plane' ? calculatePlaneStress(stress.sx, stress.sy, stress.txy) : null
+  const rotated = stress && mode === 'plane' && theta !== null ? transformPlaneStress(stress.sx, stress.sy, stress.txy, theta * DEG) : null
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Stress State</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['plane', 'general'] as const).map((option) => (
+              <label key={option} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="mode"
+                  value={option}
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {option === 'plane' ? 'Plane stress (2D)' : 'General (3D)'}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {componentFields.filter((field) => mode === 'general' || !field.general).map(({ key, label }) => (
+              <NumberField
+                key={key}
+                id={key}
+                label={label}
+                unit="MPa"
+                value={components[key]}
+                onChange={(value) => setComponents((current) => ({ ...current, [key]: value }))}
+                error={parseNumber(components[key]) === null ? 'Enter a number' : null}
+              />
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">Tension positive; τxy acts in +y on the +x face.</p>
+        </div>
+
+        {mode === 'plane' && (
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">Rotated Element</h2>
+            <NumberField id="angle" label="Rotation, θ (counter-clockwise)" unit="°" value={angle} onChange={setAngle}
+              error={theta === null ? 'Enter an angle' : null} />
+            <input
+              type="range"
+              min={-90}
+              max={90}
+              step={0.5}
+              value={theta ?? 0}
+              onChange={(e) => setAngle(e.target.value)}
+              className="mt-3 w-full"
+              aria-label="Rotation angle"
+            />
+          </div>
+        )}
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={materialId} onChange={setMaterialId} showYieldStrength />
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {result ? (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Principal stresses</dt>
+                {result.principal.map((s, i) => (
+                  <dd key={i} className="text-gray-900">σ<sub>{i + 1}</sub> = {(s / MPA).toFixed(2)} MPa</dd>
+                ))}
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Maximum shear, τ<sub>max</sub></dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(result.maxShear / MPA).toFixed(2)} MPa</dd>
+                {planeResult && <dd className="text-xs text-gray-500">In-plane: {(planeResult.radius / MPA).toFixed(2)} MPa</dd>}
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">von Mises stress</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(result.vonMises / MPA).toFixed(2)} MPa</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Tresca stress, σ<sub>1</sub> − σ<sub>3</sub></dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(result.tresca / MPA).toFixed(2)} MPa</dd>
+              </div>
+              <SafetyFactorCard label="Safety factor (von Mises)" value={result.vonMisesSafetyFactor} />
+              <SafetyFactorCard label="Safety factor (Tresca)" value={result.trescaSafetyFactor} />
+              {planeResult && rotated && theta !== null && (
+                <>
+                  <div className="rounded-md bg-gray-50 p-4">
+                    <dt className="text-gray-500">Principal direction</dt>
+                    <dd className="text-gray-900">θ<sub>p</sub> = {(planeResult.principalAngle / DEG).toFixed(2)}° (σ<sub>1</sub> in plane)</dd>
+                    <dd className="text-gray-900">θ<sub>s</sub> = {(planeResult.shearAngle / DEG).toFixed(2)}° (max shear)</dd>
+                  </div>
+                  <div className="rounded-md bg-gray-50 p-4">
+                    <dt className="text-gray-500">Element at θ = {theta.toFixed(1)}°</dt>
+                    <dd className="text-gray-900">σ<sub>x′</sub> = {(rotated.normal / MPA).toFixed(2)} MPa</dd>
+                    <dd className="text-gray-900">σ<sub>y′</sub> = {(rotated.transverse / MPA).toFixed(2)} MPa</dd>
+                    <dd className="text-gray-900">τ<sub>x′y′</sub> = {(rotated.shear / MPA).toFixed(2)} MPa</dd>
+                  </div>
+                </>
+              )}
+            </dl>
+
+            {mode === 'general' && (
+              <>
+                <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Principal directions (direction cosines)</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 font-medium">Stress</th>
+                      <th className="py-1 font-medium">x</th>
+                      <th className="py-1 font-medium">y</th>
+                      <th className="py-1 font-medium">z</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {result.directions.map((direction, i) => (
+                      <tr key={i}>
+                        <td className="py-1 text-gray-700">σ<sub>{i + 1}</sub></td>
+                        {direction
+                          ? direction.map((c, j) => <td key={j} className="py-1 text-gray-900">{c.toFixed(4)}</td>)
+                          : <td colSpan={3} className="py-1 text-gray-500">Any direction in the plane of the repeated stresses</td>}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            <MohrCircle
+              principal={result.principal}
+              plane={stress && mode === 'plane' && theta !== null ? { sx: stress.sx, sy: stress.sy, txy: stress.txy, angle: theta * DEG } : undefined}
+              onAngleChange={(value) => setAngle((value / DEG).toFixed(1))}
+            />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Enter all stress components to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Yield checks assume a ductile, isotropic material with equal tensile and compressive yield strengths. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,386 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { SectionOption, SectionSelect } from '@/components/SectionSelect'
+import { FrameSupportType, PlaneFrameVisualization } from '@/components/PlaneFrameVisualization'
+import { analyzePlaneFrame, FrameMember, FrameModel, FrameSupport } from '@/lib/planeFrame'
+
+type FrameMaterial = Pick<Material, 'id' | 'name' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface PlaneFrameCalculatorProps {
+  materials: FrameMaterial[]
+  sections: SectionOption[]
+}
+
+// Form rows; numbers stay as strings while being edited
+interface JointRow {
+  id: number
+  x: string
+  y: string
+  support: FrameSupportType | 'none'
+  fx: string
+  fy: string
+  moment: string
+}
+
+interface MemberRow {
+  id: number
+  start: string // 1-based joint number, as shown in the drawing
+  end: string
+  type: 'truss' | 'frame'
+  w: string // N/m along local y', frame members only
+}
+
+const supportOptions: { value: JointRow['support']; label: string }[] = [
+  { value: 'none', label: 'Free' },
+  { value: 'pin', label: 'Pin' },
+  { value: 'roller-x', label: 'Roller (rolls in x)' },
+  { value: 'roller-y', label: 'Roller (rolls in y)' },
+  { value: 'fixed', label: 'Fixed' },
+]
+
+const restraints: Record<FrameSupportType, Omit<FrameSupport, 'joint'>> = {
+  'pin': { x: true, y: true, rotation: false },
+  'roller-x': { x: false, y: true, rotation: false },
+  'roller-y': { x: true, y: false, rotation: false },
+  'fixed': { x: true, y: true, rotation: true },
+}
+
+let nextRowId = 1
+const createJointRow = (partial: Partial<Omit<JointRow, 'id'>> = {}): JointRow => ({
+  id: nextRowId++, x: '0', y: '0', support: 'none', fx: '0', fy: '0', moment: '0', ...partial,
+})
+const createMemberRow = (partial: Partial<Omit<MemberRow, 'id'>> = {}): MemberRow => ({
+  id: nextRowId++, start: '1', end: '2', type: 'truss', w: '0', ...partial,
+})
+
+// Section values entered by hand are in mm² and mm⁴
+const MM2 = 1e-6
+const MM4 = 1e-12
+
+const inputClassName = 'block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+function parseNumber(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// Joint numbers are entered from 1; returns a zero-based index, or null unless a whole number
+function parseJointNumber(value: string): number | null {
+  const parsed = Number(value)
+  return value.trim() !== '' && Number.isInteger(parsed) ? parsed - 1 : null
+}
+
+export default function PlaneFrameCalculator({ materials, sections }: PlaneFrameCalculatorProps) {
+  // A simple triangulated bracket as the starting example
+  const [jointRows, setJointRows] = useState<JointRow[]>(() => [
+    createJointRow({ x: '0', y: '0', support: 'pin' }),
+    createJointRow({ x: '4', y: '0', support: 'roller-x' }),
+    createJointRow({ x: '2', y: '2', fy: '-10000' }),
+  ])
+  const [memberRows, setMemberRows] = useState<MemberRow[]>(() => [
+    createMemberRow({ start: '1', end: '2' }),
+    createMemberRow({ start: '1', end: '3' }),
+    createMemberRow({ start: '2', end: '3' }),
+  ])
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+  const [sectionSource, setSectionSource] = useState<'profile' | 'custom'>(sections.length > 0 ? 'profile' : 'custom')
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '')
+  const [customArea, setCustomArea] = useState('1000')
+  const [customInertia, setCustomInertia] = useState('1000000')
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const selectedProfile = sections.find((s) => s.id === sectionId)
+  const E = selectedMaterial?.youngsModulus ?? null
+
+  // All members share one section; profiles bend about their strong axis
+  const customA = parseNumber(customArea)
+  const customI = parseNumber(customInertia)
+  const A = sectionSource === 'profile' ? selectedProfile?.area ?? null : customA !== null && customA > 0 ? customA * MM2 : null
+  const I = sectionSource === 'profile' ? selectedProfile?.inertiaX ?? null : customI !== null && customI > 0 ? customI * MM4 : null
+
+  const updateJoint = (id: number, changes: Partial<JointRow>) =>
+    setJointRows(jointRows.map((row) => (row.id === id ? { ...row, ...changes } : row)))
+  const updateMember = (id: number, changes: Partial<MemberRow>) =>
+    setMemberRows(memberRows.map((row) => (row.id === id ? { ...row, ...changes } : row)))
+
+  // Build the model, collecting a message for the first bad input
+  const { model, inputError } = useMemo((): { model: FrameModel | null; inputError: string | null } => {
+    if (!E || !A || !I) {
+      return { model: null, inputError: 'Select a material with a Young’s modulus and a valid section.' }
+    }
+    const joints = jointRows.map((row) => ({ x: parseNumber(row.x), y: parseNumber(row.y) }))
+    if (joints.some((j) => j.x === null || j.y === null)) {
+      return { model: null, inputError: 'Every joint needs x and y coordinates.' }
+    }
+    const validJoint = (joint: number | null): joint is number => joint !== null && joint >= 0 && joint < joints.length
+    const members: FrameMember[] = []
+    for (const row of memberRows) {
+      const start = parseJointNumber(row.start)
+      const end = parseJointNumber(row.end)
+      if (!validJoint(start) || !validJoint(end) || start === end) {
+        return { model: null, inputError: 'Members must join two different joints (whole numbers from 1).' }
+      }
+      members.push({ start, end, type: row.type, E, A, I: row.type === 'frame' ? I : undefined })
+    }
+    const unconnected = joints.findIndex((_, joint) => !members.some((m) => m.start === joint || m.end === joint))
+    if (unconnected >= 0) {
+      return { model: null, inputError: `Joint ${unconnected + 1} is not connected to any member; connect or remove it.` }
+    }
+    return {
+      model: {
+        joints: joints.map((j) => ({ x: j.x ?? 0, y: j.y ?? 0 })),
+        members,
+        supports: jointRows.flatMap((row, joint) => (row.support === 'none' ? [] : [{ joint, ...restraints[row.support] }])),
+        jointLoads: jointRows.map((row, joint) => ({
+          joint,
+          fx: parseNumber(row.fx) ?? 0,
+          fy: parseNumber(row.fy) ?? 0,
+          moment: parseNumber(row.moment) ?? 0,
+        })),
+        memberLoads: memberRows.flatMap((row, member) => {
+          const w = parseNumber(row.w) ?? 0
+          return row.type === 'frame' && w !== 0 ? [{ member, w }] : []
+        }),
+      },
+      inputError: null,
+    }
+  }, [jointRows, memberRows, E, A, I])
+
+  const result = useMemo(() => (model ? analyzePlaneFrame(model) : null), [model])
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Joints</h2>
+          <div className="space-y-2">
+            {jointRows.map((row, index) => (
+              <div key={row.id} className="grid grid-cols-8 gap-2 items-end">
+                <span className="pb-2 text-sm font-medium text-gray-700">{index + 1}</span>
+                {(['x', 'y'] as const).map((key) => (
+                  <div key={key}>
+                    <label className="block text-xs font-medium text-gray-600">{key} (m)</label>
+                    <input type="number" step="any" value={row[key]} onChange={(e) => updateJoint(row.id, { [key]: e.target.value })} className={inputClassName} />
+                  </div>
+                ))}
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-gray-600">Support</label>
+                  <select value={row.support} onChange={(e) => updateJoint(row.id, { support: e.target.value as JointRow['support'] })} className={inputClassName}>
+                    {supportOptions.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                </div>
+                {(['fx', 'fy', 'moment'] as const).map((key) => (
+                  <div key={key}>
+                    <label className="block text-xs font-medium text-gray-600">{key === 'moment' ? 'M (N·m)' : `${key.toUpperCase()} (N)`}</label>
+                    <input type="number" step="any" value={row[key]} onChange={(e) => updateJoint(row.id, { [key]: e.target.value })} className={inputClassName} />
+                  </div>
+                ))}
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setJointRows([...jointRows, createJointRow()])}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                + Add joint
+              </button>
+              <button
+                type="button"
+                onClick={() => setJointRows(jointRows.slice(0, -1))}
+                disabled={jointRows.length <= 2}
+                className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-800 disabled:text-gray-300"
+              >
+                Remove last joint
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">Forces act along global x and y (y up); moments are counter-clockwise positive.</p>
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Members</h2>
+          <div className="space-y-2">
+            {memberRows.map((row, index) => (
+              <div key={row.id} className="grid grid-cols-6 gap-2 items-end">
+                <span className="pb-2 text-sm font-medium text-gray-700">M{index + 1}</span>
+                {(['start', 'end'] as const).map((key) => (
+                  <div key={key}>
+                    <label className="block text-xs font-medium text-gray-600">{key === 'start' ? 'From joint' : 'To joint'}</label>
+                    <input type="number" min={1} step={1} value={row[key]} onChange={(e) => updateMember(row.id, { [key]: e.target.value })} className={inputClassName} />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">Type</label>
+                  <select value={row.type} onChange={(e) => updateMember(row.id, { type: e.target.value as MemberRow['type'] })} className={inputClassName}>
+                    <option value="truss">Truss</option>
+                    <option value="frame">Frame</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">w (N/m)</label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={row.w}
+                    disabled={row.type !== 'frame'}
+                    onChange={(e) => updateMember(row.id, { w: e.target.value })}
+                    className={`${inputClassName} disabled:bg-gray-100`}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() => setMemberRows(memberRows.filter((r) => r.id !== row.id))}
+                    className="px-3 py-2 text-sm font-medium text-red-600 hover:text-red-800"
+                    aria-label={`Remove member ${index + 1}`}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setMemberRows([...memberRows, createMemberRow()])}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              + Add member
+            </button>
+            <p className="text-xs text-gray-500">
+              Truss members are pinned at both ends. Member loads act perpendicular to frame members, positive to the left when looking from the first joint to the second.
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={materialId} onChange={setMaterialId} showYoungsModulus />
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Section (all members)</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['profile', 'custom'] as const).map((source) => (
+              <label key={source} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="sectionSource"
+                  value={source}
+                  checked={sectionSource === source}
+                  onChange={() => setSectionSource(source)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {source === 'profile' ? 'Standard profile' : 'Custom A and I'}
+              </label>
+            ))}
+          </div>
+          {sectionSource === 'profile' ? (
+            <SectionSelect sections={sections} selectedSectionId={sectionId} onChange={setSectionId} />
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <NumberField id="customArea" label="Area, A" unit="mm²" min={0} value={customArea} onChange={setCustomArea}
+                error={customA !== null && customA > 0 ? null : 'Area must be greater than 0'} />
+              <NumberField id="customInertia" label="Second moment, I" unit="mm⁴" min={0} value={customInertia} onChange={setCustomInertia}
+                error={customI !== null && customI > 0 ? null : 'I must be greater than 0'} />
+            </div>
+          )}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {inputError && <p className="text-sm text-gray-500">{inputError}</p>}
+        {model && !result && (
+          <p className="text-sm text-red-600">The structure cannot be solved: it is unstable (a mechanism) or has overlapping joints.</p>
+        )}
+        {model && result && (
+          <>
+            <PlaneFrameVisualization
+              model={model}
+              result={result}
+              supportTypes={jointRows.map((row) => (row.support === 'none' ? null : row.support))}
+            />
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Member forces</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 font-medium">Member</th>
+                  <th className="py-1 font-medium">Axial (N, tension +)</th>
+                  <th className="py-1 font-medium">Stress (MPa)</th>
+                  <th className="py-1 font-medium">M start / end (N·m)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.memberForces.map((f) => (
+                  <tr key={f.member}>
+                    <td className="py-1 text-gray-700">M{f.member + 1} ({f.length.toFixed(3)} m)</td>
+                    <td className={`py-1 ${f.axial < 0 ? 'text-red-700' : 'text-gray-900'}`}>{f.axial.toFixed(1)}</td>
+                    <td className="py-1 text-gray-900">{A ? (f.axial / A / 1e6).toFixed(2) : '—'}</td>
+                    <td className="py-1 text-gray-900">
+                      {model.members[f.member].type === 'frame' ? `${f.start.moment.toFixed(1)} / ${f.end.moment.toFixed(1)}` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Joint displacements</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 font-medium">Joint</th>
+                  <th className="py-1 font-medium">u (mm)</th>
+                  <th className="py-1 font-medium">v (mm)</th>
+                  <th className="py-1 font-medium">θ (mrad)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.displacements.map((d, j) => (
+                  <tr key={j}>
+                    <td className="py-1 text-gray-700">{j + 1}</td>
+                    <td className="py-1 text-gray-900">{(d.u * 1000).toFixed(3)}</td>
+                    <td className="py-1 text-gray-900">{(d.v * 1000).toFixed(3)}</td>
+                    <td className="py-1 text-gray-900">{(d.rotation * 1000).toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Support reactions</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 font-medium">Joint</th>
+                  <th className="py-1 font-medium">Rx (N)</th>
+                  <th className="py-1 font-medium">Ry (N)</th>
+                  <th className="py-1 font-medium">M (N·m)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.reactions.map((r) => (
+                  <tr key={r.joint}>
+                    <td className="py-1 text-gray-700">{r.joint + 1}</td>
+                    <td className="py-1 text-gray-900">{r.fx.toFixed(1)}</td>
+                    <td className="py-1 text-gray-900">{r.fy.toFixed(1)}</td>
+                    <td className="py-1 text-gray-900">{r.moment.toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Linear-elastic, small-displacement analysis; member buckling is not checked. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,342 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { RadialStressChart } from '@/components/RadialStressChart'
+import {
+  CylinderEnds,
+  RadialStressPoint,
+  ThickWallResult,
+  VesselShape,
+  calculateShrinkFit,
+  calculateThickWallVessel,
+  calculateThinWallVessel,
+} from '@/lib/pressureVessel'
+
+type VesselMaterial = Pick<Material, 'id' | 'name' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface PressureVesselCalculatorProps {
+  materials: VesselMaterial[]
+}
+
+type AnalysisMode = 'thin' | 'thick' | 'shrink'
+
+const modeLabels: Record<AnalysisMode, string> = {
+  thin: 'Thin wall',
+  thick: 'Thick wall (Lamé)',
+  shrink: 'Shrink fit',
+}
+
+const endOptions: { value: CylinderEnds; label: string }[] = [
+  { value: 'closed', label: 'Closed ends' },
+  { value: 'open', label: 'Open ends (σz = 0)' },
+  { value: 'plane-strain', label: 'Plane strain (εz = 0)' },
+]
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MPA = 1e6
+const MM = 1e-3
+const MICRON = 1e-6
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// Pressures and the shrink-fit bore may be zero
+function parseNonNegative(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+function SafetyFactorCard({ label, value }: { label: string; value: number | null }) {
+  const fails = value !== null && value < 1
+  return (
+    <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>{value !== null ? value.toFixed(2) : '—'}</dd>
+      {fails && <dd className="text-xs font-medium text-red-700">Fails: yields under this pressure</dd>}
+    </div>
+  )
+}
+
+// Bore and outside stresses of a thick-walled member
+function SurfaceStressTable({ result, axialLabel }: { result: ThickWallResult; axialLabel: string }) {
+  const rows: { label: string; point: RadialStressPoint }[] = [
+    { label: 'Inner surface', point: result.inner },
+    { label: 'Outer surface', point: result.outer },
+  ]
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 font-medium">MPa</th>
+          <th className="py-1 font-medium">σr</th>
+          <th className="py-1 font-medium">σθ</th>
+          <th className="py-1 font-medium">{axialLabel}</th>
+          <th className="py-1 font-medium">von Mises</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {rows.map(({ label, point }) => (
+          <tr key={label}>
+            <td className="py-1 text-gray-700">{label} (r = {(point.radius / MM).toFixed(1)} mm)</td>
+            <td className="py-1 text-gray-900">{(point.radial / MPA).toFixed(1)}</td>
+            <td className="py-1 text-gray-900">{(point.hoop / MPA).toFixed(1)}</td>
+            <td className="py-1 text-gray-900">{(point.axial / MPA).toFixed(1)}</td>
+            <td className="py-1 text-gray-900">{(point.vonMises / MPA).toFixed(1)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function PressureVesselCalculator({ materials }: PressureVesselCalculatorProps) {
+  const [mode, setMode] = useState<AnalysisMode>('thick')
+  const [shape, setShape] = useState<VesselShape>('cylinder')
+  const [ends, setEnds] = useState<CylinderEnds>('closed')
+  const [innerPressure, setInnerPressure] = useState('50')
+  const [outerPressure, setOuterPressure] = useState('0')
+  const [innerDiameter, setInnerDiameter] = useState('100')
+  const [outerDiameter, setOuterDiameter] = useState('160')
+  const [thickness, setThickness] = useState('5')
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+  // Shrink fit: inner member bore, interface and outer diameters with the diametral interference
+  const [shaftBore, setShaftBore] = useState('0')
+  const [interfaceDiameter, setInterfaceDiameter] = useState('50')
+  const [hubDiameter, setHubDiameter] = useState('100')
+  const [interference, setInterference] = useState('40')
+  const [innerMaterialId, setInnerMaterialId] = useState(materials[0]?.id ?? '')
+  const [outerMaterialId, setOuterMaterialId] = useState(materials[0]?.id ?? '')
+
+  const material = materials.find((m) => m.id === materialId)
+  const innerMaterial = materials.find((m) => m.id === innerMaterialId)
+  const outerMaterial = materials.find((m) => m.id === outerMaterialId)
+
+  const pi = parseNonNegative(innerPressure)
+  const po = parseNonNegative(outerPressure)
+  const di = parsePositive(innerDiameter)
+  const dOuter = parsePositive(outerDiameter)
+  const t = parsePositive(thickness)
+  const bore = parseNonNegative(shaftBore)
+  const dInterface = parsePositive(interfaceDiameter)
+  const dHub = parsePositive(hubDiameter)
+  const delta = parseNonNegative(interference)
+
+  const thin = useMemo(() => (
+    mode === 'thin' && pi !== null && di !== null && t !== null
+      ? calculateThinWallVessel(shape, pi * MPA, di * MM, t * MM, material?.yieldStrength)
+      : null
+  ), [mode, shape, pi, di, t, material])
+
+  const needsPoisson = mode === 'thick' && shape === 'cylinder' && ends === 'plane-strain'
+  const thick = useMemo(() => {
+    if (mode !== 'thick' || pi === null || po === null || di === null || dOuter === null || dOuter <= di) {
+      return null
+    }
+    if (needsPoisson && material?.poissonsRatio == null) {
+      return null
+    }
+    return calculateThickWallVessel(shape, (di / 2) * MM, (dOuter / 2) * MM, pi * MPA, po * MPA, {
+      ends,
+      poissonsRatio: material?.poissonsRatio ?? undefined,
+      yieldStrength: material?.yieldStrength,
+    })
+  }, [mode, shape, ends, pi, po, di, dOuter, material, needsPoisson])
+
+  const shrink = useMemo(() => {
+    if (mode !== 'shrink' || bore === null || dInterface === null || dHub === null || delta === null) {
+      return null
+    }
+    const member = (m: VesselMaterial | undefined) =>
+      m?.youngsModulus && m.poissonsRatio != null ? { E: m.youngsModulus, poissonsRatio: m.poissonsRatio, yieldStrength: m.yieldStrength } : null
+    const inner = member(innerMaterial)
+    const outer = member(outerMaterial)
+    if (!inner || !outer) {
+      return null
+    }
+    return calculateShrinkFit(
+      { innerRadius: (bore / 2) * MM, interfaceRadius: (dInterface / 2) * MM, outerRadius: (dHub / 2) * MM, radialInterference: (delta / 2) * MICRON },
+      inner,
+      outer
+    )
+  }, [mode, bore, dInterface, dHub, delta, innerMaterial, outerMaterial])
+
+  const axialLabel = shape === 'sphere' ? 'σφ' : 'σz'
+  const missingPoisson = (needsPoisson && material?.poissonsRatio == null)
+    || (mode === 'shrink' && (innerMaterial?.poissonsRatio == null || outerMaterial?.poissonsRatio == null))
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Analysis</h2>
+          <div className="flex flex-wrap gap-6 text-sm">
+            {(Object.keys(modeLabels) as AnalysisMode[]).map((option) => (
+              <label key={option} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="mode"
+                  value={option}
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {modeLabels[option]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {mode !== 'shrink' ? (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">Vessel</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="shape" className="block text-sm font-medium text-gray-700">Shape</label>
+                  <select id="shape" value={shape} onChange={(e) => setShape(e.target.value as VesselShape)} className={selectClassName}>
+                    <option value="cylinder">Cylinder</option>
+                    <option value="sphere">Sphere</option>
+                  </select>
+                </div>
+                {mode === 'thick' && shape === 'cylinder' && (
+                  <div>
+                    <label htmlFor="ends" className="block text-sm font-medium text-gray-700">Axial condition</label>
+                    <select id="ends" value={ends} onChange={(e) => setEnds(e.target.value as CylinderEnds)} className={selectClassName}>
+                      {endOptions.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                  </div>
+                )}
+                <NumberField id="innerDiameter" label="Inner diameter" unit="mm" min={0} value={innerDiameter} onChange={setInnerDiameter}
+                  error={di === null ? 'Must be greater than 0' : null} />
+                {mode === 'thin' ? (
+                  <NumberField id="thickness" label="Wall thickness, t" unit="mm" min={0} value={thickness} onChange={setThickness}
+                    error={t === null ? 'Must be greater than 0' : null} />
+                ) : (
+                  <NumberField id="outerDiameter" label="Outer diameter" unit="mm" min={0} value={outerDiameter} onChange={setOuterDiameter}
+                    error={dOuter === null || (di !== null && dOuter <= di) ? 'Must be larger than the inner diameter' : null} />
+                )}
+                <NumberField id="innerPressure" label="Internal pressure" unit="MPa" min={0} value={innerPressure} onChange={setInnerPressure}
+                  error={pi === null ? 'Must be 0 or more' : null} />
+                {mode === 'thick' && (
+                  <NumberField id="outerPressure" label="External pressure" unit="MPa" min={0} value={outerPressure} onChange={setOuterPressure}
+                    error={po === null ? 'Must be 0 or more' : null} />
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">Material</h2>
+              <MaterialSelect materials={materials} selectedMaterialId={materialId} onChange={setMaterialId} showYieldStrength />
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">Fit Geometry</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <NumberField id="shaftBore" label="Inner member bore (0 = solid)" unit="mm" min={0} value={shaftBore} onChange={setShaftBore}
+                  error={bore === null ? 'Must be 0 or more' : null} />
+                <NumberField id="interfaceDiameter" label="Interface diameter" unit="mm" min={0} value={interfaceDiameter} onChange={setInterfaceDiameter}
+                  error={dInterface === null || (bore !== null && dInterface <= bore) ? 'Must be larger than the bore' : null} />
+                <NumberField id="hubDiameter" label="Outer member diameter" unit="mm" min={0} value={hubDiameter} onChange={setHubDiameter}
+                  error={dHub === null || (dInterface !== null && dHub <= dInterface) ? 'Must be larger than the interface' : null} />
+                <NumberField id="interference" label="Diametral interference" unit="µm" min={0} value={interference} onChange={setInterference}
+                  error={delta === null ? 'Must be 0 or more' : null} />
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">Inner Member Material</h2>
+              <MaterialSelect materials={materials} selectedMaterialId={innerMaterialId} onChange={setInnerMaterialId} showYoungsModulus showYieldStrength />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">Outer Member Material</h2>
+              <MaterialSelect materials={materials} selectedMaterialId={outerMaterialId} onChange={setOuterMaterialId} showYoungsModulus showYieldStrength />
+            </div>
+          </>
+        )}
+        {missingPoisson && <p className="text-sm text-red-600">The selected material has no Poisson&apos;s ratio, which this analysis needs.</p>}
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {thin && (
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Hoop stress, σθ</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(thin.hoopStress / MPA).toFixed(1)} MPa</dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">{shape === 'sphere' ? 'Meridional stress, σφ' : 'Longitudinal stress, σz'}</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(thin.longitudinalStress / MPA).toFixed(1)} MPa</dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">von Mises stress</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(thin.vonMises / MPA).toFixed(1)} MPa</dd>
+            </div>
+            <SafetyFactorCard label="Safety factor vs. yield" value={thin.safetyFactor} />
+            <div className={`rounded-md p-4 ${thin.thinWallValid ? 'bg-gray-50' : 'bg-amber-50'}`}>
+              <dt className="text-gray-500">Radius / thickness</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{thin.radiusToThickness.toFixed(1)}</dd>
+              {!thin.thinWallValid && <dd className="text-xs font-medium text-amber-700">Below 10: use the thick-wall analysis</dd>}
+            </div>
+          </dl>
+        )}
+
+        {thick && (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Maximum von Mises stress</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(thick.maxVonMises / MPA).toFixed(1)} MPa</dd>
+              </div>
+              <SafetyFactorCard label="Safety factor vs. yield" value={thick.safetyFactor} />
+            </dl>
+            <div className="mt-6">
+              <SurfaceStressTable result={thick} axialLabel={axialLabel} />
+            </div>
+            <RadialStressChart segments={[{ points: thick.points }]} axialLabel={shape === 'sphere' ? 'Meridional σφ' : undefined} />
+          </>
+        )}
+
+        {shrink && (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Interface pressure, p</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(shrink.pressure / MPA).toFixed(1)} MPa</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Radial displacements at the interface</dt>
+                <dd className="text-gray-900">Inner member: {(shrink.innerRadialDisplacement / MICRON).toFixed(2)} µm</dd>
+                <dd className="text-gray-900">Outer member: +{(shrink.outerRadialDisplacement / MICRON).toFixed(2)} µm</dd>
+              </div>
+              <SafetyFactorCard label="Inner member safety factor" value={shrink.inner.safetyFactor} />
+              <SafetyFactorCard label="Outer member safety factor" value={shrink.outer.safetyFactor} />
+            </dl>
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">Inner member</h3>
+            <SurfaceStressTable result={shrink.inner} axialLabel="σz" />
+            <h3 className="mt-4 mb-2 text-sm font-semibold text-gray-700">Outer member</h3>
+            <SurfaceStressTable result={shrink.outer} axialLabel="σz" />
+            <RadialStressChart segments={[{ label: 'Inner', points: shrink.inner.points }, { label: 'Outer', points: shrink.outer.points }]} />
+          </>
+        )}
+
+        {!thin && !thick && !shrink && (
+          <p className="text-sm text-gray-500">Enter valid inputs and select a material to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Linear-elastic analysis away from end closures, nozzles and other discontinuities; not a substitute for a pressure vessel code. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,261 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import {
+  ShaftDesignResult,
+  ShaftFatigueCriterion,
+  calculateShaftMinimumDiameter,
+  calculateShaftSafetyFactor,
+  estimateEnduranceLimit,
+  shaftFatigueCriteria,
+  steelCategories,
+} from '@/lib/shaftDesign'
+
+type ShaftMaterial = Pick<Material, 'id' | 'name' | 'category' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface ShaftDesignCalculatorProps {
+  materials: ShaftMaterial[]
+}
+
+type DesignMode = 'diameter' | 'safety'
+type EnduranceSource = 'estimate' | 'custom'
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MPA = 1e6
+const MM = 1e-3
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// Moments and torques may be zero (e.g. no mean bending on a rotating shaft)
+function parseNonNegative(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+export default function ShaftDesignCalculator({ materials }: ShaftDesignCalculatorProps) {
+  const [mode, setMode] = useState<DesignMode>('diameter')
+  const [criterion, setCriterion] = useState<ShaftFatigueCriterion>('goodman')
+  const [alternatingMoment, setAlternatingMoment] = useState('150')
+  const [midrangeMoment, setMidrangeMoment] = useState('0')
+  const [alternatingTorque, setAlternatingTorque] = useState('0')
+  const [midrangeTorque, setMidrangeTorque] = useState('120')
+  const [kf, setKf] = useState('1.6')
+  const [kfs, setKfs] = useState('1.4')
+  const [targetSafetyFactor, setTargetSafetyFactor] = useState('1.5')
+  const [diameter, setDiameter] = useState('30')
+  const [enduranceSource, setEnduranceSource] = useState<EnduranceSource>('estimate')
+  const [marinProduct, setMarinProduct] = useState('0.6')
+  const [customEndurance, setCustomEndurance] = useState('200')
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const Sut = selectedMaterial?.ultimateTensileStrength ?? null
+  const Sy = selectedMaterial?.yieldStrength ?? null
+  // Se' = 0.5·Sut only holds for steels; anything else needs an entered endurance limit
+  const canEstimate = !selectedMaterial || steelCategories.includes(selectedMaterial.category)
+  const estimated = enduranceSource === 'estimate' && canEstimate
+
+  const Ma = parseNonNegative(alternatingMoment)
+  const Mm = parseNonNegative(midrangeMoment)
+  const Ta = parseNonNegative(alternatingTorque)
+  const Tm = parseNonNegative(midrangeTorque)
+  const Kf = parseFloat(kf)
+  const Kfs = parseFloat(kfs)
+  const n = parsePositive(targetSafetyFactor)
+  const d = parsePositive(diameter)
+  const k = parsePositive(marinProduct)
+
+  const customSe = parsePositive(customEndurance)
+  const Se = estimated
+    ? Sut !== null && k !== null ? k * estimateEnduranceLimit(Sut) : null
+    : customSe !== null ? customSe * MPA : null
+
+  // Results for every criterion, so they can be compared side by side
+  const results = useMemo(() => {
+    if (Ma === null || Mm === null || Ta === null || Tm === null || !(Kf >= 1) || !(Kfs >= 1) || !Se || !Sut || !Sy) {
+      return null
+    }
+    const loads = { alternatingMoment: Ma, midrangeMoment: Mm, alternatingTorque: Ta, midrangeTorque: Tm, Kf, Kfs }
+    const strengths = { enduranceLimit: Se, ultimateStrength: Sut, yieldStrength: Sy }
+    const entries = (Object.keys(shaftFatigueCriteria) as ShaftFatigueCriterion[]).map((c) => {
+      const result = mode === 'diameter'
+        ? n !== null ? calculateShaftMinimumDiameter(c, loads, strengths, n) : null
+        : d !== null ? calculateShaftSafetyFactor(c, loads, strengths, d * MM) : null
+      return [c, result] as const
+    })
+    return entries.every(([, r]) => r) ? Object.fromEntries(entries) as Record<ShaftFatigueCriterion, ShaftDesignResult> : null
+  }, [Ma, Mm, Ta, Tm, Kf, Kfs, Se, Sut, Sy, mode, n, d])
+
+  const result = results?.[criterion] ?? null
+  const fatigueFails = mode === 'safety' && result !== null && result.fatigueSafetyFactor < 1
+  const yieldFails = mode === 'safety' && result !== null && result.yieldSafetyFactor < 1
+  // In diameter mode the yield check can set the size instead of fatigue
+  const yieldGoverns = mode === 'diameter' && result !== null && n !== null && result.fatigueSafetyFactor > n * (1 + 1e-9)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Design Goal</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['diameter', 'safety'] as const).map((option) => (
+              <label key={option} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="mode"
+                  value={option}
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {option === 'diameter' ? 'Minimum diameter' : 'Safety factor of a given shaft'}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {mode === 'diameter' ? (
+              <NumberField id="targetSafetyFactor" label="Design factor, n" min={0} value={targetSafetyFactor} onChange={setTargetSafetyFactor}
+                error={n === null ? 'Design factor must be greater than 0' : null} />
+            ) : (
+              <NumberField id="diameter" label="Diameter, d" unit="mm" min={0} value={diameter} onChange={setDiameter}
+                error={d === null ? 'Diameter must be greater than 0' : null} />
+            )}
+            <div>
+              <label htmlFor="criterion" className="block text-sm font-medium text-gray-700">Failure criterion</label>
+              <select id="criterion" value={criterion} onChange={(e) => setCriterion(e.target.value as ShaftFatigueCriterion)} className={selectClassName}>
+                {(Object.keys(shaftFatigueCriteria) as ShaftFatigueCriterion[]).map((c) => <option key={c} value={c}>{shaftFatigueCriteria[c]}</option>)}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Loads at the Critical Section</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <NumberField id="alternatingMoment" label="Alternating moment, Mₐ" unit="N·m" min={0} value={alternatingMoment} onChange={setAlternatingMoment}
+              error={Ma === null ? 'Must be 0 or more' : null} />
+            <NumberField id="midrangeMoment" label="Midrange moment, Mₘ" unit="N·m" min={0} value={midrangeMoment} onChange={setMidrangeMoment}
+              error={Mm === null ? 'Must be 0 or more' : null} />
+            <NumberField id="alternatingTorque" label="Alternating torque, Tₐ" unit="N·m" min={0} value={alternatingTorque} onChange={setAlternatingTorque}
+              error={Ta === null ? 'Must be 0 or more' : null} />
+            <NumberField id="midrangeTorque" label="Midrange torque, Tₘ" unit="N·m" min={0} value={midrangeTorque} onChange={setMidrangeTorque}
+              error={Tm === null ? 'Must be 0 or more' : null} />
+            <NumberField id="kf" label="Bending Kf" min={1} value={kf} onChange={setKf}
+              error={Kf >= 1 ? null : 'Kf must be at least 1'} />
+            <NumberField id="kfs" label="Torsion Kfs" min={1} value={kfs} onChange={setKfs}
+              error={Kfs >= 1 ? null : 'Kfs must be at least 1'} />
+          </div>
+          <p className="mt-2 text-xs text-gray-500">A rotating shaft under steady loads sees fully reversed bending (Mₐ) and a steady torque (Tₘ).</p>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={materialId} onChange={setMaterialId} showYieldStrength />
+          {Sut !== null && <p className="mt-2 text-xs text-gray-500">Ultimate tensile strength S<sub>ut</sub> = {(Sut / MPA).toFixed(0)} MPa</p>}
+          <div className="mt-4 mb-4 flex gap-6 text-sm">
+            {(['estimate', 'custom'] as const).map((source) => (
+              <label key={source} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="enduranceSource"
+                  value={source}
+                  checked={source === 'estimate' ? estimated : !estimated}
+                  disabled={source === 'estimate' && !canEstimate}
+                  onChange={() => setEnduranceSource(source)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {source === 'estimate' ? 'Estimate from Sut' : 'Enter endurance limit'}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {estimated ? (
+              <NumberField id="marinProduct" label="Marin factors, ka·kb·kc·kd·ke·kf" min={0} value={marinProduct} onChange={setMarinProduct}
+                error={k === null ? 'Must be greater than 0' : null} />
+            ) : (
+              <NumberField id="customEndurance" label="Endurance limit, Sₑ" unit="MPa" min={0} value={customEndurance} onChange={setCustomEndurance}
+                error={parsePositive(customEndurance) === null ? 'Must be greater than 0' : null} />
+            )}
+          </div>
+          {!canEstimate && selectedMaterial && (
+            <p className="mt-2 text-sm text-amber-700">
+              Sₑ′ = 0.5 S<sub>ut</sub> only holds for steels; enter the corrected endurance limit of {selectedMaterial.name}.
+            </p>
+          )}
+          {estimated && Se !== null && (
+            <p className="mt-2 text-xs text-gray-500">Sₑ = k · Sₑ′ = {(Se / MPA).toFixed(1)} MPa, with Sₑ′ = 0.5 S<sub>ut</sub> (at most 700 MPa) for steels</p>
+          )}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {results && result ? (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              {mode === 'diameter' && (
+                <div className="rounded-md bg-gray-50 p-4">
+                  <dt className="text-gray-500">Minimum diameter, d</dt>
+                  <dd className="text-2xl font-semibold text-gray-900">{(result.diameter / MM).toFixed(2)} mm</dd>
+                  <dd className="text-xs text-gray-500">{yieldGoverns ? 'Governed by first-cycle yielding' : `Governed by ${shaftFatigueCriteria[criterion]} fatigue`}</dd>
+                </div>
+              )}
+              <div className={`rounded-md p-4 ${fatigueFails ? 'bg-red-50' : 'bg-gray-50'}`}>
+                <dt className="text-gray-500">Fatigue safety factor, n<sub>f</sub></dt>
+                <dd className={`text-2xl font-semibold ${fatigueFails ? 'text-red-700' : 'text-gray-900'}`}>
+                  {Number.isFinite(result.fatigueSafetyFactor) ? result.fatigueSafetyFactor.toFixed(2) : '∞'}
+                </dd>
+              </div>
+              <div className={`rounded-md p-4 ${yieldFails ? 'bg-red-50' : 'bg-gray-50'}`}>
+                <dt className="text-gray-500">Yield safety factor, n<sub>y</sub></dt>
+                <dd className={`text-2xl font-semibold ${yieldFails ? 'text-red-700' : 'text-gray-900'}`}>
+                  {Number.isFinite(result.yieldSafetyFactor) ? result.yieldSafetyFactor.toFixed(2) : '∞'}
+                </dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">von Mises stresses</dt>
+                <dd className="text-gray-900">σ′ₐ = {(result.alternatingStress / MPA).toFixed(1)} MPa</dd>
+                <dd className="text-gray-900">σ′ₘ = {(result.midrangeStress / MPA).toFixed(1)} MPa</dd>
+                <dd className="text-gray-900">σ′<sub>max</sub> = {(result.maximumStress / MPA).toFixed(1)} MPa</dd>
+              </div>
+            </dl>
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700">All criteria</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 font-medium">Criterion</th>
+                  {mode === 'diameter' && <th className="py-1 font-medium">d (mm)</th>}
+                  <th className="py-1 font-medium">n<sub>f</sub></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {(Object.keys(shaftFatigueCriteria) as ShaftFatigueCriterion[]).map((c) => (
+                  <tr key={c} className={c === criterion ? 'font-semibold' : undefined}>
+                    <td className="py-1 text-gray-700">{shaftFatigueCriteria[c]}</td>
+                    {mode === 'diameter' && <td className="py-1 text-gray-900">{(results[c].diameter / MM).toFixed(2)}</td>}
+                    <td className="py-1 text-gray-900">{Number.isFinite(results[c].fatigueSafetyFactor) ? results[c].fatigueSafetyFactor.toFixed(2) : '∞'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Enter valid inputs, including at least one load, and select a material to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Solid round shaft, infinite life, distortion energy theory; axial loads are neglected. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { TorsionSection, calculateTorsion, powerToTorque } from '@/lib/torsion'
+
+type TorsionMaterial = Pick<Material, 'id' | 'name' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface ShaftTorsionCalculatorProps {
+  materials: TorsionMaterial[]
+}
+
+type SectionType = TorsionSection['type']
+type TorqueSource = 'torque' | 'power'
+
+const sectionTypes: { value: SectionType; label: string }[] = [
+  { value: 'solid-round', label: 'Solid round shaft' },
+  { value: 'hollow-round', label: 'Hollow round shaft' },
+  { value: 'thin-closed', label: 'Thin-walled closed section' },
+  { value: 'thin-open', label: 'Thin-walled open section' },
+]
+
+// Dimension fields per section type, entered in mm (mm² for the enclosed area)
+const sectionFields: Record<SectionType, { key: string; label: string; unit: string }[]> = {
+  'solid-round': [{ key: 'diameter', label: 'Diameter, d', unit: 'mm' }],
+  'hollow-round': [{ key: 'outerDiameter', label: 'Outer diameter, D', unit: 'mm' }, { key: 'innerDiameter', label: 'Inner diameter, d', unit: 'mm' }],
+  'thin-closed': [{ key: 'enclosedArea', label: 'Enclosed area, Aₘ', unit: 'mm²' }, { key: 'perimeter', label: 'Median perimeter, s', unit: 'mm' }, { key: 'thickness', label: 'Wall thickness, t', unit: 'mm' }],
+  'thin-open': [{ key: 'length', label: 'Developed length, b', unit: 'mm' }, { key: 'thickness', label: 'Wall thickness, t', unit: 'mm' }],
+}
+
+const sectionHints: Partial<Record<SectionType, string>> = {
+  'thin-closed': 'Area and perimeter are measured on the median line of the wall, e.g. (b − t)(h − t) and 2(b + h − 2t) for a rectangular tube.',
+  'thin-open': 'Sum of the median lengths of all flat parts (e.g. 2b + h for an I-section with equal walls). Warping restraint is ignored.',
+}
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MM = 1e-3
+const MM2 = 1e-6
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// Builds the SI section from the form fields; null when a field is missing or not positive
+function buildSection(type: SectionType, dimensions: Record<string, string>): TorsionSection | null {
+  const value = (key: string) => parsePositive(dimensions[key] ?? '')
+  switch (type) {
+    case 'solid-round': {
+      const d = value('diameter')
+      return d ? { type, diameter: d * MM } : null
+    }
+    case 'hollow-round': {
+      const D = value('outerDiameter')
+      const d = value('innerDiameter')
+      return D && d ? { type, outerDiameter: D * MM, innerDiameter: d * MM } : null
+    }
+    case 'thin-closed': {
+      const A = value('enclosedArea')
+      const s = value('perimeter')
+      const t = value('thickness')
+      return A && s && t ? { type, enclosedArea: A * MM2, perimeter: s * MM, thickness: t * MM } : null
+    }
+    case 'thin-open': {
+      const b = value('length')
+      const t = value('thickness')
+      return b && t ? { type, length: b * MM, thickness: t * MM } : null
+    }
+  }
+}
+
+export default function ShaftTorsionCalculator({ materials }: ShaftTorsionCalculatorProps) {
+  const [sectionType, setSectionType] = useState<SectionType>('solid-round')
+  const [dimensions, setDimensions] = useState<Record<string, string>>({
+    diameter: '40',
+    outerDiameter: '50',
+    innerDiameter: '40',
+    enclosedArea: '9025',
+    perimeter: '380',
+    thickness: '5',
+    length: '300',
+  })
+  const [length, setLength] = useState('1')
+  const [torqueSource, setTorqueSource] = useState<TorqueSource>('torque')
+  const [torque, setTorque] = useState('500')
+  const [power, setPower] = useState('15')
+  const [rpm, setRpm] = useState('1450')
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const G = selectedMaterial?.shearModulus ?? null
+
+  const L = parsePositive(length)
+  const powerW = parsePositive(power)
+  const speed = parsePositive(rpm)
+  const T = torqueSource === 'torque'
+    ? parsePositive(torque)
+    : powerW !== null && speed !== null ? powerToTorque(powerW * 1000, speed) : null
+
+  const section = useMemo(() => buildSection(sectionType, dimensions), [sectionType, dimensions])
+
+  const result = useMemo(() => {
+    if (!section || !G || L === null || T === null) {
+      return null
+    }
+    return calculateTorsion(section, T, L, G, selectedMaterial?.yieldStrength)
+  }, [section, G, L, T, selectedMaterial])
+
+  const fails = result?.shearYieldSafetyFactor !== null && result?.shearYieldSafetyFactor !== undefined && result.shearYieldSafetyFactor < 1
+  const innerTooLarge = sectionType === 'hollow-round' && (parsePositive(dimensions.innerDiameter) ?? 0) >= (parsePositive(dimensions.outerDiameter) ?? Infinity)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Cross-Section</h2>
+          <label htmlFor="sectionType" className="block text-sm font-medium text-gray-700">Section type</label>
+          <select id="sectionType" value={sectionType} onChange={(e) => setSectionType(e.target.value as SectionType)} className={selectClassName}>
+            {sectionTypes.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {sectionFields[sectionType].map((field) => (
+              <NumberField
+                key={field.key}
+                id={field.key}
+                label={field.label}
+                unit={field.unit}
+                min={0}
+                value={dimensions[field.key] ?? ''}
+                onChange={(value) => setDimensions((current) => ({ ...current, [field.key]: value }))}
+                error={parsePositive(dimensions[field.key] ?? '') === null ? 'Must be greater than 0' : null}
+              />
+            ))}
+          </div>
+          {innerTooLarge && <p className="mt-2 text-sm text-red-600">The inner diameter must be smaller than the outer diameter.</p>}
+          {sectionHints[sectionType] && <p className="mt-2 text-xs text-gray-500">{sectionHints[sectionType]}</p>}
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Loading</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['torque', 'power'] as const).map((source) => (
+              <label key={source} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="torqueSource"
+                  value={source}
+                  checked={torqueSource === source}
+                  onChange={() => setTorqueSource(source)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {source === 'torque' ? 'Torque' : 'Power and speed'}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {torqueSource === 'torque' ? (
+              <NumberField id="torque" label="Torque, T" unit="N·m" min={0} value={torque} onChange={setTorque}
+                error={parsePositive(torque) === null ? 'Torque must be greater than 0' : null} />
+            ) : (
+              <>
+                <NumberField id="power" label="Power, P" unit="kW" min={0} value={power} onChange={setPower}
+                  error={powerW === null ? 'Power must be greater than 0' : null} />
+                <NumberField id="rpm" label="Speed, n" unit="rpm" min={0} value={rpm} onChange={setRpm}
+                  error={speed === null ? 'Speed must be greater than 0' : null} />
+              </>
+            )}
+            <NumberField id="length" label="Shaft length, L" unit="m" min={0} value={length} onChange={setLength}
+              error={L === null ? 'Length must be greater than 0' : null} />
+          </div>
+          {torqueSource === 'power' && T !== null && (
+            <p className="mt-2 text-xs text-gray-500">Transmitted torque T = P / ω = {T.toFixed(1)} N·m</p>
+          )}
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={materialId} onChange={setMaterialId} showYieldStrength />
+          {G && <p className="mt-2 text-xs text-gray-500">Shear modulus G = {(G / 1e9).toFixed(1)} GPa</p>}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {result && L !== null ? (
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Max shear stress, τ<sub>max</sub></dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(result.maxShearStress / 1e6).toFixed(2)} MPa</dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Angle of twist, φ</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{((result.angleOfTwist * 180) / Math.PI).toFixed(3)}°</dd>
+              <dd className="text-xs text-gray-500">{((result.angleOfTwist * 180) / Math.PI / L).toFixed(3)} °/m</dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Torsional stiffness, GJ/L</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(result.torsionalStiffness / 1000).toFixed(2)} kN·m/rad</dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Torsion constant, J</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(result.torsionConstant * 1e12).toExponential(3)} mm⁴</dd>
+            </div>
+            <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+              <dt className="text-gray-500">Safety factor vs. shear yield</dt>
+              <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>{result.shearYieldSafetyFactor?.toFixed(2) ?? '—'}</dd>
+              <dd className="text-xs text-gray-500">τ<sub>y</sub> = S<sub>y</sub> / √3 (von Mises)</dd>
+            </div>
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500">Enter valid inputs and select a material to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Linear-elastic torsion under a constant torque; stress concentrations at shoulders and keyways are not included. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,423 @@
+'use client'
+
+import { useState } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import {
+  CompressionEnds,
+  SpringResult,
+  SpringSupport,
+  SpringType,
+  ZIMMERLI_MAX_WIRE_DIAMETER,
+  analyzeCompressionSpring,
+  analyzeExtensionSpring,
+  analyzeTorsionSpring,
+  compressionEnds,
+  designSpring,
+  springSupports,
+  springTypes,
+} from '@/lib/springs'
+
+type SpringWireMaterial = Pick<Material, 'id' | 'name' | 'density' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface SpringCalculatorProps {
+  materials: SpringWireMaterial[]
+}
+
+type CalculationMode = 'analyze' | 'design'
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MM = 1e-3
+const MPA = 1e6
+const DEG = Math.PI / 180
+// Torsion spring moments are entered in N·mm and rates in N·mm/°
+const NMM = 1e-3
+const NMM_PER_DEG = NMM / DEG
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// Minimum loads, initial tension and leg lengths may be zero
+function parseNonNegative(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+function SafetyFactorCard({ label, value, failure, note }: { label: string; value: number | null; failure: string; note?: string }) {
+  const fails = value !== null && value < 1
+  return (
+    <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>{value !== null ? value.toFixed(2) : '—'}</dd>
+      {fails && <dd className="text-xs font-medium text-red-700">{failure}</dd>}
+      {note && <dd className="text-xs font-medium text-amber-700">{note}</dd>}
+    </div>
+  )
+}
+
+export default function SpringCalculator({ materials }: SpringCalculatorProps) {
+  const [springType, setSpringType] = useState<SpringType>('compression')
+  const [mode, setMode] = useState<CalculationMode>('analyze')
+  const [wireDiameter, setWireDiameter] = useState('2')
+  const [meanDiameter, setMeanDiameter] = useState('16')
+  const [coils, setCoils] = useState('8')
+  const [ends, setEnds] = useState<CompressionEnds>('squared-ground')
+  const [freeLength, setFreeLength] = useState('60')
+  const [support, setSupport] = useState<SpringSupport>('fixed-fixed')
+  const [initialTension, setInitialTension] = useState('10')
+  const [hookBendRadius, setHookBendRadius] = useState('3')
+  const [legLength1, setLegLength1] = useState('25')
+  const [legLength2, setLegLength2] = useState('25')
+  const [loadMin, setLoadMin] = useState('20')
+  const [loadMax, setLoadMax] = useState('60')
+  const [peened, setPeened] = useState(false)
+  const [targetRate, setTargetRate] = useState('5')
+  const [stroke, setStroke] = useState('10')
+  const [designMinLoad, setDesignMinLoad] = useState('20')
+  const [springIndex, setSpringIndex] = useState('8')
+  const [designFactor, setDesignFactor] = useState('1.2')
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const material = selectedMaterial?.shearModulus && selectedMaterial.youngsModulus && selectedMaterial.ultimateTensileStrength
+    ? {
+        G: selectedMaterial.shearModulus,
+        E: selectedMaterial.youngsModulus,
+        ultimateTensileStrength: selectedMaterial.ultimateTensileStrength,
+        density: selectedMaterial.density,
+      }
+    : null
+
+  const isTorsion = springType === 'torsion'
+  const loadUnit = isTorsion ? 'N·mm' : 'N'
+  const loadScale = isTorsion ? NMM : 1
+
+  const d = parsePositive(wireDiameter)
+  const D = parsePositive(meanDiameter)
+  const N = parsePositive(coils)
+  const L0 = parsePositive(freeLength)
+  const Fi = parseNonNegative(initialTension)
+  const r2 = parsePositive(hookBendRadius)
+  const l1 = parseNonNegative(legLength1)
+  const l2 = parseNonNegative(legLength2)
+  const Fmin = parseNonNegative(loadMin)
+  const Fmax = parsePositive(loadMax)
+
+  const rate = parsePositive(targetRate)
+  const travel = parsePositive(stroke)
+  const startLoad = parseNonNegative(designMinLoad)
+  const C = parsePositive(springIndex)
+  const nd = parsePositive(designFactor)
+
+  // Cheap enough to recompute on every render
+  const analyze = (): SpringResult | null => {
+    if (mode !== 'analyze' || !material || d === null || D === null || N === null || Fmin === null || Fmax === null) {
+      return null
+    }
+    const geometry = { wireDiameter: d * MM, meanDiameter: D * MM, coils: N }
+    const loads = { min: Fmin * loadScale, max: Fmax * loadScale }
+    switch (springType) {
+      case 'compression':
+        return L0 !== null ? analyzeCompressionSpring(geometry, { ends, freeLength: L0 * MM, support, peened }, loads, material) : null
+      case 'extension':
+        return Fi !== null && r2 !== null ? analyzeExtensionSpring(geometry, { initialTension: Fi, hookBendRadius: r2 * MM, peened }, loads, material) : null
+      case 'torsion':
+        return l1 !== null && l2 !== null ? analyzeTorsionSpring(geometry, { legLengths: [l1 * MM, l2 * MM] }, loads, material) : null
+    }
+  }
+  const result = analyze()
+
+  const design = mode === 'design' && material && rate !== null && travel !== null && startLoad !== null && C !== null && nd !== null
+    ? designSpring(springType, {
+        rate: isTorsion ? rate * NMM_PER_DEG : rate / MM,
+        stroke: isTorsion ? travel * DEG : travel * MM,
+        minLoad: startLoad * loadScale,
+        springIndex: C,
+        designFactor: nd,
+      }, material)
+    : null
+
+  // Copies the design into the analysis form; compression springs get a 15% clash allowance
+  const useDesign = () => {
+    if (!design) return
+    const round = (value: number) => String(Math.round(value * 100) / 100)
+    setWireDiameter(round(design.wireDiameter / MM))
+    setMeanDiameter(round(design.meanDiameter / MM))
+    setCoils(String(design.coils))
+    setLoadMin(designMinLoad)
+    setLoadMax(round(design.maxLoad / loadScale))
+    if (springType === 'compression') {
+      const endType = compressionEnds[ends]
+      const solid = design.wireDiameter * (design.coils + endType.inactiveCoils + endType.solidExtra)
+      setFreeLength(String(Math.ceil(((solid + 1.15 * (design.maxLoad / design.rate)) / MM) * 2) / 2))
+    }
+    setMode('analyze')
+  }
+
+  const missingProperties = selectedMaterial && !material
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Spring</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(Object.keys(springTypes) as SpringType[]).map((option) => (
+              <label key={option} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="springType"
+                  value={option}
+                  checked={springType === option}
+                  onChange={() => setSpringType(option)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {springTypes[option]}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-6 text-sm">
+            {(['analyze', 'design'] as const).map((option) => (
+              <label key={option} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="mode"
+                  value={option}
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {option === 'analyze' ? 'Analyze a spring' : 'Design for a rate and stroke'}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {mode === 'analyze' ? (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">Geometry</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <NumberField id="wireDiameter" label="Wire diameter, d" unit="mm" min={0} value={wireDiameter} onChange={setWireDiameter}
+                  error={d === null ? 'Must be greater than 0' : null} />
+                <NumberField id="meanDiameter" label="Mean coil diameter, D" unit="mm" min={0} value={meanDiameter} onChange={setMeanDiameter}
+                  error={D === null || (d !== null && D <= d) ? 'Must be larger than the wire' : null} />
+                <NumberField id="coils" label={springType === 'compression' ? 'Active coils, Nₐ' : 'Body turns, N_b'} min={0} value={coils} onChange={setCoils}
+                  error={N === null ? 'Must be greater than 0' : null} />
+                {springType === 'compression' && (
+                  <>
+                    <NumberField id="freeLength" label="Free length, L₀" unit="mm" min={0} value={freeLength} onChange={setFreeLength}
+                      error={L0 === null ? 'Must be greater than 0' : null} />
+                    <div>
+                      <label htmlFor="ends" className="block text-sm font-medium text-gray-700">Ends</label>
+                      <select id="ends" value={ends} onChange={(e) => setEnds(e.target.value as CompressionEnds)} className={selectClassName}>
+                        {(Object.keys(compressionEnds) as CompressionEnds[]).map((key) => <option key={key} value={key}>{compressionEnds[key].label}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="support" className="block text-sm font-medium text-gray-700">End support (buckling)</label>
+                      <select id="support" value={support} onChange={(e) => setSupport(e.target.value as SpringSupport)} className={selectClassName}>
+                        {(Object.keys(springSupports) as SpringSupport[]).map((key) => <option key={key} value={key}>{springSupports[key].label}</option>)}
+                      </select>
+                    </div>
+                  </>
+                )}
+                {springType === 'extension' && (
+                  <>
+                    <NumberField id="initialTension" label="Initial tension, Fᵢ" unit="N" min={0} value={initialTension} onChange={setInitialTension}
+                      error={Fi === null ? 'Must be 0 or more' : null} />
+                    <NumberField id="hookBendRadius" label="Hook side bend radius, r₂" unit="mm" min={0} value={hookBendRadius} onChange={setHookBendRadius}
+                      error={r2 === null ? 'Must be greater than 0' : null} />
+                  </>
+                )}
+                {springType === 'torsion' && (
+                  <>
+                    <NumberField id="legLength1" label="Leg length, l₁" unit="mm" min={0} value={legLength1} onChange={setLegLength1}
+                      error={l1 === null ? 'Must be 0 or more' : null} />
+                    <NumberField id="legLength2" label="Leg length, l₂" unit="mm" min={0} value={legLength2} onChange={setLegLength2}
+                      error={l2 === null ? 'Must be 0 or more' : null} />
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">Working Loads</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <NumberField id="loadMin" label={isTorsion ? 'Minimum moment' : 'Minimum force'} unit={loadUnit} min={0} value={loadMin} onChange={setLoadMin}
+                  error={Fmin === null ? 'Must be 0 or more' : null} />
+                <NumberField id="loadMax" label={isTorsion ? 'Maximum moment' : 'Maximum force'} unit={loadUnit} min={0} value={loadMax} onChange={setLoadMax}
+                  error={Fmax === null || (Fmin !== null && Fmax < Fmin) ? 'Must be at least the minimum' : null} />
+              </div>
+              {!isTorsion && (
+                <label className="mt-4 inline-flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={peened} onChange={(e) => setPeened(e.target.checked)} className="rounded text-primary-600 focus:ring-primary-500" />
+                  Shot peened
+                </label>
+              )}
+            </div>
+          </>
+        ) : (
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">Target</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <NumberField id="targetRate" label="Rate" unit={isTorsion ? 'N·mm/°' : 'N/mm'} min={0} value={targetRate} onChange={setTargetRate}
+                error={rate === null ? 'Must be greater than 0' : null} />
+              <NumberField id="stroke" label="Working stroke" unit={isTorsion ? '°' : 'mm'} min={0} value={stroke} onChange={setStroke}
+                error={travel === null ? 'Must be greater than 0' : null} />
+              <NumberField id="designMinLoad" label={isTorsion ? 'Moment at the start of the stroke' : 'Force at the start of the stroke'} unit={loadUnit} min={0}
+                value={designMinLoad} onChange={setDesignMinLoad} error={startLoad === null ? 'Must be 0 or more' : null} />
+              <NumberField id="springIndex" label="Spring index, C = D/d" min={0} value={springIndex} onChange={setSpringIndex}
+                error={C === null || C <= 1 ? 'Must be greater than 1' : null} />
+              <NumberField id="designFactor" label="Static design factor" min={0} value={designFactor} onChange={setDesignFactor}
+                error={nd === null ? 'Must be greater than 0' : null} />
+            </div>
+            <p className="mt-2 text-xs text-gray-500">Picks the smallest preferred wire that keeps the maximum stress within yield over the design factor. An index of 6–10 is easiest to wind.</p>
+          </div>
+        )}
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Wire Material</h2>
+          <MaterialSelect materials={materials} selectedMaterialId={materialId} onChange={setMaterialId} showYoungsModulus />
+          <p className="mt-2 text-xs text-gray-500">Only steels are listed: the strength ratios and fatigue data are for steel spring wire.</p>
+          {missingProperties && <p className="mt-2 text-sm text-red-600">Springs need the wire&apos;s Young&apos;s modulus, shear modulus and tensile strength.</p>}
+          {material && (
+            <p className="mt-2 text-xs text-gray-500">
+              G = {(material.G / 1e9).toFixed(1)} GPa, S<sub>ut</sub> = {(material.ultimateTensileStrength / MPA).toFixed(0)} MPa
+            </p>
+          )}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {design && (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Wire diameter, d</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(design.wireDiameter / MM).toFixed(2)} mm</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Mean coil diameter, D</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(design.meanDiameter / MM).toFixed(2)} mm</dd>
+                <dd className="text-xs text-gray-500">Outside diameter {((design.meanDiameter + design.wireDiameter) / MM).toFixed(2)} mm</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">{springType === 'compression' ? 'Active coils, Nₐ' : 'Body turns, N_b'}</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{design.coils.toFixed(2)}</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Rate of the rounded design</dt>
+                <dd className="text-2xl font-semibold text-gray-900">
+                  {isTorsion ? `${(design.rate / NMM_PER_DEG).toFixed(2)} N·mm/°` : `${(design.rate * MM).toFixed(2)} N/mm`}
+                </dd>
+                <dd className="text-xs text-gray-500">Maximum {isTorsion ? 'moment' : 'force'} {(design.maxLoad / loadScale).toFixed(1)} {loadUnit}</dd>
+              </div>
+            </dl>
+            <button
+              type="button"
+              onClick={useDesign}
+              className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+            >
+              Analyze this design
+            </button>
+          </>
+        )}
+
+        {result && (
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Spring rate</dt>
+              <dd className="text-2xl font-semibold text-gray-900">
+                {result.type === 'torsion' ? `${(result.rate / NMM_PER_DEG).toFixed(2)} N·mm/°` : `${(result.rate * MM).toFixed(2)} N/mm`}
+              </dd>
+              {result.type === 'torsion' && <dd className="text-xs text-gray-500">{(result.ratePerTurn / NMM).toFixed(0)} N·mm/turn</dd>}
+              <dd className="text-xs text-gray-500">Nₐ = {result.activeCoils.toFixed(2)}</dd>
+            </div>
+            <div className={`rounded-md p-4 ${result.indexInRange ? 'bg-gray-50' : 'bg-amber-50'}`}>
+              <dt className="text-gray-500">Spring index, C</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{result.springIndex.toFixed(2)}</dd>
+              <dd className="text-xs text-gray-500">
+                {result.type === 'torsion' ? `Kᵢ = ${result.curvatureFactor.toFixed(3)}` : `Wahl factor K_W = ${result.wahlFactor.toFixed(3)}`}
+              </dd>
+              {!result.indexInRange && <dd className="text-xs font-medium text-amber-700">Outside 4–12: hard to wind or unstable</dd>}
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">{result.type === 'torsion' ? 'Bending stress' : 'Shear stress'} at the maximum load</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(result.stressMax / MPA).toFixed(0)} MPa</dd>
+              <dd className="text-xs text-gray-500">Minimum load: {(result.stressMin / MPA).toFixed(0)} MPa; yield {(result.yieldStrength / MPA).toFixed(0)} MPa</dd>
+            </div>
+            <SafetyFactorCard label="Static safety factor" value={result.staticSafetyFactor} failure="Takes a set at the maximum load" />
+            <SafetyFactorCard label="Fatigue safety factor (Gerber)" value={result.fatigueSafetyFactor} failure="Fails in fatigue before infinite life"
+              note={d !== null && d * MM >= ZIMMERLI_MAX_WIRE_DIAMETER ? 'Not rated: Zimmerli\'s data covers wire under 10 mm only' : undefined} />
+            {result.naturalFrequency !== null && (
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Natural frequency</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{result.naturalFrequency.toFixed(0)} Hz</dd>
+                <dd className="text-xs text-gray-500">Both ends fixed; keep well above the forcing frequency</dd>
+              </div>
+            )}
+
+            {result.type === 'compression' && (
+              <>
+                <div className={`rounded-md p-4 ${result.clashes ? 'bg-red-50' : 'bg-gray-50'}`}>
+                  <dt className="text-gray-500">Lengths</dt>
+                  <dd className="text-gray-900">Solid length: {(result.solidLength / MM).toFixed(2)} mm ({result.totalCoils.toFixed(2)} total coils)</dd>
+                  <dd className="text-gray-900">At the maximum load: {(result.lengthAtMax / MM).toFixed(2)} mm</dd>
+                  {result.clashes && <dd className="text-xs font-medium text-red-700">Closes solid before reaching the maximum load</dd>}
+                </div>
+                <SafetyFactorCard label="Safety factor when solid" value={result.solidSafetyFactor} failure="Takes a set if closed solid" />
+                <div className={`rounded-md p-4 ${result.stable ? 'bg-gray-50' : 'bg-red-50'}`}>
+                  <dt className="text-gray-500">Buckling</dt>
+                  <dd className={`text-2xl font-semibold ${result.stable ? 'text-gray-900' : 'text-red-700'}`}>{result.stable ? 'Stable' : 'May buckle'}</dd>
+                  <dd className="text-xs text-gray-500">Absolutely stable below L₀ = {(result.criticalFreeLength / MM).toFixed(1)} mm</dd>
+                </div>
+              </>
+            )}
+
+            {result.type === 'extension' && (
+              <>
+                <div className="rounded-md bg-gray-50 p-4">
+                  <dt className="text-gray-500">Lengths</dt>
+                  <dd className="text-gray-900">Free length inside hooks: {(result.freeLength / MM).toFixed(2)} mm</dd>
+                  <dd className="text-gray-900">Extension at the maximum load: {(result.deflectionAtMax / MM).toFixed(2)} mm</dd>
+                </div>
+                <div className="rounded-md bg-gray-50 p-4">
+                  <dt className="text-gray-500">Initial tension stress, τᵢ</dt>
+                  <dd className="text-2xl font-semibold text-gray-900">{(result.initialTensionStress / MPA).toFixed(0)} MPa</dd>
+                  <dd className="text-xs text-gray-500">
+                    Preferred {(result.preferredInitialStress[0] / MPA).toFixed(0)}–{(result.preferredInitialStress[1] / MPA).toFixed(0)} MPa for this index
+                  </dd>
+                </div>
+                <SafetyFactorCard label="Hook bending safety factor" value={result.hookBendingSafetyFactor} failure="The hook yields in bending" />
+                <SafetyFactorCard label="Hook torsion safety factor" value={result.hookTorsionSafetyFactor} failure="The hook yields in torsion" />
+              </>
+            )}
+
+            {result.type === 'torsion' && (
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">At the maximum moment</dt>
+                <dd className="text-gray-900">Wind-up: {(result.deflectionAtMax / DEG).toFixed(1)}°</dd>
+                <dd className="text-gray-900">Mean coil diameter: {(result.meanDiameterAtMax / MM).toFixed(2)} mm</dd>
+              </div>
+            )}
+          </dl>
+        )}
+
+        {!result && !design && (
+          <p className="text-sm text-gray-500">Enter valid inputs and select a wire material to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Strengths estimated from the wire&apos;s tensile strength (cold-drawn and music wire ratios) and Zimmerli&apos;s fatigue data for wire under 10 mm. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
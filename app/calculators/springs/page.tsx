@@ -0,0 +1,34 @@
+import Link from 'next/link'
+import { getCalculatorMaterials } from '@/lib/queries'
+import { springWireCategories } from '@/lib/springs'
+import SpringCalculator from './SpringCalculator'
+
+// Force dynamic rendering so newly seeded materials show up
+export const dynamic = 'force-dynamic';
+
+export default async function SpringsPage() {
+  // Coil springs need the shear modulus and every strength is a fraction of the wire's tensile strength;
+  // those fractions and the fatigue data only hold for steel wire
+  const materials = await getCalculatorMaterials(['shearModulus', 'ultimateTensileStrength'], springWireCategories);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6 flex justify-start items-center">
+          <Link href="/" className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+            &larr; Back to Home
+          </Link>
+        </div>
+
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">Helical Springs</h1>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+            Compression, extension and torsion springs: rate, stresses, stability and fatigue, or a design for a target rate.
+          </p>
+        </div>
+
+        <SpringCalculator materials={materials} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,321 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Material } from '@prisma/client'
+import { NumberField } from '@/components/NumberField'
+import { StackHistogram } from '@/components/StackHistogram'
+import { StackDistribution, StackLink, analyzeToleranceStack, stackDistributions } from '@/lib/toleranceStack'
+
+type StackMaterial = Pick<Material, 'id' | 'name' | 'density' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface ToleranceStackCalculatorProps {
+  materials: StackMaterial[]
+}
+
+// Form representation of a link; numbers stay as strings while being edited
+interface LinkRow {
+  id: number
+  label: string
+  direction: 1 | -1
+  nominal: string
+  plus: string
+  minus: string // Entered as a magnitude
+  distribution: StackDistribution
+  materialId: string // '' for no thermal growth
+}
+
+let nextRowId = 1
+const createLinkRow = (partial: Partial<Omit<LinkRow, 'id'>> = {}): LinkRow => ({
+  id: nextRowId++, label: '', direction: 1, nominal: '10', plus: '0.05', minus: '0.05', distribution: 'normal', materialId: '', ...partial,
+})
+
+const inputClassName = 'block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MM = 1e-3
+const UM = 1e-6
+
+function parseNumber(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// Blank gap limits are simply not checked
+function parseOptional(value: string): number | null | undefined {
+  return value.trim() === '' ? null : parseNumber(value) ?? undefined
+}
+
+function PassCard({ label, range, passes }: { label: string; range: { min: number; max: number }; passes: boolean | null }) {
+  const fails = passes === false
+  return (
+    <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>
+        {(range.min / MM).toFixed(3)} to {(range.max / MM).toFixed(3)} mm
+      </dd>
+      {passes !== null && (
+        <dd className={`text-xs font-medium ${fails ? 'text-red-700' : 'text-green-700'}`}>{fails ? 'Outside the gap limits' : 'Within the gap limits'}</dd>
+      )}
+    </div>
+  )
+}
+
+export default function ToleranceStackCalculator({ materials }: ToleranceStackCalculatorProps) {
+  // A shaft shoulder, bearing and spacer located in a housing bore; the gap is the end float
+  const [rows, setRows] = useState<LinkRow[]>(() => [
+    createLinkRow({ label: 'Housing depth', direction: 1, nominal: '50', plus: '0.1', minus: '0.1' }),
+    createLinkRow({ label: 'Spacer', direction: -1, nominal: '20', plus: '0.05', minus: '0.05' }),
+    createLinkRow({ label: 'Bearing width', direction: -1, nominal: '15', plus: '0', minus: '0.12', distribution: 'uniform' }),
+    createLinkRow({ label: 'Shaft shoulder', direction: -1, nominal: '14.7', plus: '0.05', minus: '0.05' }),
+  ])
+  const [assemblyTemperature, setAssemblyTemperature] = useState('20')
+  const [operatingTemperature, setOperatingTemperature] = useState('20')
+  const [lowerLimit, setLowerLimit] = useState('0.05')
+  const [upperLimit, setUpperLimit] = useState('')
+  const [samples, setSamples] = useState('20000')
+
+  const updateRow = (id: number, changes: Partial<LinkRow>) =>
+    setRows(rows.map((row) => (row.id === id ? { ...row, ...changes } : row)))
+
+  const T0 = parseNumber(assemblyTemperature)
+  const T1 = parseNumber(operatingTemperature)
+  const lower = parseOptional(lowerLimit)
+  const upper = parseOptional(upperLimit)
+  const n = parseNumber(samples)
+  const sampleCount = n !== null && Number.isInteger(n) && n >= 100 && n <= 200000 ? n : null
+  const temperatureChange = T0 !== null && T1 !== null ? T1 - T0 : null
+
+  // Build the chain, collecting a message for the first bad row
+  const { links, inputError } = useMemo((): { links: StackLink[] | null; inputError: string | null } => {
+    const parsed: StackLink[] = []
+    for (let index = 0; index < rows.length; index++) {
+      const row = rows[index]
+      const nominal = parseNumber(row.nominal)
+      const plus = parseNumber(row.plus)
+      const minus = parseNumber(row.minus)
+      if (nominal === null || plus === null || minus === null || plus < 0 || minus < 0) {
+        return { links: null, inputError: `Link ${index + 1} needs a dimension and tolerances of 0 or more.` }
+      }
+      parsed.push({
+        nominal: nominal * MM,
+        upperTolerance: plus * MM,
+        lowerTolerance: minus * MM,
+        direction: row.direction,
+        distribution: row.distribution,
+        thermalExpansion: materials.find((m) => m.id === row.materialId)?.thermalExpansionCoefficient ?? null,
+      })
+    }
+    return { links: parsed, inputError: null }
+  }, [rows, materials])
+
+  // Monte Carlo is the expensive part; only rerun when the inputs change
+  const result = useMemo(
+    () =>
+      links && temperatureChange !== null && lower !== undefined && upper !== undefined && sampleCount !== null
+        ? analyzeToleranceStack(links, {
+            temperatureChange,
+            lowerLimit: lower !== null ? lower * MM : null,
+            upperLimit: upper !== null ? upper * MM : null,
+            samples: sampleCount,
+          })
+        : null,
+    [links, temperatureChange, lower, upper, sampleCount]
+  )
+
+  const limitsReversed = lower != null && upper != null && lower > upper
+  const missingThermal = temperatureChange !== null && temperatureChange !== 0 && rows.some((row) => row.materialId === '')
+
+  const markers = result
+    ? [
+        { value: result.worstCase.min, label: 'WC min', color: '#dc2626' /* red-600 */, dash: '4 2' },
+        { value: result.worstCase.max, label: 'WC max', color: '#dc2626', dash: '4 2' },
+        { value: result.rss.min, label: 'RSS min', color: '#d97706' /* amber-600 */, dash: '2 2' },
+        { value: result.rss.max, label: 'RSS max', color: '#d97706', dash: '2 2' },
+        ...(lower != null ? [{ value: lower * MM, label: 'Lower limit', color: '#111827' /* gray-900 */ }] : []),
+        ...(upper != null ? [{ value: upper * MM, label: 'Upper limit', color: '#111827' }] : []),
+      ]
+    : []
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Dimension Chain</h2>
+          <div className="space-y-2">
+            {rows.map((row, index) => (
+              <div key={row.id} className="grid grid-cols-8 gap-2 items-end">
+                <span className="pb-2 text-sm font-medium text-gray-700">{index + 1}</span>
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-gray-600">Name</label>
+                  <input type="text" value={row.label} onChange={(e) => updateRow(row.id, { label: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">Sign</label>
+                  <select value={row.direction} onChange={(e) => updateRow(row.id, { direction: Number(e.target.value) as 1 | -1 })} className={inputClassName}>
+                    <option value={1}>+</option>
+                    <option value={-1}>−</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">Nominal (mm)</label>
+                  <input type="number" step="any" value={row.nominal} onChange={(e) => updateRow(row.id, { nominal: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">+ Tol.</label>
+                  <input type="number" step="any" min={0} value={row.plus} onChange={(e) => updateRow(row.id, { plus: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">− Tol.</label>
+                  <input type="number" step="any" min={0} value={row.minus} onChange={(e) => updateRow(row.id, { minus: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">Spread</label>
+                  <select value={row.distribution} onChange={(e) => updateRow(row.id, { distribution: e.target.value as StackDistribution })} className={inputClassName}>
+                    {(Object.keys(stackDistributions) as StackDistribution[]).map((key) => <option key={key} value={key}>{stackDistributions[key]}</option>)}
+                  </select>
+                </div>
+                <div className="col-start-2 col-span-7">
+                  <select
+                    value={row.materialId}
+                    onChange={(e) => updateRow(row.id, { materialId: e.target.value })}
+                    className={inputClassName}
+                    aria-label={`Material of link ${index + 1}`}
+                  >
+                    <option value="">No thermal growth</option>
+                    {materials.map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {m.name} (α = {((m.thermalExpansionCoefficient ?? 0) / UM).toFixed(1)} µm/m·°C)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setRows([...rows, createLinkRow()])}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                + Add link
+              </button>
+              <button
+                type="button"
+                onClick={() => setRows(rows.slice(0, -1))}
+                disabled={rows.length <= 1}
+                className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-800 disabled:text-gray-300"
+              >
+                Remove last link
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Links marked + open the gap and links marked − close it. Normal links take the tolerance band as ±3σ.
+            </p>
+            {inputError && <p className="text-sm text-red-600">{inputError}</p>}
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Gap Requirement</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <NumberField id="lowerLimit" label="Minimum gap (blank for none)" unit="mm" value={lowerLimit} onChange={setLowerLimit}
+              error={lower === undefined ? 'Enter a number or leave blank' : limitsReversed ? 'Must not exceed the maximum' : null} />
+            <NumberField id="upperLimit" label="Maximum gap (blank for none)" unit="mm" value={upperLimit} onChange={setUpperLimit}
+              error={upper === undefined ? 'Enter a number or leave blank' : null} />
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Temperature and Sampling</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <NumberField id="assemblyTemperature" label="Assembly temperature" unit="°C" value={assemblyTemperature} onChange={setAssemblyTemperature}
+              error={T0 === null ? 'Enter a temperature' : null} />
+            <NumberField id="operatingTemperature" label="Operating temperature" unit="°C" value={operatingTemperature} onChange={setOperatingTemperature}
+              error={T1 === null ? 'Enter a temperature' : null} />
+            <NumberField id="samples" label="Monte Carlo samples" min={100} step={1000} value={samples} onChange={setSamples}
+              error={sampleCount === null ? 'Whole number from 100 to 200,000' : null} />
+          </div>
+          {missingThermal && (
+            <p className="mt-2 text-sm text-amber-700">Links without a material keep their size when the temperature changes.</p>
+          )}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {result ? (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md bg-gray-50 p-4">
+                <dt className="text-gray-500">Nominal gap</dt>
+                <dd className="text-2xl font-semibold text-gray-900">{(result.nominal / MM).toFixed(3)} mm</dd>
+                <dd className="text-xs text-gray-500">Mean {(result.mean / MM).toFixed(3)} mm at the operating temperature</dd>
+                {result.thermalGrowth !== 0 && (
+                  <dd className="text-xs text-gray-500">Thermal growth {result.thermalGrowth > 0 ? '+' : ''}{(result.thermalGrowth / UM).toFixed(1)} µm</dd>
+                )}
+              </div>
+              <PassCard label="Worst case" range={result.worstCase} passes={result.worstCasePasses} />
+              <PassCard label="RSS (±3σ)" range={result.rss} passes={result.rssPasses} />
+              <div className={`rounded-md p-4 ${result.monteCarlo.outOfSpec ? 'bg-amber-50' : 'bg-gray-50'}`}>
+                <dt className="text-gray-500">Monte Carlo ({sampleCount?.toLocaleString()} samples)</dt>
+                <dd className="text-2xl font-semibold text-gray-900">
+                  {(result.monteCarlo.mean / MM).toFixed(3)} ± {(3 * result.monteCarlo.standardDeviation / MM).toFixed(3)} mm
+                </dd>
+                <dd className="text-xs text-gray-500">
+                  σ = {(result.monteCarlo.standardDeviation / UM).toFixed(1)} µm; sampled {(result.monteCarlo.min / MM).toFixed(3)} to {(result.monteCarlo.max / MM).toFixed(3)} mm
+                </dd>
+                {result.monteCarlo.outOfSpec !== null && (
+                  <dd className={`text-xs font-medium ${result.monteCarlo.outOfSpec ? 'text-amber-700' : 'text-green-700'}`}>
+                    {(result.monteCarlo.outOfSpec * 100).toFixed(2)}% outside the gap limits ({Math.round(result.monteCarlo.outOfSpec * 1e6).toLocaleString()} ppm)
+                  </dd>
+                )}
+              </div>
+            </dl>
+
+            <StackHistogram edges={result.monteCarlo.edges} counts={result.monteCarlo.counts} markers={markers} />
+
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Contributions</h3>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-1 pr-2">Link</th>
+                    <th className="py-1 pr-2">Tolerance (mm)</th>
+                    <th className="py-1 pr-2">Worst case</th>
+                    <th className="py-1 pr-2 w-1/3">RSS</th>
+                    <th className="py-1">Thermal (µm)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.contributions.map((contribution, i) => (
+                    <tr key={rows[i].id} className="border-t border-gray-100">
+                      <td className="py-1 pr-2 text-gray-900">{i + 1}. {rows[i].label || 'Link'} ({rows[i].direction > 0 ? '+' : '−'})</td>
+                      <td className="py-1 pr-2 text-gray-700">+{rows[i].plus} / −{rows[i].minus}</td>
+                      <td className="py-1 pr-2 text-gray-700">{(contribution.worstCase * 100).toFixed(1)}%</td>
+                      <td className="py-1 pr-2">
+                        <div className="flex items-center gap-2">
+                          <div className="h-2 flex-1 rounded bg-gray-100">
+                            <div className="h-2 rounded bg-primary-500" style={{ width: `${contribution.rss * 100}%` }} />
+                          </div>
+                          <span className="text-gray-700">{(contribution.rss * 100).toFixed(1)}%</span>
+                        </div>
+                      </td>
+                      <td className="py-1 text-gray-700">{contribution.thermalGrowth !== 0 ? (contribution.thermalGrowth / UM).toFixed(1) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">Tighten the links with the largest RSS share first; they dominate the statistical spread.</p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Enter a valid dimension chain to see results.</p>
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          One-dimensional stack with each link centred in its tolerance band. RSS and Monte Carlo assume independent, centred processes; thermal growth uses each link&apos;s nominal length and ignores stresses between parts. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
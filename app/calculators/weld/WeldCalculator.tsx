@@ -0,0 +1,252 @@
+'use client'
+
+import { useState } from 'react'
+import { Material } from '@prisma/client'
+import { MaterialSelect } from '@/components/MaterialSelect'
+import { NumberField } from '@/components/NumberField'
+import { WeldPatternDiagram } from '@/components/WeldPatternDiagram'
+import { ElectrodeClass, WeldPattern, WeldType, analyzeWeldGroup, electrodes, weldGroupProperties, weldPatternSegments, weldPatterns } from '@/lib/welds'
+
+type WeldMaterial = Pick<Material, 'id' | 'name' | 'youngsModulus' | 'yieldStrength' | 'ultimateTensileStrength' | 'poissonsRatio' | 'shearModulus' | 'thermalExpansionCoefficient'>
+
+interface WeldCalculatorProps {
+  materials: WeldMaterial[]
+}
+
+type DesignMode = 'size' | 'check'
+type LoadKey = 'fx' | 'fy' | 'fz' | 'ex' | 'ey' | 'ez'
+
+// Forces in kN; the point of application in mm from the weld centroid
+const loadFields: { key: LoadKey; label: string; unit: string }[] = [
+  { key: 'fx', label: 'Force, Fx', unit: 'kN' },
+  { key: 'fy', label: 'Force, Fy', unit: 'kN' },
+  { key: 'fz', label: 'Force, Fz (normal)', unit: 'kN' },
+  { key: 'ex', label: 'Offset, x', unit: 'mm' },
+  { key: 'ey', label: 'Offset, y', unit: 'mm' },
+  { key: 'ez', label: 'Arm out of plane, z', unit: 'mm' },
+]
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+const MM = 1e-3
+const KN = 1e3
+const MPA = 1e6
+
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+function parseNumber(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function SafetyFactorCard({ label, value }: { label: string; value: number | null }) {
+  const fails = value !== null && value < 1
+  return (
+    <div className={`rounded-md p-4 ${fails ? 'bg-red-50' : 'bg-gray-50'}`}>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`text-2xl font-semibold ${fails ? 'text-red-700' : 'text-gray-900'}`}>{value !== null ? value.toFixed(2) : '—'}</dd>
+      {fails && <dd className="text-xs font-medium text-red-700">Fails: the weld is undersized</dd>}
+    </div>
+  )
+}
+
+export default function WeldCalculator({ materials }: WeldCalculatorProps) {
+  const [weldType, setWeldType] = useState<WeldType>('fillet')
+  const [pattern, setPattern] = useState<WeldPattern>('two-vertical')
+  const [width, setWidth] = useState('50')
+  const [depth, setDepth] = useState('100')
+  const [loads, setLoads] = useState<Record<LoadKey, string>>({
+    fx: '0', fy: '-20', fz: '0', ex: '150', ey: '0', ez: '0',
+  })
+  const [electrode, setElectrode] = useState<ElectrodeClass>('E70')
+  const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
+  const [mode, setMode] = useState<DesignMode>('size')
+  const [targetSafetyFactor, setTargetSafetyFactor] = useState('2')
+  const [size, setSize] = useState('6')
+
+  const selectedMaterial = materials.find((m) => m.id === materialId)
+  const baseStrength = selectedMaterial?.ultimateTensileStrength ?? null
+
+  const b = parsePositive(width)
+  const d = parsePositive(depth)
+  const n = parsePositive(targetSafetyFactor)
+  const h = parsePositive(size)
+  const values = Object.fromEntries(loadFields.map(({ key }) => [key, parseNumber(loads[key])])) as Record<LoadKey, number | null>
+  const usesWidth = weldPatterns[pattern].usesWidth
+
+  // Cheap enough to recompute on every render
+  const segments = d !== null && (b !== null || !usesWidth) ? weldPatternSegments(pattern, (b ?? 0) * MM, d * MM) : null
+  const properties = segments ? weldGroupProperties(segments) : null
+  const loadsValid = Object.values(values).every((v) => v !== null)
+  const load = loadsValid
+    ? {
+        force: { x: values.fx! * KN, y: values.fy! * KN, z: values.fz! * KN },
+        point: { x: values.ex! * MM, y: values.ey! * MM, z: values.ez! * MM },
+      }
+    : null
+  const result = segments && load && baseStrength && n !== null && (mode === 'size' || h !== null)
+    ? analyzeWeldGroup(weldType, segments, load, { electrode: electrodes[electrode].ultimateStrength, base: baseStrength }, n, mode === 'check' ? h! * MM : null)
+    : null
+
+  const sizeLabel = weldType === 'fillet' ? 'Leg size, h' : 'Plate thickness, t'
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Inputs */}
+      <form className="bg-white rounded-lg shadow-lg p-6 space-y-6" onSubmit={(e) => e.preventDefault()}>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Weld Group</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['fillet', 'butt'] as const).map((option) => (
+              <label key={option} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="weldType"
+                  value={option}
+                  checked={weldType === option}
+                  onChange={() => setWeldType(option)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {option === 'fillet' ? 'Fillet welds' : 'Full penetration butt welds'}
+              </label>
+            ))}
+          </div>
+          <label htmlFor="pattern" className="block text-sm font-medium text-gray-700">Pattern</label>
+          <select id="pattern" value={pattern} onChange={(e) => setPattern(e.target.value as WeldPattern)} className={selectClassName}>
+            {(Object.keys(weldPatterns) as WeldPattern[]).map((key) => <option key={key} value={key}>{weldPatterns[key].label}</option>)}
+          </select>
+          <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {usesWidth && (
+              <NumberField id="width" label="Width, b" unit="mm" min={0} value={width} onChange={setWidth}
+                error={b === null ? 'Must be greater than 0' : null} />
+            )}
+            <NumberField id="depth" label={pattern === 'circle' ? 'Diameter, D' : 'Depth, d'} unit="mm" min={0} value={depth} onChange={setDepth}
+              error={d === null ? 'Must be greater than 0' : null} />
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Loading</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {loadFields.map(({ key, label, unit }) => (
+              <NumberField
+                key={key}
+                id={key}
+                label={label}
+                unit={unit}
+                value={loads[key]}
+                onChange={(value) => setLoads((current) => ({ ...current, [key]: value }))}
+                error={values[key] === null ? 'Enter a number' : null}
+              />
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            The force acts at (x, y, z) from the weld centroid: x, y in the plane of the welds and z out of it. In-plane offsets cause torsion; the out-of-plane arm and Fz cause bending.
+          </p>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Strength</h2>
+          <label htmlFor="electrode" className="block text-sm font-medium text-gray-700">Electrode</label>
+          <select id="electrode" value={electrode} onChange={(e) => setElectrode(e.target.value as ElectrodeClass)} className={`${selectClassName} mb-4`}>
+            {(Object.keys(electrodes) as ElectrodeClass[]).map((key) => <option key={key} value={key}>{electrodes[key].label}</option>)}
+          </select>
+          <MaterialSelect materials={materials} selectedMaterialId={materialId} onChange={setMaterialId} />
+          {baseStrength && <p className="mt-2 text-xs text-gray-500">Base metal S<sub>ut</sub> = {(baseStrength / MPA).toFixed(0)} MPa</p>}
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Design</h2>
+          <div className="mb-4 flex gap-6 text-sm">
+            {(['size', 'check'] as const).map((option) => (
+              <label key={option} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="mode"
+                  value={option}
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                {option === 'size' ? 'Find the required size' : 'Check a given size'}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <NumberField id="targetSafetyFactor" label="Target safety factor" min={0} value={targetSafetyFactor} onChange={setTargetSafetyFactor}
+              error={n === null ? 'Must be greater than 0' : null} />
+            {mode === 'check' && (
+              <NumberField id="size" label={sizeLabel} unit="mm" min={0} value={size} onChange={setSize}
+                error={h === null ? 'Must be greater than 0' : null} />
+            )}
+          </div>
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Results</h2>
+        {result ? (
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Required {weldType === 'fillet' ? 'leg size' : 'thickness'} (n = {n?.toFixed(2)})</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(result.requiredSize / MM).toFixed(2)} mm</dd>
+              <dd className="text-xs text-gray-500">{result.governs === 'weld' ? 'Weld metal' : 'Base metal'} governs</dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Force per unit length at the critical point</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{(result.critical.resultant * MM).toFixed(0)} N/mm</dd>
+              <dd className="text-xs text-gray-500">
+                Shear {(result.critical.shear * MM).toFixed(0)} N/mm, normal {(result.critical.normal * MM).toFixed(0)} N/mm
+              </dd>
+            </div>
+            {result.size !== null && result.stress !== null && (
+              <>
+                <div className="rounded-md bg-gray-50 p-4">
+                  <dt className="text-gray-500">{weldType === 'fillet' ? 'Throat shear stress' : 'von Mises stress'}</dt>
+                  <dd className="text-2xl font-semibold text-gray-900">{(result.stress / MPA).toFixed(1)} MPa</dd>
+                  <dd className="text-xs text-gray-500">{weldType === 'fillet' ? `Throat ${(0.707 * result.size / MM).toFixed(2)} mm` : `Thickness ${(result.size / MM).toFixed(2)} mm`}</dd>
+                </div>
+                <div className="rounded-md bg-gray-50 p-4">
+                  <dt className="text-gray-500">Nominal strengths</dt>
+                  <dd className="text-gray-900">Weld metal: {(result.weldStrength / MPA).toFixed(0)} MPa</dd>
+                  <dd className="text-gray-900">Base metal: {(result.baseStrength / MPA).toFixed(0)} MPa</dd>
+                </div>
+                <SafetyFactorCard label="Weld metal safety factor" value={result.weldSafetyFactor} />
+                <SafetyFactorCard label="Base metal safety factor" value={result.baseSafetyFactor} />
+              </>
+            )}
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Weld group (unit properties)</dt>
+              <dd className="text-gray-900">Length A<sub>u</sub> = {(result.properties.length / MM).toFixed(1)} mm</dd>
+              <dd className="text-gray-900">I<sub>u</sub> = {(result.properties.Ix / MM ** 3).toExponential(3)} mm³</dd>
+              <dd className="text-gray-900">J<sub>u</sub> = {(result.properties.J / MM ** 3).toExponential(3)} mm³</dd>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <dt className="text-gray-500">Moments about the centroid</dt>
+              <dd className="text-gray-900">Torsion M<sub>z</sub> = {result.moments.z.toFixed(1)} N·m</dd>
+              <dd className="text-gray-900">Bending M<sub>x</sub> = {result.moments.x.toFixed(1)} N·m, M<sub>y</sub> = {result.moments.y.toFixed(1)} N·m</dd>
+            </div>
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500">Enter a weld pattern, a non-zero load and select a base material to see results.</p>
+        )}
+        {segments && properties && (
+          <WeldPatternDiagram
+            segments={segments}
+            centroid={properties.centroid}
+            loadPoint={load ? { x: load.point.x, y: load.point.y } : undefined}
+            loadDirection={load ? { x: load.force.x, y: load.force.y } : undefined}
+            critical={result?.critical}
+          />
+        )}
+        <p className="mt-6 text-xs text-gray-400">
+          Line method with nominal static strengths (0.6·S<sub>ut</sub> in shear for fillet welds, S<sub>ut</sub> for butt welds); no fatigue, residual stress or code resistance factors. Verify critical designs independently.
+        </p>
+      </div>
+    </div>
+  )
+}
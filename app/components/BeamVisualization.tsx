@@ -1,30 +1,245 @@
 'use client';
 
 import React from 'react';
+import {
+  BeamAnalysisResult,
+  BeamEnvelopePoint,
+  BeamLoad,
+  BeamSample,
+  ContinuousBeamResult,
+  SupportCondition,
+  calculateSimpleBeamPointLoadDeflection,
+  findZeroCrossings,
+  sampleBeam,
+} from '@/lib/calculations';
+import { SectionDimensions, SectionShape, getSectionOutline } from '@/lib/sections';
 
-// Define shape types (can be imported if defined centrally)
-export type BeamShape = 'rectangle' | 'circle' | 'direct';
+// Any shape from the section library, or 'direct' when only I is known
+export type BeamShape = SectionShape | 'direct';
 
 interface BeamVisualizationProps {
   length: number; // Beam length in meters
   deflection: number; // Max deflection in meters
   shape: BeamShape;
+  section?: SectionDimensions | null; // Full section description (meters); takes precedence over base/height/diameter
   base?: number; // Base in meters (for rectangle)
   height?: number; // Height in meters (for rectangle)
   diameter?: number; // Diameter in meters (for circle)
   svgWidth?: number;
   svgHeight?: number;
+  analysis?: BeamAnalysisResult | ContinuousBeamResult | null; // When given, shear force and bending moment diagrams are drawn below the beam
+  envelope?: BeamEnvelopePoint[] | null; // Pattern-loading envelopes, drawn dashed over the force diagrams
+  deflectionLimit?: number | null; // Allowable deflection in meters; colors the beam by pass/fail
+}
+
+// Formats a force or moment, switching to the kilo prefix for large values (e.g. 1500 N -> 1.50 kN)
+function formatWithPrefix(value: number, unit: string): string {
+  return Math.abs(value) >= 1000 ? `${(value / 1000).toFixed(2)} k${unit}` : `${value.toFixed(1)} ${unit}`;
+}
+
+const supportColor = '#6b7280'; // gray-500
+const loadColor = '#374151'; // gray-700
+
+// Pinned supports are drawn as triangles under the beam, fixed ends as a hatched wall
+function renderSupport(type: 'pin' | 'fixed', x: number, beamY: number, side: 'left' | 'right') {
+  if (type === 'pin') {
+    return <polygon points={`${x - 5},${beamY + 10} ${x},${beamY} ${x + 5},${beamY + 10}`} fill={supportColor} />;
+  }
+  const direction = side === 'left' ? -1 : 1; // Wall sits outside the beam end
+  return (
+    <g stroke={supportColor} strokeWidth="1">
+      <line x1={x} y1={beamY - 14} x2={x} y2={beamY + 14} strokeWidth="2" />
+      {[-12, -6, 0, 6].map((offset) => (
+        <line key={offset} x1={x} y1={beamY + offset} x2={x + 5 * direction} y2={beamY + offset + 6} />
+      ))}
+    </g>
+  );
+}
+
+// Draws a load above the beam: arrows for forces, a row of arrows for distributed loads and an arc for moments
+function renderLoad(load: BeamLoad, toSvgX: (x: number) => number, beamY: number, allLoads: BeamLoad[]) {
+  const arrowLength = 28;
+  const top = beamY - 4;
+
+  const arrow = (x: number, lengthPx: number, magnitude: number, key?: number) => {
+    // Downward loads point at the beam, upward loads point away from it
+    const [y1, y2] = magnitude >= 0 ? [top - lengthPx, top] : [top, top - lengthPx];
+    return <line key={key} x1={x} y1={y1} x2={x} y2={y2} stroke={loadColor} strokeWidth="1.2" markerEnd="url(#loadArrowhead)" />;
+  };
+
+  if (load.type === 'point') {
+    const x = toSvgX(load.position);
+    return (
+      <>
+        {arrow(x, arrowLength, load.magnitude)}
+        <text x={x} y={top - arrowLength - 3} fontSize="8" fill={loadColor} textAnchor="middle">
+          {formatWithPrefix(load.magnitude, 'N')}
+        </text>
+      </>
+    );
+  }
+
+  if (load.type === 'moment') {
+    const x = toSvgX(load.position);
+    const r = 10;
+    // Three-quarter arc starting above the beam; clockwise for positive moments
+    const clockwise = load.magnitude >= 0;
+    const end = clockwise ? `${x - r},${beamY}` : `${x + r},${beamY}`;
+    return (
+      <>
+        <path d={`M ${x},${beamY - r} A ${r} ${r} 0 1 ${clockwise ? 1 : 0} ${end}`} fill="none" stroke={loadColor} strokeWidth="1.2" markerEnd="url(#loadArrowhead)" />
+        <text x={x} y={beamY - r - 4} fontSize="8" fill={loadColor} textAnchor="middle">
+          {formatWithPrefix(load.magnitude, 'N·m')}
+        </text>
+      </>
+    );
+  }
+
+  // Distributed loads: arrow lengths are scaled to the largest intensity on the beam
+  const startMagnitude = load.type === 'uniform' ? load.magnitude : load.startMagnitude;
+  const endMagnitude = load.type === 'uniform' ? load.magnitude : load.endMagnitude;
+  const maxIntensity = Math.max(
+    ...allLoads.flatMap((l) =>
+      l.type === 'uniform' ? [Math.abs(l.magnitude)] : l.type === 'linear' ? [Math.abs(l.startMagnitude), Math.abs(l.endMagnitude)] : []
+    )
+  );
+  const intensityAt = (t: number) => startMagnitude + (endMagnitude - startMagnitude) * t;
+  const lengthFor = (w: number) => (maxIntensity > 0 ? Math.max((Math.abs(w) / maxIntensity) * (arrowLength - 6), 4) : 0);
+
+  const x1 = toSvgX(load.start);
+  const x2 = toSvgX(load.end);
+  const stations = Math.max(2, Math.round((x2 - x1) / 18));
+  const outline = Array.from({ length: stations + 1 }, (_, i) => {
+    const t = i / stations;
+    return `${x1 + (x2 - x1) * t},${top - lengthFor(intensityAt(t))}`;
+  }).join(' ');
+
+  return (
+    <>
+      <polyline points={outline} fill="none" stroke={loadColor} strokeWidth="1" />
+      {Array.from({ length: stations + 1 }, (_, i) => {
+        const t = i / stations;
+        const w = intensityAt(t);
+        return w === 0 ? null : arrow(x1 + (x2 - x1) * t, lengthFor(w), w, i);
+      })}
+      <text x={(x1 + x2) / 2} y={top - arrowLength - 3} fontSize="8" fill={loadColor} textAnchor="middle">
+        {startMagnitude === endMagnitude
+          ? formatWithPrefix(startMagnitude, 'N/m')
+          : `${formatWithPrefix(startMagnitude, 'N/m')} → ${formatWithPrefix(endMagnitude, 'N/m')}`}
+      </text>
+    </>
+  );
+}
+
+interface ForceDiagramProps {
+  title: string;
+  unit: string;
+  quantity: 'shear' | 'moment';
+  analysis: Pick<BeamAnalysisResult, 'extremes' | 'length'>;
+  samples: BeamSample[];
+  envelope?: BeamEnvelopePoint[] | null;
+  svgWidth: number;
+  padding: number;
+  stroke: string;
+  fill: string;
+}
+
+// A single shear or moment diagram, drawn on the same x scale as the beam above it
+function ForceDiagram({ title, unit, quantity, analysis, samples, envelope, svgWidth, padding, stroke, fill }: ForceDiagramProps) {
+  const diagramHeight = 110;
+  const labelSpace = 16; // Room above/below the plot for peak labels
+  const zeroY = diagramHeight / 2;
+  const amplitude = diagramHeight / 2 - labelSpace;
+
+  const { max, min } = analysis.extremes[quantity];
+  const envelopeKeys = quantity === 'shear' ? (['shearMax', 'shearMin'] as const) : (['momentMax', 'momentMin'] as const);
+  const envelopeAbs = envelope ? Math.max(...envelope.flatMap((p) => envelopeKeys.map((key) => Math.abs(p[key]))), 0) : 0;
+  const maxAbs = Math.max(Math.abs(max.value), Math.abs(min.value), envelopeAbs);
+  const tolerance = maxAbs * 1e-6;
+
+  const toX = (x: number) => padding + (x / analysis.length) * (svgWidth - 2 * padding);
+  const toY = (value: number) => (maxAbs > 0 ? zeroY - (value / maxAbs) * amplitude : zeroY); // Positive values plotted upward
+
+  const curve = samples.map((s) => `${toX(s.x)},${toY(s[quantity])}`).join(' ');
+  const area = `${toX(0)},${zeroY} ${curve} ${toX(analysis.length)},${zeroY}`;
+  const zeroCrossings = maxAbs > 0 ? findZeroCrossings(samples, quantity) : [];
+
+  // Keep labels inside the viewBox near the beam ends
+  const anchorFor = (x: number) => {
+    const px = toX(x);
+    if (px < padding + 30) return 'start';
+    if (px > svgWidth - padding - 30) return 'end';
+    return 'middle';
+  };
+
+  const peaks = [
+    { extreme: max, show: max.value > tolerance, dy: -5 },
+    { extreme: min, show: min.value < -tolerance, dy: 12 },
+  ];
+
+  return (
+    <div className="mt-2">
+      <h4 className="text-center text-xs font-medium text-gray-600">{title}</h4>
+      <svg width="100%" height={diagramHeight} viewBox={`0 0 ${svgWidth} ${diagramHeight}`} preserveAspectRatio="xMidYMid meet">
+        <polygon points={area} fill={fill} stroke="none" />
+        <polyline points={curve} fill="none" stroke={stroke} strokeWidth="1.5" />
+        <line x1={padding} y1={zeroY} x2={svgWidth - padding} y2={zeroY} stroke="#6b7280" /* gray-500 */ strokeWidth="1" />
+
+        {/* Envelopes */}
+        {envelope && envelopeKeys.map((key) => (
+          <polyline
+            key={key}
+            points={envelope.map((p) => `${toX(p.x)},${toY(p[key])}`).join(' ')}
+            fill="none"
+            stroke={stroke}
+            strokeWidth="1"
+            strokeDasharray="3 2"
+          />
+        ))}
+
+        {/* Peak values */}
+        {peaks.filter((p) => p.show).map(({ extreme, dy }) => (
+          <g key={dy}>
+            <circle cx={toX(extreme.location)} cy={toY(extreme.value)} r="2.5" fill={stroke} />
+            <text
+              x={toX(extreme.location)}
+              y={toY(extreme.value) + dy}
+              fontSize="9"
+              fill="#374151" /* gray-700 */
+              textAnchor={anchorFor(extreme.location)}
+            >
+              {formatWithPrefix(extreme.value, unit)} @ {extreme.location.toFixed(2)} m
+            </text>
+          </g>
+        ))}
+
+        {/* Zero crossings */}
+        {zeroCrossings.map((x) => (
+          <g key={x}>
+            <line x1={toX(x)} y1={zeroY - 4} x2={toX(x)} y2={zeroY + 4} stroke="#111827" /* gray-900 */ strokeWidth="1" />
+            <text x={toX(x) + 3} y={zeroY + 12} fontSize="8" fill="#6b7280" /* gray-500 */>
+              {x.toFixed(2)} m
+            </text>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
 }
 
 export function BeamVisualization({
   length,
   deflection,
   shape,
+  section,
   base,
   height,
   diameter,
   svgWidth = 400,
-  svgHeight = 100,
+  svgHeight = 140,
+  analysis,
+  envelope,
+  deflectionLimit,
 }: BeamVisualizationProps) {
   if (length <= 0 || deflection === null || deflection === undefined) {
     return null; // Don't render if data is invalid
@@ -35,75 +250,87 @@ export function BeamVisualization({
   const beamVisualLength = svgWidth - 2 * padding; // Length of the beam line in SVG units
   const beamY = svgHeight / 2; // Y position of the undeflected beam
 
+  const toSvgX = (x: number) => padding + (x / length) * beamVisualLength;
+
+  // Sample the full solution once for the deflected shape and the force diagrams
+  const diagramSamples = analysis ? sampleBeam(analysis) : [];
+
+  // --- Deflected Shape ---
+  // With a full analysis the curve is the actual solution. Otherwise fall back to the
+  // elastic curve of a centred point load on a simply supported beam, scaled so its
+  // peak equals the given max deflection.
+  let curveSamples: { x: number; deflection: number }[] = diagramSamples;
+  if (!analysis) {
+    const unitPeak = calculateSimpleBeamPointLoadDeflection(length, 1, 1, 1, length / 2, length / 2);
+    curveSamples = Array.from({ length: 101 }, (_, i) => {
+      const x = (length * i) / 100;
+      const unitDeflection = calculateSimpleBeamPointLoadDeflection(length, 1, 1, 1, length / 2, x);
+      return { x, deflection: unitPeak > 0 ? (unitDeflection / unitPeak) * deflection : 0 };
+    });
+  }
+  const maxDeflection = analysis ? analysis.maxDeflection.maxDeflection : deflection;
+  const maxDeflectionLocation = analysis ? analysis.maxDeflection.location : length / 2;
+  const support: SupportCondition = analysis && 'support' in analysis ? analysis.support : 'simply-supported';
+
   // --- Deflection Scaling ---
-  // Exaggerate deflection for visibility. Max visual deflection is 40% of available height.
+  // Exaggerate deflection for visibility: the largest deflection always spans 40% of the available height.
   const maxVisualDeflection = (svgHeight / 2 - padding) * 0.8;
-  const scaleFactor = length > 0 ? beamVisualLength / length : 1;
+  const peakDeflection = Math.max(...curveSamples.map((s) => Math.abs(s.deflection)), 0);
+  const deflectionScale = peakDeflection > 0 ? maxVisualDeflection / peakDeflection : 0;
+  const toSvgY = (v: number) => beamY + v * deflectionScale; // Downward deflection is positive, as is SVG y
 
-  // Calculate visual deflection, ensuring it doesn't exceed the max allowed
-  // Use absolute deflection as the curve is always downwards in this simple case
-  let visualDeflection = Math.abs(deflection) * scaleFactor; 
-  visualDeflection = Math.min(visualDeflection, maxVisualDeflection);
+  const pathData = curveSamples
+    .map((s, i) => `${i === 0 ? 'M' : 'L'} ${toSvgX(s.x)},${toSvgY(s.deflection)}`)
+    .join(' ');
+  const markerX = toSvgX(maxDeflectionLocation);
+  const markerY = toSvgY(maxDeflection);
 
-  // --- Path Data ---
-  // Use a quadratic Bezier curve: M start Q control end
-  // Start: (padding, beamY)
-  // End: (svgWidth - padding, beamY)
-  // Control point: (svgWidth / 2, beamY + visualDeflection)
-  const pathData = `M ${padding},${beamY} Q ${svgWidth / 2},${beamY + visualDeflection} ${svgWidth - padding},${beamY}`;
+  // Green within the serviceability limit, red beyond it
+  const limit = deflectionLimit && deflectionLimit > 0 ? deflectionLimit : null;
+  const beamColor = limit === null ? '#0ea5e9' /* sky-500 */ : Math.abs(maxDeflection) <= limit ? '#10b981' /* emerald-500 */ : '#ef4444'; /* red-500 */
+  // The limit line is drawn on the side the beam deflects to, if it fits in the plot
+  const limitY = limit !== null ? toSvgY(Math.sign(maxDeflection || 1) * limit) : null;
+  const showLimitLine = limitY !== null && limitY > padding / 2 && limitY < svgHeight - padding / 2;
 
   // --- Cross-Section Visualization Logic ---
-  const sectionSvgSize = 50; // Size of the square viewport for the section
-  const sectionPadding = 5;
+  const sectionSvgSize = 80; // Size of the square viewport for the section
+  const sectionPadding = 6;
   let sectionElement = null;
 
-  // Determine the largest dimension for scaling the section view
-  let maxDim = 0;
-  if (shape === 'rectangle' && base && height) {
-    maxDim = Math.max(base, height);
-  } else if (shape === 'circle' && diameter) {
-    maxDim = diameter;
+  // Older callers only pass base/height or diameter for the two basic shapes
+  let sectionDimensions: SectionDimensions | null = section ?? null;
+  if (!sectionDimensions && shape === 'rectangle' && base && height) {
+    sectionDimensions = { shape: 'rectangle', width: base, height };
+  } else if (!sectionDimensions && shape === 'circle' && diameter) {
+    sectionDimensions = { shape: 'circle', diameter };
   }
 
-  if (maxDim > 0) {
-    const scale = (sectionSvgSize - 2 * sectionPadding) / maxDim;
-    const transform = `translate(${sectionSvgSize / 2}, ${sectionSvgSize / 2}) scale(${scale}) translate(${-sectionSvgSize / 2}, ${-sectionSvgSize / 2})`;
-
-    if (shape === 'rectangle' && base && height) {
-      const rectWidth = base;
-      const rectHeight = height;
-      sectionElement = (
-        <svg width={sectionSvgSize} height={sectionSvgSize} viewBox={`0 0 ${sectionSvgSize} ${sectionSvgSize}`} className="ml-4 border rounded bg-gray-100">
-          <g transform={transform}>
-            <rect
-              x={(sectionSvgSize - rectWidth) / 2}
-              y={(sectionSvgSize - rectHeight) / 2}
-              width={rectWidth}
-              height={rectHeight}
-              fill="none"
-              stroke="#6b7280" /* gray-500 */
-              strokeWidth={1 / scale} // Adjust stroke width based on scale
-            />
-          </g>
-        </svg>
-      );
-    } else if (shape === 'circle' && diameter) {
-      const radius = diameter / 2;
-       sectionElement = (
-        <svg width={sectionSvgSize} height={sectionSvgSize} viewBox={`0 0 ${sectionSvgSize} ${sectionSvgSize}`} className="ml-4 border rounded bg-gray-100">
-           <g transform={transform}>
-            <circle
-              cx={sectionSvgSize / 2}
-              cy={sectionSvgSize / 2}
-              r={radius}
-              fill="none"
-              stroke="#6b7280" /* gray-500 */
-              strokeWidth={1 / scale}
-            />
-          </g>
-        </svg>
-      );
-    }
+  if (sectionDimensions) {
+    const loops = getSectionOutline(sectionDimensions);
+    const points = loops.flat();
+    const sectionWidth = Math.max(...points.map((p) => p.x));
+    const sectionHeight = Math.max(...points.map((p) => p.y));
+
+    // One scale for both directions keeps the shape's proportions true
+    const scale = (sectionSvgSize - 2 * sectionPadding) / Math.max(sectionWidth, sectionHeight);
+    const offsetX = (sectionSvgSize - sectionWidth * scale) / 2;
+    const offsetY = (sectionSvgSize - sectionHeight * scale) / 2;
+    // Section y runs up, SVG y runs down
+    const outlinePath = loops
+      .map((loop) => loop.map((p, i) => `${i === 0 ? 'M' : 'L'} ${offsetX + p.x * scale},${sectionSvgSize - offsetY - p.y * scale}`).join(' ') + ' Z')
+      .join(' ');
+
+    sectionElement = (
+      <svg width={sectionSvgSize} height={sectionSvgSize} viewBox={`0 0 ${sectionSvgSize} ${sectionSvgSize}`} className="ml-4 border rounded bg-gray-100">
+        <path
+          d={outlinePath}
+          fillRule="evenodd"
+          fill="#d1d5db" /* gray-300 */
+          stroke="#6b7280" /* gray-500 */
+          strokeWidth="1"
+        />
+      </svg>
+    );
   }
 
   return (
@@ -123,48 +350,107 @@ export function BeamVisualization({
              strokeDasharray="4 2" /* Dashed line */
            />
            
-           {/* Supports (simple triangles) */}
-           <polygon points={`${padding-5},${beamY+10} ${padding},${beamY} ${padding+5},${beamY+10}`} fill="#6b7280" /* gray-500 */ />
-           <polygon points={`${svgWidth - padding - 5},${beamY+10} ${svgWidth - padding},${beamY} ${svgWidth - padding + 5},${beamY+10}`} fill="#6b7280" /* gray-500 */ />
+           <defs>
+             <marker id="arrowhead" markerWidth="5" markerHeight="3.5" refX="0" refY="1.75" orient="auto">
+               <polygon points="0 0, 5 1.75, 0 3.5" fill="#ef4444" />
+             </marker>
+             <marker id="loadArrowhead" markerWidth="5" markerHeight="3.5" refX="5" refY="1.75" orient="auto">
+               <polygon points="0 0, 5 1.75, 0 3.5" fill="#374151" />
+             </marker>
+           </defs>
+
+           {/* Supports */}
+           {analysis && 'supports' in analysis ? (
+             analysis.supports.map((s) => (
+               <g key={s.position}>
+                 {renderSupport(s.type, toSvgX(s.position), beamY, s.position < length / 2 ? 'left' : 'right')}
+               </g>
+             ))
+           ) : (
+             <>
+               {renderSupport(support === 'simply-supported' ? 'pin' : 'fixed', padding, beamY, 'left')}
+               {support !== 'cantilever' && renderSupport(support === 'fixed-fixed' ? 'fixed' : 'pin', svgWidth - padding, beamY, 'right')}
+             </>
+           )}
+
+           {/* Loads */}
+           {analysis?.loads.map((load, index) => (
+             <g key={index}>{renderLoad(load, toSvgX, beamY, analysis.loads)}</g>
+           ))}
+
+           {/* Deflection Limit */}
+           {showLimitLine && limit !== null && (
+             <g>
+               <line x1={padding} y1={limitY} x2={svgWidth - padding} y2={limitY} stroke="#f59e0b" /* amber-500 */ strokeWidth="1" strokeDasharray="2 2" />
+               <text x={svgWidth - padding} y={limitY - 3} fontSize="9" fill="#b45309" /* amber-700 */ textAnchor="end">
+                 limit {(limit * 1000).toFixed(2)} mm
+               </text>
+             </g>
+           )}
 
            {/* Deflected Beam */}
-           {visualDeflection > 0 && (
+           {deflectionScale > 0 && (
              <path
                d={pathData}
-               stroke="#0ea5e9" /* sky-500 */
+               stroke={beamColor}
                strokeWidth="3"
                fill="none"
              />
            )}
            
            {/* Max Deflection Arrow & Text (Optional) */}
-           {visualDeflection > 5 && ( // Only show if visually significant
+           {Math.abs(markerY - beamY) > 5 && ( // Only show if visually significant
              <>
                <line
-                   x1={svgWidth / 2}
+                   x1={markerX}
                    y1={beamY}
-                   x2={svgWidth / 2}
-                   y2={beamY + visualDeflection - 2} // End slightly above curve
+                   x2={markerX}
+                   y2={markerY - 2 * Math.sign(markerY - beamY)} // End slightly short of the curve
                    stroke="#ef4444" /* red-500 */
                    strokeWidth="1"
                    markerEnd="url(#arrowhead)"
                 />
-                <defs>
-                 <marker id="arrowhead" markerWidth="5" markerHeight="3.5" refX="0" refY="1.75" orient="auto">
-                   <polygon points="0 0, 5 1.75, 0 3.5" fill="#ef4444" />
-                 </marker>
-               </defs>
                <text 
-                 x={svgWidth / 2 + 5} 
-                 y={beamY + visualDeflection + 5} // Adjusted Y: Move below the curve + add padding
+                 x={markerX + 5} 
+                 y={markerY + 8 * Math.sign(markerY - beamY)} // Beyond the curve, away from the beam
                  fontSize="10" 
                  fill="#ef4444"
                  alignmentBaseline="middle">
-                   {(deflection * 1000).toFixed(2)} mm
+                   {(maxDeflection * 1000).toFixed(2)} mm @ {maxDeflectionLocation.toFixed(2)} m
                 </text>
              </>
            )}
         </svg>
+
+        {/* Shear Force & Bending Moment Diagrams */}
+        {analysis && (
+          <>
+            <ForceDiagram
+              title="Shear Force Diagram"
+              unit="N"
+              quantity="shear"
+              analysis={analysis}
+              samples={diagramSamples}
+              envelope={envelope}
+              svgWidth={svgWidth}
+              padding={padding}
+              stroke="#059669" /* emerald-600 */
+              fill="rgba(16, 185, 129, 0.2)"
+            />
+            <ForceDiagram
+              title="Bending Moment Diagram (sagging +)"
+              unit="N·m"
+              quantity="moment"
+              analysis={analysis}
+              samples={diagramSamples}
+              envelope={envelope}
+              svgWidth={svgWidth}
+              padding={padding}
+              stroke="#7c3aed" /* violet-600 */
+              fill="rgba(139, 92, 246, 0.2)"
+            />
+          </>
+        )}
       </div>
       {/* Cross-Section Visualization */}
       {sectionElement && (
@@ -0,0 +1,64 @@
+'use client';
+
+import React from 'react';
+import { FitResult } from '@/lib/limitsFits';
+
+interface FitZoneDiagramProps {
+  fit: FitResult;
+  svgWidth?: number;
+  svgHeight?: number;
+}
+
+const textColor = '#374151'; // gray-700
+const axisColor = '#6b7280'; // gray-500
+
+// Tolerance zones of the hole and shaft against the zero line (nominal size), in µm
+export function FitZoneDiagram({ fit, svgWidth = 360, svgHeight = 240 }: FitZoneDiagramProps) {
+  const padding = { left: 48, right: 16, top: 16, bottom: 16 };
+  const plotHeight = svgHeight - padding.top - padding.bottom;
+  const zones = [
+    { zone: fit.hole, x: padding.left + 50, fill: '#bfdbfe' /* blue-200 */, stroke: '#2563eb' /* blue-600 */ },
+    { zone: fit.shaft, x: padding.left + 170, fill: '#fecaca' /* red-200 */, stroke: '#dc2626' /* red-600 */ },
+  ];
+  const zoneWidth = 90;
+  const maxDev = Math.max(0, fit.hole.upper, fit.shaft.upper);
+  const minDev = Math.min(0, fit.hole.lower, fit.shaft.lower);
+  const span = maxDev - minDev || 1;
+  // Leave a margin so labels above and below the zones stay inside the plot
+  const toY = (deviation: number) => padding.top + 12 + ((maxDev - deviation) / span) * (plotHeight - 24);
+  const um = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value * 1e7) / 10}`;
+
+  return (
+    <div className="my-4 border rounded-md p-4 bg-gray-50">
+      <h3 className="text-center text-sm font-medium text-gray-600 mb-2">Tolerance Zones</h3>
+      <svg width="100%" height={svgHeight} viewBox={`0 0 ${svgWidth} ${svgHeight}`} preserveAspectRatio="xMidYMid meet">
+        <line x1={padding.left} y1={padding.top} x2={padding.left} y2={padding.top + plotHeight} stroke={axisColor} />
+        <line x1={padding.left} y1={toY(0)} x2={svgWidth - padding.right} y2={toY(0)} stroke={axisColor} strokeDasharray="4 2" />
+        <text x={padding.left - 4} y={toY(0) + 3} fontSize="9" fill={textColor} textAnchor="end">0</text>
+        <text x={svgWidth - padding.right} y={toY(0) - 4} fontSize="9" fill={textColor} textAnchor="end">Nominal</text>
+
+        {zones.map(({ zone, x, fill, stroke }) => (
+          <g key={zone.designation}>
+            <rect
+              x={x}
+              y={toY(zone.upper)}
+              width={zoneWidth}
+              height={Math.max(toY(zone.lower) - toY(zone.upper), 1)}
+              fill={fill}
+              stroke={stroke}
+            />
+            <text x={x + zoneWidth / 2} y={(toY(zone.upper) + toY(zone.lower)) / 2 + 4} fontSize="12" fontWeight="600" fill={textColor} textAnchor="middle">
+              {zone.designation}
+            </text>
+            <text x={x + zoneWidth / 2} y={toY(zone.upper) - 3} fontSize="9" fill={textColor} textAnchor="middle">{um(zone.upper)}</text>
+            <text x={x + zoneWidth / 2} y={toY(zone.lower) + 10} fontSize="9" fill={textColor} textAnchor="middle">{um(zone.lower)}</text>
+          </g>
+        ))}
+
+        <text x={12} y={padding.top + plotHeight / 2} fontSize="10" fill={textColor} textAnchor="middle" transform={`rotate(-90 12 ${padding.top + plotHeight / 2})`}>
+          Deviation (µm)
+        </text>
+      </svg>
+    </div>
+  );
+}
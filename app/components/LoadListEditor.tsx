@@ -0,0 +1,149 @@
+'use client'
+
+import { BeamLoad, BeamLoadType } from '@/lib/calculations'
+
+// Form representation of a load; numbers stay as strings while being edited
+export interface LoadRow {
+  id: number
+  type: BeamLoadType
+  magnitude: string
+  endMagnitude: string // Linear loads only
+  start: string // Position for point loads and moments
+  end: string
+}
+
+const loadTypeOptions: { value: BeamLoadType; label: string; unit: string }[] = [
+  { value: 'point', label: 'Point load', unit: 'N' },
+  { value: 'moment', label: 'Moment', unit: 'N·m' },
+  { value: 'uniform', label: 'Uniform load', unit: 'N/m' },
+  { value: 'linear', label: 'Linear load', unit: 'N/m' },
+]
+
+let nextRowId = 1
+
+export function createLoadRow(partial: Partial<Omit<LoadRow, 'id'>> = {}): LoadRow {
+  return {
+    id: nextRowId++,
+    type: 'point',
+    magnitude: '1000',
+    endMagnitude: '0',
+    start: '1',
+    end: '2',
+    ...partial,
+  }
+}
+
+/**
+ * Converts a form row into a `BeamLoad`, returning an error message instead if the
+ * row cannot describe a load on a beam of length L.
+ */
+export function parseLoadRow(row: LoadRow, L: number | null): { load: BeamLoad } | { error: string } {
+  const magnitude = parseFloat(row.magnitude)
+  const start = parseFloat(row.start)
+  if (!Number.isFinite(magnitude)) {
+    return { error: 'Enter a magnitude' }
+  }
+  if (!Number.isFinite(start) || start < 0 || (L !== null && start > L)) {
+    return { error: 'Position must lie on the beam (0 ≤ x ≤ L)' }
+  }
+
+  if (row.type === 'point' || row.type === 'moment') {
+    return { load: { type: row.type, magnitude, position: start } }
+  }
+
+  const end = parseFloat(row.end)
+  if (!Number.isFinite(end) || end <= start || (L !== null && end > L)) {
+    return { error: 'End must be after start and on the beam' }
+  }
+  if (row.type === 'uniform') {
+    return { load: { type: 'uniform', magnitude, start, end } }
+  }
+
+  const endMagnitude = parseFloat(row.endMagnitude)
+  if (!Number.isFinite(endMagnitude)) {
+    return { error: 'Enter an end magnitude' }
+  }
+  return { load: { type: 'linear', startMagnitude: magnitude, endMagnitude, start, end } }
+}
+
+interface LoadListEditorProps {
+  rows: LoadRow[]
+  errors: (string | null)[]
+  onChange: (rows: LoadRow[]) => void
+}
+
+const inputClassName = 'block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500'
+
+export function LoadListEditor({ rows, errors, onChange }: LoadListEditorProps) {
+  const updateRow = (id: number, changes: Partial<LoadRow>) => {
+    onChange(rows.map((row) => (row.id === id ? { ...row, ...changes } : row)))
+  }
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row, index) => {
+        const unit = loadTypeOptions.find((o) => o.value === row.type)?.unit
+        const isDistributed = row.type === 'uniform' || row.type === 'linear'
+        return (
+          <div key={row.id} className="rounded-md border border-gray-200 p-3">
+            <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 items-end">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-600">Type</label>
+                <select
+                  value={row.type}
+                  onChange={(e) => updateRow(row.id, { type: e.target.value as BeamLoadType })}
+                  className={inputClassName}
+                >
+                  {loadTypeOptions.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600">
+                  {row.type === 'linear' ? 'Start' : 'Value'} ({unit})
+                </label>
+                <input type="number" step="any" value={row.magnitude} onChange={(e) => updateRow(row.id, { magnitude: e.target.value })} className={inputClassName} />
+              </div>
+              {row.type === 'linear' && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">End ({unit})</label>
+                  <input type="number" step="any" value={row.endMagnitude} onChange={(e) => updateRow(row.id, { endMagnitude: e.target.value })} className={inputClassName} />
+                </div>
+              )}
+              <div>
+                <label className="block text-xs font-medium text-gray-600">{isDistributed ? 'From (m)' : 'At x (m)'}</label>
+                <input type="number" step="any" min={0} value={row.start} onChange={(e) => updateRow(row.id, { start: e.target.value })} className={inputClassName} />
+              </div>
+              {isDistributed && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">To (m)</label>
+                  <input type="number" step="any" min={0} value={row.end} onChange={(e) => updateRow(row.id, { end: e.target.value })} className={inputClassName} />
+                </div>
+              )}
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => onChange(rows.filter((r) => r.id !== row.id))}
+                  className="px-3 py-2 text-sm font-medium text-red-600 hover:text-red-800"
+                  aria-label={`Remove load ${index + 1}`}
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+            {errors[index] && <p className="mt-1 text-xs text-red-600">{errors[index]}</p>}
+          </div>
+        )
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...rows, createLoadRow()])}
+        className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+      >
+        + Add load
+      </button>
+      <p className="text-xs text-gray-500">Forces and distributed loads act downward when positive; moments are clockwise when positive.</p>
+    </div>
+  )
+}
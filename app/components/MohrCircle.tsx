@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { transformPlaneStress } from '@/lib/stressState';
+
+interface MohrCircleProps {
+  principal: [number, number, number]; // σ1 ≥ σ2 ≥ σ3 (Pa)
+  plane?: { sx: number; sy: number; txy: number; angle: number }; // In-plane state and the rotated element angle (rad)
+  onAngleChange?: (angle: number) => void; // Dragging the rotated point reports the new element angle
+  svgWidth?: number;
+  svgHeight?: number;
+}
+
+const outerColor = '#0ea5e9'; // sky-500
+const innerColor = '#7c3aed'; // violet-600
+const xFaceColor = '#374151'; // gray-700
+const rotatedColor = '#ef4444'; // red-500
+const axisColor = '#9ca3af'; // gray-400
+
+const MPA = 1e6;
+
+// Mohr's circles with τ plotted positive DOWNWARD, so a counter-clockwise rotation θ of the
+// element moves its point counter-clockwise by 2θ on the circle
+export function MohrCircle({ principal, plane, onAngleChange, svgWidth = 480, svgHeight = 320 }: MohrCircleProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [s1, s2, s3] = principal;
+
+  // --- SVG Coordinate System Setup ---
+  // Equal scales on both axes so the circles stay round; the origin is always visible
+  const padding = 36;
+  const minSigma = Math.min(s3, 0);
+  const maxSigma = Math.max(s1, 0);
+  const radius = (s1 - s3) / 2;
+  const span = Math.max(maxSigma - minSigma, 2 * radius, 1e-9);
+  const scale = Math.min((svgWidth - 2 * padding) / span, (svgHeight - 2 * padding) / (2 * Math.max(radius, span / 4)));
+  const originX = svgWidth / 2 - ((minSigma + maxSigma) / 2) * scale;
+  const axisY = svgHeight / 2;
+  const toX = (sigma: number) => originX + sigma * scale;
+  const toY = (tau: number) => axisY + tau * scale;
+
+  const circles = [
+    { a: s1, b: s3, color: outerColor, fill: '#e0f2fe' /* sky-100 */ },
+    { a: s1, b: s2, color: innerColor, fill: 'white' },
+    { a: s2, b: s3, color: innerColor, fill: 'white' },
+  ];
+
+  const inPlane = plane ? {
+    center: (plane.sx + plane.sy) / 2,
+    x: { sigma: plane.sx, tau: plane.txy },
+    y: { sigma: plane.sy, tau: -plane.txy },
+    rotated: transformPlaneStress(plane.sx, plane.sy, plane.txy, plane.angle),
+  } : null;
+
+  const handlePointer = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!plane || !onAngleChange || !svgRef.current || event.buttons !== 1) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    // Convert from screen pixels to viewBox units (preserveAspectRatio "meet" keeps one factor)
+    const factor = Math.max(svgWidth / rect.width, svgHeight / rect.height);
+    const x = (event.clientX - rect.left - (rect.width - svgWidth / factor) / 2) * factor;
+    const y = (event.clientY - rect.top - (rect.height - svgHeight / factor) / 2) * factor;
+    // Angle on the circle measured from the x-face point, counter-clockwise on screen
+    const center = toX((plane.sx + plane.sy) / 2);
+    const pointer = Math.atan2(-(y - axisY), x - center);
+    const xFace = Math.atan2(-(toY(plane.txy) - axisY), toX(plane.sx) - center);
+    let angle = (pointer - xFace) / 2;
+    while (angle > Math.PI / 2) angle -= Math.PI;
+    while (angle <= -Math.PI / 2) angle += Math.PI;
+    onAngleChange(angle);
+  };
+
+  const format = (value: number) => (value / MPA).toFixed(1);
+
+  return (
+    <div className="my-4 border rounded-md p-4 bg-gray-50">
+      <h3 className="text-center text-sm font-medium text-gray-600 mb-2">Mohr&apos;s Circle</h3>
+      <svg
+        ref={svgRef}
+        width="100%"
+        height={svgHeight}
+        viewBox={`0 0 ${svgWidth} ${svgHeight}`}
+        preserveAspectRatio="xMidYMid meet"
+        onPointerDown={handlePointer}
+        onPointerMove={handlePointer}
+        style={{ touchAction: plane && onAngleChange ? 'none' : undefined }}
+        className={plane && onAngleChange ? 'cursor-crosshair' : undefined}
+      >
+        {/* Axes */}
+        <line x1={padding / 2} y1={axisY} x2={svgWidth - padding / 2} y2={axisY} stroke={axisColor} />
+        <line x1={toX(0)} y1={padding / 2} x2={toX(0)} y2={svgHeight - padding / 2} stroke={axisColor} />
+        <text x={svgWidth - padding / 2} y={axisY - 4} fontSize="10" fill={xFaceColor} textAnchor="end">σ</text>
+        <text x={toX(0) + 4} y={svgHeight - padding / 2} fontSize="10" fill={xFaceColor}>τ (+ down)</text>
+
+        {/* Principal Circles */}
+        {circles.map((c, i) => (
+          <circle
+            key={`circle-${i}`}
+            cx={toX((c.a + c.b) / 2)}
+            cy={axisY}
+            r={(Math.abs(c.a - c.b) / 2) * scale}
+            fill={c.fill}
+            stroke={c.color}
+            strokeWidth={i === 0 ? 2 : 1.2}
+          />
+        ))}
+
+        {/* Principal Stresses */}
+        {[s1, s2, s3].map((s, i) => (
+          <g key={`principal-${i}`}>
+            <circle cx={toX(s)} cy={axisY} r="2.5" fill={outerColor} />
+            <text x={toX(s)} y={axisY + (i === 1 ? -6 : 14)} fontSize="9" fill={xFaceColor} textAnchor="middle">
+              σ{i + 1} = {format(s)}
+            </text>
+          </g>
+        ))}
+        <text x={toX((s1 + s3) / 2)} y={toY(-radius) - 4} fontSize="9" fill={xFaceColor} textAnchor="middle">
+          τmax = {format(radius)}
+        </text>
+
+        {/* In-Plane State: x/y face diameter and the rotated element */}
+        {inPlane && (
+          <g>
+            <line
+              x1={toX(inPlane.x.sigma)} y1={toY(inPlane.x.tau)} x2={toX(inPlane.y.sigma)} y2={toY(inPlane.y.tau)}
+              stroke={xFaceColor} strokeDasharray="4 2"
+            />
+            <circle cx={toX(inPlane.x.sigma)} cy={toY(inPlane.x.tau)} r="3.5" fill={xFaceColor} />
+            <text x={toX(inPlane.x.sigma) + 5} y={toY(inPlane.x.tau) - 5} fontSize="9" fill={xFaceColor}>x</text>
+            <circle cx={toX(inPlane.y.sigma)} cy={toY(inPlane.y.tau)} r="3.5" fill={xFaceColor} />
+            <text x={toX(inPlane.y.sigma) + 5} y={toY(inPlane.y.tau) - 5} fontSize="9" fill={xFaceColor}>y</text>
+            <line
+              x1={toX(inPlane.rotated.normal)} y1={toY(inPlane.rotated.shear)}
+              x2={toX(inPlane.rotated.transverse)} y2={toY(-inPlane.rotated.shear)}
+              stroke={rotatedColor} strokeWidth="1.5"
+            />
+            <circle cx={toX(inPlane.rotated.normal)} cy={toY(inPlane.rotated.shear)} r="5" fill={rotatedColor} />
+            <text x={toX(inPlane.rotated.normal) + 6} y={toY(inPlane.rotated.shear) + 12} fontSize="9" fill={rotatedColor}>x′</text>
+            <circle cx={toX(inPlane.center)} cy={axisY} r="2" fill={xFaceColor} />
+          </g>
+        )}
+      </svg>
+      {plane && onAngleChange && (
+        <p className="mt-1 text-center text-xs text-gray-500">Drag on the circle to rotate the element; x′ moves by 2θ.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client'
+
+interface NumberFieldProps {
+  id: string
+  label: string
+  value: string
+  onChange: (value: string) => void
+  unit?: string
+  min?: number
+  step?: number | 'any'
+  error?: string | null
+  className?: string
+}
+
+// Labelled numeric input used by the calculator forms.
+// The value is kept as a string so partially typed numbers ("1.", "-") are not lost.
+export function NumberField({
+  id,
+  label,
+  value,
+  onChange,
+  unit,
+  min,
+  step = 'any',
+  error,
+  className,
+}: NumberFieldProps) {
+  return (
+    <div className={className}>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+        {label}
+      </label>
+      <div className="mt-1 flex rounded-md shadow-sm">
+        <input
+          id={id}
+          type="number"
+          inputMode="decimal"
+          min={min}
+          step={step}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={`block w-full min-w-0 flex-1 border-gray-300 text-sm focus:border-primary-500 focus:ring-primary-500 ${
+            unit ? 'rounded-none rounded-l-md' : 'rounded-md'
+          } ${error ? 'border-red-300' : ''}`}
+        />
+        {unit && (
+          <span className="inline-flex items-center rounded-r-md border border-l-0 border-gray-300 bg-gray-50 px-3 text-sm text-gray-500">
+            {unit}
+          </span>
+        )}
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import React from 'react';
+import { FrameModel, FrameResult, deformedMemberShape } from '@/lib/planeFrame';
+
+export type FrameSupportType = 'pin' | 'roller-x' | 'roller-y' | 'fixed';
+
+interface PlaneFrameVisualizationProps {
+  model: FrameModel;
+  result: FrameResult | null;
+  supportTypes: (FrameSupportType | null)[]; // Per joint, for drawing the support symbols
+  svgWidth?: number;
+  svgHeight?: number;
+}
+
+const supportColor = '#6b7280'; // gray-500
+const loadColor = '#374151'; // gray-700
+const tensionColor = '#2563eb'; // blue-600
+const compressionColor = '#dc2626'; // red-600
+
+// Formats a force, switching to the kilo prefix for large values (e.g. 1500 N -> 1.50 kN)
+function formatForce(value: number): string {
+  return Math.abs(value) >= 1000 ? `${(value / 1000).toFixed(2)} kN` : `${value.toFixed(1)} N`;
+}
+
+// Pins and rollers sit below the joint (rollers on the side for 'roller-y'); fixed supports are a hatched block
+function renderSupport(type: FrameSupportType, x: number, y: number) {
+  if (type === 'fixed') {
+    return (
+      <g stroke={supportColor} strokeWidth="1">
+        <line x1={x - 10} y1={y} x2={x + 10} y2={y} strokeWidth="2" />
+        {[-8, -3, 2, 7].map((offset) => (
+          <line key={offset} x1={x + offset} y1={y} x2={x + offset - 5} y2={y + 6} />
+        ))}
+      </g>
+    );
+  }
+  if (type === 'roller-y') {
+    return (
+      <g fill={supportColor}>
+        <polygon points={`${x},${y} ${x - 10},${y - 5} ${x - 10},${y + 5}`} />
+        <line x1={x - 14} y1={y - 8} x2={x - 14} y2={y + 8} stroke={supportColor} strokeWidth="1.5" />
+      </g>
+    );
+  }
+  return (
+    <g fill={supportColor}>
+      <polygon points={`${x},${y} ${x - 5},${y + 10} ${x + 5},${y + 10}`} />
+      {type === 'roller-x' && <line x1={x - 8} y1={y + 14} x2={x + 8} y2={y + 14} stroke={supportColor} strokeWidth="1.5" />}
+    </g>
+  );
+}
+
+export function PlaneFrameVisualization({
+  model,
+  result,
+  supportTypes,
+  svgWidth = 480,
+  svgHeight = 320,
+}: PlaneFrameVisualizationProps) {
+  if (model.joints.length === 0) {
+    return null;
+  }
+
+  // --- SVG Coordinate System Setup ---
+  // One scale for both directions keeps the geometry true; y is flipped so up is up
+  const padding = 40;
+  const xs = model.joints.map((j) => j.x);
+  const ys = model.joints.map((j) => j.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+  const size = Math.max(spanX, spanY) || 1;
+  const scale = Math.min((svgWidth - 2 * padding) / (spanX || size), (svgHeight - 2 * padding) / (spanY || size));
+  const offsetX = (svgWidth - spanX * scale) / 2;
+  const offsetY = (svgHeight - spanY * scale) / 2;
+  const toSvgX = (x: number) => offsetX + (x - minX) * scale;
+  const toSvgY = (y: number) => svgHeight - offsetY - (y - minY) * scale;
+
+  // --- Deformation Scaling ---
+  // Exaggerate displacements so the largest one is 8% of the structure's size
+  const maxDisplacement = result ? Math.max(...result.displacements.map((d) => Math.hypot(d.u, d.v)), 0) : 0;
+  const deformationScale = maxDisplacement > 0 ? (0.08 * size) / maxDisplacement : 0;
+
+  // Members are colored by axial force; tiny forces count as zero
+  const maxAxial = result ? Math.max(...result.memberForces.map((f) => Math.abs(f.axial)), 0) : 0;
+  const memberColor = (axial: number) => {
+    if (Math.abs(axial) <= maxAxial * 1e-6) return '#6b7280'; // gray-500
+    return axial > 0 ? tensionColor : compressionColor;
+  };
+
+  return (
+    <div className="my-4 border rounded-md p-4 bg-gray-50">
+      <h3 className="text-center text-sm font-medium text-gray-600 mb-2">Deformed Shape (Exaggerated)</h3>
+      <svg width="100%" height={svgHeight} viewBox={`0 0 ${svgWidth} ${svgHeight}`} preserveAspectRatio="xMidYMid meet">
+        <defs>
+          <marker id="frameLoadArrowhead" markerWidth="5" markerHeight="3.5" refX="5" refY="1.75" orient="auto">
+            <polygon points="0 0, 5 1.75, 0 3.5" fill={loadColor} />
+          </marker>
+        </defs>
+
+        {/* Undeformed Structure */}
+        {model.members.map((member, i) => (
+          <line
+            key={`undeformed-${i}`}
+            x1={toSvgX(model.joints[member.start].x)}
+            y1={toSvgY(model.joints[member.start].y)}
+            x2={toSvgX(model.joints[member.end].x)}
+            y2={toSvgY(model.joints[member.end].y)}
+            stroke="#9ca3af" /* gray-400 */
+            strokeWidth="2"
+            strokeDasharray="4 2"
+          />
+        ))}
+
+        {/* Supports */}
+        {supportTypes.map((type, j) => (type ? <g key={`support-${j}`}>{renderSupport(type, toSvgX(model.joints[j].x), toSvgY(model.joints[j].y))}</g> : null))}
+
+        {/* Joint Loads */}
+        {(model.jointLoads ?? []).map((load, i) => {
+          const joint = model.joints[load.joint];
+          const magnitude = Math.hypot(load.fx ?? 0, load.fy ?? 0);
+          if (!joint || magnitude === 0) return null;
+          // Arrow ends at the joint, pointing along the load
+          const x2 = toSvgX(joint.x);
+          const y2 = toSvgY(joint.y);
+          const x1 = x2 - (30 * (load.fx ?? 0)) / magnitude;
+          const y1 = y2 + (30 * (load.fy ?? 0)) / magnitude;
+          return (
+            <g key={`load-${i}`}>
+              <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={loadColor} strokeWidth="1.2" markerEnd="url(#frameLoadArrowhead)" />
+              <text x={x1} y={y1 - 3} fontSize="9" fill={loadColor} textAnchor="middle">{formatForce(magnitude)}</text>
+            </g>
+          );
+        })}
+
+        {/* Deformed Structure */}
+        {result && model.members.map((member, i) => {
+          const points = deformedMemberShape(model, result, i, deformationScale)
+            .map((p) => `${toSvgX(p.x)},${toSvgY(p.y)}`)
+            .join(' ');
+          return (
+            <polyline
+              key={`deformed-${i}`}
+              points={points}
+              fill="none"
+              stroke={memberColor(result.memberForces[i].axial)}
+              strokeWidth="2.5"
+            />
+          );
+        })}
+
+        {/* Axial Force Labels */}
+        {result && model.members.map((member, i) => {
+          const a = model.joints[member.start];
+          const b = model.joints[member.end];
+          return (
+            <text
+              key={`label-${i}`}
+              x={toSvgX((a.x + b.x) / 2)}
+              y={toSvgY((a.y + b.y) / 2) - 4}
+              fontSize="9"
+              fill={memberColor(result.memberForces[i].axial)}
+              textAnchor="middle"
+            >
+              {formatForce(result.memberForces[i].axial)}
+            </text>
+          );
+        })}
+
+        {/* Joint Numbers */}
+        {model.joints.map((joint, j) => (
+          <g key={`joint-${j}`}>
+            <circle cx={toSvgX(joint.x)} cy={toSvgY(joint.y)} r="2.5" fill="#111827" /* gray-900 */ />
+            <text x={toSvgX(joint.x) + 5} y={toSvgY(joint.y) - 5} fontSize="9" fill="#111827" /* gray-900 */>{j + 1}</text>
+          </g>
+        ))}
+      </svg>
+      <p className="mt-1 text-center text-xs text-gray-500">
+        <span style={{ color: tensionColor }}>Tension</span> · <span style={{ color: compressionColor }}>Compression</span> · axial forces labelled at mid-member
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import React from 'react';
+import { RadialStressPoint } from '@/lib/pressureVessel';
+
+interface RadialStressChartProps {
+  segments: { label?: string; points: RadialStressPoint[] }[]; // One per member, in radial order
+  axialLabel?: string; // Legend entry for the third stress component
+  svgWidth?: number;
+  svgHeight?: number;
+}
+
+const series: { key: keyof Omit<RadialStressPoint, 'radius'>; label: string; color: string; dash?: string }[] = [
+  { key: 'radial', label: 'Radial σr', color: '#2563eb' /* blue-600 */ },
+  { key: 'hoop', label: 'Hoop σθ', color: '#dc2626' /* red-600 */ },
+  { key: 'axial', label: 'Axial σz', color: '#16a34a' /* green-600 */ },
+  { key: 'vonMises', label: 'von Mises', color: '#6b7280' /* gray-500 */, dash: '4 2' },
+];
+
+const textColor = '#374151'; // gray-700
+const axisColor = '#6b7280'; // gray-500
+
+// Stresses through the wall against radius; members of a shrink fit are drawn side by side
+export function RadialStressChart({ segments, axialLabel, svgWidth = 480, svgHeight = 260 }: RadialStressChartProps) {
+  const all = segments.flatMap((s) => s.points);
+  if (all.length === 0) {
+    return null;
+  }
+
+  const padding = { left: 48, right: 16, top: 16, bottom: 36 };
+  const plotWidth = svgWidth - padding.left - padding.right;
+  const plotHeight = svgHeight - padding.top - padding.bottom;
+  const minR = Math.min(...all.map((p) => p.radius));
+  const maxR = Math.max(...all.map((p) => p.radius));
+  const values = all.flatMap((p) => series.map((s) => p[s.key]));
+  const minS = Math.min(0, ...values);
+  const maxS = Math.max(0, ...values);
+  const spanS = maxS - minS || 1;
+  const toX = (r: number) => padding.left + ((r - minR) / (maxR - minR || 1)) * plotWidth;
+  const toY = (s: number) => padding.top + ((maxS - s) / spanS) * plotHeight;
+
+  return (
+    <div className="my-4 border rounded-md p-4 bg-gray-50">
+      <h3 className="text-center text-sm font-medium text-gray-600 mb-2">Stress Through the Wall</h3>
+      <svg width="100%" height={svgHeight} viewBox={`0 0 ${svgWidth} ${svgHeight}`} preserveAspectRatio="xMidYMid meet">
+        <rect x={padding.left} y={padding.top} width={plotWidth} height={plotHeight} fill="none" stroke={axisColor} />
+        <line x1={padding.left} y1={toY(0)} x2={padding.left + plotWidth} y2={toY(0)} stroke="#9ca3af" /* gray-400 */ strokeDasharray="2 2" />
+
+        {/* Member boundaries */}
+        {segments.slice(1).map((segment, i) => (
+          <line key={`boundary-${i}`} x1={toX(segment.points[0].radius)} y1={padding.top} x2={toX(segment.points[0].radius)} y2={padding.top + plotHeight} stroke="#f59e0b" /* amber-500 */ strokeDasharray="3 2" />
+        ))}
+        {segments.map((segment, i) => segment.label && (
+          <text key={`label-${i}`} x={(toX(segment.points[0].radius) + toX(segment.points[segment.points.length - 1].radius)) / 2} y={padding.top + 12} fontSize="9" fill={textColor} textAnchor="middle">
+            {segment.label}
+          </text>
+        ))}
+
+        {segments.map((segment, i) => series.map((s) => (
+          <polyline
+            key={`${i}-${s.key}`}
+            points={segment.points.map((p) => `${toX(p.radius)},${toY(p[s.key])}`).join(' ')}
+            fill="none"
+            stroke={s.color}
+            strokeWidth="2"
+            strokeDasharray={s.dash}
+          />
+        )))}
+
+        {/* Axis labels in mm and MPa */}
+        <text x={padding.left} y={padding.top + plotHeight + 12} fontSize="9" fill={textColor} textAnchor="middle">{(minR * 1e3).toFixed(1)}</text>
+        <text x={padding.left + plotWidth} y={padding.top + plotHeight + 12} fontSize="9" fill={textColor} textAnchor="middle">{(maxR * 1e3).toFixed(1)}</text>
+        {maxS > 0 && <text x={padding.left - 4} y={padding.top + 3} fontSize="9" fill={textColor} textAnchor="end">{(maxS / 1e6).toFixed(0)}</text>}
+        <text x={padding.left - 4} y={toY(0) + 3} fontSize="9" fill={textColor} textAnchor="end">0</text>
+        {minS < 0 && <text x={padding.left - 4} y={padding.top + plotHeight} fontSize="9" fill={textColor} textAnchor="end">{(minS / 1e6).toFixed(0)}</text>}
+        <text x={padding.left + plotWidth / 2} y={svgHeight - 6} fontSize="10" fill={textColor} textAnchor="middle">Radius (mm)</text>
+        <text x={12} y={padding.top + plotHeight / 2} fontSize="10" fill={textColor} textAnchor="middle" transform={`rotate(-90 12 ${padding.top + plotHeight / 2})`}>
+          Stress (MPa)
+        </text>
+      </svg>
+      <p className="mt-1 text-center text-xs text-gray-500">
+        {series.map((s, i) => (
+          <span key={s.key}>
+            {i > 0 && ' · '}
+            <span style={{ color: s.color }}>{s.key === 'axial' && axialLabel ? axialLabel : s.label}</span>
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+}
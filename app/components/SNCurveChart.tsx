@@ -0,0 +1,102 @@
+'use client';
+
+import React from 'react';
+import { ENDURANCE_CYCLES, SNCurve, fatigueStrength } from '@/lib/fatigue';
+
+interface SNCurveChartProps {
+  curve: SNCurve;
+  points?: { stress: number; cycles: number }[]; // Equivalent amplitudes at their cycles to failure (Infinity = runout)
+  svgWidth?: number;
+  svgHeight?: number;
+}
+
+const curveColor = '#0ea5e9'; // sky-500
+const pointColor = '#ef4444'; // red-500
+const gridColor = '#e5e7eb'; // gray-200
+const axisColor = '#6b7280'; // gray-500
+const textColor = '#374151'; // gray-700
+
+const MAX_EXPONENT = 8; // Horizontal axis runs from 10⁰ to 10⁸ cycles
+
+// Log-log S-N diagram: low-cycle line, Basquin line and the endurance limit plateau
+export function SNCurveChart({ curve, points = [], svgWidth = 480, svgHeight = 260 }: SNCurveChartProps) {
+  const padding = { left: 48, right: 16, top: 16, bottom: 36 };
+  const plotWidth = svgWidth - padding.left - padding.right;
+  const plotHeight = svgHeight - padding.top - padding.bottom;
+
+  // Vertical range in MPa, from a decade boundary below the lowest stress to one above Sut
+  const stresses = [curve.enduranceLimit, ...points.map((p) => p.stress)].filter((s) => s > 0 && Number.isFinite(s));
+  const minLog = Math.floor(Math.log10(Math.min(...stresses) / 1e6));
+  const maxLog = Math.ceil(Math.log10(curve.ultimateStrength / 1e6));
+  const toX = (cycles: number) => padding.left + (Math.log10(Math.max(cycles, 1)) / MAX_EXPONENT) * plotWidth;
+  const toY = (stress: number) => {
+    const log = Math.min(Math.max(Math.log10(stress / 1e6), minLog), maxLog);
+    return padding.top + ((maxLog - log) / (maxLog - minLog)) * plotHeight;
+  };
+
+  const line = Array.from({ length: MAX_EXPONENT * 10 + 1 }, (_, i) => {
+    const cycles = 10 ** (i / 10);
+    return `${toX(cycles)},${toY(fatigueStrength(curve, cycles))}`;
+  }).join(' ');
+
+  const stressTicks: number[] = [];
+  for (let log = minLog; log <= maxLog; log++) {
+    [1, 2, 5].forEach((m) => {
+      const value = m * 10 ** log;
+      if (Math.log10(value) <= maxLog) stressTicks.push(value);
+    });
+  }
+
+  return (
+    <div className="my-4 border rounded-md p-4 bg-gray-50">
+      <h3 className="text-center text-sm font-medium text-gray-600 mb-2">S-N Curve</h3>
+      <svg width="100%" height={svgHeight} viewBox={`0 0 ${svgWidth} ${svgHeight}`} preserveAspectRatio="xMidYMid meet">
+        {/* Grid and Ticks */}
+        {Array.from({ length: MAX_EXPONENT + 1 }, (_, e) => (
+          <g key={`cycles-${e}`}>
+            <line x1={toX(10 ** e)} y1={padding.top} x2={toX(10 ** e)} y2={padding.top + plotHeight} stroke={gridColor} />
+            <text x={toX(10 ** e)} y={padding.top + plotHeight + 12} fontSize="9" fill={textColor} textAnchor="middle">
+              10<tspan fontSize="7" dy="-4">{e}</tspan>
+            </text>
+          </g>
+        ))}
+        {stressTicks.map((value) => (
+          <g key={`stress-${value}`}>
+            <line x1={padding.left} y1={toY(value * 1e6)} x2={padding.left + plotWidth} y2={toY(value * 1e6)} stroke={gridColor} />
+            <text x={padding.left - 4} y={toY(value * 1e6) + 3} fontSize="9" fill={textColor} textAnchor="end">{value}</text>
+          </g>
+        ))}
+        <rect x={padding.left} y={padding.top} width={plotWidth} height={plotHeight} fill="none" stroke={axisColor} />
+
+        {/* Endurance Limit Knee */}
+        <line x1={toX(ENDURANCE_CYCLES)} y1={padding.top} x2={toX(ENDURANCE_CYCLES)} y2={padding.top + plotHeight} stroke="#f59e0b" /* amber-500 */ strokeDasharray="3 2" />
+        <text x={toX(ENDURANCE_CYCLES) + 3} y={toY(curve.enduranceLimit) - 4} fontSize="9" fill="#b45309" /* amber-700 */>
+          Sₑ = {(curve.enduranceLimit / 1e6).toFixed(0)} MPa
+        </text>
+
+        <polyline points={line} fill="none" stroke={curveColor} strokeWidth="2" />
+
+        {/* Load Spectrum Points; runouts sit on the right edge as open circles */}
+        {points.map((p, i) => {
+          const runout = !Number.isFinite(p.cycles);
+          return (
+            <circle
+              key={`point-${i}`}
+              cx={runout ? padding.left + plotWidth : toX(p.cycles)}
+              cy={toY(p.stress)}
+              r="3.5"
+              fill={runout ? 'white' : pointColor}
+              stroke={pointColor}
+              strokeWidth="1.5"
+            />
+          );
+        })}
+
+        <text x={padding.left + plotWidth / 2} y={svgHeight - 6} fontSize="10" fill={textColor} textAnchor="middle">Cycles to failure, N</text>
+        <text x={12} y={padding.top + plotHeight / 2} fontSize="10" fill={textColor} textAnchor="middle" transform={`rotate(-90 12 ${padding.top + plotHeight / 2})`}>
+          Stress amplitude (MPa)
+        </text>
+      </svg>
+    </div>
+  );
+}
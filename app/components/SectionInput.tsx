@@ -0,0 +1,176 @@
+'use client'
+
+import { NumberField } from './NumberField'
+import { BeamShape } from './BeamVisualization'
+import {
+  SectionDimensions,
+  SectionProperties,
+  SectionShape,
+  calculateSectionProperties,
+} from '@/lib/sections'
+
+// 'direct' lets the user type the second moment of area instead of describing a shape
+export interface SectionInputValue {
+  shape: BeamShape
+  dimensions: Record<string, string> // mm (mm⁴ for directI), keyed by field
+}
+
+type DimensionKey = 'width' | 'height' | 'diameter' | 'outerDiameter' | 'wallThickness' | 'flangeThickness' | 'webThickness' | 'thickness'
+
+const sectionFields: Record<SectionShape, { key: DimensionKey; label: string }[]> = {
+  'rectangle': [{ key: 'width', label: 'Width, b' }, { key: 'height', label: 'Height, h' }],
+  'circle': [{ key: 'diameter', label: 'Diameter, d' }],
+  'hollow-rectangle': [{ key: 'width', label: 'Width, b' }, { key: 'height', label: 'Height, h' }, { key: 'wallThickness', label: 'Wall, t' }],
+  'tube': [{ key: 'outerDiameter', label: 'Outer diameter, D' }, { key: 'wallThickness', label: 'Wall, t' }],
+  'i-beam': [{ key: 'width', label: 'Flange width, b' }, { key: 'height', label: 'Height, h' }, { key: 'flangeThickness', label: 'Flange, tf' }, { key: 'webThickness', label: 'Web, tw' }],
+  'channel': [{ key: 'width', label: 'Flange width, b' }, { key: 'height', label: 'Height, h' }, { key: 'flangeThickness', label: 'Flange, tf' }, { key: 'webThickness', label: 'Web, tw' }],
+  'angle': [{ key: 'width', label: 'Leg width, b' }, { key: 'height', label: 'Leg height, h' }, { key: 'thickness', label: 'Thickness, t' }],
+  't-section': [{ key: 'width', label: 'Flange width, b' }, { key: 'height', label: 'Height, h' }, { key: 'flangeThickness', label: 'Flange, tf' }, { key: 'webThickness', label: 'Web, tw' }],
+}
+
+const shapeLabels: Record<BeamShape, string> = {
+  'rectangle': 'Rectangle',
+  'circle': 'Circle',
+  'hollow-rectangle': 'Hollow rectangle',
+  'tube': 'Tube',
+  'i-beam': 'I-beam',
+  'channel': 'Channel',
+  'angle': 'Angle',
+  't-section': 'T-section',
+  'direct': 'Enter I directly',
+}
+
+export const defaultSectionDimensions: Record<string, string> = {
+  width: '50',
+  height: '100',
+  diameter: '50',
+  outerDiameter: '60',
+  wallThickness: '4',
+  flangeThickness: '8',
+  webThickness: '6',
+  thickness: '6',
+  directI: '4166667',
+}
+
+const MM = 1e-3
+
+/**
+ * Converts the form value into SI section dimensions.
+ * Returns null for the 'direct' option or when any field is not a positive number.
+ */
+export function parseSectionInput(value: SectionInputValue): SectionDimensions | null {
+  if (value.shape === 'direct') {
+    return null
+  }
+  const dims: Record<string, number> = {}
+  for (const field of sectionFields[value.shape]) {
+    const parsed = parseFloat(value.dimensions[field.key] ?? '')
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      return null
+    }
+    dims[field.key] = parsed * MM
+  }
+  return { shape: value.shape, ...dims } as SectionDimensions
+}
+
+interface SectionInputProps {
+  value: SectionInputValue
+  onChange: (value: SectionInputValue) => void
+  allowDirect?: boolean
+  showProperties?: boolean
+}
+
+// Formats a property given in SI base units (m^power) in mm^power
+function formatMm(value: number, power: number): string {
+  return (value / Math.pow(MM, power)).toPrecision(4)
+}
+
+function SectionPropertiesSummary({ properties }: { properties: SectionProperties }) {
+  const rows: [string, string][] = [
+    ['A', `${formatMm(properties.area, 2)} mm²`],
+    ['Iₓ', `${formatMm(properties.Ix, 4)} mm⁴`],
+    ['Iᵧ', `${formatMm(properties.Iy, 4)} mm⁴`],
+    ['Sₓ', `${formatMm(properties.Sx, 3)} mm³`],
+    ['Sᵧ', `${formatMm(properties.Sy, 3)} mm³`],
+    ['Zₓ', `${formatMm(properties.Zx, 3)} mm³`],
+    ['Zᵧ', `${formatMm(properties.Zy, 3)} mm³`],
+    ['J', `${formatMm(properties.J, 4)} mm⁴`],
+    ['rₓ', `${formatMm(properties.rx, 1)} mm`],
+    ['rᵧ', `${formatMm(properties.ry, 1)} mm`],
+    ['Centroid (x, y)', `${formatMm(properties.centroidX, 1)}, ${formatMm(properties.centroidY, 1)} mm`],
+  ]
+  if (properties.Ixy !== 0) {
+    rows.splice(3, 0, ['Iₓᵧ', `${formatMm(properties.Ixy, 4)} mm⁴`])
+  }
+  return (
+    <dl className="mt-4 grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 text-xs">
+      {rows.map(([label, text]) => (
+        <div key={label} className="flex justify-between border-b border-gray-100 py-0.5">
+          <dt className="text-gray-500">{label}</dt>
+          <dd className="font-medium text-gray-800">{text}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+export function SectionInput({ value, onChange, allowDirect = false, showProperties = true }: SectionInputProps) {
+  const shapes = (Object.keys(shapeLabels) as BeamShape[]).filter((s) => allowDirect || s !== 'direct')
+  const setDimension = (key: string, text: string) =>
+    onChange({ ...value, dimensions: { ...value.dimensions, [key]: text } })
+
+  const dimensions = parseSectionInput(value)
+  const properties = dimensions ? calculateSectionProperties(dimensions) : null
+  const directI = parseFloat(value.dimensions.directI ?? '')
+
+  return (
+    <div>
+      <label htmlFor="sectionShape" className="block text-sm font-medium text-gray-700">Shape</label>
+      <select
+        id="sectionShape"
+        value={value.shape}
+        onChange={(e) => onChange({ ...value, shape: e.target.value as BeamShape })}
+        className="mt-1 mb-4 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500"
+      >
+        {shapes.map((shape) => (
+          <option key={shape} value={shape}>{shapeLabels[shape]}</option>
+        ))}
+      </select>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {value.shape === 'direct' ? (
+          <NumberField
+            id="directI"
+            label="Second moment of area, I"
+            unit="mm⁴"
+            min={0}
+            value={value.dimensions.directI ?? ''}
+            onChange={(text) => setDimension('directI', text)}
+            error={Number.isFinite(directI) && directI > 0 ? null : 'I must be greater than 0'}
+          />
+        ) : (
+          sectionFields[value.shape].map((field) => {
+            const parsed = parseFloat(value.dimensions[field.key] ?? '')
+            return (
+              <NumberField
+                key={field.key}
+                id={`section-${field.key}`}
+                label={field.label}
+                unit="mm"
+                min={0}
+                value={value.dimensions[field.key] ?? ''}
+                onChange={(text) => setDimension(field.key, text)}
+                error={Number.isFinite(parsed) && parsed > 0 ? null : 'Must be greater than 0'}
+              />
+            )
+          })
+        )}
+      </div>
+
+      {dimensions && !properties && (
+        <p className="mt-2 text-xs text-red-600">Wall or flange thicknesses are too large for the overall dimensions.</p>
+      )}
+      {showProperties && properties && <SectionPropertiesSummary properties={properties} />}
+    </div>
+  )
+}
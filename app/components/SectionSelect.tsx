@@ -0,0 +1,126 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Section } from '@prisma/client'
+
+export type SectionOption = Pick<Section, 'id' | 'designation' | 'family' | 'standard' | 'shape' | 'materialCategory' | 'height' | 'width' | 'webThickness' | 'flangeThickness' | 'wallThickness' | 'outerDiameter' | 'massPerLength' | 'area' | 'inertiaX' | 'inertiaY' | 'elasticModulusX' | 'elasticModulusY' | 'plasticModulusX' | 'plasticModulusY' | 'torsionConstant' | 'radiusOfGyrationX' | 'radiusOfGyrationY' | 'radiusOfGyrationZ'>
+
+interface SectionSelectProps {
+  sections: SectionOption[]
+  selectedSectionId: string
+  onChange: (sectionId: string) => void
+  className?: string
+}
+
+export function SectionSelect({
+  sections,
+  selectedSectionId,
+  onChange,
+}: SectionSelectProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [searchTerm, setSearchTerm] = useState('')
+  const dropdownRef = useRef<HTMLDivElement>(null)
+
+  const selectedSection = sections.find((s) => s.id === selectedSectionId)
+
+  // Convert m² to cm² and m⁴ to cm⁴ for display, as in the published tables
+  const convertToCm2 = (squareMeters: number) => squareMeters * 1e4
+  const convertToCm4 = (metersToFourth: number) => metersToFourth * 1e8
+
+  // Ignore spaces so "ipe200" finds "IPE 200"
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, '')
+  const filteredSections = sections.filter((section) =>
+    normalize(`${section.designation} ${section.family} ${section.materialCategory}`).includes(normalize(searchTerm))
+  )
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <div className="relative">
+        <input
+          type="text"
+          className="w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500"
+          placeholder="Search profiles (e.g. IPE 200, W12x26, RHS)..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          onFocus={() => setIsOpen(true)}
+        />
+        <button
+          type="button"
+          className="absolute inset-y-0 right-0 flex items-center px-2"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          <svg
+            className={`h-5 w-5 transform transition-transform ${isOpen ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+      </div>
+
+      {selectedSection && (
+        <div className="mt-2 text-sm">
+          <p className="font-medium">
+            {selectedSection.designation}
+            <span className="ml-2 text-xs font-normal text-gray-500">{selectedSection.standard} · {selectedSection.materialCategory}</span>
+          </p>
+          <p className="text-gray-600">
+            A: {convertToCm2(selectedSection.area).toFixed(2)} cm² · Iₓ: {convertToCm4(selectedSection.inertiaX).toPrecision(4)} cm⁴ · Iᵧ: {convertToCm4(selectedSection.inertiaY).toPrecision(4)} cm⁴
+          </p>
+          {selectedSection.massPerLength !== null && (
+            <p className="text-gray-600">Mass: {selectedSection.massPerLength.toFixed(1)} kg/m</p>
+          )}
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="absolute z-10 mt-1 w-full rounded-md bg-white shadow-lg">
+          <ul
+            className="max-h-60 overflow-auto rounded-md py-1 text-base"
+            role="listbox"
+            tabIndex={-1}
+          >
+            {filteredSections.map((section) => (
+              <li
+                key={section.id}
+                className={`relative cursor-pointer select-none py-2 px-3 hover:bg-gray-100 ${
+                  section.id === selectedSectionId ? 'bg-primary-50 text-primary-900' : 'text-gray-900'
+                }`}
+                onClick={() => {
+                  onChange(section.id)
+                  setIsOpen(false)
+                  setSearchTerm('')
+                }}
+                role="option"
+                aria-selected={section.id === selectedSectionId}
+              >
+                <div className="flex flex-col">
+                  <span className="font-medium">{section.designation}</span>
+                  <span className="text-sm text-gray-500">
+                    Iₓ: {convertToCm4(section.inertiaX).toPrecision(4)} cm⁴ · {section.standard}
+                  </span>
+                </div>
+              </li>
+            ))}
+            {filteredSections.length === 0 && (
+              <li className="py-2 px-3 text-sm text-gray-500">No matching profiles</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
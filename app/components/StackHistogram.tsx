@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+
+interface StackHistogramProps {
+  edges: number[];  // Bin edges (m)
+  counts: number[];
+  markers?: { value: number; label: string; color: string; dash?: string }[]; // Vertical lines (m)
+  svgWidth?: number;
+  svgHeight?: number;
+}
+
+const textColor = '#374151'; // gray-700
+const axisColor = '#6b7280'; // gray-500
+
+// Monte Carlo distribution of the gap with worst-case, RSS and limit lines, in mm
+export function StackHistogram({ edges, counts, markers = [], svgWidth = 480, svgHeight = 240 }: StackHistogramProps) {
+  if (counts.length === 0) {
+    return null;
+  }
+
+  const padding = { left: 40, right: 16, top: 28, bottom: 36 };
+  const plotWidth = svgWidth - padding.left - padding.right;
+  const plotHeight = svgHeight - padding.top - padding.bottom;
+  // Widen the axis so markers outside the sampled range stay visible
+  const minX = Math.min(edges[0], ...markers.map((m) => m.value));
+  const maxX = Math.max(edges[edges.length - 1], ...markers.map((m) => m.value));
+  const spanX = maxX - minX || 1;
+  const maxCount = Math.max(...counts, 1);
+  const toX = (value: number) => padding.left + ((value - minX) / spanX) * plotWidth;
+  const toY = (count: number) => padding.top + plotHeight - (count / maxCount) * plotHeight;
+
+  return (
+    <div className="my-4 border rounded-md p-4 bg-gray-50">
+      <h3 className="text-center text-sm font-medium text-gray-600 mb-2">Monte Carlo Distribution</h3>
+      <svg width="100%" height={svgHeight} viewBox={`0 0 ${svgWidth} ${svgHeight}`} preserveAspectRatio="xMidYMid meet">
+        {counts.map((count, i) => (
+          <rect
+            key={i}
+            x={toX(edges[i])}
+            y={toY(count)}
+            width={Math.max(toX(edges[i + 1]) - toX(edges[i]) - 1, 0.5)}
+            height={padding.top + plotHeight - toY(count)}
+            fill="#0ea5e9" /* sky-500 */
+          />
+        ))}
+        <line x1={padding.left} y1={padding.top + plotHeight} x2={padding.left + plotWidth} y2={padding.top + plotHeight} stroke={axisColor} />
+
+        {markers.map((marker, i) => (
+          <g key={`${marker.label}-${i}`}>
+            <line x1={toX(marker.value)} y1={padding.top} x2={toX(marker.value)} y2={padding.top + plotHeight} stroke={marker.color} strokeDasharray={marker.dash} strokeWidth="1.5" />
+            <text x={toX(marker.value)} y={padding.top - 4 - (i % 2) * 10} fontSize="8" fill={marker.color} textAnchor="middle">{marker.label}</text>
+          </g>
+        ))}
+
+        <text x={padding.left} y={padding.top + plotHeight + 12} fontSize="9" fill={textColor} textAnchor="middle">{(minX * 1e3).toFixed(3)}</text>
+        <text x={padding.left + plotWidth} y={padding.top + plotHeight + 12} fontSize="9" fill={textColor} textAnchor="middle">{(maxX * 1e3).toFixed(3)}</text>
+        <text x={padding.left + plotWidth / 2} y={svgHeight - 6} fontSize="10" fill={textColor} textAnchor="middle">Gap (mm)</text>
+        <text x={12} y={padding.top + plotHeight / 2} fontSize="10" fill={textColor} textAnchor="middle" transform={`rotate(-90 12 ${padding.top + plotHeight / 2})`}>
+          Samples
+        </text>
+      </svg>
+    </div>
+  );
+}
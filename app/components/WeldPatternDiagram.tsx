@@ -0,0 +1,95 @@
+'use client';
+
+import React from 'react';
+import { WeldSegment } from '@/lib/welds';
+
+interface WeldPatternDiagramProps {
+  segments: WeldSegment[];            // m, origin at the pattern's bottom-left corner
+  centroid: { x: number; y: number }; // m
+  loadPoint?: { x: number; y: number }; // In-plane point of application, relative to the centroid (m)
+  loadDirection?: { x: number; y: number }; // In-plane force components, drawn as an arrow
+  critical?: { x: number; y: number }; // Most highly loaded point (m)
+  svgWidth?: number;
+  svgHeight?: number;
+}
+
+const weldColor = '#f97316'; // orange-500
+const centroidColor = '#374151'; // gray-700
+const loadColor = '#2563eb'; // blue-600
+const criticalColor = '#dc2626'; // red-600
+
+// Weld lines seen normal to their plane, y up, with the centroid, the load and the critical point
+export function WeldPatternDiagram({ segments, centroid, loadPoint, loadDirection, critical, svgWidth = 400, svgHeight = 300 }: WeldPatternDiagramProps) {
+  if (segments.length === 0) {
+    return null;
+  }
+
+  // Fit the welds and the load point with equal scales on both axes
+  const xs = segments.flatMap((s) => [s.x1, s.x2]);
+  const ys = segments.flatMap((s) => [s.y1, s.y2]);
+  if (loadPoint) {
+    xs.push(centroid.x + loadPoint.x);
+    ys.push(centroid.y + loadPoint.y);
+  }
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const padding = 40;
+  const span = Math.max(maxX - minX, maxY - minY, 1e-9);
+  const scale = Math.min((svgWidth - 2 * padding) / Math.max(maxX - minX, span / 4), (svgHeight - 2 * padding) / Math.max(maxY - minY, span / 4));
+  const toX = (x: number) => svgWidth / 2 + (x - (minX + maxX) / 2) * scale;
+  const toY = (y: number) => svgHeight / 2 - (y - (minY + maxY) / 2) * scale;
+
+  const cx = toX(centroid.x);
+  const cy = toY(centroid.y);
+  const load = loadPoint ? { x: toX(centroid.x + loadPoint.x), y: toY(centroid.y + loadPoint.y) } : null;
+  const arrowLength = 36;
+  const directionNorm = loadDirection ? Math.hypot(loadDirection.x, loadDirection.y) : 0;
+  const arrow = load && loadDirection && directionNorm > 0
+    ? { dx: (loadDirection.x / directionNorm) * arrowLength, dy: (-loadDirection.y / directionNorm) * arrowLength }
+    : null;
+
+  return (
+    <div className="my-4 border rounded-md p-4 bg-gray-50">
+      <h3 className="text-center text-sm font-medium text-gray-600 mb-2">Weld Pattern</h3>
+      <svg width="100%" height={svgHeight} viewBox={`0 0 ${svgWidth} ${svgHeight}`} preserveAspectRatio="xMidYMid meet">
+        <defs>
+          <marker id="weld-load-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={loadColor} />
+          </marker>
+        </defs>
+
+        {/* Welds */}
+        {segments.map((s, i) => (
+          <line key={`weld-${i}`} x1={toX(s.x1)} y1={toY(s.y1)} x2={toX(s.x2)} y2={toY(s.y2)} stroke={weldColor} strokeWidth="6" strokeLinecap="round" />
+        ))}
+
+        {/* Centroid */}
+        <line x1={cx - 8} y1={cy} x2={cx + 8} y2={cy} stroke={centroidColor} />
+        <line x1={cx} y1={cy - 8} x2={cx} y2={cy + 8} stroke={centroidColor} />
+        <text x={cx + 6} y={cy + 14} fontSize="10" fill={centroidColor}>G</text>
+
+        {/* Load */}
+        {load && (
+          <g>
+            <line x1={cx} y1={cy} x2={load.x} y2={load.y} stroke={loadColor} strokeDasharray="3 2" />
+            <circle cx={load.x} cy={load.y} r="3.5" fill={loadColor} />
+            {arrow && (
+              <line x1={load.x - arrow.dx} y1={load.y - arrow.dy} x2={load.x} y2={load.y} stroke={loadColor} strokeWidth="2" markerEnd="url(#weld-load-arrow)" />
+            )}
+            <text x={load.x + 6} y={load.y - 6} fontSize="10" fill={loadColor}>F</text>
+          </g>
+        )}
+
+        {critical && (
+          <circle cx={toX(critical.x)} cy={toY(critical.y)} r="6" fill="none" stroke={criticalColor} strokeWidth="2" />
+        )}
+      </svg>
+      <p className="mt-1 text-center text-xs text-gray-500">
+        <span style={{ color: weldColor }}>Welds</span> · G centroid · <span style={{ color: loadColor }}>Load (in-plane components)</span>
+        {critical && <> · <span style={{ color: criticalColor }}>Critical point</span></>}
+      </p>
+    </div>
+  );
+}
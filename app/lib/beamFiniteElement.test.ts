@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { createBeamElement, solveBeamFiniteElement, FEModel } from './beamFiniteElement';
+import { analyzeContinuousBeam, calculateSimpleBeamPointLoadDeflection } from './calculations';
+import { calculateSectionProperties } from './sections';
+
+const E = 200e9; // Pa
+const I = 8.33e-6; // m⁴
+
+/** Nodes at the given positions joined by identical elements */
+function meshedBeam(positions: number[], theory: FEModel['theory'] = 'euler-bernoulli'): FEModel {
+  return {
+    theory,
+    nodes: positions.map((x) => ({ x })),
+    elements: positions.slice(1).map((_, i) => ({ nodes: [i, i + 1] as [number, number], E, I })),
+    supports: [],
+  };
+}
+
+describe('solveBeamFiniteElement', () => {
+  describe('simply supported beam with a point load', () => {
+    const L = 4;
+    const P = 10e3;
+
+    [1, 2, 3.2].forEach((a) => {
+      it(`matches the closed-form deflection with the load at ${a} m`, () => {
+        const positions = Array.from(new Set([0, 0.5, 1, 1.5, 2, 2.5, 3, 3.2, 3.5, L])).sort((p, q) => p - q);
+        const last = positions.length - 1;
+        const model: FEModel = {
+          ...meshedBeam(positions),
+          supports: [
+            { node: 0, dof: 'v', value: 0 },
+            { node: last, dof: 'v', value: 0 },
+          ],
+          nodalLoads: [{ node: positions.indexOf(a), force: -P }],
+        };
+
+        const result = solveBeamFiniteElement(model);
+        expect(result).not.toBeNull();
+        positions.forEach((x, node) => {
+          // The closed form is positive downward; the FE solution is positive upward
+          const expected = -calculateSimpleBeamPointLoadDeflection(L, P, E, I, a, x);
+          expect(result!.displacements[node].v).toBeCloseTo(expected, 9);
+        });
+
+        const reactions = result!.reactions;
+        expect(reactions[0].force).toBeCloseTo((P * (L - a)) / L, 6);
+        expect(reactions[1].force).toBeCloseTo((P * a) / L, 6);
+      });
+    });
+  });
+
+  it('agrees with the Macaulay solution for a three-span continuous beam', () => {
+    const positions = [0, 1.5, 3, 5, 7, 8.5, 10];
+    const supportNodes = [0, 2, 4, 6];
+    const model: FEModel = {
+      ...meshedBeam(positions),
+      supports: supportNodes.map((node) => ({ node, dof: 'v' as const, value: 0 })),
+      nodalLoads: [
+        { node: 1, force: -12e3 },
+        { node: 5, force: -8e3 },
+      ],
+    };
+    const continuous = analyzeContinuousBeam(
+      supportNodes.map((node) => ({ position: positions[node], type: 'pin' as const })),
+      [
+        { type: 'point', magnitude: 12e3, position: 1.5 },
+        { type: 'point', magnitude: 8e3, position: 8.5 },
+      ],
+      10,
+      E,
+      I
+    )!;
+
+    const result = solveBeamFiniteElement(model)!;
+    positions.forEach((x, node) => {
+      expect(result.displacements[node].v).toBeCloseTo(-continuous.deflection(x), 9);
+    });
+    result.reactions.forEach((reaction, i) => {
+      expect(reaction.force).toBeCloseTo(continuous.supports[i].force, 4);
+    });
+  });
+
+  it('adds shear deflection PL/κGA to the cantilever tip for Timoshenko elements', () => {
+    const L = 0.5;
+    const P = 20e3;
+    const section = calculateSectionProperties({ shape: 'rectangle', width: 0.05, height: 0.1 })!;
+    const material = { youngsModulus: 200e9, shearModulus: 79e9 };
+    const positions = [0, 0.125, 0.25, 0.375, L];
+    const elements = positions.slice(1).map((_, i) => createBeamElement([i, i + 1], material, section)!);
+
+    const result = solveBeamFiniteElement({
+      theory: 'timoshenko',
+      nodes: positions.map((x) => ({ x })),
+      elements,
+      supports: [
+        { node: 0, dof: 'v', value: 0 },
+        { node: 0, dof: 'theta', value: 0 },
+      ],
+      nodalLoads: [{ node: positions.length - 1, force: -P }],
+    });
+
+    const bending = (P * L ** 3) / (3 * material.youngsModulus * section.Ix);
+    const shear = (P * L) / ((5 / 6) * material.shearModulus * section.area);
+    expect(result).not.toBeNull();
+    expect(result!.displacements[positions.length - 1].v).toBeCloseTo(-(bending + shear), 12);
+  });
+
+  it('rejects Timoshenko elements without shear properties', () => {
+    const model: FEModel = {
+      ...meshedBeam([0, 1], 'timoshenko'),
+      supports: [
+        { node: 0, dof: 'v', value: 0 },
+        { node: 0, dof: 'theta', value: 0 },
+      ],
+    };
+    expect(solveBeamFiniteElement(model)).toBeNull();
+  });
+});
+
+describe('createBeamElement', () => {
+  const section = calculateSectionProperties({ shape: 'circle', diameter: 0.04 })!;
+
+  it('derives G from E and ν when the shear modulus is unknown', () => {
+    const element = createBeamElement([0, 1], { youngsModulus: 70e9, shearModulus: null, poissonsRatio: 0.33 }, section, 0.9);
+    expect(element).not.toBeNull();
+    expect(element!.I).toBe(section.Ix);
+    expect(element!.G).toBeCloseTo(70e9 / (2 * 1.33), 0);
+    expect(element!.shearArea).toBeCloseTo(0.9 * section.area, 12);
+  });
+
+  it('returns null without a Young\'s modulus', () => {
+    expect(createBeamElement([0, 1], { youngsModulus: null }, section)).toBeNull();
+  });
+});
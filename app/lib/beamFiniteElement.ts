@@ -0,0 +1,310 @@
+import { solveLinearSystem } from './linearAlgebra';
+import type { SectionProperties } from './sections';
+
+/**
+ * One-dimensional beam finite element solver (Euler–Bernoulli or Timoshenko theory).
+ * Assumes SI units (meters, Newtons, Pascals).
+ *
+ * Nodes lie on the x axis and carry two degrees of freedom: transverse displacement v
+ * and rotation θ. Unlike the closed-form beam cases, this module uses the usual
+ * finite element convention:
+ *   - v, nodal forces and distributed loads are positive UPWARD (+y),
+ *   - θ and nodal moments are positive COUNTER-CLOCKWISE.
+ * Internal forces are reported in the beam convention of `calculations.ts`
+ * (sagging moment positive, V = dM/dx), so they can be compared directly.
+ */
+
+export type FEDof = 'v' | 'theta';
+
+export interface FENode {
+  x: number; // m
+}
+
+/**
+ * Element stiffness is given directly in SI units; use `createBeamElement` to derive it
+ * from a material and cross-section.
+ */
+export interface FEElement {
+  nodes: [number, number]; // Indices into `nodes`, left to right
+  E: number;               // Young's modulus (Pa)
+  I: number;               // Second moment of area (m⁴)
+  G?: number;              // Shear modulus (Pa), Timoshenko only
+  shearArea?: number;      // Effective shear area κ·A (m²), Timoshenko only
+}
+
+/** The material properties an element needs (a subset of the Material model) */
+export interface FEMaterial {
+  youngsModulus: number | null; // Pa
+  shearModulus?: number | null; // Pa
+  poissonsRatio?: number | null;
+}
+
+/**
+ * Builds an element from a material and cross-section: E and G from the material (G falls
+ * back to E / 2(1 + ν), with ν = 0.3 if unknown), I = Ix and shear area κ·A.
+ *
+ * @param nodes - Indices of the element's end nodes, left to right.
+ * @param material - Material of the element.
+ * @param section - Section properties from `calculateSectionProperties` or `profileProperties`.
+ * @param shearCoefficient - Timoshenko shear coefficient κ (5/6 for a solid rectangle).
+ * @returns The element, or null if the material has no Young's modulus.
+ */
+export function createBeamElement(
+  nodes: [number, number],
+  material: FEMaterial,
+  section: SectionProperties,
+  shearCoefficient: number = 5 / 6
+): FEElement | null {
+  const E = material.youngsModulus;
+  if (!E) {
+    console.error("The material has no Young's modulus.");
+    return null;
+  }
+  return {
+    nodes,
+    E,
+    I: section.Ix,
+    G: material.shearModulus ?? E / (2 * (1 + (material.poissonsRatio ?? 0.3))),
+    shearArea: shearCoefficient * section.area,
+  };
+}
+
+/** Prescribed displacement (m) or rotation (rad); 0 for a rigid support */
+export interface FEPrescribedDisplacement {
+  node: number;
+  dof: FEDof;
+  value: number;
+}
+
+/** Elastic support to ground: N/m for v, N·m/rad for θ */
+export interface FESpring {
+  node: number;
+  dof: FEDof;
+  stiffness: number;
+}
+
+export interface FENodalLoad {
+  node: number;
+  force?: number;  // N, upward positive
+  moment?: number; // N·m, counter-clockwise positive
+}
+
+/** Linearly varying transverse load over a whole element (N/m, upward positive) */
+export interface FEElementLoad {
+  element: number;
+  startIntensity: number;
+  endIntensity: number;
+}
+
+export interface FEModel {
+  theory: 'euler-bernoulli' | 'timoshenko';
+  nodes: FENode[];
+  elements: FEElement[];
+  supports: FEPrescribedDisplacement[];
+  springs?: FESpring[];
+  nodalLoads?: FENodalLoad[];
+  elementLoads?: FEElementLoad[];
+}
+
+export interface FENodeResult {
+  v: number;     // m, upward positive
+  theta: number; // rad, counter-clockwise positive
+}
+
+/** Force and moment from supports and springs on a node */
+export interface FEReaction {
+  node: number;
+  force: number;  // N, upward positive
+  moment: number; // N·m, counter-clockwise positive
+}
+
+export interface FEElementForces {
+  element: number;
+  start: { shear: number; moment: number }; // Just right of the first node
+  end: { shear: number; moment: number };   // Just left of the second node
+}
+
+export interface FEResult {
+  displacements: FENodeResult[];
+  reactions: FEReaction[]; // Only nodes with a support or spring
+  elementForces: FEElementForces[];
+}
+
+const DOFS_PER_NODE = 2;
+const dofIndex = (node: number, dof: FEDof) => node * DOFS_PER_NODE + (dof === 'v' ? 0 : 1);
+
+/**
+ * Element stiffness matrix in [v1, θ1, v2, θ2] order. With Φ = 12EI / (κGA·L²) this is
+ * the exact Timoshenko element; Φ = 0 recovers the cubic Euler–Bernoulli element.
+ */
+function elementStiffness(L: number, EI: number, phi: number): number[][] {
+  const c = EI / ((1 + phi) * L * L * L);
+  const L2 = L * L;
+  return [
+    [12 * c, 6 * L * c, -12 * c, 6 * L * c],
+    [6 * L * c, (4 + phi) * L2 * c, -6 * L * c, (2 - phi) * L2 * c],
+    [-12 * c, -6 * L * c, 12 * c, -6 * L * c],
+    [6 * L * c, (2 - phi) * L2 * c, -6 * L * c, (4 + phi) * L2 * c],
+  ];
+}
+
+/**
+ * Work-equivalent nodal loads for a trapezoidal load (cubic shape functions). Exact for
+ * Euler–Bernoulli; for Timoshenko elements it is exact for uniform loads and a close
+ * approximation otherwise.
+ */
+function equivalentNodalLoads(L: number, q1: number, q2: number): number[] {
+  return [
+    L * (21 * q1 + 9 * q2) / 60,
+    L * L * (3 * q1 + 2 * q2) / 60,
+    L * (9 * q1 + 21 * q2) / 60,
+    -L * L * (2 * q1 + 3 * q2) / 60,
+  ];
+}
+
+function validateModel(model: FEModel): string | null {
+  const nodeCount = model.nodes.length;
+  const validNode = (n: number) => Number.isInteger(n) && n >= 0 && n < nodeCount;
+  for (const element of model.elements) {
+    const [i, j] = element.nodes;
+    if (!validNode(i) || !validNode(j) || !(model.nodes[j].x > model.nodes[i].x)) {
+      return 'Each element must join two existing nodes, left to right.';
+    }
+    if (!(element.E > 0) || !(element.I > 0)) {
+      return "Young's modulus and moment of inertia must be positive for every element.";
+    }
+    if (model.theory === 'timoshenko' && (!(element.G && element.G > 0) || !(element.shearArea && element.shearArea > 0))) {
+      return 'Timoshenko elements need a positive shear modulus and shear area.';
+    }
+  }
+  const references = [
+    ...model.supports.map((s) => s.node),
+    ...(model.springs ?? []).map((s) => s.node),
+    ...(model.nodalLoads ?? []).map((l) => l.node),
+  ];
+  if (!references.every(validNode)) {
+    return 'Supports, springs and loads must refer to existing nodes.';
+  }
+  if (!(model.elementLoads ?? []).every((l) => Number.isInteger(l.element) && l.element >= 0 && l.element < model.elements.length)) {
+    return 'Element loads must refer to existing elements.';
+  }
+  return null;
+}
+
+/**
+ * Solves a beam finite element model by the direct stiffness method. Prescribed
+ * displacements are eliminated from the system; springs add to the global stiffness.
+ *
+ * @param model - Nodes, elements, supports, springs and loads (see the types above).
+ * @returns Nodal displacements, reactions and element end forces, or null if the model is
+ *          invalid or not restrained against rigid-body motion.
+ */
+export function solveBeamFiniteElement(model: FEModel): FEResult | null {
+  const error = validateModel(model);
+  if (error) {
+    console.error(error);
+    return null;
+  }
+
+  const size = model.nodes.length * DOFS_PER_NODE;
+  const K: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+  const F: number[] = new Array(size).fill(0);
+
+  // Element stiffness and fixed-end loads, kept for recovering element forces later
+  const elementData = model.elements.map((element) => {
+    const [i, j] = element.nodes;
+    const L = model.nodes[j].x - model.nodes[i].x;
+    const EI = element.E * element.I;
+    // validateModel guarantees both are positive for Timoshenko models
+    const shearStiffness = element.G && element.shearArea ? element.G * element.shearArea : 0;
+    const phi = model.theory === 'timoshenko' && shearStiffness > 0 ? (12 * EI) / (shearStiffness * L * L) : 0;
+    return {
+      dofs: [dofIndex(i, 'v'), dofIndex(i, 'theta'), dofIndex(j, 'v'), dofIndex(j, 'theta')],
+      k: elementStiffness(L, EI, phi),
+      equivalentLoads: [0, 0, 0, 0],
+      L,
+    };
+  });
+
+  (model.elementLoads ?? []).forEach((load) => {
+    const data = elementData[load.element];
+    equivalentNodalLoads(data.L, load.startIntensity, load.endIntensity).forEach((f, a) => {
+      data.equivalentLoads[a] += f;
+    });
+  });
+
+  elementData.forEach(({ dofs, k, equivalentLoads }) => {
+    dofs.forEach((p, a) => {
+      F[p] += equivalentLoads[a];
+      dofs.forEach((q, b) => {
+        K[p][q] += k[a][b];
+      });
+    });
+  });
+  (model.springs ?? []).forEach((spring) => {
+    const p = dofIndex(spring.node, spring.dof);
+    K[p][p] += spring.stiffness;
+  });
+  (model.nodalLoads ?? []).forEach((load) => {
+    F[dofIndex(load.node, 'v')] += load.force ?? 0;
+    F[dofIndex(load.node, 'theta')] += load.moment ?? 0;
+  });
+
+  // Partition into free and prescribed degrees of freedom
+  const prescribed = new Map<number, number>();
+  model.supports.forEach((s) => prescribed.set(dofIndex(s.node, s.dof), s.value));
+  const free = Array.from({ length: size }, (_, p) => p).filter((p) => !prescribed.has(p));
+
+  const d: number[] = new Array(size).fill(0);
+  prescribed.forEach((value, p) => {
+    d[p] = value;
+  });
+  if (free.length > 0) {
+    const Kff = free.map((p) => free.map((q) => K[p][q]));
+    const rhs = free.map((p) => F[p] - Array.from(prescribed).reduce((sum, [q, value]) => sum + K[p][q] * value, 0));
+    const solution = solveLinearSystem(Kff, rhs);
+    if (!solution) {
+      console.error('The model is not restrained against rigid-body motion.');
+      return null;
+    }
+    free.forEach((p, a) => {
+      d[p] = solution[a];
+    });
+  }
+
+  // Springs push back with -k·d; supports carry whatever is left out of balance
+  const reactionDofs = new Array(size).fill(0);
+  prescribed.forEach((_, p) => {
+    reactionDofs[p] = K[p].reduce((sum, kpq, q) => sum + kpq * d[q], 0) - F[p];
+  });
+  (model.springs ?? []).forEach((spring) => {
+    const p = dofIndex(spring.node, spring.dof);
+    if (!prescribed.has(p)) {
+      reactionDofs[p] -= spring.stiffness * d[p];
+    }
+  });
+  const restrainedNodes = new Set([...model.supports.map((s) => s.node), ...(model.springs ?? []).map((s) => s.node)]);
+  const reactions: FEReaction[] = Array.from(restrainedNodes)
+    .sort((a, b) => a - b)
+    .map((node) => ({
+      node,
+      force: reactionDofs[dofIndex(node, 'v')],
+      moment: reactionDofs[dofIndex(node, 'theta')],
+    }));
+
+  // End forces on each element are k·d minus the fixed-end loads; convert to beam convention
+  const elementForces: FEElementForces[] = elementData.map(({ dofs, k, equivalentLoads }, element) => {
+    const f = k.map((row, a) => row.reduce((sum, kab, b) => sum + kab * d[dofs[b]], 0) - equivalentLoads[a]);
+    return {
+      element,
+      start: { shear: f[0], moment: -f[1] },
+      end: { shear: -f[2], moment: f[3] },
+    };
+  });
+
+  return {
+    displacements: model.nodes.map((_, node) => ({ v: d[dofIndex(node, 'v')], theta: d[dofIndex(node, 'theta')] })),
+    reactions,
+    elementForces,
+  };
+}
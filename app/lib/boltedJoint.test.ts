@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { BoltedJointGeometry, BoltedJointLoads, BoltedJointMaterials, calculateBoltedJoint, threadEnduranceLimit } from './boltedJoint';
+import { threadGeometry } from './threads';
+
+const MM = 1e-3;
+const MPA = 1e6;
+
+describe('threadGeometry', () => {
+  it('gives the ISO 898-1 stress areas of coarse metric threads', () => {
+    expect(threadGeometry(10 * MM, 1.5 * MM)!.stressArea / MM ** 2).toBeCloseTo(58.0, 1);
+    expect(threadGeometry(12 * MM, 1.75 * MM)!.stressArea / MM ** 2).toBeCloseTo(84.3, 1);
+    expect(threadGeometry(20 * MM, 2.5 * MM)!.stressArea / MM ** 2).toBeCloseTo(245, 0);
+  });
+
+  it('gives the ISO 724 basic diameters of M10', () => {
+    const thread = threadGeometry(10 * MM, 1.5 * MM)!;
+    expect(thread.pitchDiameter / MM).toBeCloseTo(9.026, 3);
+    expect(thread.minorDiameter / MM).toBeCloseTo(8.160, 3);
+    expect(thread.nutMinorDiameter / MM).toBeCloseTo(8.376, 3);
+  });
+
+  it('gives the ASME B1.1 stress area of 1/2-13 UNC', () => {
+    const INCH = 25.4 * MM;
+    const thread = threadGeometry(0.5 * INCH, INCH / 13, true)!;
+    expect(thread.stressArea / INCH ** 2).toBeCloseTo(0.1419, 4);
+  });
+
+  it('rejects a pitch too coarse for the diameter', () => {
+    expect(threadGeometry(4 * MM, 3 * MM)).toBeNull();
+  });
+});
+
+describe('threadEnduranceLimit', () => {
+  it('follows VDI 2230 for rolled threads', () => {
+    expect(threadEnduranceLimit(10 * MM) / MPA).toBeCloseTo(51, 9);
+  });
+});
+
+describe('calculateBoltedJoint', () => {
+  const thread = threadGeometry(10 * MM, 1.5 * MM)!;
+  const geometry: BoltedJointGeometry = {
+    gripLength: 30 * MM,
+    shankLength: 10 * MM,
+    headBearingDiameter: 16 * MM,
+    holeDiameter: 11 * MM,
+    memberOuterDiameter: 50 * MM,
+    engagedLength: 8 * MM,
+  };
+  const loads: BoltedJointLoads = { tighteningTorque: 50, nutFactor: 0.2, loadIntroductionFactor: 1, maxExternalLoad: 10e3, minExternalLoad: 0 };
+  // Property class 8.8 bolt in steel parts
+  const materials: BoltedJointMaterials = {
+    bolt: { E: 205e9, yieldStrength: 640 * MPA, ultimateTensileStrength: 800 * MPA },
+    member: { E: 205e9 },
+    internalThread: { yieldStrength: 640 * MPA },
+  };
+
+  it('takes the preload from T = K·F·d and shares the load by stiffness', () => {
+    const result = calculateBoltedJoint(thread, geometry, loads, materials)!;
+    expect(result.preload).toBeCloseTo(25e3, 6);
+    expect(result.preloadStress / MPA).toBeCloseTo(25e3 / 57.99, 0);
+
+    const Phi = result.boltStiffness / (result.boltStiffness + result.memberStiffness);
+    expect(result.loadFactor).toBeCloseTo(Phi, 12);
+    expect(result.maxBoltLoad).toBeCloseTo(25e3 + Phi * 10e3, 6);
+    expect(result.minClampLoad).toBeCloseTo(25e3 - (1 - Phi) * 10e3, 6);
+    expect(result.separated).toBe(false);
+  });
+
+  it("uses Shigley's Goodman line from the preload for the fatigue factor", () => {
+    const result = calculateBoltedJoint(thread, geometry, loads, materials)!;
+    const { stressAmplitude: sa, meanStress: sm } = result.fatigue;
+    const si = result.preloadStress;
+    const Se = 51 * MPA;
+    const Sut = 800 * MPA;
+    expect(sa).toBeCloseTo((result.loadFactor * 10e3) / (2 * thread.stressArea), 3);
+    expect(result.fatigue.safetyFactor).toBeCloseTo((Se * (Sut - si)) / (Sut * sa + Se * (sm - si)), 9);
+  });
+
+  it('puts the whole external load on the bolt once the joint separates', () => {
+    const result = calculateBoltedJoint(thread, geometry, { ...loads, maxExternalLoad: 40e3 }, materials)!;
+    expect(result.separated).toBe(true);
+    expect(result.minClampLoad).toBe(0);
+    expect(result.maxBoltLoad).toBeCloseTo(40e3, 6);
+    expect(result.separationSafetyFactor).toBeLessThan(1);
+  });
+
+  it('treats clamped parts narrower than the bearing face as a sleeve', () => {
+    const narrow = { ...geometry, memberOuterDiameter: 15 * MM };
+    const result = calculateBoltedJoint(thread, narrow, loads, materials)!;
+    const sleeveArea = (Math.PI / 4) * ((15 * MM) ** 2 - (11 * MM) ** 2);
+    expect(result.memberStiffness).toBeCloseTo((205e9 * sleeveArea) / (30 * MM), 0);
+  });
+
+  it('rejects a hole smaller than the bolt', () => {
+    expect(calculateBoltedJoint(thread, { ...geometry, holeDiameter: 9 * MM }, loads, materials)).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Preloaded bolted joints loaded by an axial (separating) force.
+ * Assumes SI units (meters, Newtons, Pascals).
+ *
+ * Follows VDI 2230 Part 1 for a through-bolted joint with a hex head and nut: the bolt
+ * compliance is the sum of its head, shank, free thread and engaged thread/nut segments,
+ * and the clamped parts deform as a substitute cone (with a sleeve where the parts are
+ * narrower than the cone). The preload comes from the tightening torque via a nut factor,
+ * T = K·F·d, instead of VDI's thread and bearing friction terms.
+ */
+
+import { ThreadGeometry } from './threads';
+
+export interface BoltedJointGeometry {
+  gripLength: number;             // lk, total clamped thickness (m)
+  shankLength: number;            // Unthreaded shank within the grip (m)
+  headBearingDiameter: number;    // dW, outer diameter of the head or washer bearing face (m)
+  holeDiameter: number;           // dh, clearance hole (m)
+  memberOuterDiameter: number;    // DA, width of the clamped parts around the bolt (m)
+  engagedLength: number;          // m, engaged thread length in the nut or tapped part (m)
+}
+
+export interface BoltedJointLoads {
+  tighteningTorque: number;       // T (N·m)
+  nutFactor: number;              // K in T = K·F·d
+  loadIntroductionFactor: number; // n, 1 when the load acts under the head and nut
+  maxExternalLoad: number;        // FA,max (N), separating
+  minExternalLoad: number;        // FA,min (N) of the load cycle
+}
+
+export interface BoltedJointMaterials {
+  bolt: { E: number; yieldStrength: number; ultimateTensileStrength: number };
+  member: { E: number };
+  internalThread: { yieldStrength: number }; // Nut or tapped part
+}
+
+export interface BoltedJointResult {
+  boltStiffness: number;            // kS (N/m)
+  memberStiffness: number;          // kP (N/m)
+  coneTangent: number;              // tan φ of the substitute cone
+  loadFactor: number;               // Φn = n·kS / (kS + kP), share of the external load taken by the bolt
+  preload: number;                  // Fi (N)
+  preloadStress: number;            // Fi / As (Pa)
+  preloadUtilization: number;       // Fi / (Sy·As)
+  maxBoltLoad: number;              // N
+  minClampLoad: number;             // Residual clamp force at FA,max (N), 0 once separated
+  separated: boolean;
+  separationSafetyFactor: number | null; // Fi / ((1 − Φn)·FA,max), null without a load
+  yieldSafetyFactor: number;        // Sy·As / maximum bolt load
+  fatigue: {
+    stressAmplitude: number;        // σa (Pa)
+    meanStress: number;             // σm (Pa)
+    enduranceLimit: number;         // σASV (Pa)
+    safetyFactor: number | null;    // Goodman with preload, null without a load cycle
+  };
+  stripping: {
+    boltShearArea: number;          // m²
+    internalShearArea: number;      // m²
+    boltSafetyFactor: number;       // External (bolt) thread
+    internalSafetyFactor: number;   // Internal (nut) thread
+  };
+}
+
+/**
+ * Endurance limit (stress amplitude) of a thread rolled before heat treatment,
+ * VDI 2230: σASV = 0.85·(150/d + 45) MPa with d in mm. Independent of the bolt grade.
+ */
+export function threadEnduranceLimit(diameter: number): number {
+  return 0.85 * (150 / (diameter * 1e3) + 45) * 1e6;
+}
+
+// Axial compliance of a hex head bolt with a nut (VDI 2230 §5.1.1)
+function boltCompliance(thread: ThreadGeometry, geometry: BoltedJointGeometry, E: number): number {
+  const { diameter: d, nominalArea, minorArea } = thread;
+  const freeThread = geometry.gripLength - geometry.shankLength;
+  const head = (0.5 * d) / nominalArea;
+  const shank = geometry.shankLength / nominalArea;
+  const threaded = freeThread / minorArea;
+  const engaged = (0.5 * d) / minorArea;
+  const nut = (0.4 * d) / nominalArea;
+  return (head + shank + threaded + engaged + nut) / E;
+}
+
+// Compliance of the clamped parts as a substitute cone (VDI 2230 §5.1.2, through-bolted, w = 1)
+function memberCompliance(geometry: BoltedJointGeometry, E: number): { compliance: number; coneTangent: number } {
+  const { gripLength: lk, headBearingDiameter: dW, holeDiameter: dh, memberOuterDiameter: DA } = geometry;
+  const coneTangent = 0.362 + 0.032 * Math.log(lk / dW / 2) + 0.153 * Math.log(Math.max(DA / dW, 1));
+
+  if (DA <= dW) {
+    // Narrower than the bearing face: the parts act as a plain sleeve
+    return { compliance: (4 * lk) / (E * Math.PI * (DA ** 2 - dh ** 2)), coneTangent };
+  }
+  const limitDiameter = dW + lk * coneTangent;
+  const coneLog = (outer: number) => Math.log(((dW + dh) * (outer - dh)) / ((dW - dh) * (outer + dh)));
+  if (DA >= limitDiameter) {
+    return { compliance: (2 * coneLog(limitDiameter)) / (E * Math.PI * dh * coneTangent), coneTangent };
+  }
+  // Cones cut off by the outer diameter, with a sleeve between them
+  const sleeveLength = lk - (DA - dW) / coneTangent;
+  const compliance = ((2 / (dh * coneTangent)) * coneLog(DA) + (4 / (DA ** 2 - dh ** 2)) * sleeveLength) / (E * Math.PI);
+  return { compliance, coneTangent };
+}
+
+/**
+ * Preload, load sharing and safety factors of a through-bolted joint.
+ *
+ * @param thread - Thread geometry from `threadGeometry`.
+ * @param geometry - Grip, bolt and clamped part dimensions.
+ * @param loads - Tightening torque, nut factor, load introduction factor and the external load cycle.
+ * @param materials - Bolt, clamped part and internal thread properties.
+ * @returns The joint analysis, or null if the inputs are invalid.
+ */
+export function calculateBoltedJoint(
+  thread: ThreadGeometry,
+  geometry: BoltedJointGeometry,
+  loads: BoltedJointLoads,
+  materials: BoltedJointMaterials
+): BoltedJointResult | null {
+  const { gripLength, shankLength, headBearingDiameter, holeDiameter, memberOuterDiameter, engagedLength } = geometry;
+  if (!(gripLength > 0) || !(shankLength >= 0) || shankLength > gripLength || !(engagedLength > 0)) {
+    console.error('Grip and engaged lengths must be positive, with the shank no longer than the grip.');
+    return null;
+  }
+  if (!(holeDiameter >= thread.diameter) || !(headBearingDiameter > holeDiameter) || !(memberOuterDiameter > holeDiameter)) {
+    console.error('The hole must clear the bolt and be smaller than the bearing face and the clamped parts.');
+    return null;
+  }
+  if (!(loads.tighteningTorque > 0) || !(loads.nutFactor > 0) || !(loads.loadIntroductionFactor > 0) || loads.loadIntroductionFactor > 1) {
+    console.error('Torque and nut factor must be positive and the load introduction factor between 0 and 1.');
+    return null;
+  }
+  if (!(loads.maxExternalLoad >= 0) || !(loads.minExternalLoad >= 0) || loads.minExternalLoad > loads.maxExternalLoad) {
+    console.error('External loads must be separating (≥ 0) with the minimum not above the maximum.');
+    return null;
+  }
+  const { bolt, member, internalThread } = materials;
+  if (!(bolt.E > 0) || !(member.E > 0) || !(bolt.yieldStrength > 0) || !(bolt.ultimateTensileStrength > 0) || !(internalThread.yieldStrength > 0)) {
+    console.error('Moduli and strengths must be positive.');
+    return null;
+  }
+
+  const boltFlexibility = boltCompliance(thread, geometry, bolt.E);
+  const { compliance: memberFlexibility, coneTangent } = memberCompliance(geometry, member.E);
+  const loadFactor = loads.loadIntroductionFactor * memberFlexibility / (boltFlexibility + memberFlexibility);
+
+  const As = thread.stressArea;
+  const preload = loads.tighteningTorque / (loads.nutFactor * thread.diameter);
+  // Once the joint separates the bolt carries the whole external load
+  const boltLoad = (external: number) => Math.max(preload + loadFactor * external, external);
+  const maxBoltLoad = boltLoad(loads.maxExternalLoad);
+  const minBoltLoad = boltLoad(loads.minExternalLoad);
+  const clampLoad = preload - (1 - loadFactor) * loads.maxExternalLoad;
+
+  // Goodman line from the preload stress (Shigley): n = Se·(Sut − σi) / (Sut·σa + Se·(σm − σi))
+  const Se = threadEnduranceLimit(thread.diameter);
+  const Sut = bolt.ultimateTensileStrength;
+  const stressAmplitude = (maxBoltLoad - minBoltLoad) / (2 * As);
+  const meanStress = (maxBoltLoad + minBoltLoad) / (2 * As);
+  const preloadStress = preload / As;
+  const fatigueDemand = Sut * stressAmplitude + Se * (meanStress - preloadStress);
+
+  // Thread stripping shear areas of the basic profile over the engaged length
+  const { pitch: P, pitchDiameter: d2, nutMinorDiameter: D1, diameter: d } = thread;
+  const tan30 = Math.tan(Math.PI / 6);
+  const boltShearArea = Math.PI * D1 * engagedLength * (0.5 + (tan30 * (d2 - D1)) / P);
+  const internalShearArea = Math.PI * d * engagedLength * (0.5 + (tan30 * (d - d2)) / P);
+  const shearYield = (Sy: number) => Sy / Math.sqrt(3);
+
+  return {
+    boltStiffness: 1 / boltFlexibility,
+    memberStiffness: 1 / memberFlexibility,
+    coneTangent,
+    loadFactor,
+    preload,
+    preloadStress,
+    preloadUtilization: preloadStress / bolt.yieldStrength,
+    maxBoltLoad,
+    minClampLoad: Math.max(clampLoad, 0),
+    separated: clampLoad <= 0,
+    separationSafetyFactor: loads.maxExternalLoad > 0 ? preload / ((1 - loadFactor) * loads.maxExternalLoad) : null,
+    yieldSafetyFactor: (bolt.yieldStrength * As) / maxBoltLoad,
+    fatigue: {
+      stressAmplitude,
+      meanStress,
+      enduranceLimit: Se,
+      // A preload stress above Sut leaves no fatigue margin at all
+      safetyFactor: stressAmplitude > 0 && fatigueDemand > 0 ? Math.max(Se * (Sut - preloadStress), 0) / fatigueDemand : null,
+    },
+    stripping: {
+      boltShearArea,
+      internalShearArea,
+      boltSafetyFactor: (shearYield(bolt.yieldStrength) * boltShearArea) / maxBoltLoad,
+      internalSafetyFactor: (shearYield(internalThread.yieldStrength) * internalShearArea) / maxBoltLoad,
+    },
+  };
+}
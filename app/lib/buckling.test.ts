@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { calculateColumnBuckling } from './buckling';
+import { calculateSectionProperties } from './sections';
+
+const E = 207e9;  // Pa
+const Sy = 350e6; // Pa
+const d = 0.025;  // Solid round bar (m)
+const area = (Math.PI * d * d) / 4;
+const r = d / 4;
+
+describe('calculateColumnBuckling', () => {
+  it('uses Euler for a slender pinned column', () => {
+    // KL/r = 1.5 / 0.00625 = 240, above Cc = 108.0
+    const result = calculateColumnBuckling(E, Sy, area, r, 1.5, 1, 5e3)!;
+    expect(result.mode).toBe('euler');
+    expect(result.slenderness).toBeCloseTo(240, 9);
+    expect(result.transitionSlenderness).toBeCloseTo(108.05, 2);
+    expect(result.criticalStress / 1e6).toBeCloseTo(35.47, 2);
+    expect(result.criticalLoad).toBeCloseTo(17410.75, 1);
+    expect(result.safetyFactor).toBeCloseTo(17410.75 / 5e3, 4);
+  });
+
+  it('uses the Johnson parabola for an intermediate column', () => {
+    // KL/r = 80: σcr = Sy − (Sy·KL/r / 2π)² / E = 254.06 MPa
+    const result = calculateColumnBuckling(E, Sy, area, r, 0.5, 1)!;
+    expect(result.mode).toBe('johnson');
+    expect(result.criticalStress / 1e6).toBeCloseTo(254.06, 2);
+    expect(result.eulerStress / 1e6).toBeCloseTo(319.22, 2);
+    expect(result.safetyFactor).toBeNull();
+  });
+
+  it('meets the Euler curve at half the yield strength at Cc', () => {
+    const Cc = Math.sqrt((2 * Math.PI ** 2 * E) / Sy);
+    const result = calculateColumnBuckling(E, Sy, area, r, Cc * r * 0.999999, 1)!;
+    expect(result.criticalStress / Sy).toBeCloseTo(0.5, 5);
+  });
+
+  it('applies the effective length factor', () => {
+    const pinned = calculateColumnBuckling(E, null, area, r, 1.5, 1)!;
+    const flagpole = calculateColumnBuckling(E, null, area, r, 1.5, 2)!;
+    expect(flagpole.criticalLoad).toBeCloseTo(pinned.criticalLoad / 4, 6);
+  });
+
+  it('rejects a non-positive radius of gyration', () => {
+    expect(calculateColumnBuckling(E, Sy, area, 0, 1, 1)).toBeNull();
+  });
+});
+
+describe('minor principal axis of angles', () => {
+  const IN = 0.0254;
+
+  it('gives rz close to the published value for an L4x4x1/2', () => {
+    // AISC: rz = 0.776 in (the tabulated value includes the root fillet)
+    const section = calculateSectionProperties({ shape: 'angle', width: 4 * IN, height: 4 * IN, thickness: 0.5 * IN })!;
+    expect(Math.abs(section.rz / IN - 0.776)).toBeLessThan(0.01);
+    expect(section.rz).toBeLessThan(Math.min(section.rx, section.ry));
+  });
+
+  it('equals the smaller of rx and ry for doubly symmetric sections', () => {
+    const section = calculateSectionProperties({ shape: 'rectangle', width: 0.05, height: 0.1 })!;
+    expect(section.rz).toBeCloseTo(section.ry, 12);
+  });
+});
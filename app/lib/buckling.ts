@@ -0,0 +1,84 @@
+/**
+ * Elastic and inelastic buckling of axially loaded columns.
+ * Assumes SI units (meters, Newtons, Pascals).
+ *
+ * Long columns follow Euler's formula; once the Euler stress exceeds half the yield
+ * strength (slenderness below the transition value Cc = √(2π²E / Sy)) the Johnson
+ * parabola is used instead, which meets the Euler curve tangentially at Cc.
+ */
+
+export type ColumnEndCondition = 'pinned-pinned' | 'fixed-free' | 'fixed-pinned' | 'fixed-fixed' | 'fixed-guided' | 'pinned-guided';
+
+/**
+ * Effective length factors K. `theoretical` assumes perfectly rigid restraints;
+ * `recommended` are the AISC design values that allow for joints never being fully fixed.
+ */
+export const effectiveLengthFactors: Record<ColumnEndCondition, { label: string; theoretical: number; recommended: number }> = {
+  'pinned-pinned': { label: 'Pinned–pinned', theoretical: 1.0, recommended: 1.0 },
+  'fixed-free': { label: 'Fixed–free (flagpole)', theoretical: 2.0, recommended: 2.1 },
+  'fixed-pinned': { label: 'Fixed–pinned', theoretical: 0.699, recommended: 0.8 },
+  'fixed-fixed': { label: 'Fixed–fixed', theoretical: 0.5, recommended: 0.65 },
+  'fixed-guided': { label: 'Fixed–guided (sway)', theoretical: 1.0, recommended: 1.2 },
+  'pinned-guided': { label: 'Pinned–guided (sway)', theoretical: 2.0, recommended: 2.0 },
+};
+
+export interface ColumnBucklingResult {
+  effectiveLength: number;       // K·L (m)
+  slenderness: number;           // K·L / r
+  transitionSlenderness: number | null; // Cc; null when no yield strength is known
+  mode: 'euler' | 'johnson';
+  eulerStress: number;           // π²E / (KL/r)² (Pa), for reference even when Johnson governs
+  criticalStress: number;        // Pa
+  criticalLoad: number;          // N
+  safetyFactor: number | null;   // P_cr / P, null without an applied load
+}
+
+/**
+ * Critical buckling load of a column about one axis.
+ *
+ * @param E - Young's Modulus (Pa)
+ * @param yieldStrength - Yield strength (Pa); without it only the Euler formula is used.
+ * @param area - Cross-sectional area (m²)
+ * @param radiusOfGyration - Radius of gyration about the buckling axis (m)
+ * @param length - Unbraced length L (m)
+ * @param K - Effective length factor
+ * @param axialLoad - Applied compressive load (N), optional, for the safety factor.
+ * @returns Buckling results, or null if any input is invalid.
+ */
+export function calculateColumnBuckling(
+  E: number,
+  yieldStrength: number | null,
+  area: number,
+  radiusOfGyration: number,
+  length: number,
+  K: number,
+  axialLoad?: number
+): ColumnBucklingResult | null {
+  if (!(E > 0) || !(area > 0) || !(radiusOfGyration > 0) || !(length > 0) || !(K > 0)) {
+    console.error('Modulus, area, radius of gyration, length and K must all be positive.');
+    return null;
+  }
+
+  const effectiveLength = K * length;
+  const slenderness = effectiveLength / radiusOfGyration;
+  const eulerStress = (Math.PI * Math.PI * E) / (slenderness * slenderness);
+
+  const Sy = yieldStrength && yieldStrength > 0 ? yieldStrength : null;
+  const transitionSlenderness = Sy ? Math.sqrt((2 * Math.PI * Math.PI * E) / Sy) : null;
+  const johnson = Sy !== null && transitionSlenderness !== null && slenderness < transitionSlenderness;
+  const criticalStress = johnson
+    ? Sy - (Sy * Sy * slenderness * slenderness) / (4 * Math.PI * Math.PI * E)
+    : eulerStress;
+  const criticalLoad = criticalStress * area;
+
+  return {
+    effectiveLength,
+    slenderness,
+    transitionSlenderness,
+    mode: johnson ? 'johnson' : 'euler',
+    eulerStress,
+    criticalStress,
+    criticalLoad,
+    safetyFactor: axialLoad && axialLoad > 0 ? criticalLoad / axialLoad : null,
+  };
+}
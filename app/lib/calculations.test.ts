@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeContinuousBeam } from './calculations';
+
+const E = 200e9; // Pa
+const I = 8.33e-6; // m⁴
+
+describe('analyzeContinuousBeam', () => {
+  it('gives 3qL/8, 10qL/8 and −qL²/8 over two equal spans', () => {
+    const L = 5;
+    const q = 10e3;
+    const result = analyzeContinuousBeam(
+      [{ position: 0, type: 'pin' }, { position: L, type: 'pin' }, { position: 2 * L, type: 'pin' }],
+      [{ type: 'uniform', magnitude: q, start: 0, end: 2 * L }],
+      2 * L,
+      E,
+      I
+    )!;
+    expect(result.supports.map((s) => s.force / (q * L))).toEqual([expect.closeTo(0.375, 9), expect.closeTo(1.25, 9), expect.closeTo(0.375, 9)]);
+    expect(result.moment(L)).toBeCloseTo((-q * L * L) / 8, 4);
+    expect(result.deflection(L)).toBeCloseTo(0, 12);
+  });
+
+  it('solves a propped cantilever under a uniform load', () => {
+    const L = 4;
+    const q = 5e3;
+    const result = analyzeContinuousBeam(
+      [{ position: 0, type: 'fixed' }, { position: L, type: 'pin' }],
+      [{ type: 'uniform', magnitude: q, start: 0, end: L }],
+      L,
+      E,
+      I
+    )!;
+    expect(result.supports[0].force).toBeCloseTo((5 * q * L) / 8, 6);
+    expect(result.supports[1].force).toBeCloseTo((3 * q * L) / 8, 6);
+    expect(result.moment(0)).toBeCloseTo((-q * L * L) / 8, 4);
+    // Largest sag of qL⁴/(185EI) at 0.5785L from the fixed end
+    expect(result.maxDeflection.maxDeflection).toBeCloseTo((q * L ** 4) / (184.6 * E * I), 5);
+    expect(result.maxDeflection.location / L).toBeCloseTo(0.5785, 3);
+  });
+
+  it('lifts the far support of a beam with a loaded overhang', () => {
+    const L = 3;
+    const a = 1;
+    const P = 2e3;
+    const result = analyzeContinuousBeam(
+      [{ position: 0, type: 'pin' }, { position: L, type: 'pin' }],
+      [{ type: 'point', magnitude: P, position: L + a }],
+      L + a,
+      E,
+      I
+    )!;
+    expect(result.supports[0].force).toBeCloseTo((-P * a) / L, 6);
+    expect(result.supports[1].force).toBeCloseTo((P * (L + a)) / L, 6);
+    expect(result.deflection(L + a)).toBeCloseTo((P * a * a * (L + a)) / (3 * E * I), 12);
+  });
+
+  it('rejects a beam that can rotate about a single pin', () => {
+    expect(analyzeContinuousBeam([{ position: 1, type: 'pin' }], [{ type: 'point', magnitude: 1e3, position: 2 }], 3, E, I)).toBeNull();
+  });
+});
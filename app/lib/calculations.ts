@@ -1,3 +1,6 @@
+import { solveLinearSystem } from './linearAlgebra';
+import { SectionProperties } from './sections';
+
 /**
  * Calculates the deflection of a simply supported beam under a single point load.
  * Handles both centered and off-center loads.
@@ -84,13 +87,13 @@ export function calculateSimpleBeamMaxDeflection(
     const b = L - a;
     let x_max: number;
 
-    // Location of maximum deflection depends on whether a < b (load closer to left support)
+    // Maximum deflection always lies in the longer of the two segments either side of the load.
     // Formula derived from setting the slope equation (derivative of deflection) to zero.
-    if (a <= b) { 
-        // If a <= L/2, max deflection occurs between left support and load (0 < x < a)
+    if (a >= b) { 
+        // If a >= L/2, max deflection occurs between left support and load (0 < x <= a)
         x_max = Math.sqrt((L*L - b*b) / 3);
     } else { 
-        // If a > L/2, max deflection occurs between load and right support (a < x < L)
+        // If a < L/2, max deflection occurs between load and right support (a < x < L)
         // The formula uses x measured from the left support A.
         x_max = L - Math.sqrt((L*L - a*a) / 3);
     }
@@ -112,4 +115,848 @@ export function calculateBeamDeflection(
 ): number {
     // Center load case: a = L/2, calculate deflection at x = L/2
     return calculateSimpleBeamPointLoadDeflection(length, load, youngsModulus, inertia, length / 2, length / 2);
-} 
\ No newline at end of file
+} 
+
+// ============================================================
+//  GENERAL BEAM CASES (support condition × load type)
+// ============================================================
+//
+// Sign convention used by everything below:
+//   - x is measured from the left end of the beam (m).
+//   - Forces and distributed loads are positive DOWNWARD, matching `P` above.
+//   - Applied moments are positive CLOCKWISE.
+//   - Deflection is positive DOWNWARD and slope is d(deflection)/dx.
+//   - Bending moment is positive when sagging; shear is dM/dx.
+//   - Support reactions: force positive UPWARD, moment positive COUNTER-CLOCKWISE.
+//
+// Fixed ends are always on the left: a cantilever is clamped at x = 0 and free at x = L,
+// a propped cantilever is clamped at x = 0 and simply supported at x = L.
+
+export type SupportCondition = 'simply-supported' | 'cantilever' | 'fixed-fixed' | 'propped-cantilever';
+
+export type BeamLoad =
+  | { type: 'point'; magnitude: number; position: number }   // N at x = position
+  | { type: 'moment'; magnitude: number; position: number }  // N·m at x = position
+  | { type: 'uniform'; magnitude: number; start: number; end: number } // N/m over [start, end]
+  | { type: 'linear'; startMagnitude: number; endMagnitude: number; start: number; end: number }; // N/m, varying linearly
+
+export type BeamLoadType = BeamLoad['type'];
+
+export interface SupportReaction {
+  force: number;  // N, upward positive
+  moment: number; // N·m, counter-clockwise positive
+}
+
+export interface BeamReactions {
+  left: SupportReaction;
+  right: SupportReaction;
+}
+
+export interface BeamCaseResult {
+  support: SupportCondition;
+  length: number;
+  reactions: BeamReactions;
+  /** Deflection at x (m), downward positive */
+  deflection: (x: number) => number;
+  /** Slope at x (rad) */
+  slope: (x: number) => number;
+  /** Shear force at x (N), taken just to the right of any point load at x */
+  shear: (x: number) => number;
+  /** Bending moment at x (N·m), sagging positive */
+  moment: (x: number) => number;
+  maxDeflection: { maxDeflection: number; location: number; };
+}
+
+/**
+ * One term `coefficient · <x - position>^order` of the bending moment expression,
+ * where <x - a>^n is the Macaulay bracket (zero for x < a).
+ */
+interface MomentTerm {
+  coefficient: number;
+  position: number;
+  order: number;
+}
+
+function macaulay(x: number, a: number, n: number): number {
+  if (x < a) return 0;
+  return n === 0 ? 1 : Math.pow(x - a, n);
+}
+
+// Bending moment terms produced by a single load (excluding support reactions)
+function loadMomentTerms(load: BeamLoad): MomentTerm[] {
+  switch (load.type) {
+    case 'point':
+      return [{ coefficient: -load.magnitude, position: load.position, order: 1 }];
+    case 'moment':
+      return [{ coefficient: load.magnitude, position: load.position, order: 0 }];
+    case 'uniform':
+      return loadMomentTerms({
+        type: 'linear',
+        startMagnitude: load.magnitude,
+        endMagnitude: load.magnitude,
+        start: load.start,
+        end: load.end,
+      });
+    case 'linear': {
+      const { startMagnitude: w1, endMagnitude: w2, start: a, end: b } = load;
+      const k = (w2 - w1) / (b - a); // Load gradient (N/m²)
+      // Start the ramp at a, then cancel it beyond b
+      return [
+        { coefficient: -w1 / 2, position: a, order: 2 },
+        { coefficient: -k / 6, position: a, order: 3 },
+        { coefficient: w2 / 2, position: b, order: 2 },
+        { coefficient: k / 6, position: b, order: 3 },
+      ];
+    }
+  }
+}
+
+// Resultant downward force of a load (N) and its moment about x = 0 (N·m, clockwise positive)
+function loadResultant(load: BeamLoad): { force: number; momentAboutOrigin: number } {
+  switch (load.type) {
+    case 'point':
+      return { force: load.magnitude, momentAboutOrigin: load.magnitude * load.position };
+    case 'moment':
+      return { force: 0, momentAboutOrigin: load.magnitude };
+    case 'uniform': {
+      const force = load.magnitude * (load.end - load.start);
+      return { force, momentAboutOrigin: force * (load.start + load.end) / 2 };
+    }
+    case 'linear': {
+      const { startMagnitude: w1, endMagnitude: w2, start: a, end: b } = load;
+      const span = b - a;
+      const force = (w1 + w2) / 2 * span;
+      // Centroid of the trapezoid measured from a
+      const centroid = w1 + w2 === 0 ? span / 2 : span * (w1 + 2 * w2) / (3 * (w1 + w2));
+      return { force, momentAboutOrigin: force * (a + centroid) };
+    }
+  }
+}
+
+/**
+ * Contributions of a set of moment terms to M, V, EI·θ and EI·v at x, with the
+ * integration constants left out (they are the unknown end parameters).
+ */
+function momentTermFields(terms: MomentTerm[]): Record<BeamQuantity, (x: number) => number> {
+  return {
+    moment: (x) =>
+      terms.reduce((sum, t) => sum + t.coefficient * macaulay(x, t.position, t.order), 0),
+    shear: (x) =>
+      terms.reduce((sum, t) => t.order === 0 ? sum : sum + t.coefficient * t.order * macaulay(x, t.position, t.order - 1), 0),
+    slope: (x) =>
+      -terms.reduce((sum, t) => sum + t.coefficient * macaulay(x, t.position, t.order + 1) / (t.order + 1), 0),
+    deflection: (x) =>
+      -terms.reduce((sum, t) => sum + t.coefficient * macaulay(x, t.position, t.order + 2) / ((t.order + 1) * (t.order + 2)), 0),
+  };
+}
+
+function isLoadWithinSpan(load: BeamLoad, L: number): boolean {
+  if (load.type === 'point' || load.type === 'moment') {
+    return load.position >= 0 && load.position <= L;
+  }
+  return load.start >= 0 && load.end <= L && load.start < load.end;
+}
+
+/**
+ * Locates the point of largest absolute deflection by sampling the span and
+ * refining the best sample with a golden-section search.
+ */
+function findMaxDeflection(deflection: (x: number) => number, L: number): { maxDeflection: number; location: number; } {
+  const samples = 200;
+  let bestIndex = 0;
+  let bestValue = 0;
+  for (let i = 0; i <= samples; i++) {
+    const value = Math.abs(deflection(L * i / samples));
+    if (value > bestValue) {
+      bestValue = value;
+      bestIndex = i;
+    }
+  }
+
+  let lo = L * Math.max(bestIndex - 1, 0) / samples;
+  let hi = L * Math.min(bestIndex + 1, samples) / samples;
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 60 && hi - lo > L * 1e-12; i++) {
+    const x1 = hi - ratio * (hi - lo);
+    const x2 = lo + ratio * (hi - lo);
+    if (Math.abs(deflection(x1)) >= Math.abs(deflection(x2))) {
+      hi = x2;
+    } else {
+      lo = x1;
+    }
+  }
+
+  const refined = (lo + hi) / 2;
+  const location = Math.abs(deflection(refined)) >= bestValue ? refined : L * bestIndex / samples;
+  return { maxDeflection: deflection(location), location };
+}
+
+/**
+ * Analyzes a single-span beam with one load for any of the supported boundary conditions.
+ * Uses the Macaulay (singularity function) form of the elastic curve, so every result is
+ * the exact closed-form solution for Euler–Bernoulli theory; the four end parameters
+ * (deflection, slope, moment, shear at x = 0) are found from the boundary conditions.
+ * Assumes SI units (meters, Newtons, Pascals).
+ *
+ * @param support - Support condition of the beam.
+ * @param load - The load acting on the beam (see `BeamLoad` for units and signs).
+ * @param L - Beam length (m)
+ * @param E - Young's Modulus (Pa)
+ * @param I - Second Moment of Inertia (m⁴)
+ * @returns Reactions, field functions and the maximum deflection, or null if inputs are invalid.
+ */
+export function analyzeBeamCase(
+  support: SupportCondition,
+  load: BeamLoad,
+  L: number,
+  E: number,
+  I: number
+): BeamCaseResult | null {
+  // Basic validation
+  if (!(L > 0) || !(E > 0) || !(I > 0)) {
+    console.error("Beam length, Young's modulus and moment of inertia must be positive.");
+    return null;
+  }
+  if (!isLoadWithinSpan(load, L)) {
+    console.error("Load must lie within the beam span.");
+    return null;
+  }
+
+  const EI = E * I;
+  const {
+    moment: loadMoment,
+    shear: loadShear,
+    slope: loadSlope,
+    deflection: loadDeflection,
+  } = momentTermFields(loadMomentTerms(load));
+
+  // Unknown end parameters u = [EI·v0, EI·θ0, M0, V0]. Each boundary condition is a row
+  // of coefficients on u plus the known load contribution at that point.
+  const row = {
+    deflection: (x: number) => ({ coefficients: [1, x, -x * x / 2, -x * x * x / 6], value: loadDeflection(x) }),
+    slope: (x: number) => ({ coefficients: [0, 1, -x, -x * x / 2], value: loadSlope(x) }),
+    moment: (x: number) => ({ coefficients: [0, 0, 1, x], value: loadMoment(x) }),
+    shear: (x: number) => ({ coefficients: [0, 0, 0, 1], value: loadShear(x) }),
+  };
+
+  const boundaryConditions = {
+    'simply-supported': [row.deflection(0), row.moment(0), row.deflection(L), row.moment(L)],
+    'cantilever': [row.deflection(0), row.slope(0), row.moment(L), row.shear(L)],
+    'fixed-fixed': [row.deflection(0), row.slope(0), row.deflection(L), row.slope(L)],
+    'propped-cantilever': [row.deflection(0), row.slope(0), row.deflection(L), row.moment(L)],
+  }[support];
+
+  const solution = solveLinearSystem(
+    boundaryConditions.map((bc) => bc.coefficients),
+    boundaryConditions.map((bc) => -bc.value)
+  );
+  if (!solution) {
+    console.error("Could not solve boundary conditions for the beam.");
+    return null;
+  }
+  const [EIv0, EItheta0, M0, V0] = solution;
+
+  const moment = (x: number) => M0 + V0 * x + loadMoment(x);
+  const shear = (x: number) => V0 + loadShear(x);
+  const slope = (x: number) => (EItheta0 - M0 * x - V0 * x * x / 2 + loadSlope(x)) / EI;
+  const deflection = (x: number) =>
+    (EIv0 + EItheta0 * x - M0 * x * x / 2 - V0 * x * x * x / 6 + loadDeflection(x)) / EI;
+
+  // Left reactions follow directly from the end parameters; right ones from global equilibrium
+  const { force, momentAboutOrigin } = loadResultant(load);
+  const left: SupportReaction = { force: V0, moment: -M0 };
+  const rightForce = force - V0;
+  const right: SupportReaction = {
+    force: rightForce,
+    // Sum of counter-clockwise moments about x = 0 must vanish
+    moment: momentAboutOrigin - rightForce * L - left.moment,
+  };
+
+  return {
+    support,
+    length: L,
+    reactions: { left, right },
+    deflection,
+    slope,
+    shear,
+    moment,
+    maxDeflection: findMaxDeflection(deflection, L),
+  };
+}
+
+
+// ============================================================
+//  SUPERPOSITION OF MULTIPLE LOADS
+// ============================================================
+
+export interface BeamExtreme {
+  value: number;
+  location: number; // m from the left end
+}
+
+export type BeamQuantity = 'deflection' | 'slope' | 'shear' | 'moment';
+
+export interface BeamAnalysisResult extends BeamCaseResult {
+  loads: BeamLoad[];
+  /** Largest and smallest value of each field quantity along the span */
+  extremes: Record<BeamQuantity, { max: BeamExtreme; min: BeamExtreme; }>;
+}
+
+/**
+ * Finds the largest and smallest value of a field function on [0, L]. The function is
+ * sampled on a regular grid plus the given critical points (load positions, where shear
+ * jumps and moment has kinks), and the best grid samples are refined by golden-section search.
+ */
+function locateExtremes(fn: (x: number) => number, L: number, criticalPoints: number[]): { max: BeamExtreme; min: BeamExtreme; } {
+  const samples = 400;
+  const xs: number[] = [];
+  for (let i = 0; i <= samples; i++) {
+    xs.push(L * i / samples);
+  }
+  // Evaluate just left of each critical point too, so jumps are seen from both sides
+  const offset = L * 1e-9;
+  criticalPoints.forEach((p) => {
+    xs.push(p);
+    if (p - offset >= 0) xs.push(p - offset);
+  });
+
+  let max: BeamExtreme = { value: -Infinity, location: 0 };
+  let min: BeamExtreme = { value: Infinity, location: 0 };
+  xs.forEach((x) => {
+    const value = fn(x);
+    if (value > max.value) max = { value, location: x };
+    if (value < min.value) min = { value, location: x };
+  });
+
+  const refine = (best: BeamExtreme, sign: 1 | -1): BeamExtreme => {
+    let lo = Math.max(best.location - L / samples, 0);
+    let hi = Math.min(best.location + L / samples, L);
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    for (let i = 0; i < 60 && hi - lo > L * 1e-12; i++) {
+      const x1 = hi - ratio * (hi - lo);
+      const x2 = lo + ratio * (hi - lo);
+      if (sign * fn(x1) >= sign * fn(x2)) {
+        hi = x2;
+      } else {
+        lo = x1;
+      }
+    }
+    const location = (lo + hi) / 2;
+    const value = fn(location);
+    return sign * value > sign * best.value ? { value, location } : best;
+  };
+
+  return { max: refine(max, 1), min: refine(min, -1) };
+}
+
+function loadCriticalPoints(load: BeamLoad): number[] {
+  return load.type === 'point' || load.type === 'moment' ? [load.position] : [load.start, load.end];
+}
+
+/**
+ * Analyzes a single-span beam carrying any number of loads by superposing the
+ * closed-form single-load solutions from `analyzeBeamCase`.
+ * Assumes SI units (meters, Newtons, Pascals) and the sign convention described above.
+ *
+ * @param support - Support condition of the beam.
+ * @param loads - Point loads, applied moments and (partial) distributed loads.
+ * @param L - Beam length (m)
+ * @param E - Young's Modulus (Pa)
+ * @param I - Second Moment of Inertia (m⁴)
+ * @returns Combined reactions, field functions and extremes, or null if any input is invalid.
+ */
+export function analyzeBeam(
+  support: SupportCondition,
+  loads: BeamLoad[],
+  L: number,
+  E: number,
+  I: number
+): BeamAnalysisResult | null {
+  if (!(L > 0) || !(E > 0) || !(I > 0)) {
+    console.error("Beam length, Young's modulus and moment of inertia must be positive.");
+    return null;
+  }
+
+  const cases: BeamCaseResult[] = [];
+  for (const load of loads) {
+    const caseResult = analyzeBeamCase(support, load, L, E, I);
+    if (!caseResult) {
+      return null;
+    }
+    cases.push(caseResult);
+  }
+
+  const superpose = (pick: (c: BeamCaseResult) => (x: number) => number) =>
+    (x: number) => cases.reduce((sum, c) => sum + pick(c)(x), 0);
+
+  const deflection = superpose((c) => c.deflection);
+  const slope = superpose((c) => c.slope);
+  const shear = superpose((c) => c.shear);
+  const moment = superpose((c) => c.moment);
+
+  const sumReaction = (side: 'left' | 'right'): SupportReaction => ({
+    force: cases.reduce((sum, c) => sum + c.reactions[side].force, 0),
+    moment: cases.reduce((sum, c) => sum + c.reactions[side].moment, 0),
+  });
+
+  const criticalPoints = loads.flatMap(loadCriticalPoints);
+  const extremes = {
+    deflection: locateExtremes(deflection, L, criticalPoints),
+    slope: locateExtremes(slope, L, criticalPoints),
+    shear: locateExtremes(shear, L, criticalPoints),
+    moment: locateExtremes(moment, L, criticalPoints),
+  };
+
+  // Report the largest deflection in either direction, keeping its sign
+  const { max, min } = extremes.deflection;
+  const governing = Math.abs(min.value) > Math.abs(max.value) ? min : max;
+
+  return {
+    support,
+    length: L,
+    loads,
+    reactions: { left: sumReaction('left'), right: sumReaction('right') },
+    deflection,
+    slope,
+    shear,
+    moment,
+    maxDeflection: { maxDeflection: governing.value, location: governing.location },
+    extremes,
+  };
+}
+
+
+// ============================================================
+//  CONTINUOUS (MULTI-SPAN) BEAMS
+// ============================================================
+//
+// A beam of length L on any number of supports. Ends without a support are free, so
+// overhangs are allowed; fixed supports may only sit at the ends. Same sign convention
+// as the single-span cases above.
+
+export interface BeamSupport {
+  position: number; // m from the left end
+  type: 'pin' | 'fixed';
+}
+
+export interface ContinuousSupportReaction extends BeamSupport, SupportReaction {}
+
+export interface ContinuousBeamResult extends Omit<BeamAnalysisResult, 'support' | 'reactions'> {
+  supports: ContinuousSupportReaction[]; // Ordered by position
+}
+
+/** Moment and shear envelopes at one point along the beam */
+export interface BeamEnvelopePoint {
+  x: number;
+  shearMax: number;
+  shearMin: number;
+  momentMax: number;
+  momentMin: number;
+}
+
+function validateSupports(supports: BeamSupport[], L: number): BeamSupport[] | null {
+  const sorted = [...supports].sort((a, b) => a.position - b.position);
+  const tolerance = L * 1e-9;
+  for (let i = 0; i < sorted.length; i++) {
+    const { position, type } = sorted[i];
+    if (!(position >= 0 && position <= L)) {
+      console.error('Supports must lie on the beam.');
+      return null;
+    }
+    if (i > 0 && position - sorted[i - 1].position <= tolerance) {
+      console.error('Two supports cannot share the same position.');
+      return null;
+    }
+    if (type === 'fixed' && position > tolerance && position < L - tolerance) {
+      console.error('Fixed supports are only allowed at the beam ends.');
+      return null;
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Analyzes a statically indeterminate beam over any number of supports by extending the
+ * Macaulay form used for single spans: every support reaction becomes an unknown point
+ * force (and moment, for a fixed end) in the moment expression. With the beam free just
+ * left of x = 0, the unknowns are EI·v0, EI·θ0 and the reactions, found from zero
+ * deflection (and slope) at each support plus equilibrium of the whole beam.
+ * Assumes SI units (meters, Newtons, Pascals).
+ *
+ * @param supports - Support positions and types (any order).
+ * @param loads - Loads on the beam, positioned from the left end.
+ * @param L - Overall beam length (m)
+ * @param E - Young's Modulus (Pa)
+ * @param I - Second Moment of Inertia (m⁴)
+ * @returns Reactions at every support, field functions and extremes, or null if the inputs
+ *          are invalid or the supports leave the beam unstable.
+ */
+export function analyzeContinuousBeam(
+  supports: BeamSupport[],
+  loads: BeamLoad[],
+  L: number,
+  E: number,
+  I: number
+): ContinuousBeamResult | null {
+  if (!(L > 0) || !(E > 0) || !(I > 0)) {
+    console.error("Beam length, Young's modulus and moment of inertia must be positive.");
+    return null;
+  }
+  if (!loads.every((load) => isLoadWithinSpan(load, L))) {
+    console.error("Loads must lie within the beam span.");
+    return null;
+  }
+  const sorted = validateSupports(supports, L);
+  if (!sorted) {
+    return null;
+  }
+
+  const EI = E * I;
+  const loadFields = momentTermFields(loads.flatMap(loadMomentTerms));
+
+  // Unit reaction terms: an upward force of 1 N, and a counter-clockwise moment of 1 N·m
+  const unknownTerms: MomentTerm[][] = [];
+  sorted.forEach(({ position, type }) => {
+    unknownTerms.push([{ coefficient: 1, position, order: 1 }]);
+    if (type === 'fixed') {
+      unknownTerms.push([{ coefficient: -1, position, order: 0 }]);
+    }
+  });
+  const unknownFields = unknownTerms.map(momentTermFields);
+
+  // Unknowns u = [EI·v0, EI·θ0, reactions...]; rows are coefficients on u plus the load value
+  const row = (quantity: BeamQuantity, x: number) => {
+    const base = { deflection: [1, x], slope: [0, 1], shear: [0, 0], moment: [0, 0] }[quantity];
+    return {
+      coefficients: [...base, ...unknownFields.map((fields) => fields[quantity](x))],
+      value: loadFields[quantity](x),
+    };
+  };
+
+  const conditions = [
+    ...sorted.flatMap(({ position, type }) =>
+      type === 'fixed' ? [row('deflection', position), row('slope', position)] : [row('deflection', position)]
+    ),
+    // The beam is free beyond x = L, so everything up to and including x = L must balance
+    row('moment', L),
+    row('shear', L),
+  ];
+
+  const solution = solveLinearSystem(
+    conditions.map((c) => c.coefficients),
+    conditions.map((c) => -c.value)
+  );
+  if (!solution) {
+    console.error("The supports do not restrain the beam (it is a mechanism).");
+    return null;
+  }
+  const [EIv0, EItheta0, ...reactionValues] = solution;
+
+  const combine = (quantity: BeamQuantity) => (x: number) =>
+    loadFields[quantity](x) + unknownFields.reduce((sum, fields, j) => sum + reactionValues[j] * fields[quantity](x), 0);
+  const moment = combine('moment');
+  const shear = combine('shear');
+  const slope = (x: number) => (EItheta0 + combine('slope')(x)) / EI;
+  const deflection = (x: number) => (EIv0 + EItheta0 * x + combine('deflection')(x)) / EI;
+
+  let next = 0;
+  const reactions: ContinuousSupportReaction[] = sorted.map((support) => {
+    const force = reactionValues[next++];
+    const reactionMoment = support.type === 'fixed' ? reactionValues[next++] : 0;
+    return { ...support, force, moment: reactionMoment };
+  });
+
+  const criticalPoints = [...loads.flatMap(loadCriticalPoints), ...sorted.map((s) => s.position)];
+  const extremes = {
+    deflection: locateExtremes(deflection, L, criticalPoints),
+    slope: locateExtremes(slope, L, criticalPoints),
+    shear: locateExtremes(shear, L, criticalPoints),
+    moment: locateExtremes(moment, L, criticalPoints),
+  };
+  const { max, min } = extremes.deflection;
+  const governing = Math.abs(min.value) > Math.abs(max.value) ? min : max;
+
+  return {
+    length: L,
+    loads,
+    supports: reactions,
+    deflection,
+    slope,
+    shear,
+    moment,
+    maxDeflection: { maxDeflection: governing.value, location: governing.location },
+    extremes,
+  };
+}
+
+/**
+ * Shear and moment envelopes for pattern loading: the permanent loads act everywhere,
+ * while a variable uniform load may act on any combination of spans (segments between
+ * supports, including overhangs). By superposition each envelope ordinate is the
+ * permanent value plus every span's variable contribution of the matching sign.
+ *
+ * @param supports - Support positions and types.
+ * @param permanentLoads - Loads that are always present.
+ * @param variableLoad - Variable uniform load intensity (N/m), downward positive.
+ * @param L - Overall beam length (m)
+ * @param E - Young's Modulus (Pa)
+ * @param I - Second Moment of Inertia (m⁴)
+ * @param count - Number of grid intervals along the beam.
+ * @returns Envelope ordinates ordered by x, or null if the beam cannot be analyzed.
+ */
+export function continuousBeamEnvelope(
+  supports: BeamSupport[],
+  permanentLoads: BeamLoad[],
+  variableLoad: number,
+  L: number,
+  E: number,
+  I: number,
+  count: number = 200
+): BeamEnvelopePoint[] | null {
+  const permanent = analyzeContinuousBeam(supports, permanentLoads, L, E, I);
+  if (!permanent) {
+    return null;
+  }
+
+  const boundaries = [0, ...permanent.supports.map((s) => s.position), L]
+    .filter((x, i, all) => i === 0 || x - all[i - 1] > L * 1e-9);
+  const spanResults: ContinuousBeamResult[] = [];
+  for (let i = 1; i < boundaries.length; i++) {
+    const spanLoad: BeamLoad = { type: 'uniform', magnitude: variableLoad, start: boundaries[i - 1], end: boundaries[i] };
+    const result = analyzeContinuousBeam(supports, [spanLoad], L, E, I);
+    if (!result) {
+      return null;
+    }
+    spanResults.push(result);
+  }
+
+  // Both sides of every support, so the shear jumps are captured
+  const offset = L * 1e-9;
+  const xs: number[] = [];
+  for (let i = 0; i <= count; i++) {
+    xs.push(L * i / count);
+  }
+  [...permanent.loads.flatMap(loadCriticalPoints), ...boundaries].forEach((p) => {
+    xs.push(p);
+    if (p - offset >= 0) xs.push(p - offset);
+  });
+  xs.sort((a, b) => a - b);
+
+  return xs.map((x) => {
+    const shears = spanResults.map((r) => r.shear(x));
+    const moments = spanResults.map((r) => r.moment(x));
+    const positive = (values: number[]) => values.reduce((sum, v) => sum + Math.max(v, 0), 0);
+    const negative = (values: number[]) => values.reduce((sum, v) => sum + Math.min(v, 0), 0);
+    return {
+      x,
+      shearMax: permanent.shear(x) + positive(shears),
+      shearMin: permanent.shear(x) + negative(shears),
+      momentMax: permanent.moment(x) + positive(moments),
+      momentMin: permanent.moment(x) + negative(moments),
+    };
+  });
+}
+
+
+// ============================================================
+//  SAMPLING FOR DIAGRAMS
+// ============================================================
+
+export interface BeamSample {
+  x: number;
+  deflection: number;
+  slope: number;
+  shear: number;
+  moment: number;
+}
+
+/**
+ * Samples an analyzed beam on a regular grid for plotting. Load positions are added
+ * (with a second sample just to their left) so shear jumps and moment kinks are drawn sharply.
+ *
+ * @param result - Result of `analyzeBeam` or `analyzeContinuousBeam`.
+ * @param count - Number of grid intervals along the span.
+ * @returns Samples ordered by x.
+ */
+export function sampleBeam(result: BeamAnalysisResult | ContinuousBeamResult, count: number = 200): BeamSample[] {
+  const L = result.length;
+  const offset = L * 1e-9;
+  const xs: number[] = [];
+  for (let i = 0; i <= count; i++) {
+    xs.push(L * i / count);
+  }
+  // Interior supports of a continuous beam cause shear jumps too
+  const supportPositions = 'supports' in result ? result.supports.map((s) => s.position) : [];
+  [...result.loads.flatMap(loadCriticalPoints), ...supportPositions].forEach((p) => {
+    xs.push(p);
+    if (p - offset >= 0) xs.push(p - offset);
+  });
+  xs.sort((a, b) => a - b);
+
+  return xs.map((x) => ({
+    x,
+    deflection: result.deflection(x),
+    slope: result.slope(x),
+    shear: result.shear(x),
+    moment: result.moment(x),
+  }));
+}
+
+/**
+ * Finds where a sampled quantity changes sign, interpolating linearly between samples.
+ * Values within a small tolerance of zero (e.g. moment at a pinned end) are not counted
+ * as crossings on their own.
+ *
+ * @returns Locations x (m) of the sign changes.
+ */
+export function findZeroCrossings(samples: BeamSample[], quantity: BeamQuantity): number[] {
+  const peak = Math.max(...samples.map((s) => Math.abs(s[quantity])), 0);
+  const tolerance = peak * 1e-9;
+  const xTolerance = (samples.length > 0 ? samples[samples.length - 1].x : 0) * 1e-6;
+  const crossings: number[] = [];
+
+  let previous: BeamSample | null = null;
+  for (const sample of samples) {
+    const value = sample[quantity];
+    if (Math.abs(value) <= tolerance) {
+      continue;
+    }
+    if (previous && Math.sign(previous[quantity]) !== Math.sign(value)) {
+      const v0 = previous[quantity];
+      const t = v0 / (v0 - value);
+      const x = previous.x + t * (sample.x - previous.x);
+      // Jumps sampled at p - ε and p would otherwise be reported twice
+      if (crossings.length === 0 || Math.abs(x - crossings[crossings.length - 1]) > xTolerance) {
+        crossings.push(x);
+      }
+    }
+    previous = sample;
+  }
+  return crossings;
+}
+
+
+// ============================================================
+//  STRENGTH CHECK
+// ============================================================
+
+export interface BeamStrengthResult {
+  maxBendingStress: BeamExtreme; // Pa, at the extreme fibre; location along the span
+  maxShearStress: BeamExtreme;   // Pa, at the neutral axis; location along the span
+  equivalentStress: number;      // Pa, the larger of σ and √3·τ (von Mises for either point)
+  governingMode: 'bending' | 'shear';
+  yieldSafetyFactor: number | null;    // null if the material has no yield strength
+  ultimateSafetyFactor: number | null; // null if the material has no UTS
+}
+
+/**
+ * Checks an analyzed beam for strength. Bending stress is σ = M·c / I = M / S at the
+ * fibre furthest from the neutral axis; transverse shear stress is τ = V·Q / (I·b) at the
+ * neutral axis. The two peaks occur at different points of the section (where the other
+ * stress is zero), so each is converted to a von Mises equivalent on its own and the
+ * larger one governs. Safety factors below 1 indicate failure.
+ *
+ * @param result - Result of `analyzeBeam` or `analyzeContinuousBeam`.
+ * @param section - Section properties about the bending axis (SI units).
+ * @param yieldStrength - Material yield strength (Pa), if known.
+ * @param ultimateTensileStrength - Material UTS (Pa), if known.
+ * @returns Peak stresses and safety factors (Infinity for an unloaded beam).
+ */
+export function calculateBeamStrength(
+  result: BeamAnalysisResult | ContinuousBeamResult,
+  section: Pick<SectionProperties, 'Ix' | 'Sx' | 'Qx' | 'shearWidthX'>,
+  yieldStrength: number | null,
+  ultimateTensileStrength: number | null
+): BeamStrengthResult | null {
+  if (!(section.Ix > 0) || !(section.Sx > 0) || !(section.shearWidthX > 0)) {
+    console.error('Section properties must be positive to calculate beam stresses.');
+    return null;
+  }
+
+  const largest = ({ max, min }: { max: BeamExtreme; min: BeamExtreme; }): BeamExtreme =>
+    Math.abs(min.value) > Math.abs(max.value)
+      ? { value: Math.abs(min.value), location: min.location }
+      : { value: Math.abs(max.value), location: max.location };
+  const moment = largest(result.extremes.moment);
+  const shear = largest(result.extremes.shear);
+
+  const maxBendingStress = { value: moment.value / section.Sx, location: moment.location };
+  const maxShearStress = { value: (shear.value * section.Qx) / (section.Ix * section.shearWidthX), location: shear.location };
+  const shearEquivalent = Math.sqrt(3) * maxShearStress.value;
+  const equivalentStress = Math.max(maxBendingStress.value, shearEquivalent);
+
+  const safetyFactor = (strength: number | null) =>
+    strength && strength > 0 ? (equivalentStress > 0 ? strength / equivalentStress : Infinity) : null;
+
+  return {
+    maxBendingStress,
+    maxShearStress,
+    equivalentStress,
+    governingMode: shearEquivalent > maxBendingStress.value ? 'shear' : 'bending',
+    yieldSafetyFactor: safetyFactor(yieldStrength),
+    ultimateSafetyFactor: safetyFactor(ultimateTensileStrength),
+  };
+}
+
+
+// ============================================================
+//  SERVICEABILITY (DEFLECTION LIMITS)
+// ============================================================
+
+/** A limit on the max deflection, either as a span ratio (δ ≤ L / ratio) or an absolute value (m). */
+export type DeflectionCriterion =
+  | { type: 'ratio'; ratio: number }
+  | { type: 'absolute'; limit: number };
+
+export interface DeflectionCheckResult {
+  allowable: number;   // m
+  utilization: number; // |δ| / allowable
+  passes: boolean;
+}
+
+/**
+ * Checks a max deflection (e.g. from `calculateSimpleBeamMaxDeflection` or `analyzeBeam`)
+ * against a serviceability criterion. For cantilevers, span ratios are conventionally
+ * applied to twice the cantilever length (IBC Table 1604.3), which `span` should reflect.
+ *
+ * @param maxDeflection - Max deflection (m); the sign is ignored.
+ * @param span - Span the ratio applies to (m).
+ * @param criterion - Ratio or absolute limit.
+ * @returns Allowable deflection, utilization and pass/fail, or null for an invalid criterion.
+ */
+export function checkDeflectionLimit(
+  maxDeflection: number,
+  span: number,
+  criterion: DeflectionCriterion
+): DeflectionCheckResult | null {
+  const allowable = criterion.type === 'ratio' ? span / criterion.ratio : criterion.limit;
+  if (!(allowable > 0) || !Number.isFinite(allowable)) {
+    console.error('Deflection limit must be positive.');
+    return null;
+  }
+  const utilization = Math.abs(maxDeflection) / allowable;
+  return { allowable, utilization, passes: utilization <= 1 };
+}
+
+
+// ============================================================
+//  SELF-WEIGHT
+// ============================================================
+
+export const STANDARD_GRAVITY = 9.80665; // m/s²
+
+/**
+ * Self-weight of a prismatic beam as a uniform load w = ρ·A·g over the full span.
+ *
+ * @param density - Material density (kg/m³)
+ * @param area - Cross-sectional area (m²)
+ * @param L - Beam length (m)
+ * @returns The distributed load (N/m), or null if any input is invalid.
+ */
+export function calculateSelfWeightLoad(density: number, area: number, L: number): BeamLoad | null {
+  if (!(density > 0) || !(area > 0) || !(L > 0)) {
+    console.error('Density, area and length must be positive to calculate self-weight.');
+    return null;
+  }
+  return { type: 'uniform', magnitude: density * area * STANDARD_GRAVITY, start: 0, end: L };
+}
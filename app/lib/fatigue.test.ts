@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateEnduranceLimit,
+  calculateMinerDamage,
+  createSNCurve,
+  cyclesToFailure,
+  equivalentAlternatingStress,
+  fatigueStrength,
+  sizeFactor,
+  surfaceFactor,
+} from './fatigue';
+
+const MPA = 1e6;
+const KSI = 6.894757e6;
+
+describe('Marin factors', () => {
+  // Shigley, Mechanical Engineering Design, Ex. 7-1: machined 28 mm shaft, Sut = 735 MPa
+  it('matches the surface and size factors of the textbook shaft', () => {
+    expect(surfaceFactor('machined', 735 * MPA)).toBeCloseTo(0.7845, 4);
+    expect(sizeFactor(0.028, 'bending')).toBeCloseTo(0.8681, 4);
+    expect(sizeFactor(0.028, 'axial')).toBe(1);
+  });
+});
+
+describe('calculateEnduranceLimit', () => {
+  const options = { finish: 'machined' as const, diameter: 0.028, loading: 'bending' as const, temperature: 20, reliability: 50 };
+
+  it('multiplies the estimated Se\' by the Marin factors', () => {
+    const result = calculateEnduranceLimit(735 * MPA, options)!;
+    expect(result.unmodifiedLimit).toBe(367.5 * MPA);
+    expect(result.enduranceLimit / MPA).toBeCloseTo(367.5 * 0.7845 * 0.8681, 0);
+  });
+
+  it('uses a measured Se\' in place of the steel estimate', () => {
+    const result = calculateEnduranceLimit(310 * MPA, { ...options, unmodifiedLimit: 97 * MPA })!;
+    expect(result.unmodifiedLimit).toBe(97 * MPA);
+    expect(result.enduranceLimit).toBeCloseTo(97 * MPA * result.factors.ka * result.factors.kb, 0);
+    expect(calculateEnduranceLimit(310 * MPA, { ...options, unmodifiedLimit: 0 })).toBeNull();
+  });
+});
+
+describe('S-N curve', () => {
+  // Shigley Ex. 6-2: 1050 HR steel, Sut = 90 kpsi, Se' = 45 kpsi
+  const curve = createSNCurve(90 * KSI, 45 * KSI)!;
+
+  it('reproduces the fatigue strength at 10⁴ cycles and the life at 55 kpsi', () => {
+    expect(curve.f).toBeCloseTo(0.8639, 4);
+    expect(fatigueStrength(curve, 1e4) / KSI).toBeCloseTo(64.79, 1);
+    expect(cyclesToFailure(curve, 55 * KSI) / 1e3).toBeCloseTo(79.3, 0);
+  });
+
+  it('is continuous at 10³ cycles and flat past 10⁶', () => {
+    expect(fatigueStrength(curve, 999.999) / KSI).toBeCloseTo(fatigueStrength(curve, 1e3) / KSI, 3);
+    expect(fatigueStrength(curve, 1e7)).toBe(45 * KSI);
+    expect(cyclesToFailure(curve, 44 * KSI)).toBe(Infinity);
+  });
+
+  it('rejects an endurance limit above f·Sut', () => {
+    expect(createSNCurve(90 * KSI, 80 * KSI)).toBeNull();
+  });
+});
+
+describe('equivalentAlternatingStress', () => {
+  const strengths = { ultimateStrength: 600 * MPA, yieldStrength: 400 * MPA };
+
+  it('applies the Goodman, Gerber and Soderberg corrections', () => {
+    expect(equivalentAlternatingStress(100 * MPA, 300 * MPA, 'goodman', strengths)! / MPA).toBeCloseTo(200, 9);
+    expect(equivalentAlternatingStress(100 * MPA, 300 * MPA, 'gerber', strengths)! / MPA).toBeCloseTo(133.33, 2);
+    expect(equivalentAlternatingStress(100 * MPA, 200 * MPA, 'soderberg', strengths)! / MPA).toBeCloseTo(200, 9);
+  });
+
+  it('ignores compressive means and needs a yield strength for Soderberg', () => {
+    expect(equivalentAlternatingStress(100 * MPA, -200 * MPA, 'goodman', strengths)).toBe(100 * MPA);
+    expect(equivalentAlternatingStress(100 * MPA, 200 * MPA, 'soderberg', { ultimateStrength: 600 * MPA })).toBeNull();
+  });
+});
+
+describe('calculateMinerDamage', () => {
+  const curve = createSNCurve(90 * KSI, 45 * KSI)!;
+
+  it('sums n / N over the blocks and skips those below the endurance limit', () => {
+    const blocks = [
+      { alternatingStress: 55 * KSI, meanStress: 0, cycles: 20e3 },
+      { alternatingStress: 40 * KSI, meanStress: 0, cycles: 1e6 },
+    ];
+    const result = calculateMinerDamage(curve, blocks, 'goodman')!;
+    expect(result.blocks[1].damage).toBe(0);
+    expect(result.totalDamage).toBeCloseTo(20e3 / cyclesToFailure(curve, 55 * KSI), 12);
+    expect(result.repetitionsToFailure).toBeCloseTo(1 / result.totalDamage, 12);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * High-cycle fatigue of steels by the stress-life method.
+ * Assumes SI units (Pascals); temperatures in °C.
+ *
+ * Follows Shigley's Mechanical Engineering Design: the rotating-beam endurance limit is
+ * estimated from the tensile strength and reduced by the Marin factors; the S-N curve is
+ * a Basquin line through f·Sut at 10³ cycles and Se at 10⁶ cycles, with infinite life
+ * below Se. Mean stresses are handled by converting to an equivalent fully reversed
+ * stress, and variable amplitude loading by Palmgren–Miner linear damage summation.
+ */
+
+import { estimateEnduranceLimit } from './shaftDesign';
+
+export type SurfaceFinish = 'ground' | 'machined' | 'hot-rolled' | 'as-forged';
+export type FatigueLoading = 'bending' | 'axial' | 'torsion';
+export type MeanStressCriterion = 'goodman' | 'gerber' | 'soderberg' | 'morrow' | 'swt';
+
+const MPA = 1e6;
+
+// Surface factor ka = a·Sut^b with Sut in MPa
+export const surfaceFinishes: Record<SurfaceFinish, { label: string; a: number; b: number }> = {
+  'ground': { label: 'Ground', a: 1.58, b: -0.085 },
+  'machined': { label: 'Machined or cold-drawn', a: 4.51, b: -0.265 },
+  'hot-rolled': { label: 'Hot-rolled', a: 57.7, b: -0.718 },
+  'as-forged': { label: 'As-forged', a: 272, b: -0.995 },
+};
+
+export const fatigueLoadings: Record<FatigueLoading, { label: string; kc: number }> = {
+  'bending': { label: 'Bending', kc: 1 },
+  'axial': { label: 'Axial', kc: 0.85 },
+  'torsion': { label: 'Torsion', kc: 0.59 },
+};
+
+// Reliability factor ke = 1 − 0.08·zₐ for a normally distributed endurance limit
+export const reliabilityFactors: { reliability: number; ke: number }[] = [
+  { reliability: 50, ke: 1 },
+  { reliability: 90, ke: 0.897 },
+  { reliability: 95, ke: 0.868 },
+  { reliability: 99, ke: 0.814 },
+  { reliability: 99.9, ke: 0.753 },
+  { reliability: 99.99, ke: 0.702 },
+  { reliability: 99.999, ke: 0.659 },
+  { reliability: 99.9999, ke: 0.620 },
+];
+
+export const meanStressCriteria: Record<MeanStressCriterion, string> = {
+  'goodman': 'Modified Goodman',
+  'gerber': 'Gerber',
+  'soderberg': 'Soderberg',
+  'morrow': 'Morrow',
+  'swt': 'Smith–Watson–Topper',
+};
+
+export interface MarinFactors {
+  ka: number; // Surface
+  kb: number; // Size
+  kc: number; // Load
+  kd: number; // Temperature
+  ke: number; // Reliability
+  kf: number; // Miscellaneous effects
+}
+
+export interface EnduranceLimitResult {
+  unmodifiedLimit: number; // Se' (Pa)
+  factors: MarinFactors;
+  enduranceLimit: number;  // Se (Pa)
+}
+
+export function surfaceFactor(finish: SurfaceFinish, ultimateStrength: number): number {
+  const { a, b } = surfaceFinishes[finish];
+  return a * (ultimateStrength / MPA) ** b;
+}
+
+/**
+ * Size factor kb. Applies to rotating round sections in bending or torsion; use the
+ * equivalent diameter (e.g. 0.808·√(hb) for a rectangle) for other shapes.
+ * Axial loading has no size effect.
+ *
+ * @param diameter - Diameter (m)
+ */
+export function sizeFactor(diameter: number, loading: FatigueLoading): number {
+  const d = diameter * 1e3;
+  if (loading === 'axial' || d <= 2.79) return 1;
+  return d <= 51 ? 1.24 * d ** -0.107 : 1.51 * d ** -0.157;
+}
+
+/**
+ * Temperature factor kd from Shigley's fourth-order fit (valid from room temperature to
+ * about 540 °C); 1 at and below room temperature.
+ */
+export function temperatureFactor(temperature: number): number {
+  if (temperature <= 20) return 1;
+  const T = (temperature * 9) / 5 + 32; // The fit uses °F
+  return 0.975 + 0.432e-3 * T - 0.115e-5 * T ** 2 + 0.104e-8 * T ** 3 - 0.595e-12 * T ** 4;
+}
+
+/**
+ * Marin-corrected endurance limit Se = ka·kb·kc·kd·ke·kf·Se'.
+ *
+ * @param ultimateStrength - Ultimate tensile strength Sut (Pa)
+ * @param options - Surface finish, diameter (m), loading, temperature (°C), reliability (%),
+ *                  a miscellaneous factor kf (default 1) and a measured rotating-beam
+ *                  endurance limit Se' (Pa). Se' is estimated from Sut when omitted, which
+ *                  only holds for steels.
+ * @returns The endurance limit and its factors, or null if the inputs are invalid.
+ */
+export function calculateEnduranceLimit(
+  ultimateStrength: number,
+  options: {
+    finish: SurfaceFinish;
+    diameter: number;
+    loading: FatigueLoading;
+    temperature: number;
+    reliability: number;
+    miscellaneous?: number;
+    unmodifiedLimit?: number;
+  }
+): EnduranceLimitResult | null {
+  const reliability = reliabilityFactors.find((r) => r.reliability === options.reliability);
+  const kf = options.miscellaneous ?? 1;
+  if (!(ultimateStrength > 0) || !(options.diameter > 0) || !reliability || !(kf > 0) || !Number.isFinite(options.temperature)) {
+    console.error('Invalid endurance limit inputs: strength, diameter and kf must be positive and the reliability one of the tabulated values.');
+    return null;
+  }
+  if (options.unmodifiedLimit !== undefined && !(options.unmodifiedLimit > 0)) {
+    console.error('A measured endurance limit must be positive.');
+    return null;
+  }
+
+  const factors: MarinFactors = {
+    ka: surfaceFactor(options.finish, ultimateStrength),
+    kb: sizeFactor(options.diameter, options.loading),
+    kc: fatigueLoadings[options.loading].kc,
+    kd: temperatureFactor(options.temperature),
+    ke: reliability.ke,
+    kf,
+  };
+  const unmodifiedLimit = options.unmodifiedLimit ?? estimateEnduranceLimit(ultimateStrength);
+  const product = Object.values(factors).reduce((total, factor) => total * factor, 1);
+  return { unmodifiedLimit, factors, enduranceLimit: product * unmodifiedLimit };
+}
+
+export interface SNCurve {
+  ultimateStrength: number; // Sut (Pa)
+  enduranceLimit: number;   // Se (Pa)
+  f: number;                // Fatigue strength fraction at 10³ cycles
+  a: number;                // Basquin coefficient (Pa)
+  b: number;                // Basquin exponent
+}
+
+export const LOW_CYCLE_LIMIT = 1e3;
+export const ENDURANCE_CYCLES = 1e6;
+
+/**
+ * Builds the Basquin S-N curve S = a·N^b between 10³ and 10⁶ cycles.
+ * The fraction f comes from Shigley's fit to Fig. 6-18 (0.9 below Sut = 490 MPa).
+ *
+ * @param ultimateStrength - Sut (Pa)
+ * @param enduranceLimit - Corrected endurance limit Se (Pa)
+ * @returns The curve, or null if Se is not below f·Sut.
+ */
+export function createSNCurve(ultimateStrength: number, enduranceLimit: number): SNCurve | null {
+  const ksi = ultimateStrength / 6.894757e6;
+  const f = ksi < 70 ? 0.9 : Math.max(0.76, 1.06 - 2.8e-3 * ksi + 6.9e-6 * ksi * ksi);
+  if (!(enduranceLimit > 0) || !(f * ultimateStrength > enduranceLimit)) {
+    console.error('The endurance limit must be positive and below the fatigue strength at 10³ cycles.');
+    return null;
+  }
+  const high = f * ultimateStrength;
+  return {
+    ultimateStrength,
+    enduranceLimit,
+    f,
+    a: (high * high) / enduranceLimit,
+    b: -Math.log10(high / enduranceLimit) / 3,
+  };
+}
+
+/**
+ * Fatigue strength at N cycles: the low-cycle line from Sut at one cycle to f·Sut at 10³,
+ * the Basquin line up to 10⁶, then Se.
+ */
+export function fatigueStrength(curve: SNCurve, cycles: number): number {
+  if (cycles >= ENDURANCE_CYCLES) return curve.enduranceLimit;
+  if (cycles >= LOW_CYCLE_LIMIT) return curve.a * cycles ** curve.b;
+  return curve.ultimateStrength * Math.max(cycles, 1) ** (Math.log10(curve.f) / 3);
+}
+
+/**
+ * Cycles to failure at a fully reversed stress amplitude (inverse of `fatigueStrength`).
+ * Returns Infinity at or below the endurance limit and 1 at or above Sut.
+ */
+export function cyclesToFailure(curve: SNCurve, stressAmplitude: number): number {
+  if (stressAmplitude <= curve.enduranceLimit) return Infinity;
+  if (stressAmplitude >= curve.ultimateStrength) return 1;
+  if (stressAmplitude <= curve.f * curve.ultimateStrength) return (stressAmplitude / curve.a) ** (1 / curve.b);
+  return (stressAmplitude / curve.ultimateStrength) ** (3 / Math.log10(curve.f));
+}
+
+/**
+ * Fully reversed stress amplitude equivalent to a cycle with a mean stress.
+ * Compressive means are taken as harmless for the Goodman-type criteria. Morrow uses the
+ * true fracture strength estimate σf' = Sut + 345 MPa for steels.
+ *
+ * @returns The equivalent amplitude (Pa), Infinity when the mean stress alone exceeds the
+ *          strength, or null for negative amplitudes.
+ */
+export function equivalentAlternatingStress(
+  alternatingStress: number,
+  meanStress: number,
+  criterion: MeanStressCriterion,
+  strengths: { ultimateStrength: number; yieldStrength?: number | null }
+): number | null {
+  if (!(alternatingStress >= 0) || !Number.isFinite(meanStress)) {
+    console.error('The stress amplitude must be zero or positive and the mean stress finite.');
+    return null;
+  }
+  const Sut = strengths.ultimateStrength;
+  if (criterion === 'swt') {
+    // √(σmax·σa); cycles that never go into tension cause no damage
+    const maximum = meanStress + alternatingStress;
+    return maximum > 0 ? Math.sqrt(maximum * alternatingStress) : 0;
+  }
+  if (meanStress <= 0) return alternatingStress;
+
+  let ratio: number;
+  switch (criterion) {
+    case 'goodman':
+      ratio = meanStress / Sut;
+      break;
+    case 'gerber':
+      ratio = (meanStress / Sut) ** 2;
+      break;
+    case 'soderberg': {
+      const Sy = strengths.yieldStrength;
+      if (!Sy || !(Sy > 0)) {
+        console.error('The Soderberg criterion needs a yield strength.');
+        return null;
+      }
+      ratio = meanStress / Sy;
+      break;
+    }
+    case 'morrow':
+      ratio = meanStress / (Sut + 345 * MPA);
+      break;
+  }
+  return ratio < 1 ? alternatingStress / (1 - ratio) : Infinity;
+}
+
+export interface FatigueLoadBlock {
+  alternatingStress: number; // σa (Pa)
+  meanStress: number;        // σm (Pa)
+  cycles: number;            // Applied cycles per repetition of the spectrum (may be fractional)
+}
+
+export interface FatigueBlockDamage extends FatigueLoadBlock {
+  equivalentStress: number; // σar (Pa)
+  cyclesToFailure: number;  // Infinity below the endurance limit
+  damage: number;           // n / N
+}
+
+export interface MinerResult {
+  blocks: FatigueBlockDamage[];
+  totalDamage: number;         // D = Σ n / N per repetition of the spectrum
+  repetitionsToFailure: number; // 1 / D, Infinity when no block causes damage
+}
+
+/**
+ * Palmgren–Miner cumulative damage of a load spectrum; failure is predicted at D = 1.
+ *
+ * @param curve - S-N curve of the part.
+ * @param blocks - Stress amplitude, mean stress and number of cycles of each block.
+ * @param criterion - Mean stress correction.
+ * @param yieldStrength - Yield strength (Pa), needed by Soderberg only.
+ * @returns Per-block and total damage, or null if any block is invalid.
+ */
+export function calculateMinerDamage(
+  curve: SNCurve,
+  blocks: FatigueLoadBlock[],
+  criterion: MeanStressCriterion,
+  yieldStrength?: number | null
+): MinerResult | null {
+  const results: FatigueBlockDamage[] = [];
+  for (const block of blocks) {
+    if (!(block.cycles >= 0)) {
+      console.error('Cycle counts must be zero or positive.');
+      return null;
+    }
+    const equivalentStress = equivalentAlternatingStress(block.alternatingStress, block.meanStress, criterion, {
+      ultimateStrength: curve.ultimateStrength,
+      yieldStrength,
+    });
+    if (equivalentStress === null) return null;
+    const N = cyclesToFailure(curve, equivalentStress);
+    results.push({ ...block, equivalentStress, cyclesToFailure: N, damage: block.cycles > 0 ? block.cycles / N : 0 });
+  }
+
+  const totalDamage = results.reduce((sum, b) => sum + b.damage, 0);
+  return {
+    blocks: results,
+    totalDamage,
+    repetitionsToFailure: totalDamage > 0 ? 1 / totalDamage : Infinity,
+  };
+}
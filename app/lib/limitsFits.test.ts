@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { HoleLetter, ShaftLetter, ToleranceZone, calculateFit, calculatePressFit, holeTolerance, shaftTolerance, standardTolerance } from './limitsFits';
+
+const MM = 1e-3;
+const MICRON = 1e-6;
+
+// Limit deviations in µm as [upper, lower], rounded to whole micrometers (+ 0 turns −0 into 0)
+function microns(zone: ToleranceZone) {
+  return [Math.round(zone.upper / MICRON) + 0, Math.round(zone.lower / MICRON) + 0];
+}
+
+function hole(sizeMm: number, letter: HoleLetter, grade: number) {
+  return microns(holeTolerance(sizeMm * MM, letter, grade)!);
+}
+
+function shaft(sizeMm: number, letter: ShaftLetter, grade: number) {
+  return microns(shaftTolerance(sizeMm * MM, letter, grade)!);
+}
+
+// Reference values from the ISO 286-2 tables
+describe('standardTolerance', () => {
+  it('gives the IT values for 30–50 mm', () => {
+    expect(standardTolerance(40 * MM, 6)! / MICRON).toBeCloseTo(16, 9);
+    expect(standardTolerance(40 * MM, 7)! / MICRON).toBeCloseTo(25, 9);
+    expect(standardTolerance(40 * MM, 11)! / MICRON).toBeCloseTo(160, 9);
+  });
+
+  it('rejects sizes above 500 mm', () => {
+    expect(standardTolerance(600 * MM, 7)).toBeNull();
+  });
+});
+
+describe('shaftTolerance', () => {
+  it('gives the common shaft classes at 40 mm', () => {
+    expect(shaft(40, 'p', 6)).toEqual([42, 26]);
+    expect(shaft(40, 'g', 6)).toEqual([-9, -25]);
+    expect(shaft(40, 'f', 7)).toEqual([-25, -50]);
+    expect(shaft(40, 'h', 6)).toEqual([0, -16]);
+    expect(shaft(40, 'k', 6)).toEqual([18, 2]);
+    expect(shaft(40, 'n', 6)).toEqual([33, 17]);
+    expect(shaft(40, 's', 6)).toEqual([59, 43]);
+  });
+
+  it('uses the sub-ranges above 24 mm for r–zc', () => {
+    expect(shaft(40, 'u', 6)).toEqual([76, 60]);
+    expect(shaft(45, 'u', 6)).toEqual([86, 70]);
+  });
+});
+
+describe('holeTolerance', () => {
+  it('mirrors the shafts for A–H', () => {
+    expect(hole(40, 'H', 7)).toEqual([25, 0]);
+    expect(hole(40, 'F', 8)).toEqual([64, 25]);
+  });
+
+  it('adds Δ to K, M and N up to IT8', () => {
+    expect(hole(40, 'K', 6)).toEqual([3, -13]);
+    expect(hole(40, 'K', 7)).toEqual([7, -18]);
+    expect(hole(40, 'K', 8)).toEqual([12, -27]);
+    expect(hole(40, 'M', 7)).toEqual([0, -25]);
+    expect(hole(40, 'M', 8)).toEqual([5, -34]);
+    expect(hole(40, 'N', 7)).toEqual([-8, -33]);
+    expect(hole(40, 'N', 9)).toEqual([0, -62]);
+  });
+
+  it('adds Δ to P–ZC up to IT7 only', () => {
+    expect(hole(40, 'P', 7)).toEqual([-17, -42]);
+    expect(hole(40, 'P', 8)).toEqual([-26, -65]);
+    expect(hole(40, 'S', 7)).toEqual([-34, -59]);
+    expect(hole(40, 'U', 7)).toEqual([-51, -76]);
+    expect(hole(40, 'ZC', 8)).toEqual([-274, -313]);
+  });
+
+  it('leaves out Δ up to 3 mm', () => {
+    expect(hole(3, 'N', 7)).toEqual([-4, -14]);
+    expect(hole(3, 'P', 7)).toEqual([-6, -16]);
+  });
+});
+
+describe('calculateFit', () => {
+  it('classifies the preferred fits at 40 mm', () => {
+    const h7p6 = calculateFit(40 * MM, { letter: 'H', grade: 7 }, { letter: 'p', grade: 6 })!;
+    expect(h7p6.type).toBe('interference');
+    expect(h7p6.maxClearance / MICRON).toBeCloseTo(-1, 9);
+    expect(h7p6.minClearance / MICRON).toBeCloseTo(-42, 9);
+
+    expect(calculateFit(40 * MM, { letter: 'H', grade: 7 }, { letter: 'k', grade: 6 })!.type).toBe('transition');
+    expect(calculateFit(40 * MM, { letter: 'H', grade: 7 }, { letter: 'g', grade: 6 })!.type).toBe('clearance');
+  });
+});
+
+describe('calculatePressFit', () => {
+  const steel = { E: 207e9, poissonsRatio: 0.3, yieldStrength: 350e6 };
+
+  it('gives the interference pressure of equal steel parts and the axial force', () => {
+    const fit = calculateFit(40 * MM, { letter: 'H', grade: 7 }, { letter: 's', grade: 6 })!;
+    const result = calculatePressFit(fit, { shaftBore: 0, hubOuterDiameter: 80 * MM, length: 50 * MM, friction: 0.12 }, steel, steel)!;
+    // Solid shaft in a hub of equal material: p = Eδ/(2R)·(1 − R²/ro²) with radial δ
+    const R = 20 * MM;
+    const pressure = (diametral: number) => ((207e9 * (diametral / 2)) / (2 * R)) * (1 - (R * R) / (40 * MM) ** 2);
+    expect(result.minInterference / MICRON).toBeCloseTo(18, 9);
+    expect(result.maxInterference / MICRON).toBeCloseTo(59, 9);
+    expect(result.minPressure / pressure(18 * MICRON)).toBeCloseTo(1, 9);
+    expect(result.maxPressure / pressure(59 * MICRON)).toBeCloseTo(1, 9);
+    expect(result.maxForce).toBeCloseTo(0.12 * result.maxPressure * Math.PI * 40 * MM * 50 * MM, 6);
+  });
+
+  it('rejects a clearance fit', () => {
+    const fit = calculateFit(40 * MM, { letter: 'H', grade: 7 }, { letter: 'g', grade: 6 })!;
+    expect(calculatePressFit(fit, { shaftBore: 0, hubOuterDiameter: 80 * MM, length: 50 * MM, friction: 0.12 }, steel, steel)).toBeNull();
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * ISO 286-1 limits and fits for nominal sizes up to 500 mm.
+ * Assumes SI units (meters); the standard's tables are in millimeters and micrometers
+ * and are converted on the way in and out.
+ *
+ * A tolerance class is a fundamental deviation (letter) and a standard tolerance grade
+ * (IT number). Shafts a–h are given by their upper deviation es, j–zc by their lower
+ * deviation ei; holes mirror the shafts, with the Δ correction of ISO 286-1 §4.2.2 for
+ * K–N up to IT8 and P–ZC up to IT7.
+ */
+
+import { ShrinkFitMember, calculateShrinkFit, interferenceFitPressure } from './pressureVessel';
+
+export const shaftLetters = [
+  'a', 'b', 'c', 'cd', 'd', 'e', 'ef', 'f', 'fg', 'g', 'h', 'js', 'j', 'k', 'm', 'n', 'p', 'r', 's', 't', 'u', 'v', 'x', 'y', 'z', 'za', 'zb', 'zc',
+] as const;
+export const holeLetters = [
+  'A', 'B', 'C', 'CD', 'D', 'E', 'EF', 'F', 'FG', 'G', 'H', 'JS', 'J', 'K', 'M', 'N', 'P', 'R', 'S', 'T', 'U', 'V', 'X', 'Y', 'Z', 'ZA', 'ZB', 'ZC',
+] as const;
+export type ShaftLetter = typeof shaftLetters[number];
+export type HoleLetter = typeof holeLetters[number];
+
+export const toleranceGrades = Array.from({ length: 18 }, (_, i) => i + 1);
+
+export type FitType = 'clearance' | 'transition' | 'interference';
+
+// Preferred hole-basis fits (ISO 286-1 Annex, Shigley Table 7-9)
+export const preferredFits: { label: string; hole: { letter: HoleLetter; grade: number }; shaft: { letter: ShaftLetter; grade: number } }[] = [
+  { label: 'Loose running', hole: { letter: 'H', grade: 11 }, shaft: { letter: 'c', grade: 11 } },
+  { label: 'Free running', hole: { letter: 'H', grade: 9 }, shaft: { letter: 'd', grade: 9 } },
+  { label: 'Close running', hole: { letter: 'H', grade: 8 }, shaft: { letter: 'f', grade: 7 } },
+  { label: 'Sliding', hole: { letter: 'H', grade: 7 }, shaft: { letter: 'g', grade: 6 } },
+  { label: 'Locational clearance', hole: { letter: 'H', grade: 7 }, shaft: { letter: 'h', grade: 6 } },
+  { label: 'Locational transition', hole: { letter: 'H', grade: 7 }, shaft: { letter: 'k', grade: 6 } },
+  { label: 'Locational transition (tighter)', hole: { letter: 'H', grade: 7 }, shaft: { letter: 'n', grade: 6 } },
+  { label: 'Locational interference', hole: { letter: 'H', grade: 7 }, shaft: { letter: 'p', grade: 6 } },
+  { label: 'Medium drive', hole: { letter: 'H', grade: 7 }, shaft: { letter: 's', grade: 6 } },
+  { label: 'Force', hole: { letter: 'H', grade: 7 }, shaft: { letter: 'u', grade: 6 } },
+];
+
+export interface ToleranceZone {
+  designation: string; // e.g. "H7" or "p6"
+  upper: number;       // Upper deviation ES / es (m)
+  lower: number;       // Lower deviation EI / ei (m)
+  tolerance: number;   // IT value (m)
+}
+
+export interface FitResult {
+  nominalSize: number;   // m
+  hole: ToleranceZone;
+  shaft: ToleranceZone;
+  maxClearance: number;  // ES − ei (m); negative values are interference
+  minClearance: number;  // EI − es (m)
+  type: FitType;
+}
+
+export interface PressFitResult {
+  minInterference: number; // Diametral (m)
+  maxInterference: number; // Diametral (m)
+  minPressure: number;     // Pa
+  maxPressure: number;     // Pa
+  minForce: number;        // Axial assembly force F = μ·p·π·d·L (N)
+  maxForce: number;        // N
+  shaftSafetyFactor: number | null; // Sy / max σvm at the largest interference, null without a yield strength
+  hubSafetyFactor: number | null;
+}
+
+// Range upper bounds (mm): every table row covers sizes above the previous bound up to and including its own
+const MAIN_STEPS = [3, 6, 10, 18, 30, 50, 80, 120, 180, 250, 315, 400, 500];
+const SUB_STEPS = [3, 6, 10, 14, 18, 24, 30, 40, 50, 65, 80, 100, 120, 140, 160, 180, 200, 225, 250, 280, 315, 355, 400, 450, 500];
+
+type Row = (number | null)[];
+type DeviationTable = { steps: number[]; values: Row };
+const main = (values: Row): DeviationTable => ({ steps: MAIN_STEPS, values });
+const sub = (values: Row): DeviationTable => ({ steps: SUB_STEPS, values });
+const none = (count: number): Row => Array(count).fill(null);
+
+// Standard tolerance grades IT1–IT18 (µm) per main size range (ISO 286-1 Table 1)
+const IT_TABLE: number[][] = [
+  [0.8, 1.2, 2, 3, 4, 6, 10, 14, 25, 40, 60, 100, 140, 250, 400, 600, 1000, 1400],
+  [1, 1.5, 2.5, 4, 5, 8, 12, 18, 30, 48, 75, 120, 180, 300, 480, 750, 1200, 1800],
+  [1, 1.5, 2.5, 4, 6, 9, 15, 22, 36, 58, 90, 150, 220, 360, 580, 900, 1500, 2200],
+  [1.2, 2, 3, 5, 8, 11, 18, 27, 43, 70, 110, 180, 270, 430, 700, 1100, 1800, 2700],
+  [1.5, 2.5, 4, 6, 9, 13, 21, 33, 52, 84, 130, 210, 330, 520, 840, 1300, 2100, 3300],
+  [1.5, 2.5, 4, 7, 11, 16, 25, 39, 62, 100, 160, 250, 390, 620, 1000, 1600, 2500, 3900],
+  [2, 3, 5, 8, 13, 19, 30, 46, 74, 120, 190, 300, 460, 740, 1200, 1900, 3000, 4600],
+  [2.5, 4, 6, 10, 15, 22, 35, 54, 87, 140, 220, 350, 540, 870, 1400, 2200, 3500, 5400],
+  [3.5, 5, 8, 12, 18, 25, 40, 63, 100, 160, 250, 400, 630, 1000, 1600, 2500, 4000, 6300],
+  [4.5, 7, 10, 14, 20, 29, 46, 72, 115, 185, 290, 460, 720, 1150, 1850, 2900, 4600, 7200],
+  [6, 8, 12, 16, 23, 32, 52, 81, 130, 210, 320, 520, 810, 1300, 2100, 3200, 5200, 8100],
+  [7, 9, 13, 18, 25, 36, 57, 89, 140, 230, 360, 570, 890, 1400, 2300, 3600, 5700, 8900],
+  [8, 10, 15, 20, 27, 40, 63, 97, 155, 250, 400, 630, 970, 1550, 2500, 4000, 6300, 9700],
+];
+
+// Upper deviations es of shafts a–h (µm, ISO 286-1 Table 2)
+const UPPER_DEVIATIONS: Partial<Record<ShaftLetter, DeviationTable>> = {
+  a: sub([-270, -270, -280, -290, -290, -300, -300, -310, -320, -340, -360, -380, -410, -460, -520, -580, -660, -740, -820, -920, -1050, -1200, -1350, -1500, -1650]),
+  b: sub([-140, -140, -150, -150, -150, -160, -160, -170, -180, -190, -200, -220, -240, -260, -280, -310, -340, -380, -420, -480, -540, -600, -680, -760, -840]),
+  c: sub([-60, -70, -80, -95, -95, -110, -110, -120, -130, -140, -150, -170, -180, -200, -210, -230, -240, -260, -280, -300, -330, -360, -400, -440, -480]),
+  cd: main([-34, -46, -56, ...none(10)]),
+  d: main([-20, -30, -40, -50, -65, -80, -100, -120, -145, -170, -190, -210, -230]),
+  e: main([-14, -20, -25, -32, -40, -50, -60, -72, -85, -100, -110, -125, -135]),
+  ef: main([-10, -14, -18, ...none(10)]),
+  f: main([-6, -10, -13, -16, -20, -25, -30, -36, -43, -50, -56, -62, -68]),
+  fg: main([-4, -6, -8, ...none(10)]),
+  g: main([-2, -4, -5, -6, -7, -9, -10, -12, -14, -15, -17, -18, -20]),
+  h: main(Array(13).fill(0)),
+};
+
+// Lower deviations ei of shafts k–zc (µm, ISO 286-1 Table 3); k applies to grades 4–7, 0 otherwise
+const LOWER_DEVIATIONS: Partial<Record<ShaftLetter, DeviationTable>> = {
+  k: main([0, 1, 1, 1, 2, 2, 2, 3, 3, 4, 4, 4, 5]),
+  m: main([2, 4, 6, 7, 8, 9, 11, 13, 15, 17, 20, 21, 23]),
+  n: main([4, 8, 10, 12, 15, 17, 20, 23, 27, 31, 34, 37, 40]),
+  p: main([6, 12, 15, 18, 22, 26, 32, 37, 43, 50, 56, 62, 68]),
+  r: sub([10, 15, 19, 23, 23, 28, 28, 34, 34, 41, 43, 51, 54, 63, 65, 68, 77, 80, 84, 94, 98, 108, 114, 126, 132]),
+  s: sub([14, 19, 23, 28, 28, 35, 35, 43, 43, 53, 59, 71, 79, 92, 100, 108, 122, 130, 140, 158, 170, 190, 208, 232, 252]),
+  t: sub([...none(6), 41, 48, 54, 66, 75, 91, 104, 122, 134, 146, 166, 180, 196, 218, 240, 268, 294, 330, 360]),
+  u: sub([18, 23, 28, 33, 33, 41, 48, 60, 70, 87, 102, 124, 144, 170, 190, 210, 236, 258, 284, 315, 350, 390, 435, 490, 540]),
+  v: sub([...none(4), 39, 47, 55, 68, 81, 102, 120, 146, 172, 202, 228, 252, 284, 310, 340, 385, 425, 475, 530, 595, 660]),
+  x: sub([20, 28, 34, 40, 45, 54, 64, 80, 97, 122, 146, 178, 210, 248, 280, 310, 350, 385, 425, 475, 525, 590, 660, 740, 820]),
+  y: sub([...none(5), 63, 75, 94, 114, 144, 174, 214, 254, 300, 340, 380, 425, 470, 520, 580, 650, 730, 820, 920, 1000]),
+  z: sub([26, 35, 42, 50, 60, 73, 88, 112, 136, 172, 210, 258, 310, 365, 415, 465, 520, 575, 640, 710, 790, 900, 1000, 1100, 1250]),
+  za: sub([32, 42, 52, 64, 77, 98, 118, 148, 180, 226, 274, 335, 400, 470, 535, 600, 670, 740, 820, 920, 1000, 1150, 1300, 1450, 1600]),
+  zb: sub([40, 50, 67, 90, 108, 136, 160, 200, 242, 300, 360, 445, 525, 620, 700, 780, 880, 960, 1050, 1200, 1300, 1500, 1650, 1850, 2100]),
+  zc: sub([60, 80, 97, 130, 150, 188, 218, 274, 325, 405, 480, 585, 690, 800, 900, 1000, 1150, 1250, 1350, 1550, 1700, 1900, 2100, 2400, 2600]),
+};
+
+// Lower deviations ei of shaft j by grade, and upper deviations ES of hole J by grade (µm)
+const SHAFT_J: Record<number, DeviationTable> = {
+  5: main([-2, -2, -2, -3, -4, -5, -7, -9, -11, -13, -16, -18, -20]),
+  6: main([-2, -2, -2, -3, -4, -5, -7, -9, -11, -13, -16, -18, -20]),
+  7: main([-4, -4, -5, -6, -8, -10, -12, -15, -18, -21, -26, -28, -32]),
+  8: main([-6, ...none(12)]),
+};
+const HOLE_J: Record<number, DeviationTable> = {
+  6: main([2, 5, 5, 6, 8, 10, 13, 16, 18, 22, 25, 29, 33]),
+  7: main([4, 6, 8, 10, 12, 14, 18, 22, 26, 30, 36, 39, 43]),
+  8: main([6, 10, 12, 15, 20, 24, 28, 34, 41, 47, 55, 60, 66]),
+};
+
+const MICRON = 1e-6;
+
+function lookup(table: DeviationTable, sizeMm: number): number | null {
+  const index = table.steps.findIndex((bound) => sizeMm <= bound);
+  return index >= 0 ? table.values[index] : null;
+}
+
+// Letters and grades the standard leaves undefined for a size
+function outsideStandard(letter: string, grade: number, sizeMm: number): boolean {
+  const lower = letter.toLowerCase();
+  if ((lower === 'a' || lower === 'b') && sizeMm <= 1) return true;
+  if (grade >= 14 && sizeMm <= 1) return true;
+  return false;
+}
+
+/**
+ * Standard tolerance ITn for a nominal size.
+ *
+ * @param nominalSize - Nominal size (m), above 0 and up to 500 mm
+ * @param grade - IT grade 1–18
+ * @returns The tolerance (m), or null outside the tables.
+ */
+export function standardTolerance(nominalSize: number, grade: number): number | null {
+  const sizeMm = nominalSize * 1e3;
+  const row = MAIN_STEPS.findIndex((bound) => sizeMm <= bound);
+  if (!(sizeMm > 0) || row < 0 || !Number.isInteger(grade) || grade < 1 || grade > 18) {
+    console.error('ISO 286 tolerances cover sizes up to 500 mm and grades IT1 to IT18.');
+    return null;
+  }
+  return IT_TABLE[row][grade - 1] * MICRON;
+}
+
+// Δ = ITn − IT(n−1) for holes K–ZC in grades 3 to 8, above 3 mm (µm)
+function holeDelta(sizeMm: number, grade: number): number {
+  if (sizeMm <= 3 || grade < 3 || grade > 8) return 0;
+  const row = IT_TABLE[MAIN_STEPS.findIndex((bound) => sizeMm <= bound)];
+  return row[grade - 1] - row[grade - 2];
+}
+
+/**
+ * Limit deviations of a shaft tolerance class, e.g. ('p', 6) for p6.
+ *
+ * @param nominalSize - Nominal size (m)
+ * @returns The zone, or null if the class is not defined for this size.
+ */
+export function shaftTolerance(nominalSize: number, letter: ShaftLetter, grade: number): ToleranceZone | null {
+  const IT = standardTolerance(nominalSize, grade);
+  if (IT === null) return null;
+  const sizeMm = nominalSize * 1e3;
+  const it = IT / MICRON;
+  const designation = `${letter}${grade}`;
+  if (outsideStandard(letter, grade, sizeMm)) {
+    console.error(`Tolerance class ${designation} is not defined for ${sizeMm} mm.`);
+    return null;
+  }
+
+  let upper: number | null = null;
+  let lower: number | null = null;
+  if (letter === 'js') {
+    upper = it / 2;
+    lower = -it / 2;
+  } else if (UPPER_DEVIATIONS[letter]) {
+    upper = lookup(UPPER_DEVIATIONS[letter]!, sizeMm);
+    lower = upper !== null ? upper - it : null;
+  } else {
+    let ei: number | null;
+    if (letter === 'j') {
+      ei = SHAFT_J[grade] ? lookup(SHAFT_J[grade], sizeMm) : null;
+    } else if (letter === 'k') {
+      ei = grade >= 4 && grade <= 7 ? lookup(LOWER_DEVIATIONS.k!, sizeMm) : 0;
+    } else {
+      ei = lookup(LOWER_DEVIATIONS[letter]!, sizeMm);
+    }
+    lower = ei;
+    upper = ei !== null ? ei + it : null;
+  }
+
+  if (upper === null || lower === null) {
+    console.error(`Tolerance class ${designation} is not defined for ${sizeMm} mm.`);
+    return null;
+  }
+  return { designation, upper: upper * MICRON, lower: lower * MICRON, tolerance: IT };
+}
+
+/**
+ * Limit deviations of a hole tolerance class, e.g. ('H', 7) for H7.
+ *
+ * @param nominalSize - Nominal size (m)
+ * @returns The zone, or null if the class is not defined for this size.
+ */
+export function holeTolerance(nominalSize: number, letter: HoleLetter, grade: number): ToleranceZone | null {
+  const IT = standardTolerance(nominalSize, grade);
+  if (IT === null) return null;
+  const sizeMm = nominalSize * 1e3;
+  const it = IT / MICRON;
+  const designation = `${letter}${grade}`;
+  if (outsideStandard(letter, grade, sizeMm)) {
+    console.error(`Tolerance class ${designation} is not defined for ${sizeMm} mm.`);
+    return null;
+  }
+
+  const shaftLetter = letter.toLowerCase() as ShaftLetter;
+  const ei = (table: DeviationTable | undefined) => (table ? lookup(table, sizeMm) : null);
+  let upper: number | null = null;
+  let lower: number | null = null;
+
+  if (letter === 'JS') {
+    upper = it / 2;
+    lower = -it / 2;
+  } else if (UPPER_DEVIATIONS[shaftLetter]) {
+    // A–H mirror the shafts: EI = −es
+    const es = lookup(UPPER_DEVIATIONS[shaftLetter]!, sizeMm);
+    lower = es !== null ? -es : null;
+    upper = lower !== null ? lower + it : null;
+  } else {
+    let es: number | null;
+    if (letter === 'J') {
+      es = ei(HOLE_J[grade]);
+    } else if (letter === 'K') {
+      es = grade <= 8 ? -(ei(LOWER_DEVIATIONS.k) ?? 0) + holeDelta(sizeMm, grade) : 0;
+    } else if (letter === 'M') {
+      const m = ei(LOWER_DEVIATIONS.m) ?? 0;
+      // ISO 286-1 special case for M6 above 250 up to 315 mm
+      es = grade === 6 && sizeMm > 250 && sizeMm <= 315 ? -9 : grade <= 8 ? -m + holeDelta(sizeMm, grade) : -m;
+    } else if (letter === 'N') {
+      const n = ei(LOWER_DEVIATIONS.n) ?? 0;
+      es = sizeMm <= 3 ? -n : grade <= 8 ? -n + holeDelta(sizeMm, grade) : 0;
+    } else {
+      // P–ZC: ES = −ei of the shaft, plus Δ up to IT7
+      const base = ei(LOWER_DEVIATIONS[shaftLetter]);
+      es = base !== null ? -base + (grade <= 7 ? holeDelta(sizeMm, grade) : 0) : null;
+    }
+    upper = es;
+    lower = es !== null ? es - it : null;
+  }
+
+  if (upper === null || lower === null) {
+    console.error(`Tolerance class ${designation} is not defined for ${sizeMm} mm.`);
+    return null;
+  }
+  return { designation, upper: upper * MICRON, lower: lower * MICRON, tolerance: IT };
+}
+
+/**
+ * Clearance limits and type of a hole/shaft fit such as H7/g6.
+ *
+ * @param nominalSize - Nominal size (m)
+ * @returns The fit, or null if either tolerance class is undefined for this size.
+ */
+export function calculateFit(
+  nominalSize: number,
+  hole: { letter: HoleLetter; grade: number },
+  shaft: { letter: ShaftLetter; grade: number }
+): FitResult | null {
+  const holeZone = holeTolerance(nominalSize, hole.letter, hole.grade);
+  const shaftZone = shaftTolerance(nominalSize, shaft.letter, shaft.grade);
+  if (!holeZone || !shaftZone) return null;
+
+  const maxClearance = holeZone.upper - shaftZone.lower;
+  const minClearance = holeZone.lower - shaftZone.upper;
+  let type: FitType = 'transition';
+  if (minClearance >= 0) type = 'clearance';
+  else if (maxClearance <= 0) type = 'interference';
+  return { nominalSize, hole: holeZone, shaft: shaftZone, maxClearance, minClearance, type };
+}
+
+/**
+ * Contact pressure and axial assembly force of a press fit at its smallest and largest
+ * interference, treating the shaft and hub as thick cylinders (plane stress). Yield safety
+ * factors are checked at the largest interference.
+ *
+ * @param fit - Fit from `calculateFit`; it must be able to interfere.
+ * @param geometry - Shaft bore (m, 0 for solid), hub outside diameter (m), engaged length (m)
+ *                   and the friction coefficient for pressing.
+ * @returns The pressures and forces, or null for a clearance fit or invalid geometry.
+ */
+export function calculatePressFit(
+  fit: FitResult,
+  geometry: { shaftBore: number; hubOuterDiameter: number; length: number; friction: number },
+  shaft: ShrinkFitMember,
+  hub: ShrinkFitMember
+): PressFitResult | null {
+  const maxInterference = -fit.minClearance;
+  const minInterference = Math.max(-fit.maxClearance, 0);
+  if (!(maxInterference > 0)) {
+    console.error('A clearance fit has no press-fit pressure.');
+    return null;
+  }
+  if (!(geometry.length > 0) || !(geometry.friction >= 0)) {
+    console.error('The engaged length must be positive and the friction coefficient not negative.');
+    return null;
+  }
+
+  const d = fit.nominalSize;
+  // Diametral interference is twice the radial interference the pressure formula expects
+  const radii = { innerRadius: geometry.shaftBore / 2, interfaceRadius: d / 2, outerRadius: geometry.hubOuterDiameter / 2 };
+  const minPressure = interferenceFitPressure(radii.innerRadius, radii.interfaceRadius, radii.outerRadius, minInterference / 2, shaft, hub);
+  const tightest = calculateShrinkFit({ ...radii, radialInterference: maxInterference / 2 }, shaft, hub);
+  if (minPressure === null || !tightest) return null;
+
+  const force = (p: number) => geometry.friction * p * Math.PI * d * geometry.length;
+  return {
+    minInterference,
+    maxInterference,
+    minPressure,
+    maxPressure: tightest.pressure,
+    minForce: force(minPressure),
+    maxForce: force(tightest.pressure),
+    shaftSafetyFactor: tightest.inner.safetyFactor,
+    hubSafetyFactor: tightest.outer.safetyFactor,
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { solveLinearSystem } from './linearAlgebra';
+
+describe('solveLinearSystem', () => {
+  it('solves a system that needs row exchanges', () => {
+    // Zero on the first diagonal entry; solution x = (1, 2, 3)
+    const A = [
+      [0, 2, 1],
+      [1, 1, 1],
+      [2, -1, 3],
+    ];
+    const b = [7, 6, 9];
+    const x = solveLinearSystem(A, b)!;
+
+    expect(x).toEqual([expect.closeTo(1, 12), expect.closeTo(2, 12), expect.closeTo(3, 12)]);
+    expect(A[0]).toEqual([0, 2, 1]);
+    expect(b).toEqual([7, 6, 9]);
+  });
+
+  it('returns null for singular or mismatched systems', () => {
+    expect(solveLinearSystem([[1, 2], [2, 4]], [1, 2])).toBeNull();
+    expect(solveLinearSystem([[1, 0], [0, 1]], [1, 2, 3])).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Solves the dense linear system A·x = b using Gaussian elimination with partial pivoting.
+ * Intended for the small systems that come out of the beam and structure solvers.
+ *
+ * @param A - Square coefficient matrix (n × n). Not modified.
+ * @param b - Right-hand side vector (length n). Not modified.
+ * @returns The solution vector x, or null if the matrix is singular (or nearly so).
+ */
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  if (A.length !== n || A.some((row) => row.length !== n)) {
+    console.error("Matrix dimensions do not match the right-hand side.");
+    return null;
+  }
+
+  // Work on an augmented copy so the caller's arrays stay untouched
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  // Pivot tolerance relative to the largest coefficient in the matrix
+  const scale = Math.max(...A.map((row) => Math.max(...row.map(Math.abs))), 0);
+  const tolerance = scale * 1e-13;
+
+  for (let col = 0; col < n; col++) {
+    // Partial pivoting: bring the largest remaining entry of this column onto the diagonal
+    let pivotRow = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(M[row][col]) > Math.abs(M[pivotRow][col])) {
+        pivotRow = row;
+      }
+    }
+    if (Math.abs(M[pivotRow][col]) <= tolerance) {
+      return null; // Singular: structure is a mechanism or a constraint is missing
+    }
+    if (pivotRow !== col) {
+      [M[col], M[pivotRow]] = [M[pivotRow], M[col]];
+    }
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = M[row][col] / M[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k <= n; k++) {
+        M[row][k] -= factor * M[col][k];
+      }
+    }
+  }
+
+  // Back substitution
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = M[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= M[row][k] * x[k];
+    }
+    x[row] = sum / M[row][row];
+  }
+  return x;
+}
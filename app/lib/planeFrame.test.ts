@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePlaneFrame, FrameMember, FrameModel } from './planeFrame';
+
+const E = 200e9; // Pa
+const A = 1e-3;  // m²
+const I = 8e-6;  // m⁴
+
+const truss = (start: number, end: number): FrameMember => ({ start, end, type: 'truss', E, A });
+const frame = (start: number, end: number): FrameMember => ({ start, end, type: 'frame', E, A, I });
+
+describe('analyzePlaneFrame', () => {
+  it('matches the method of joints for a loaded triangular truss', () => {
+    // Span 4 m, apex 2 m high, 10 kN down at the apex
+    const P = 10e3;
+    const model: FrameModel = {
+      joints: [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 2, y: 2 }],
+      members: [truss(0, 1), truss(0, 2), truss(1, 2)],
+      supports: [
+        { joint: 0, x: true, y: true, rotation: false },
+        { joint: 1, x: false, y: true, rotation: false },
+      ],
+      jointLoads: [{ joint: 2, fy: -P }],
+    };
+
+    const result = analyzePlaneFrame(model)!;
+    expect(result).not.toBeNull();
+    expect(result.reactions.map((r) => r.fy)).toEqual([expect.closeTo(P / 2, 6), expect.closeTo(P / 2, 6)]);
+    expect(result.reactions[0].fx).toBeCloseTo(0, 6);
+
+    // Tie in tension P/2; rafters in compression P/√2
+    const [tie, left, right] = result.memberForces.map((f) => f.axial);
+    expect(tie).toBeCloseTo(P / 2, 6);
+    expect(left).toBeCloseTo(-P / Math.SQRT2, 6);
+    expect(right).toBeCloseTo(-P / Math.SQRT2, 6);
+
+    // The roller moves out by the stretch of the tie, N·L / EA
+    expect(result.displacements[1].u).toBeCloseTo((P / 2) * 4 / (E * A), 12);
+  });
+
+  it('gives PL³/3EI and PL²/2EI at the tip of a cantilever', () => {
+    const L = 3;
+    const P = 5e3;
+    const result = analyzePlaneFrame({
+      joints: [{ x: 0, y: 0 }, { x: L, y: 0 }],
+      members: [frame(0, 1)],
+      supports: [{ joint: 0, x: true, y: true, rotation: true }],
+      jointLoads: [{ joint: 1, fy: -P }],
+    })!;
+
+    expect(result.displacements[1].v).toBeCloseTo(-(P * L ** 3) / (3 * E * I), 12);
+    expect(result.displacements[1].rotation).toBeCloseTo(-(P * L ** 2) / (2 * E * I), 12);
+    expect(result.reactions[0].fy).toBeCloseTo(P, 6);
+    expect(result.reactions[0].moment).toBeCloseTo(P * L, 6);
+    expect(result.memberForces[0].start.moment).toBeCloseTo(-P * L, 6);
+  });
+
+  it('gives the fixed-end moments wL²/12 for a uniformly loaded fixed-fixed beam', () => {
+    const L = 6;
+    const q = 2e3;
+    const fixed = { x: true, y: true, rotation: true };
+    const result = analyzePlaneFrame({
+      joints: [{ x: 0, y: 0 }, { x: L, y: 0 }],
+      members: [frame(0, 1)],
+      supports: [{ joint: 0, ...fixed }, { joint: 1, ...fixed }],
+      memberLoads: [{ member: 0, w: -q }],
+    })!;
+
+    const forces = result.memberForces[0];
+    expect(forces.start.moment).toBeCloseTo(-(q * L ** 2) / 12, 6);
+    expect(forces.end.moment).toBeCloseTo(-(q * L ** 2) / 12, 6);
+    expect(forces.start.shear).toBeCloseTo((q * L) / 2, 6);
+    expect(result.reactions.map((r) => r.fy)).toEqual([expect.closeTo((q * L) / 2, 6), expect.closeTo((q * L) / 2, 6)]);
+  });
+
+  it('rejects a structure that is a mechanism', () => {
+    const result = analyzePlaneFrame({
+      joints: [{ x: 0, y: 0 }, { x: 4, y: 0 }],
+      members: [truss(0, 1)],
+      supports: [{ joint: 0, x: false, y: true, rotation: false }],
+      jointLoads: [{ joint: 1, fy: -1e3 }],
+    });
+    expect(result).toBeNull();
+  });
+});
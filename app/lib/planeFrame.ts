@@ -0,0 +1,316 @@
+import { solveLinearSystem } from './linearAlgebra';
+
+/**
+ * Planar truss and rigid frame analysis by the direct stiffness method.
+ * Assumes SI units (meters, Newtons, Pascals) and linear-elastic, small-displacement behaviour.
+ *
+ * Global axes: x to the right, y UP; rotations and moments COUNTER-CLOCKWISE positive.
+ * Each member has local axes with x' running from its start joint to its end joint and
+ * y' rotated 90° counter-clockwise from x'. Truss members are pinned at both ends and
+ * carry axial force only; frame members are rigidly connected beam-columns.
+ */
+
+export interface FrameJoint {
+  x: number; // m
+  y: number; // m
+}
+
+export interface FrameMember {
+  start: number; // Joint index
+  end: number;   // Joint index
+  type: 'truss' | 'frame';
+  E: number;     // Young's modulus (Pa)
+  A: number;     // Cross-sectional area (m²)
+  I?: number;    // Second moment of area (m⁴), frame members only
+}
+
+export interface FrameSupport {
+  joint: number;
+  x: boolean;        // Restrains horizontal displacement
+  y: boolean;        // Restrains vertical displacement
+  rotation: boolean; // Restrains rotation (only meaningful where a frame member connects)
+}
+
+export interface FrameJointLoad {
+  joint: number;
+  fx?: number;     // N
+  fy?: number;     // N, upward positive
+  moment?: number; // N·m, counter-clockwise positive
+}
+
+/** Uniform load on a frame member along its local y' axis (N/m) */
+export interface FrameMemberLoad {
+  member: number;
+  w: number;
+}
+
+export interface FrameModel {
+  joints: FrameJoint[];
+  members: FrameMember[];
+  supports: FrameSupport[];
+  jointLoads?: FrameJointLoad[];
+  memberLoads?: FrameMemberLoad[];
+}
+
+export interface FrameJointDisplacement {
+  u: number;        // m
+  v: number;        // m, upward positive
+  rotation: number; // rad, counter-clockwise positive
+}
+
+export interface FrameReaction {
+  joint: number;
+  fx: number;     // N
+  fy: number;     // N
+  moment: number; // N·m
+}
+
+/**
+ * Member end forces in local axes. Shear and moment follow the beam convention of
+ * `calculations.ts` with y' as "up" (sagging moment positive, V = dM/dx').
+ */
+export interface FrameMemberForces {
+  member: number;
+  length: number; // m
+  axial: number;  // N, tension positive
+  start: { shear: number; moment: number };
+  end: { shear: number; moment: number };
+}
+
+export interface FrameResult {
+  displacements: FrameJointDisplacement[];
+  reactions: FrameReaction[];
+  memberForces: FrameMemberForces[];
+}
+
+const DOFS_PER_JOINT = 3;
+
+function memberGeometry(model: FrameModel, member: FrameMember) {
+  const a = model.joints[member.start];
+  const b = model.joints[member.end];
+  const L = Math.hypot(b.x - a.x, b.y - a.y);
+  return { L, c: (b.x - a.x) / L, s: (b.y - a.y) / L };
+}
+
+// Local stiffness in [u1, v1, θ1, u2, v2, θ2] order; truss members keep the axial terms only
+function localStiffness(member: FrameMember, L: number): number[][] {
+  const k: number[][] = Array.from({ length: 6 }, () => new Array(6).fill(0));
+  const axial = (member.E * member.A) / L;
+  k[0][0] = axial;
+  k[0][3] = -axial;
+  k[3][0] = -axial;
+  k[3][3] = axial;
+  if (member.type === 'frame') {
+    const EI = member.E * (member.I ?? 0);
+    const L2 = L * L;
+    const bending: [number, number, number][] = [
+      [1, 1, 12 * EI / (L2 * L)], [1, 2, 6 * EI / L2], [1, 4, -12 * EI / (L2 * L)], [1, 5, 6 * EI / L2],
+      [2, 2, 4 * EI / L], [2, 4, -6 * EI / L2], [2, 5, 2 * EI / L],
+      [4, 4, 12 * EI / (L2 * L)], [4, 5, -6 * EI / L2],
+      [5, 5, 4 * EI / L],
+    ];
+    bending.forEach(([i, j, value]) => {
+      k[i][j] = value;
+      k[j][i] = value;
+    });
+  }
+  return k;
+}
+
+// Rotation from global to local member axes: d_local = T · d_global
+function transformation(c: number, s: number): number[][] {
+  const T: number[][] = Array.from({ length: 6 }, () => new Array(6).fill(0));
+  [0, 3].forEach((o) => {
+    T[o][o] = c;
+    T[o][o + 1] = s;
+    T[o + 1][o] = -s;
+    T[o + 1][o + 1] = c;
+    T[o + 2][o + 2] = 1;
+  });
+  return T;
+}
+
+const multiply = (A: number[][], B: number[][]) =>
+  A.map((row) => B[0].map((_, j) => row.reduce((sum, a, k) => sum + a * B[k][j], 0)));
+const transpose = (A: number[][]) => A[0].map((_, j) => A.map((row) => row[j]));
+const multiplyVector = (A: number[][], x: number[]) => A.map((row) => row.reduce((sum, a, k) => sum + a * x[k], 0));
+
+function validateModel(model: FrameModel): string | null {
+  const validJoint = (j: number) => Number.isInteger(j) && j >= 0 && j < model.joints.length;
+  for (const member of model.members) {
+    if (!validJoint(member.start) || !validJoint(member.end) || member.start === member.end) {
+      return 'Each member must join two different existing joints.';
+    }
+    if (!(memberGeometry(model, member).L > 0)) {
+      return 'Members must have a non-zero length.';
+    }
+    if (!(member.E > 0) || !(member.A > 0)) {
+      return "Young's modulus and area must be positive for every member.";
+    }
+    if (member.type === 'frame' && !(member.I && member.I > 0)) {
+      return 'Frame members need a positive moment of inertia.';
+    }
+  }
+  if (![...model.supports.map((s) => s.joint), ...(model.jointLoads ?? []).map((l) => l.joint)].every(validJoint)) {
+    return 'Supports and loads must refer to existing joints.';
+  }
+  for (const load of model.memberLoads ?? []) {
+    const member = model.members[load.member];
+    if (!member || member.type !== 'frame') {
+      return 'Member loads can only be applied to frame members.';
+    }
+  }
+  return null;
+}
+
+/**
+ * Analyzes a planar truss, rigid frame or a mix of both. Joints that only connect truss
+ * members have no rotational stiffness, so their rotation is left out of the solution.
+ *
+ * @param model - Joints, members, supports and loads (see the types above).
+ * @returns Joint displacements, support reactions and member end forces, or null if the
+ *          model is invalid or is a mechanism.
+ */
+export function analyzePlaneFrame(model: FrameModel): FrameResult | null {
+  const error = validateModel(model);
+  if (error) {
+    console.error(error);
+    return null;
+  }
+
+  const size = model.joints.length * DOFS_PER_JOINT;
+  const K: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+  const F: number[] = new Array(size).fill(0);
+
+  const memberData = model.members.map((member, index) => {
+    const { L, c, s } = memberGeometry(model, member);
+    const T = transformation(c, s);
+    const k = localStiffness(member, L);
+    const dofs = [member.start, member.end].flatMap((j) => [0, 1, 2].map((o) => j * DOFS_PER_JOINT + o));
+    // Fixed-end forces of the member loads, in local axes
+    const fixedEnd = new Array(6).fill(0);
+    (model.memberLoads ?? []).filter((l) => l.member === index).forEach(({ w }) => {
+      fixedEnd[1] += w * L / 2;
+      fixedEnd[2] += w * L * L / 12;
+      fixedEnd[4] += w * L / 2;
+      fixedEnd[5] -= w * L * L / 12;
+    });
+    return { L, T, k, dofs, fixedEnd };
+  });
+
+  memberData.forEach(({ T, k, dofs, fixedEnd }) => {
+    const kGlobal = multiply(transpose(T), multiply(k, T));
+    const fGlobal = multiplyVector(transpose(T), fixedEnd);
+    dofs.forEach((p, a) => {
+      F[p] += fGlobal[a];
+      dofs.forEach((q, b) => {
+        K[p][q] += kGlobal[a][b];
+      });
+    });
+  });
+  (model.jointLoads ?? []).forEach((load) => {
+    const base = load.joint * DOFS_PER_JOINT;
+    F[base] += load.fx ?? 0;
+    F[base + 1] += load.fy ?? 0;
+    F[base + 2] += load.moment ?? 0;
+  });
+
+  // Restrained DOFs: supports, plus the rotation of joints no frame member connects to
+  const restrained = new Set<number>();
+  model.supports.forEach((support) => {
+    const base = support.joint * DOFS_PER_JOINT;
+    if (support.x) restrained.add(base);
+    if (support.y) restrained.add(base + 1);
+    if (support.rotation) restrained.add(base + 2);
+  });
+  const rotationless = model.joints
+    .map((_, j) => j)
+    .filter((j) => !model.members.some((m) => m.type === 'frame' && (m.start === j || m.end === j)));
+  rotationless.forEach((j) => restrained.add(j * DOFS_PER_JOINT + 2));
+
+  const free = Array.from({ length: size }, (_, p) => p).filter((p) => !restrained.has(p));
+  const d: number[] = new Array(size).fill(0);
+  if (free.length > 0) {
+    const solution = solveLinearSystem(free.map((p) => free.map((q) => K[p][q])), free.map((p) => F[p]));
+    if (!solution) {
+      console.error('The structure is a mechanism: add supports or members.');
+      return null;
+    }
+    free.forEach((p, a) => {
+      d[p] = solution[a];
+    });
+  }
+
+  const reactions: FrameReaction[] = model.supports.map((support) => {
+    const base = support.joint * DOFS_PER_JOINT;
+    const residual = (p: number) => K[p].reduce((sum, kpq, q) => sum + kpq * d[q], 0) - F[p];
+    return {
+      joint: support.joint,
+      fx: support.x ? residual(base) : 0,
+      fy: support.y ? residual(base + 1) : 0,
+      moment: support.rotation && !rotationless.includes(support.joint) ? residual(base + 2) : 0,
+    };
+  });
+
+  const memberForces: FrameMemberForces[] = memberData.map(({ L, T, k, dofs, fixedEnd }, member) => {
+    const local = multiplyVector(T, dofs.map((p) => d[p]));
+    const f = multiplyVector(k, local).map((value, a) => value - fixedEnd[a]);
+    return {
+      member,
+      length: L,
+      axial: f[3],
+      start: { shear: f[1], moment: -f[2] },
+      end: { shear: -f[4], moment: f[5] },
+    };
+  });
+
+  return {
+    displacements: model.joints.map((_, j) => ({
+      u: d[j * DOFS_PER_JOINT],
+      v: d[j * DOFS_PER_JOINT + 1],
+      rotation: d[j * DOFS_PER_JOINT + 2],
+    })),
+    reactions,
+    memberForces,
+  };
+}
+
+/**
+ * Deflected shape of a member for drawing: points along the member in global coordinates,
+ * displaced by the end displacements (scaled by `scale`). Frame members bend with the cubic
+ * (Hermite) shape functions, which leave out the extra sag from loads between the joints;
+ * truss members stay straight.
+ */
+export function deformedMemberShape(
+  model: FrameModel,
+  result: FrameResult,
+  memberIndex: number,
+  scale: number,
+  segments: number = 20
+): { x: number; y: number }[] {
+  const member = model.members[memberIndex];
+  const { L, c, s } = memberGeometry(model, member);
+  const a = model.joints[member.start];
+  const da = result.displacements[member.start];
+  const db = result.displacements[member.end];
+
+  // End displacements in local axes
+  const toLocal = (u: number, v: number) => ({ axial: c * u + s * v, transverse: -s * u + c * v });
+  const ea = toLocal(da.u, da.v);
+  const eb = toLocal(db.u, db.v);
+  const bends = member.type === 'frame';
+
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const t = i / segments;
+    const axial = ea.axial + (eb.axial - ea.axial) * t;
+    const transverse = bends
+      ? (1 - 3 * t * t + 2 * t * t * t) * ea.transverse
+        + L * (t - 2 * t * t + t * t * t) * da.rotation
+        + (3 * t * t - 2 * t * t * t) * eb.transverse
+        + L * (-t * t + t * t * t) * db.rotation
+      : ea.transverse + (eb.transverse - ea.transverse) * t;
+    const along = L * t + scale * axial;
+    const across = scale * transverse;
+    return { x: a.x + c * along - s * across, y: a.y + s * along + c * across };
+  });
+}
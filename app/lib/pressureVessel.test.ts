@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { calculateShrinkFit, calculateThickWallVessel, calculateThinWallVessel, interferenceFitPressure } from './pressureVessel';
+
+const MPA = 1e6;
+const steel = { E: 207e9, poissonsRatio: 0.292 };
+
+describe('calculateThinWallVessel', () => {
+  it('gives pr/t hoop and pr/2t longitudinal stress in a cylinder', () => {
+    const result = calculateThinWallVessel('cylinder', 2 * MPA, 1, 0.01, 250 * MPA)!;
+    expect(result.hoopStress / MPA).toBeCloseTo(100, 9);
+    expect(result.longitudinalStress / MPA).toBeCloseTo(50, 9);
+    expect(result.thinWallValid).toBe(true);
+    expect(result.vonMises / MPA).toBeCloseTo(50 * Math.sqrt(3), 9);
+  });
+
+  it('gives pr/2t in both directions in a sphere', () => {
+    const result = calculateThinWallVessel('sphere', 2 * MPA, 1, 0.01)!;
+    expect(result.hoopStress / MPA).toBeCloseTo(50, 9);
+    expect(result.safetyFactor).toBeNull();
+  });
+});
+
+describe('calculateThickWallVessel', () => {
+  it('matches the Lamé solution for a closed cylinder with b = 2a', () => {
+    const result = calculateThickWallVessel('cylinder', 0.05, 0.1, 100 * MPA, 0)!;
+    expect(result.inner.radial / MPA).toBeCloseTo(-100, 6);
+    expect(result.inner.hoop / MPA).toBeCloseTo(500 / 3, 6);
+    expect(result.outer.hoop / MPA).toBeCloseTo(200 / 3, 6);
+    expect(result.outer.radial / MPA).toBeCloseTo(0, 6);
+    expect(result.inner.axial / MPA).toBeCloseTo(100 / 3, 6);
+  });
+
+  it('approaches the thin-wall stress for a thin cylinder', () => {
+    const thick = calculateThickWallVessel('cylinder', 0.5, 0.501, 1 * MPA, 0)!;
+    expect(thick.inner.hoop / MPA).toBeCloseTo(500, -1);
+  });
+
+  it('rejects an outer radius inside the bore', () => {
+    expect(calculateThickWallVessel('cylinder', 0.1, 0.05, 1 * MPA, 0)).toBeNull();
+  });
+});
+
+describe('shrink fits', () => {
+  // Shigley, Ex. 3-14: steel tubes of 40, 45 and 50 mm with 0.062 mm diametral interference
+  const geometry = { innerRadius: 0.02, interfaceRadius: 0.0225, outerRadius: 0.025, radialInterference: 0.031e-3 };
+
+  it('reproduces the fit pressure and tangential stresses of two steel tubes', () => {
+    const result = calculateShrinkFit(geometry, steel, steel)!;
+    expect(result.pressure / MPA).toBeCloseTo(15.8, 1);
+    expect(result.inner.outer.hoop / MPA).toBeCloseTo(-134.7, 1);
+    expect(result.outer.inner.hoop / MPA).toBeCloseTo(150.5, 1);
+    // The two surfaces close the interference between them
+    expect(result.outerRadialDisplacement - result.innerRadialDisplacement).toBeCloseTo(geometry.radialInterference, 12);
+  });
+
+  it('needs the outer radius outside the interface', () => {
+    expect(interferenceFitPressure(0, 0.02, 0.02, 1e-5, steel, steel)).toBeNull();
+  });
+});
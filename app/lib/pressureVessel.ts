@@ -0,0 +1,242 @@
+/**
+ * Stresses in pressurized cylinders and spheres, and interference (shrink) fits.
+ * Assumes SI units (meters, Pascals) and linear-elastic, isotropic materials.
+ *
+ * Thin-walled vessels use the membrane formulas on the inner radius. Thick-walled vessels
+ * use Lamé's solution; radial stresses are negative (compressive) under internal pressure.
+ */
+
+export type VesselShape = 'cylinder' | 'sphere';
+
+/**
+ * Axial stress assumption for thick cylinders: closed ends carry the pressure on the end caps,
+ * open ends (and shrink-fitted rings) have none, plane strain restrains axial deformation.
+ */
+export type CylinderEnds = 'closed' | 'open' | 'plane-strain';
+
+export interface ThinWallResult {
+  hoopStress: number;         // Pa
+  longitudinalStress: number; // Pa (equal to the hoop stress for a sphere)
+  radiusToThickness: number;  // r / t
+  thinWallValid: boolean;     // r / t ≥ 10
+  vonMises: number;           // Membrane stresses only
+  safetyFactor: number | null; // Sy / σvm, null without a yield strength
+}
+
+export interface RadialStressPoint {
+  radius: number;   // m
+  radial: number;   // σr (Pa)
+  hoop: number;     // σθ (Pa)
+  axial: number;    // σz for cylinders; equal to the hoop stress for spheres (Pa)
+  vonMises: number; // Pa
+}
+
+export interface ThickWallResult {
+  points: RadialStressPoint[];   // Distribution from the inner to the outer radius
+  inner: RadialStressPoint;      // At the bore
+  outer: RadialStressPoint;      // At the outside
+  maxVonMises: number;           // Pa
+  safetyFactor: number | null;   // Sy / max σvm, null without a yield strength
+}
+
+export interface ShrinkFitMember {
+  E: number;             // Pa
+  poissonsRatio: number;
+  yieldStrength?: number | null; // Pa, optional, for the safety factor
+}
+
+export interface ShrinkFitResult {
+  pressure: number;                // Interface pressure (Pa)
+  inner: ThickWallResult;          // Inner member (shaft or hub insert)
+  outer: ThickWallResult;          // Outer member (hub or ring)
+  innerRadialDisplacement: number; // Radial displacement of the inner member's surface at the interface (m, inward negative)
+  outerRadialDisplacement: number; // Radial displacement of the outer member's bore (m)
+}
+
+const vonMises = (a: number, b: number, c: number) => Math.sqrt(0.5 * ((a - b) ** 2 + (b - c) ** 2 + (c - a) ** 2));
+
+/**
+ * Membrane stresses of a thin-walled cylinder or sphere under internal gauge pressure.
+ *
+ * @param shape - 'cylinder' (closed ends) or 'sphere'
+ * @param pressure - Internal gauge pressure (Pa)
+ * @param innerDiameter - Inner diameter (m)
+ * @param thickness - Wall thickness (m)
+ * @param yieldStrength - Yield strength (Pa), optional, for the safety factor.
+ * @returns The stresses, or null if the dimensions are invalid.
+ */
+export function calculateThinWallVessel(
+  shape: VesselShape,
+  pressure: number,
+  innerDiameter: number,
+  thickness: number,
+  yieldStrength?: number | null
+): ThinWallResult | null {
+  if (!(innerDiameter > 0) || !(thickness > 0) || !Number.isFinite(pressure)) {
+    console.error('Diameter and thickness must be positive and the pressure finite.');
+    return null;
+  }
+  const r = innerDiameter / 2;
+  const hoopStress = shape === 'cylinder' ? (pressure * r) / thickness : (pressure * r) / (2 * thickness);
+  const longitudinalStress = (pressure * r) / (2 * thickness);
+  const equivalent = vonMises(hoopStress, longitudinalStress, 0);
+  return {
+    hoopStress,
+    longitudinalStress,
+    radiusToThickness: r / thickness,
+    thinWallValid: r / thickness >= 10,
+    vonMises: equivalent,
+    safetyFactor: yieldStrength && yieldStrength > 0 && equivalent > 0 ? yieldStrength / equivalent : null,
+  };
+}
+
+/**
+ * Lamé stresses at radius r in a thick-walled cylinder or sphere.
+ *
+ * @param innerRadius - a (m); 0 for a solid cylinder under external pressure
+ * @param outerRadius - b (m)
+ * @param innerPressure - pi (Pa)
+ * @param outerPressure - po (Pa)
+ * @param poissonsRatio - Only used for plane strain cylinders.
+ */
+export function lameStresses(
+  shape: VesselShape,
+  innerRadius: number,
+  outerRadius: number,
+  innerPressure: number,
+  outerPressure: number,
+  radius: number,
+  ends: CylinderEnds = 'closed',
+  poissonsRatio: number = 0.3
+): RadialStressPoint {
+  const a = innerRadius;
+  const b = outerRadius;
+  const n = shape === 'cylinder' ? 2 : 3;
+  const an = a ** n;
+  const bn = b ** n;
+  const uniform = (innerPressure * an - outerPressure * bn) / (bn - an);
+  // The r-dependent term vanishes for a solid section (a = 0)
+  const varying = a > 0 ? ((innerPressure - outerPressure) * an * bn) / ((bn - an) * radius ** n) : 0;
+
+  const radial = uniform - varying;
+  const hoop = shape === 'cylinder' ? uniform + varying : uniform + varying / 2;
+  let axial: number;
+  if (shape === 'sphere') {
+    axial = hoop;
+  } else if (ends === 'closed') {
+    axial = uniform;
+  } else if (ends === 'plane-strain') {
+    axial = poissonsRatio * (radial + hoop);
+  } else {
+    axial = 0;
+  }
+  return { radius, radial, hoop, axial, vonMises: vonMises(radial, hoop, axial) };
+}
+
+/**
+ * Stress distribution through the wall of a thick cylinder or sphere (Lamé).
+ *
+ * @param shape - 'cylinder' or 'sphere'
+ * @param innerRadius - a (m); may be 0 for a solid cylinder
+ * @param outerRadius - b (m), greater than a
+ * @param innerPressure - Internal pressure pi (Pa)
+ * @param outerPressure - External pressure po (Pa)
+ * @param options - Cylinder end condition, Poisson's ratio (plane strain), yield strength
+ *                  (safety factor) and the number of points through the wall.
+ * @returns The distribution, or null if the geometry is invalid.
+ */
+export function calculateThickWallVessel(
+  shape: VesselShape,
+  innerRadius: number,
+  outerRadius: number,
+  innerPressure: number,
+  outerPressure: number,
+  options: { ends?: CylinderEnds; poissonsRatio?: number; yieldStrength?: number | null; points?: number } = {}
+): ThickWallResult | null {
+  if (!(innerRadius >= 0) || !(outerRadius > innerRadius) || !Number.isFinite(innerPressure) || !Number.isFinite(outerPressure)) {
+    console.error('Radii must satisfy 0 ≤ inner < outer and the pressures must be finite.');
+    return null;
+  }
+  if (innerRadius === 0 && shape === 'sphere') {
+    console.error('A sphere needs a positive inner radius.');
+    return null;
+  }
+  const count = Math.max(2, Math.round(options.points ?? 41));
+  const points = Array.from({ length: count }, (_, i) => {
+    const r = innerRadius + ((outerRadius - innerRadius) * i) / (count - 1);
+    return lameStresses(shape, innerRadius, outerRadius, innerPressure, outerPressure, r, options.ends, options.poissonsRatio);
+  });
+  const maxVonMises = Math.max(...points.map((p) => p.vonMises));
+  const Sy = options.yieldStrength;
+  return {
+    points,
+    inner: points[0],
+    outer: points[points.length - 1],
+    maxVonMises,
+    safetyFactor: Sy && Sy > 0 && maxVonMises > 0 ? Sy / maxVonMises : null,
+  };
+}
+
+/**
+ * Contact pressure of an interference fit between two cylinders of different materials
+ * (plane stress): p = δ / [R/Eo·((ro² + R²)/(ro² − R²) + νo) + R/Ei·((R² + ri²)/(R² − ri²) − νi)].
+ *
+ * @param innerRadius - ri, bore of the inner member (m); 0 for a solid shaft
+ * @param interfaceRadius - R, nominal interface radius (m)
+ * @param outerRadius - ro, outside of the outer member (m)
+ * @param radialInterference - δ, half the diametral interference (m)
+ * @returns The pressure (Pa), or null if the inputs are invalid.
+ */
+export function interferenceFitPressure(
+  innerRadius: number,
+  interfaceRadius: number,
+  outerRadius: number,
+  radialInterference: number,
+  inner: ShrinkFitMember,
+  outer: ShrinkFitMember
+): number | null {
+  const ri = innerRadius;
+  const R = interfaceRadius;
+  const ro = outerRadius;
+  if (!(ri >= 0) || !(R > ri) || !(ro > R) || !(radialInterference >= 0) || !(inner.E > 0) || !(outer.E > 0)) {
+    console.error('Radii must satisfy 0 ≤ ri < R < ro, the interference must not be negative and both moduli must be positive.');
+    return null;
+  }
+  const outerCompliance = (R / outer.E) * ((ro ** 2 + R ** 2) / (ro ** 2 - R ** 2) + outer.poissonsRatio);
+  const innerCompliance = (R / inner.E) * ((R ** 2 + ri ** 2) / (R ** 2 - ri ** 2) - inner.poissonsRatio);
+  return radialInterference / (outerCompliance + innerCompliance);
+}
+
+/**
+ * Shrink fit of two cylinders: interface pressure and the stress distribution in each member.
+ * Both members are treated as open-ended (σz = 0).
+ *
+ * @param geometry - Radii ri, R and ro (m) and the radial interference δ (m).
+ * @param inner - Inner member material.
+ * @param outer - Outer member material.
+ * @returns The fit, or null if the inputs are invalid.
+ */
+export function calculateShrinkFit(
+  geometry: { innerRadius: number; interfaceRadius: number; outerRadius: number; radialInterference: number },
+  inner: ShrinkFitMember,
+  outer: ShrinkFitMember
+): ShrinkFitResult | null {
+  const { innerRadius, interfaceRadius, outerRadius, radialInterference } = geometry;
+  const pressure = interferenceFitPressure(innerRadius, interfaceRadius, outerRadius, radialInterference, inner, outer);
+  if (pressure === null) return null;
+
+  const innerResult = calculateThickWallVessel('cylinder', innerRadius, interfaceRadius, 0, pressure, { ends: 'open', yieldStrength: inner.yieldStrength });
+  const outerResult = calculateThickWallVessel('cylinder', interfaceRadius, outerRadius, pressure, 0, { ends: 'open', yieldStrength: outer.yieldStrength });
+  if (!innerResult || !outerResult) return null;
+
+  // u = r/E·(σθ − ν·σr) in plane stress, evaluated at the interface
+  const strainDisplacement = (point: RadialStressPoint, member: ShrinkFitMember) =>
+    (interfaceRadius / member.E) * (point.hoop - member.poissonsRatio * point.radial);
+  return {
+    pressure,
+    inner: innerResult,
+    outer: outerResult,
+    innerRadialDisplacement: strainDisplacement(innerResult.outer, inner),
+    outerRadialDisplacement: strainDisplacement(outerResult.inner, outer),
+  };
+}
@@ -0,0 +1,81 @@
+import { prisma } from './db';
+
+/**
+ * Database queries shared by the calculator pages.
+ */
+
+export type CalculatorMaterialProperty =
+  | 'density'
+  | 'youngsModulus'
+  | 'yieldStrength'
+  | 'ultimateTensileStrength'
+  | 'poissonsRatio'
+  | 'shearModulus'
+  | 'thermalExpansionCoefficient';
+
+/**
+ * Materials for a calculator's material picker, sorted by name.
+ *
+ * @param requiredProperties - Only materials with all of these properties are returned.
+ * @param categories - If given, only materials in one of these categories are returned.
+ */
+export async function getCalculatorMaterials(requiredProperties: CalculatorMaterialProperty[], categories?: string[]) {
+  const where = requiredProperties.reduce<Partial<Record<CalculatorMaterialProperty, { not: null }>>>(
+    (filter, property) => ({ ...filter, [property]: { not: null } }),
+    {}
+  );
+  return await prisma.material.findMany({
+    where: categories ? { ...where, category: { in: categories } } : where,
+    select: {
+      id: true,
+      name: true,
+      category: true,
+      density: true,
+      youngsModulus: true,
+      yieldStrength: true,
+      ultimateTensileStrength: true,
+      poissonsRatio: true,
+      shearModulus: true,
+      thermalExpansionCoefficient: true,
+    },
+    orderBy: {
+      name: 'asc'
+    }
+  });
+}
+
+/** All standard profiles with their tabulated properties, grouped by family */
+export async function getStandardSections() {
+  return await prisma.section.findMany({
+    select: {
+      id: true,
+      designation: true,
+      family: true,
+      standard: true,
+      shape: true,
+      materialCategory: true,
+      height: true,
+      width: true,
+      webThickness: true,
+      flangeThickness: true,
+      wallThickness: true,
+      outerDiameter: true,
+      massPerLength: true,
+      area: true,
+      inertiaX: true,
+      inertiaY: true,
+      elasticModulusX: true,
+      elasticModulusY: true,
+      plasticModulusX: true,
+      plasticModulusY: true,
+      torsionConstant: true,
+      radiusOfGyrationX: true,
+      radiusOfGyrationY: true,
+      radiusOfGyrationZ: true,
+    },
+    orderBy: [
+      { family: 'asc' },
+      { inertiaX: 'asc' },
+    ]
+  });
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { extractReversals, parseTimeSeriesCsv, rainflowCount, rainflowMatrix } from './rainflow';
+
+// The load history of the rainflow example in ASTM E1049-85, Fig. 6 (points A to I)
+const astmHistory = [-2, 1, -3, 5, -1, 3, -4, 4, -2];
+
+describe('rainflowCount', () => {
+  it('reproduces the ASTM E1049 rainflow example', () => {
+    const cycles = rainflowCount(astmHistory);
+
+    // E1049 Fig. 6(e): range 3 → 0.5, 4 → 1.5, 6 → 0.5, 8 → 1.0, 9 → 0.5
+    const byRange: Record<number, number> = {};
+    cycles.forEach((c) => {
+      byRange[c.range] = (byRange[c.range] ?? 0) + c.count;
+    });
+    expect(byRange).toEqual({ 3: 0.5, 4: 1.5, 6: 0.5, 8: 1, 9: 0.5 });
+
+    // The only full cycle is E–F (−1 to 3)
+    expect(cycles.filter((c) => c.count === 1)).toEqual([{ range: 4, mean: 1, count: 1 }]);
+  });
+
+  it('counts intermediate points on a ramp as nothing', () => {
+    const withRamps = [-2, -0.5, 1, 0, -3, 5, 2, -1, 3, -4, 0, 4, -2];
+    expect(rainflowCount(withRamps)).toEqual(rainflowCount(astmHistory));
+  });
+
+  it('counts five reversals of a constant amplitude signal as 2.5 cycles', () => {
+    // 20-unit reversals between the short ramps at the ends
+    const signal = [0, 10, -10, 10, -10, 10, -10, 0];
+    const cycles = rainflowCount(signal).filter((c) => c.range === 20).reduce((sum, c) => sum + c.count, 0);
+    expect(cycles).toBe(2.5);
+  });
+});
+
+describe('extractReversals', () => {
+  it('keeps the end points and drops repeats and points on a ramp', () => {
+    expect(extractReversals([0, 1, 2, 2, 1, 3, 3])).toEqual([0, 2, 1, 3]);
+  });
+});
+
+describe('rainflowMatrix', () => {
+  it('conserves the cycle count', () => {
+    const matrix = rainflowMatrix(rainflowCount(astmHistory), 3, 2)!;
+    expect(matrix.rangeEdges).toEqual([0, 3, 6, 9]);
+    const total = matrix.counts.reduce((sum, row) => sum + row.reduce((s, c) => s + c, 0), 0);
+    expect(total).toBe(4);
+  });
+});
+
+describe('parseTimeSeriesCsv', () => {
+  it('reads a header row and decimal commas with semicolons', () => {
+    const series = parseTimeSeriesCsv('time;stress\n0;1,5\n0,1;-2,25\n')!;
+    expect(series.headers).toEqual(['time', 'stress']);
+    expect(series.columns).toEqual([[0, 0.1], [1.5, -2.25]]);
+  });
+
+  it('returns null without numeric rows', () => {
+    expect(parseTimeSeriesCsv('a,b\nc,d')).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Rainflow cycle counting of load, strain or stress histories (ASTM E1049-85, §5.4.4).
+ * Units are those of the input signal; ranges and means come out in the same units.
+ */
+
+export interface TimeSeries {
+  headers: string[]; // Column names, or "Column n" when the data has no header row
+  columns: number[][]; // Numeric values per column, in file order
+}
+
+export interface RainflowCycle {
+  range: number; // Peak-to-valley range
+  mean: number;
+  count: number; // 1 for a full cycle, 0.5 for a half cycle
+}
+
+export interface RainflowMatrix {
+  rangeEdges: number[]; // Bin edges, rangeBins + 1 values
+  meanEdges: number[];  // Bin edges, meanBins + 1 values
+  counts: number[][];   // counts[range bin][mean bin]
+}
+
+/**
+ * Parses pasted or uploaded CSV text into numeric columns. Commas, semicolons, tabs and
+ * spaces are accepted as separators; with semicolons a decimal comma is also accepted.
+ * A first row with non-numeric cells is taken as the header; other non-numeric rows are skipped.
+ *
+ * @returns The parsed columns, or null if no numeric row was found.
+ */
+export function parseTimeSeriesCsv(text: string): TimeSeries | null {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0);
+  const split = (line: string) => {
+    if (line.includes(';')) return line.split(';').map((cell) => cell.trim().replace(',', '.'));
+    if (line.includes(',')) return line.split(',').map((cell) => cell.trim());
+    return line.split(/\s+/);
+  };
+  const toNumber = (cell: string) => (cell !== '' && Number.isFinite(Number(cell)) ? Number(cell) : null);
+
+  let headers: string[] = [];
+  const rows: number[][] = [];
+  lines.forEach((line, index) => {
+    const cells = split(line);
+    const values = cells.map(toNumber);
+    if (values.every((v): v is number => v !== null)) {
+      rows.push(values);
+    } else if (index === 0) {
+      headers = cells.map((cell) => cell.replace(/^"|"$/g, ''));
+    }
+  });
+
+  if (rows.length === 0) {
+    console.error('No numeric rows found in the time series.');
+    return null;
+  }
+  // Ragged rows are cut to the narrowest one so every column has a value per row
+  const width = rows.reduce((min, row) => Math.min(min, row.length), Infinity);
+  return {
+    headers: Array.from({ length: width }, (_, i) => headers[i] || `Column ${i + 1}`),
+    columns: Array.from({ length: width }, (_, i) => rows.map((row) => row[i])),
+  };
+}
+
+/**
+ * Reduces a signal to its sequence of peaks and valleys (turning points), dropping
+ * repeated values and intermediate points on rising or falling stretches.
+ * The first and last points are kept.
+ */
+export function extractReversals(values: number[]): number[] {
+  const points = values.filter((v, i) => Number.isFinite(v) && (i === 0 || v !== values[i - 1]));
+  if (points.length <= 2) return points;
+
+  const reversals = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    const previous = reversals[reversals.length - 1];
+    const isTurningPoint = (points[i] - previous) * (points[i + 1] - points[i]) < 0;
+    if (isTurningPoint) reversals.push(points[i]);
+  }
+  reversals.push(points[points.length - 1]);
+  return reversals;
+}
+
+/**
+ * Counts cycles with the ASTM E1049 rainflow method. The signal is first reduced to its
+ * reversals; ranges left over at the end are counted as half cycles.
+ *
+ * @param values - The load history in time order.
+ * @returns One entry per counted (half) cycle, in the order they were closed.
+ */
+export function rainflowCount(values: number[]): RainflowCycle[] {
+  const cycles: RainflowCycle[] = [];
+  const stack: number[] = [];
+  const count = (a: number, b: number, amount: number) =>
+    cycles.push({ range: Math.abs(a - b), mean: (a + b) / 2, count: amount });
+
+  for (const point of extractReversals(values)) {
+    stack.push(point);
+    while (stack.length >= 3) {
+      const n = stack.length;
+      const X = Math.abs(stack[n - 1] - stack[n - 2]);
+      const Y = Math.abs(stack[n - 2] - stack[n - 3]);
+      if (X < Y) break;
+      if (n === 3) {
+        // Y contains the starting point: half cycle, and the start moves on
+        count(stack[0], stack[1], 0.5);
+        stack.shift();
+      } else {
+        count(stack[n - 3], stack[n - 2], 1);
+        stack.splice(n - 3, 2);
+      }
+    }
+  }
+  for (let i = 0; i < stack.length - 1; i++) {
+    count(stack[i], stack[i + 1], 0.5);
+  }
+  return cycles;
+}
+
+/**
+ * Bins counted cycles into a range-mean matrix with equal-width bins. Bins run from zero
+ * (range) or the lowest mean up to the largest value, with unit-width bins when all
+ * values coincide.
+ */
+export function rainflowMatrix(cycles: RainflowCycle[], rangeBins: number, meanBins: number): RainflowMatrix | null {
+  if (cycles.length === 0 || !(rangeBins >= 1) || !(meanBins >= 1)) {
+    console.error('Binning needs at least one cycle and one bin per axis.');
+    return null;
+  }
+  const edges = (min: number, max: number, bins: number) => {
+    const width = max > min ? (max - min) / bins : 1;
+    return Array.from({ length: bins + 1 }, (_, i) => min + i * width);
+  };
+  const binIndex = (value: number, e: number[]) =>
+    Math.min(Math.max(Math.floor(((value - e[0]) / (e[e.length - 1] - e[0])) * (e.length - 1)), 0), e.length - 2);
+
+  // reduce rather than Math.max(...) so long histories do not overflow the call stack
+  const maxRange = cycles.reduce((max, c) => Math.max(max, c.range), 0);
+  const minMean = cycles.reduce((min, c) => Math.min(min, c.mean), Infinity);
+  const maxMean = cycles.reduce((max, c) => Math.max(max, c.mean), -Infinity);
+  const rangeEdges = edges(0, maxRange, Math.round(rangeBins));
+  const meanEdges = edges(minMean, maxMean, Math.round(meanBins));
+  const counts = Array.from({ length: rangeEdges.length - 1 }, () => new Array(meanEdges.length - 1).fill(0));
+  cycles.forEach((c) => {
+    counts[binIndex(c.range, rangeEdges)][binIndex(c.mean, meanEdges)] += c.count;
+  });
+  return { rangeEdges, meanEdges, counts };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSectionProperties } from './sections';
+
+const MM = 1e-3;
+
+describe('calculateSectionProperties', () => {
+  it('matches the closed-form rectangle properties', () => {
+    // b = 100 mm, h = 200 mm: I = bh³/12, S = bh²/6, Z = bh²/4, Q = bh²/8
+    const section = calculateSectionProperties({ shape: 'rectangle', width: 100 * MM, height: 200 * MM })!;
+    expect(section.area).toBeCloseTo(0.02, 12);
+    expect(section.Ix / 1e-6).toBeCloseTo(66.667, 3);
+    expect(section.Sx / 1e-6).toBeCloseTo(666.67, 2);
+    expect(section.Zx / 1e-6).toBeCloseTo(1000, 6);
+    expect(section.Qx / 1e-6).toBeCloseTo(500, 6);
+    expect(section.shearWidthX).toBeCloseTo(100 * MM, 12);
+  });
+
+  it('uses πD⁴/64 and J = 2I for a solid circle', () => {
+    const section = calculateSectionProperties({ shape: 'circle', diameter: 50 * MM })!;
+    expect(section.Ix).toBeCloseTo((Math.PI * 0.05 ** 4) / 64, 15);
+    expect(section.J).toBe(2 * section.Ix);
+    expect(section.rx).toBeCloseTo(0.05 / 4, 12);
+  });
+
+  it('subtracts the web cut-outs of an I-beam', () => {
+    // Ix = (B·H³ − (B − tw)·hw³) / 12 with hw = H − 2tf
+    const section = calculateSectionProperties({ shape: 'i-beam', width: 100 * MM, height: 200 * MM, flangeThickness: 10 * MM, webThickness: 6 * MM })!;
+    expect(section.area / 1e-6).toBeCloseTo(2 * 100 * 10 + 180 * 6, 6);
+    expect(section.Ix / 1e-12).toBeCloseTo((100 * 200 ** 3 - 94 * 180 ** 3) / 12, 0);
+    expect(section.centroidY).toBeCloseTo(100 * MM, 12);
+    expect(section.shearWidthX).toBeCloseTo(6 * MM, 12);
+  });
+
+  it('locates the centroid of a T-section', () => {
+    // 100 × 20 flange on a 20 × 80 web: ȳ = (2000·90 + 1600·40) / 3600
+    const section = calculateSectionProperties({ shape: 't-section', width: 100 * MM, height: 100 * MM, flangeThickness: 20 * MM, webThickness: 20 * MM })!;
+    expect(section.centroidY / MM).toBeCloseTo(67.778, 3);
+    expect(section.centroidX / MM).toBeCloseTo(50, 9);
+  });
+
+  it('gives an equal-leg angle equal Ix and Iy and a non-zero product of area', () => {
+    const section = calculateSectionProperties({ shape: 'angle', width: 75 * MM, height: 75 * MM, thickness: 8 * MM })!;
+    expect(section.Ix).toBeCloseTo(section.Iy, 15);
+    expect(section.Ixy).not.toBe(0);
+  });
+
+  it('uses Bredt\'s formula for a hollow rectangle', () => {
+    // J = 2t·bm²·hm² / (bm + hm) on the wall mid-line
+    const section = calculateSectionProperties({ shape: 'hollow-rectangle', width: 100 * MM, height: 50 * MM, wallThickness: 5 * MM })!;
+    expect(section.J / 1e-12).toBeCloseTo((2 * 5 * 95 ** 2 * 45 ** 2) / 140, 3);
+  });
+
+  it('rejects walls that close the section', () => {
+    expect(calculateSectionProperties({ shape: 'tube', outerDiameter: 20 * MM, wallThickness: 10 * MM })).toBeNull();
+  });
+});
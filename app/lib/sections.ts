@@ -0,0 +1,440 @@
+/**
+ * Cross-section properties for standard and built-up shapes.
+ * Assumes SI units (meters); all results are about the centroidal axes.
+ *
+ * Coordinates: the origin is the bottom-left corner of the section's bounding box,
+ * x runs to the right (across the width) and y runs up (along the height).
+ * Bending about the x axis is the "strong axis" case for the beam calculator.
+ */
+
+export type SectionShape =
+  | 'rectangle'
+  | 'circle'
+  | 'hollow-rectangle'
+  | 'tube'
+  | 'i-beam'
+  | 'channel'
+  | 'angle'
+  | 't-section';
+
+export type SectionDimensions =
+  | { shape: 'rectangle'; width: number; height: number }
+  | { shape: 'circle'; diameter: number }
+  | { shape: 'hollow-rectangle'; width: number; height: number; wallThickness: number }
+  | { shape: 'tube'; outerDiameter: number; wallThickness: number }
+  | { shape: 'i-beam'; width: number; height: number; flangeThickness: number; webThickness: number }
+  | { shape: 'channel'; width: number; height: number; flangeThickness: number; webThickness: number }
+  | { shape: 'angle'; width: number; height: number; thickness: number }
+  | { shape: 't-section'; width: number; height: number; flangeThickness: number; webThickness: number };
+
+export interface SectionProperties {
+  area: number;      // m²
+  centroidX: number; // m, from the left edge
+  centroidY: number; // m, from the bottom edge
+  width: number;     // Bounding box width (m)
+  height: number;    // Bounding box height (m)
+  Ix: number;        // Second moment of area about the centroidal x axis (m⁴)
+  Iy: number;        // Second moment of area about the centroidal y axis (m⁴)
+  Ixy: number;       // Product of area about the centroidal axes (m⁴); non-zero only for unsymmetric shapes
+  Sx: number;        // Elastic section modulus Ix / c (m³), using the furthest fibre
+  Sy: number;        // Elastic section modulus Iy / c (m³), using the furthest fibre
+  Zx: number;        // Plastic section modulus about x (m³)
+  Zy: number;        // Plastic section modulus about y (m³)
+  J: number;         // Torsion constant (m⁴)
+  Qx: number;        // First moment of the area above the centroidal x axis (m³)
+  shearWidthX: number; // Width of material cut by the centroidal x axis (m), for τ = V·Q / (I·b)
+  rx: number;        // Radius of gyration about x (m)
+  ry: number;        // Radius of gyration about y (m)
+  rz: number;        // Radius of gyration about the minor principal axis (m); the smaller of rx and ry when Ixy = 0
+}
+
+/** Axis-aligned rectangle used to build up composite shapes; holes have sign -1 */
+interface SectionRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  sign: 1 | -1;
+}
+
+// Decomposes a polygonal section into rectangles (positive solids and negative holes)
+function sectionRectangles(d: SectionDimensions): SectionRect[] {
+  switch (d.shape) {
+    case 'rectangle':
+      return [{ x: 0, y: 0, w: d.width, h: d.height, sign: 1 }];
+    case 'hollow-rectangle': {
+      const t = d.wallThickness;
+      return [
+        { x: 0, y: 0, w: d.width, h: d.height, sign: 1 },
+        { x: t, y: t, w: d.width - 2 * t, h: d.height - 2 * t, sign: -1 },
+      ];
+    }
+    case 'i-beam': {
+      const { width: b, height: h, flangeThickness: tf, webThickness: tw } = d;
+      return [
+        { x: 0, y: 0, w: b, h: tf, sign: 1 },
+        { x: 0, y: h - tf, w: b, h: tf, sign: 1 },
+        { x: (b - tw) / 2, y: tf, w: tw, h: h - 2 * tf, sign: 1 },
+      ];
+    }
+    case 'channel': {
+      // Web on the left, flanges pointing right
+      const { width: b, height: h, flangeThickness: tf, webThickness: tw } = d;
+      return [
+        { x: 0, y: 0, w: tw, h, sign: 1 },
+        { x: tw, y: 0, w: b - tw, h: tf, sign: 1 },
+        { x: tw, y: h - tf, w: b - tw, h: tf, sign: 1 },
+      ];
+    }
+    case 'angle': {
+      // Vertical leg on the left, horizontal leg along the bottom
+      const { width: b, height: h, thickness: t } = d;
+      return [
+        { x: 0, y: 0, w: t, h, sign: 1 },
+        { x: t, y: 0, w: b - t, h: t, sign: 1 },
+      ];
+    }
+    case 't-section': {
+      // Flange on top, web hanging below
+      const { width: b, height: h, flangeThickness: tf, webThickness: tw } = d;
+      return [
+        { x: 0, y: h - tf, w: b, h: tf, sign: 1 },
+        { x: (b - tw) / 2, y: 0, w: tw, h: h - tf, sign: 1 },
+      ];
+    }
+    case 'circle':
+    case 'tube':
+      return [];
+  }
+}
+
+/**
+ * Saint-Venant torsion constant of a solid rectangle (Roark's approximation),
+ * accurate to a few percent for any aspect ratio.
+ */
+function rectangleTorsionConstant(w: number, h: number): number {
+  const a = Math.max(w, h);
+  const b = Math.min(w, h);
+  return a * Math.pow(b, 3) * (1 / 3 - 0.21 * (b / a) * (1 - Math.pow(b, 4) / (12 * Math.pow(a, 4))));
+}
+
+/**
+ * First moment of the composite area about a plastic neutral axis, summed on both sides.
+ * `axis` selects which coordinate is measured (y for bending about x, x for bending about y).
+ */
+function plasticModulus(rects: SectionRect[], axis: 'x' | 'y'): number {
+  const span = (r: SectionRect) => (axis === 'y' ? { lo: r.y, size: r.h, breadth: r.w } : { lo: r.x, size: r.w, breadth: r.h });
+  const totalArea = rects.reduce((sum, r) => sum + r.sign * r.w * r.h, 0);
+
+  // Net area on the low side of coordinate p; monotonic in p, so bisect for the equal-area axis
+  const areaBelow = (p: number) =>
+    rects.reduce((sum, r) => {
+      const { lo, size, breadth } = span(r);
+      return sum + r.sign * breadth * Math.min(Math.max(p - lo, 0), size);
+    }, 0);
+  let lo = Math.min(...rects.map((r) => span(r).lo));
+  let hi = Math.max(...rects.map((r) => span(r).lo + span(r).size));
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (areaBelow(mid) < totalArea / 2) lo = mid;
+    else hi = mid;
+  }
+  const pna = (lo + hi) / 2;
+
+  // ∫|s - pna| dA over each rectangle, in closed form
+  const absMoment = (a: number, b: number) => {
+    const f = (s: number) => ((s - pna) * Math.abs(s - pna)) / 2; // Antiderivative of |s - pna|
+    return f(b) - f(a);
+  };
+  return rects.reduce((sum, r) => {
+    const { lo: start, size, breadth } = span(r);
+    return sum + r.sign * breadth * absMoment(start, start + size);
+  }, 0);
+}
+
+function isValidSection(d: SectionDimensions): boolean {
+  const positive = (...values: number[]) => values.every((v) => Number.isFinite(v) && v > 0);
+  switch (d.shape) {
+    case 'rectangle':
+      return positive(d.width, d.height);
+    case 'circle':
+      return positive(d.diameter);
+    case 'hollow-rectangle':
+      return positive(d.width, d.height, d.wallThickness) && 2 * d.wallThickness < Math.min(d.width, d.height);
+    case 'tube':
+      return positive(d.outerDiameter, d.wallThickness) && 2 * d.wallThickness < d.outerDiameter;
+    case 'i-beam':
+    case 'channel':
+      return positive(d.width, d.height, d.flangeThickness, d.webThickness)
+        && 2 * d.flangeThickness < d.height && d.webThickness < d.width;
+    case 't-section':
+      return positive(d.width, d.height, d.flangeThickness, d.webThickness)
+        && d.flangeThickness < d.height && d.webThickness < d.width;
+    case 'angle':
+      return positive(d.width, d.height, d.thickness) && d.thickness < Math.min(d.width, d.height);
+  }
+}
+
+/**
+ * Calculates the geometric properties of a cross-section.
+ * Open thin-walled shapes (I, channel, angle, T) use the sum of their plates for J;
+ * the hollow rectangle uses Bredt's formula on the wall mid-line.
+ *
+ * @param d - Section shape and dimensions (m).
+ * @returns Section properties, or null if the dimensions do not describe a valid section.
+ */
+export function calculateSectionProperties(d: SectionDimensions): SectionProperties | null {
+  if (!isValidSection(d)) {
+    console.error(`Invalid dimensions for ${d.shape} section.`);
+    return null;
+  }
+
+  if (d.shape === 'circle' || d.shape === 'tube') {
+    const D = d.shape === 'circle' ? d.diameter : d.outerDiameter;
+    const Di = d.shape === 'circle' ? 0 : D - 2 * d.wallThickness;
+    const area = (Math.PI / 4) * (D * D - Di * Di);
+    const I = (Math.PI / 64) * (Math.pow(D, 4) - Math.pow(Di, 4));
+    const S = I / (D / 2);
+    const Z = (Math.pow(D, 3) - Math.pow(Di, 3)) / 6;
+    const r = Math.sqrt(I / area);
+    const Q = (Math.pow(D, 3) - Math.pow(Di, 3)) / 12; // Half of Z: the upper half about the diameter
+    return {
+      area,
+      centroidX: D / 2,
+      centroidY: D / 2,
+      width: D,
+      height: D,
+      Ix: I,
+      Iy: I,
+      Ixy: 0,
+      Sx: S,
+      Sy: S,
+      Zx: Z,
+      Zy: Z,
+      J: 2 * I,
+      Qx: Q,
+      shearWidthX: D - Di,
+      rx: r,
+      ry: r,
+      rz: r,
+    };
+  }
+
+  const rects = sectionRectangles(d);
+  const area = rects.reduce((sum, r) => sum + r.sign * r.w * r.h, 0);
+  const centroidX = rects.reduce((sum, r) => sum + r.sign * r.w * r.h * (r.x + r.w / 2), 0) / area;
+  const centroidY = rects.reduce((sum, r) => sum + r.sign * r.w * r.h * (r.y + r.h / 2), 0) / area;
+
+  // Parallel axis theorem for each rectangle
+  let Ix = 0;
+  let Iy = 0;
+  let Ixy = 0;
+  rects.forEach((r) => {
+    const A = r.w * r.h;
+    const dx = r.x + r.w / 2 - centroidX;
+    const dy = r.y + r.h / 2 - centroidY;
+    Ix += r.sign * ((r.w * Math.pow(r.h, 3)) / 12 + A * dy * dy);
+    Iy += r.sign * ((r.h * Math.pow(r.w, 3)) / 12 + A * dx * dx);
+    Ixy += r.sign * A * dx * dy;
+  });
+
+  const width = Math.max(...rects.map((r) => r.x + r.w));
+  const height = Math.max(...rects.map((r) => r.y + r.h));
+  const cy = Math.max(centroidY, height - centroidY);
+  const cx = Math.max(centroidX, width - centroidX);
+
+  let J: number;
+  if (d.shape === 'hollow-rectangle') {
+    const t = d.wallThickness;
+    const bm = d.width - t;
+    const hm = d.height - t;
+    J = (2 * t * bm * bm * hm * hm) / (bm + hm);
+  } else {
+    J = rects.reduce((sum, r) => sum + rectangleTorsionConstant(r.w, r.h), 0);
+  }
+
+  // Shear flow at the neutral axis: the part of each rectangle above it, and the cut width.
+  // Where the axis falls exactly on a step in width (e.g. a T's flange), the narrower side governs.
+  const Qx = rects.reduce((sum, r) => {
+    const lo = Math.max(r.y, centroidY);
+    const top = r.y + r.h;
+    return top > lo ? sum + r.sign * r.w * (top - lo) * ((top + lo) / 2 - centroidY) : sum;
+  }, 0);
+  const widthAt = (y: number) => rects.reduce((sum, r) => (y > r.y && y < r.y + r.h ? sum + r.sign * r.w : sum), 0);
+  const shearWidthX = Math.min(widthAt(centroidY + 1e-9 * height), widthAt(centroidY - 1e-9 * height));
+
+  const principalIxy = Math.abs(Ixy) < 1e-12 * (Ix + Iy) ? 0 : Ixy;
+
+  return {
+    area,
+    centroidX,
+    centroidY,
+    width,
+    height,
+    Ix,
+    Iy,
+    Ixy: principalIxy,
+    Sx: Ix / cy,
+    Sy: Iy / cx,
+    Zx: plasticModulus(rects, 'y'),
+    Zy: plasticModulus(rects, 'x'),
+    J,
+    Qx,
+    shearWidthX,
+    rx: Math.sqrt(Ix / area),
+    ry: Math.sqrt(Iy / area),
+    rz: Math.sqrt(minorPrincipalInertia(Ix, Iy, principalIxy) / area),
+  };
+}
+
+/**
+ * Smallest second moment of area over all centroidal axes,
+ * I_min = (Ix + Iy)/2 − √(((Ix − Iy)/2)² + Ixy²). Angles buckle about this axis.
+ */
+export function minorPrincipalInertia(Ix: number, Iy: number, Ixy: number): number {
+  return (Ix + Iy) / 2 - Math.sqrt(((Ix - Iy) / 2) ** 2 + Ixy ** 2);
+}
+
+/**
+ * Outline of a section for drawing, as closed loops of points in section coordinates (m).
+ * Holes are returned as separate loops, so render with an even-odd fill rule.
+ * Circles are approximated by 64-sided polygons.
+ */
+export function getSectionOutline(d: SectionDimensions): { x: number; y: number }[][] {
+  const circle = (cx: number, cy: number, r: number) =>
+    Array.from({ length: 64 }, (_, i) => ({
+      x: cx + r * Math.cos((2 * Math.PI * i) / 64),
+      y: cy + r * Math.sin((2 * Math.PI * i) / 64),
+    }));
+  const rect = (x: number, y: number, w: number, h: number) => [
+    { x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h },
+  ];
+
+  switch (d.shape) {
+    case 'rectangle':
+      return [rect(0, 0, d.width, d.height)];
+    case 'circle':
+      return [circle(d.diameter / 2, d.diameter / 2, d.diameter / 2)];
+    case 'hollow-rectangle': {
+      const t = d.wallThickness;
+      return [rect(0, 0, d.width, d.height), rect(t, t, d.width - 2 * t, d.height - 2 * t)];
+    }
+    case 'tube': {
+      const R = d.outerDiameter / 2;
+      return [circle(R, R, R), circle(R, R, R - d.wallThickness)];
+    }
+    case 'i-beam': {
+      const { width: b, height: h, flangeThickness: tf, webThickness: tw } = d;
+      const w1 = (b - tw) / 2;
+      const w2 = (b + tw) / 2;
+      return [[
+        { x: 0, y: 0 }, { x: b, y: 0 }, { x: b, y: tf }, { x: w2, y: tf },
+        { x: w2, y: h - tf }, { x: b, y: h - tf }, { x: b, y: h }, { x: 0, y: h },
+        { x: 0, y: h - tf }, { x: w1, y: h - tf }, { x: w1, y: tf }, { x: 0, y: tf },
+      ]];
+    }
+    case 'channel': {
+      const { width: b, height: h, flangeThickness: tf, webThickness: tw } = d;
+      return [[
+        { x: 0, y: 0 }, { x: b, y: 0 }, { x: b, y: tf }, { x: tw, y: tf },
+        { x: tw, y: h - tf }, { x: b, y: h - tf }, { x: b, y: h }, { x: 0, y: h },
+      ]];
+    }
+    case 'angle': {
+      const { width: b, height: h, thickness: t } = d;
+      return [[
+        { x: 0, y: 0 }, { x: b, y: 0 }, { x: b, y: t }, { x: t, y: t }, { x: t, y: h }, { x: 0, y: h },
+      ]];
+    }
+    case 't-section': {
+      const { width: b, height: h, flangeThickness: tf, webThickness: tw } = d;
+      const w1 = (b - tw) / 2;
+      const w2 = (b + tw) / 2;
+      return [[
+        { x: w1, y: 0 }, { x: w2, y: 0 }, { x: w2, y: h - tf }, { x: b, y: h - tf },
+        { x: b, y: h }, { x: 0, y: h }, { x: 0, y: h - tf }, { x: w1, y: h - tf },
+      ]];
+    }
+  }
+}
+
+/**
+ * Catalogue profile as stored in the `sections` table (SI units). Declared here rather
+ * than imported from Prisma so the section maths stays usable without a database.
+ */
+export interface StandardProfile {
+  designation: string;
+  shape: string;
+  height: number | null;
+  width: number | null;
+  webThickness: number | null;
+  flangeThickness: number | null;
+  wallThickness: number | null;
+  outerDiameter: number | null;
+  area: number;
+  inertiaX: number;
+  inertiaY: number;
+  elasticModulusX: number | null;
+  elasticModulusY: number | null;
+  plasticModulusX: number | null;
+  plasticModulusY: number | null;
+  torsionConstant: number | null;
+  radiusOfGyrationX: number | null;
+  radiusOfGyrationY: number | null;
+  radiusOfGyrationZ?: number | null; // Minor principal axis; published for angles
+}
+
+/**
+ * Idealised (sharp-cornered) dimensions of a catalogue profile, used for drawing it
+ * and for filling in properties the catalogue does not publish.
+ * Returns null if the profile's shape or dimensions are incomplete.
+ */
+export function profileDimensions(p: StandardProfile): SectionDimensions | null {
+  const { height, width, webThickness, flangeThickness, wallThickness, outerDiameter } = p;
+  switch (p.shape) {
+    case 'i-beam':
+    case 'channel':
+    case 't-section':
+      return height && width && webThickness && flangeThickness
+        ? { shape: p.shape, width, height, flangeThickness, webThickness }
+        : null;
+    case 'hollow-rectangle':
+      return height && width && wallThickness ? { shape: 'hollow-rectangle', width, height, wallThickness } : null;
+    case 'tube':
+      return outerDiameter && wallThickness ? { shape: 'tube', outerDiameter, wallThickness } : null;
+    case 'angle':
+      return height && width && wallThickness ? { shape: 'angle', width, height, thickness: wallThickness } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Section properties of a catalogue profile. Published values take precedence (they
+ * include root radii and rounded corners); anything missing is taken from the
+ * idealised geometry.
+ */
+export function profileProperties(p: StandardProfile): SectionProperties | null {
+  const dimensions = profileDimensions(p);
+  const geometric = dimensions ? calculateSectionProperties(dimensions) : null;
+  if (!geometric) {
+    console.error(`Cannot derive the geometry of profile ${p.designation}.`);
+    return null;
+  }
+
+  return {
+    ...geometric,
+    area: p.area,
+    Ix: p.inertiaX,
+    Iy: p.inertiaY,
+    Sx: p.elasticModulusX ?? p.inertiaX / Math.max(geometric.centroidY, geometric.height - geometric.centroidY),
+    Sy: p.elasticModulusY ?? p.inertiaY / Math.max(geometric.centroidX, geometric.width - geometric.centroidX),
+    Zx: p.plasticModulusX ?? geometric.Zx,
+    Zy: p.plasticModulusY ?? geometric.Zy,
+    J: p.torsionConstant ?? geometric.J,
+    rx: p.radiusOfGyrationX ?? Math.sqrt(p.inertiaX / p.area),
+    ry: p.radiusOfGyrationY ?? Math.sqrt(p.inertiaY / p.area),
+    // Catalogue Ix and Iy with the idealised product of area when r_z is not published
+    rz: p.radiusOfGyrationZ ?? Math.sqrt(minorPrincipalInertia(p.inertiaX, p.inertiaY, geometric.Ixy) / p.area),
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { calculateShaftMinimumDiameter, calculateShaftSafetyFactor, estimateEnduranceLimit } from './shaftDesign';
+
+const MPA = 1e6;
+
+// Shigley, Mechanical Engineering Design, Ex. 7-1: the shoulder fillet of a steel shaft
+// (Sut = 735 MPa, Sy = 574 MPa) with Se = 205 MPa and a 28 mm diameter
+const loads = { alternatingMoment: 142.4, midrangeMoment: 0, alternatingTorque: 0, midrangeTorque: 124.3, Kf: 1.58, Kfs: 1.39 };
+const strengths = { enduranceLimit: 205 * MPA, ultimateStrength: 735 * MPA, yieldStrength: 574 * MPA };
+
+describe('estimateEnduranceLimit', () => {
+  it('takes half of Sut up to 1400 MPa and 700 MPa above', () => {
+    expect(estimateEnduranceLimit(735 * MPA)).toBe(367.5 * MPA);
+    expect(estimateEnduranceLimit(1600 * MPA)).toBe(700 * MPA);
+  });
+});
+
+describe('calculateShaftSafetyFactor', () => {
+  it('reproduces the von Mises stresses and DE-Goodman factor of the textbook shaft', () => {
+    const result = calculateShaftSafetyFactor('goodman', loads, strengths, 0.028)!;
+    expect(result.alternatingStress / MPA).toBeCloseTo(104.4, 1);
+    expect(result.midrangeStress / MPA).toBeCloseTo(69.4, 1);
+    expect(result.fatigueSafetyFactor).toBeCloseTo(1.66, 2);
+    expect(result.fatigueSafetyFactor).toBeCloseTo(1 / (result.alternatingStress / (205 * MPA) + result.midrangeStress / (735 * MPA)), 9);
+  });
+
+  it('ranks the criteria from Soderberg (most conservative) to ASME elliptic', () => {
+    const factor = (criterion: Parameters<typeof calculateShaftSafetyFactor>[0]) =>
+      calculateShaftSafetyFactor(criterion, loads, strengths, 0.028)!.fatigueSafetyFactor;
+    expect(factor('soderberg')).toBeCloseTo(1.59, 2);
+    expect(factor('gerber')).toBeCloseTo(1.90, 2);
+    expect(factor('asme-elliptic')).toBeCloseTo(1.91, 2);
+    expect(factor('soderberg')).toBeLessThan(factor('goodman'));
+    expect(factor('goodman')).toBeLessThan(factor('gerber'));
+  });
+
+  it('checks first-cycle yield on the von Mises stress of the peak loads', () => {
+    const result = calculateShaftSafetyFactor('goodman', loads, strengths, 0.028)!;
+    expect(result.maximumStress).toBeCloseTo(Math.hypot(result.alternatingStress, result.midrangeStress), 0);
+    expect(result.yieldSafetyFactor).toBeCloseTo((574 * MPA) / result.maximumStress, 9);
+  });
+
+  it('rejects a stress concentration factor below 1', () => {
+    expect(calculateShaftSafetyFactor('goodman', { ...loads, Kf: 0.9 }, strengths, 0.028)).toBeNull();
+  });
+});
+
+describe('calculateShaftMinimumDiameter', () => {
+  it('gives the diameter at which the governing factor equals the target', () => {
+    const result = calculateShaftMinimumDiameter('goodman', loads, strengths, 1.5)!;
+    expect(Math.min(result.fatigueSafetyFactor, result.yieldSafetyFactor)).toBeCloseTo(1.5, 9);
+    expect(result.diameter).toBeLessThan(0.028);
+  });
+});
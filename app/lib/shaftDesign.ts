@@ -0,0 +1,171 @@
+/**
+ * Fatigue design of solid round shafts under combined bending and torsion.
+ * Assumes SI units (meters, Newtons, Pascals).
+ *
+ * Follows the distortion energy (DE) approach of Shigley's Mechanical Engineering Design:
+ * alternating and midrange von Mises stresses are built from the bending moments and
+ * torques (with fatigue stress concentration factors applied to both), then combined
+ * with one of the mean stress failure criteria below. Axial loads are neglected.
+ */
+
+export type ShaftFatigueCriterion = 'goodman' | 'gerber' | 'soderberg' | 'asme-elliptic';
+
+export const shaftFatigueCriteria: Record<ShaftFatigueCriterion, string> = {
+  'goodman': 'DE-Goodman',
+  'gerber': 'DE-Gerber',
+  'soderberg': 'DE-Soderberg',
+  'asme-elliptic': 'DE-ASME elliptic',
+};
+
+export interface ShaftLoads {
+  alternatingMoment: number; // Ma (N·m)
+  midrangeMoment: number;    // Mm (N·m)
+  alternatingTorque: number; // Ta (N·m)
+  midrangeTorque: number;    // Tm (N·m)
+  Kf: number;                // Fatigue stress concentration factor in bending
+  Kfs: number;               // Fatigue stress concentration factor in torsion
+}
+
+export interface ShaftStrengths {
+  enduranceLimit: number;  // Se, fully corrected (Pa)
+  ultimateStrength: number; // Sut (Pa)
+  yieldStrength: number;    // Sy (Pa)
+}
+
+export interface ShaftDesignResult {
+  diameter: number;             // m
+  fatigueSafetyFactor: number;  // Infinity when nothing fluctuates or is applied
+  yieldSafetyFactor: number;    // First-cycle yield check on the maximum von Mises stress
+  alternatingStress: number;    // σ'a (Pa)
+  midrangeStress: number;       // σ'm (Pa)
+  maximumStress: number;        // σ'max (Pa)
+}
+
+// Material categories the endurance limit estimate below holds for
+export const steelCategories = ['Steel', 'Stainless Steel'];
+
+/**
+ * Estimates the unmodified rotating-beam endurance limit of steel from its tensile
+ * strength: Se' = 0.5·Sut, capped at 700 MPa above Sut = 1400 MPa. Other metals need a
+ * measured value; aluminum and copper alloys, for example, have no endurance limit at all.
+ */
+export function estimateEnduranceLimit(ultimateStrength: number): number {
+  return ultimateStrength <= 1400e6 ? 0.5 * ultimateStrength : 700e6;
+}
+
+function validate(loads: ShaftLoads, strengths: ShaftStrengths): string | null {
+  const { alternatingMoment, midrangeMoment, alternatingTorque, midrangeTorque, Kf, Kfs } = loads;
+  if (![alternatingMoment, midrangeMoment, alternatingTorque, midrangeTorque].every((v) => Number.isFinite(v) && v >= 0)) {
+    return 'Moments and torques must be zero or positive magnitudes.';
+  }
+  if (!(Kf >= 1) || !(Kfs >= 1)) {
+    return 'Fatigue stress concentration factors must be at least 1.';
+  }
+  if (!(strengths.enduranceLimit > 0) || !(strengths.ultimateStrength > 0) || !(strengths.yieldStrength > 0)) {
+    return 'Endurance limit, ultimate and yield strengths must be positive.';
+  }
+  return null;
+}
+
+// Every stress is proportional to 1/d³, so each criterion reduces to 1/n = C / d³.
+// These return C for the fatigue criterion and for the first-cycle yield check.
+function fatigueCoefficient(criterion: ShaftFatigueCriterion, loads: ShaftLoads, strengths: ShaftStrengths): number {
+  const { alternatingMoment: Ma, midrangeMoment: Mm, alternatingTorque: Ta, midrangeTorque: Tm, Kf, Kfs } = loads;
+  const { enduranceLimit: Se, ultimateStrength: Sut, yieldStrength: Sy } = strengths;
+  const A = Math.sqrt(4 * (Kf * Ma) ** 2 + 3 * (Kfs * Ta) ** 2);
+  const B = Math.sqrt(4 * (Kf * Mm) ** 2 + 3 * (Kfs * Tm) ** 2);
+
+  switch (criterion) {
+    case 'goodman':
+      return (16 / Math.PI) * (A / Se + B / Sut);
+    case 'soderberg':
+      return (16 / Math.PI) * (A / Se + B / Sy);
+    case 'gerber':
+      // A·[1 + √(1 + (2BSe / ASut)²)] tends to 2BSe / Sut as A → 0
+      return A > 0
+        ? ((8 * A) / (Math.PI * Se)) * (1 + Math.sqrt(1 + ((2 * B * Se) / (A * Sut)) ** 2))
+        : (16 * B) / (Math.PI * Sut);
+    case 'asme-elliptic':
+      return (16 / Math.PI) * Math.sqrt(
+        4 * ((Kf * Ma) / Se) ** 2 + 3 * ((Kfs * Ta) / Se) ** 2 + 4 * ((Kf * Mm) / Sy) ** 2 + 3 * ((Kfs * Tm) / Sy) ** 2
+      );
+  }
+}
+
+function vonMisesCoefficients(loads: ShaftLoads) {
+  const { alternatingMoment: Ma, midrangeMoment: Mm, alternatingTorque: Ta, midrangeTorque: Tm, Kf, Kfs } = loads;
+  // σ' · d³ for σ = 32KfM / πd³ and τ = 16KfsT / πd³
+  const vonMises = (M: number, T: number) => Math.sqrt(((32 * Kf * M) / Math.PI) ** 2 + 3 * ((16 * Kfs * T) / Math.PI) ** 2);
+  return {
+    alternating: vonMises(Ma, Ta),
+    midrange: vonMises(Mm, Tm),
+    maximum: vonMises(Ma + Mm, Ta + Tm),
+  };
+}
+
+/**
+ * Fatigue and yield safety factors of a solid shaft of the given diameter.
+ *
+ * @param criterion - Mean stress failure criterion combined with distortion energy.
+ * @param loads - Alternating and midrange moments and torques with their Kf / Kfs.
+ * @param strengths - Corrected endurance limit, ultimate and yield strengths.
+ * @param diameter - Shaft diameter d (m)
+ * @returns Safety factors and von Mises stresses, or null if the inputs are invalid.
+ */
+export function calculateShaftSafetyFactor(
+  criterion: ShaftFatigueCriterion,
+  loads: ShaftLoads,
+  strengths: ShaftStrengths,
+  diameter: number
+): ShaftDesignResult | null {
+  const error = validate(loads, strengths) ?? (diameter > 0 ? null : 'Diameter must be positive.');
+  if (error) {
+    console.error(error);
+    return null;
+  }
+
+  const d3 = diameter ** 3;
+  const C = fatigueCoefficient(criterion, loads, strengths);
+  const stresses = vonMisesCoefficients(loads);
+  return {
+    diameter,
+    fatigueSafetyFactor: C > 0 ? d3 / C : Infinity,
+    yieldSafetyFactor: stresses.maximum > 0 ? (strengths.yieldStrength * d3) / stresses.maximum : Infinity,
+    alternatingStress: stresses.alternating / d3,
+    midrangeStress: stresses.midrange / d3,
+    maximumStress: stresses.maximum / d3,
+  };
+}
+
+/**
+ * Smallest solid shaft diameter reaching the target safety factor against both fatigue
+ * (with the chosen criterion) and first-cycle yielding.
+ *
+ * @param criterion - Mean stress failure criterion combined with distortion energy.
+ * @param loads - Alternating and midrange moments and torques with their Kf / Kfs.
+ * @param strengths - Corrected endurance limit, ultimate and yield strengths.
+ * @param safetyFactor - Required design factor n (> 0)
+ * @returns The result at the minimum diameter, or null if the inputs are invalid or
+ *          no load is applied.
+ */
+export function calculateShaftMinimumDiameter(
+  criterion: ShaftFatigueCriterion,
+  loads: ShaftLoads,
+  strengths: ShaftStrengths,
+  safetyFactor: number
+): ShaftDesignResult | null {
+  const error = validate(loads, strengths) ?? (safetyFactor > 0 ? null : 'Safety factor must be positive.');
+  if (error) {
+    console.error(error);
+    return null;
+  }
+
+  const fatigueDiameter = Math.cbrt(safetyFactor * fatigueCoefficient(criterion, loads, strengths));
+  const yieldDiameter = Math.cbrt((safetyFactor * vonMisesCoefficients(loads).maximum) / strengths.yieldStrength);
+  const diameter = Math.max(fatigueDiameter, yieldDiameter);
+  if (!(diameter > 0)) {
+    console.error('No moment or torque is applied.');
+    return null;
+  }
+  return calculateShaftSafetyFactor(criterion, loads, strengths, diameter);
+}
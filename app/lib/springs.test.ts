@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCompressionSpring, analyzeTorsionSpring, designSpring, standardWireDiameters, wahlFactor } from './springs';
+
+const INCH = 0.0254;
+const LBF = 4.448222;
+const PSI = 6894.757;
+const MPA = 1e6;
+
+// Music wire, with Sut = 201 kpsi / d^0.145 at d = 0.037 in (Shigley, Table 10-4)
+const musicWire = { G: 11.75e6 * PSI, E: 28.5e6 * PSI, ultimateTensileStrength: (201e3 / 0.037 ** 0.145) * PSI };
+
+describe('wahlFactor', () => {
+  it('tends to 1 for a large spring index', () => {
+    expect(wahlFactor(9)).toBeCloseTo((4 * 9 - 1) / (4 * 9 - 4) + 0.615 / 9, 12);
+    expect(wahlFactor(1000)).toBeCloseTo(1, 2);
+  });
+});
+
+describe('analyzeCompressionSpring', () => {
+  // Shigley, Ex. 10-1: No. 16 music wire, 7/16 in OD, plain-ground ends, 12.5 total coils
+  const geometry = { wireDiameter: 0.037 * INCH, meanDiameter: 0.4005 * INCH, coils: 11.5 };
+  const options = { ends: 'plain-ground' as const, freeLength: 1 * INCH, support: 'fixed-fixed' as const };
+
+  it('reproduces the rate and solid length of the textbook spring', () => {
+    const result = analyzeCompressionSpring(geometry, options, { min: 0, max: 1 * LBF }, musicWire)!;
+    expect(result.springIndex).toBeCloseTo(10.82, 2);
+    expect(result.rate / (LBF / INCH)).toBeCloseTo(3.72, 1);
+    expect(result.totalCoils).toBe(12.5);
+    expect(result.solidLength / INCH).toBeCloseTo(0.4625, 6);
+  });
+
+  it('gives τ = KW·8FD/πd³ and the Gerber factor through Zimmerli\'s point', () => {
+    const loads = { min: 0.5 * LBF, max: 1 * LBF };
+    const result = analyzeCompressionSpring(geometry, options, loads, musicWire)!;
+    const d = geometry.wireDiameter;
+    const D = geometry.meanDiameter;
+    const tau = (F: number) => (result.wahlFactor * 8 * F * D) / (Math.PI * d ** 3);
+    expect(result.stressMax).toBeCloseTo(tau(loads.max), 0);
+
+    const Ssu = 0.67 * musicWire.ultimateTensileStrength;
+    const Sse = (241 * MPA) / (1 - ((379 * MPA) / Ssu) ** 2);
+    const ta = (tau(loads.max) - tau(loads.min)) / 2;
+    const tm = (tau(loads.max) + tau(loads.min)) / 2;
+    // Shigley Eq. 6-47: the Gerber factor along a constant ratio load line
+    const gerber = 0.5 * (Ssu / tm) ** 2 * (ta / Sse) * (-1 + Math.sqrt(1 + ((2 * tm * Sse) / (Ssu * ta)) ** 2));
+    expect(result.fatigueSafetyFactor).toBeCloseTo(gerber, 9);
+  });
+
+  it('does not rate wire of 10 mm and above for fatigue', () => {
+    const steel = { G: 79.3e9, E: 203e9, ultimateTensileStrength: 1500 * MPA };
+    const heavy = { ends: 'squared-ground' as const, freeLength: 0.4, support: 'fixed-fixed' as const };
+    const loads = { min: 2e3, max: 4e3 };
+    const fine = analyzeCompressionSpring({ wireDiameter: 9e-3, meanDiameter: 60e-3, coils: 8 }, heavy, loads, steel)!;
+    const coarse = analyzeCompressionSpring({ wireDiameter: 10e-3, meanDiameter: 60e-3, coils: 8 }, heavy, loads, steel)!;
+    expect(fine.fatigueSafetyFactor).not.toBeNull();
+    expect(coarse.fatigueSafetyFactor).toBeNull();
+    expect(coarse.staticSafetyFactor).toBeGreaterThan(0);
+  });
+
+  it('rejects a free length shorter than the solid length', () => {
+    expect(analyzeCompressionSpring(geometry, { ...options, freeLength: 0.4 * INCH }, { min: 0, max: 1 * LBF }, musicWire)).toBeNull();
+  });
+});
+
+describe('analyzeTorsionSpring', () => {
+  it("uses Shigley's 10.8 rate constant and the inner-fiber bending stress", () => {
+    const geometry = { wireDiameter: 2e-3, meanDiameter: 16e-3, coils: 6 };
+    const result = analyzeTorsionSpring(geometry, { legLengths: [0, 0] }, { min: 0, max: 1 }, musicWire)!;
+    expect(result.ratePerTurn).toBeCloseTo(((2e-3) ** 4 * musicWire.E) / (10.8 * 16e-3 * 6), 9);
+    const Ki = (4 * 64 - 8 - 1) / (4 * 8 * 7);
+    expect(result.stressMax).toBeCloseTo((Ki * 32) / (Math.PI * (2e-3) ** 3), 0);
+  });
+
+  it('does not rate wire of 10 mm and above for fatigue', () => {
+    const result = analyzeTorsionSpring({ wireDiameter: 10e-3, meanDiameter: 80e-3, coils: 6 }, { legLengths: [0.1, 0.1] }, { min: 0, max: 100 }, musicWire)!;
+    expect(result.fatigueSafetyFactor).toBeNull();
+  });
+});
+
+describe('designSpring', () => {
+  it('picks the smallest preferred wire within the design stress', () => {
+    const target = { rate: 10e3, stroke: 0.02, minLoad: 50, springIndex: 8, designFactor: 1.2 };
+    const design = designSpring('compression', target, musicWire)!;
+    expect(design.maxLoad).toBe(250);
+    const i = standardWireDiameters.indexOf(design.wireDiameter);
+    const required = Math.sqrt((wahlFactor(8) * 8 * 250 * 8 * 1.2) / (Math.PI * 0.45 * musicWire.ultimateTensileStrength));
+    expect(design.wireDiameter).toBeGreaterThanOrEqual(required);
+    expect(standardWireDiameters[i - 1]).toBeLessThan(required);
+    expect(design.coils % 0.25).toBe(0);
+    expect(design.rate / 10e3).toBeCloseTo(1, 1);
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * Helical compression, extension and torsion springs of round wire.
+ * Assumes SI units (meters, Newtons, Pascals, radians).
+ *
+ * Follows Shigley's Mechanical Engineering Design, chapter 10. Shear stresses use the
+ * Wahl factor, torsion spring bending stresses the inner-fiber curvature factor. Strengths
+ * are fractions of the wire's tensile strength (Table 10-6/10-7 values for cold-drawn and
+ * music wire) and fatigue uses Zimmerli's endurance data, which covers steel wire under
+ * 10 mm, with the Gerber criterion.
+ */
+
+export type SpringType = 'compression' | 'extension' | 'torsion';
+export type CompressionEnds = 'plain' | 'plain-ground' | 'squared' | 'squared-ground';
+export type SpringSupport = 'fixed-fixed' | 'fixed-hinged' | 'hinged-hinged' | 'clamped-free';
+
+export const springTypes: Record<SpringType, string> = {
+  'compression': 'Compression',
+  'extension': 'Extension',
+  'torsion': 'Torsion',
+};
+
+// Inactive coils added to Na for the total, and coils of wire in the solid length beyond Nt
+export const compressionEnds: Record<CompressionEnds, { label: string; inactiveCoils: number; solidExtra: number }> = {
+  'plain': { label: 'Plain', inactiveCoils: 0, solidExtra: 1 },
+  'plain-ground': { label: 'Plain and ground', inactiveCoils: 1, solidExtra: 0 },
+  'squared': { label: 'Squared (closed)', inactiveCoils: 2, solidExtra: 1 },
+  'squared-ground': { label: 'Squared and ground', inactiveCoils: 2, solidExtra: 0 },
+};
+
+// End condition constant α for compression spring buckling
+export const springSupports: Record<SpringSupport, { label: string; alpha: number }> = {
+  'fixed-fixed': { label: 'Between parallel flat plates', alpha: 0.5 },
+  'fixed-hinged': { label: 'One end flat, one end pivoted', alpha: 0.707 },
+  'hinged-hinged': { label: 'Both ends pivoted', alpha: 1 },
+  'clamped-free': { label: 'One end clamped, one end free', alpha: 2 },
+};
+
+// Preferred metric wire diameters (m)
+export const standardWireDiameters = [
+  0.5, 0.6, 0.7, 0.8, 0.9, 1, 1.1, 1.2, 1.4, 1.6, 1.8, 2, 2.2, 2.5, 2.8, 3, 3.5, 4, 4.5, 5, 5.5, 6, 6.5, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16,
+].map((d) => d * 1e-3);
+
+export interface SpringMaterial {
+  G: number;                    // Shear modulus (Pa)
+  E: number;                    // Young's modulus (Pa), for torsion springs, extension ends and buckling
+  ultimateTensileStrength: number; // Sut of the wire (Pa)
+  density?: number | null;      // kg/m³, for the natural frequency
+}
+
+export interface SpringGeometry {
+  wireDiameter: number;  // d (m)
+  meanDiameter: number;  // D (m)
+  coils: number;         // Active coils Na (compression) or body turns Nb (extension, torsion)
+}
+
+export interface SpringLoads {
+  min: number; // Fmin (N) or Mmin (N·m)
+  max: number; // Fmax (N) or Mmax (N·m)
+}
+
+interface SpringResultBase {
+  springIndex: number;          // C = D / d
+  indexInRange: boolean;        // 4 ≤ C ≤ 12
+  activeCoils: number;          // Na
+  rate: number;                 // N/m, or N·m/rad for torsion springs
+  stressMin: number;            // Pa
+  stressMax: number;            // Pa
+  yieldStrength: number;        // Ssy (shear) or Sy (bending) used (Pa)
+  staticSafetyFactor: number;   // Yield strength / maximum stress
+  fatigueSafetyFactor: number | null; // Gerber, null without a load range or for wire outside the fatigue data
+  naturalFrequency: number | null;    // Hz, null without a density
+}
+
+export interface CompressionSpringResult extends SpringResultBase {
+  type: 'compression';
+  wahlFactor: number;
+  totalCoils: number;
+  solidLength: number;          // Ls (m)
+  deflectionAtMax: number;      // m from the free length
+  lengthAtMax: number;          // m
+  solidStress: number;          // τ when closed solid (Pa)
+  solidSafetyFactor: number;    // Ssy / τs; ≥ 1 means the spring survives being closed solid
+  clashes: boolean;             // The maximum load would close the spring solid
+  criticalFreeLength: number;   // Longest free length that is absolutely stable (m)
+  stable: boolean;
+}
+
+export interface ExtensionSpringResult extends SpringResultBase {
+  type: 'extension';
+  wahlFactor: number;
+  initialTensionStress: number;  // τi (Pa)
+  preferredInitialStress: [number, number]; // Preferred τi range for the spring index (Pa)
+  bodyLength: number;            // Lb = d·(Nb + 1) (m)
+  freeLength: number;            // Inside the hooks, L0 = 2·(D − d) + Lb (m)
+  deflectionAtMax: number;       // m
+  hookBendingStress: number;     // σA at the hook's bend (Pa)
+  hookBendingSafetyFactor: number;
+  hookTorsionStress: number;     // τB where the hook leaves the body (Pa)
+  hookTorsionSafetyFactor: number;
+}
+
+export interface TorsionSpringResult extends SpringResultBase {
+  type: 'torsion';
+  curvatureFactor: number;       // Ki, inner fiber
+  ratePerTurn: number;           // N·m/turn
+  deflectionAtMax: number;       // rad
+  meanDiameterAtMax: number;     // Coil diameter wound down at the maximum moment (m)
+}
+
+export type SpringResult = CompressionSpringResult | ExtensionSpringResult | TorsionSpringResult;
+
+export interface SpringDesignTarget {
+  rate: number;        // N/m, or N·m/rad for torsion springs
+  stroke: number;      // Deflection from the minimum to the maximum load (m or rad)
+  minLoad: number;     // Fmin (N) or Mmin (N·m) at the start of the stroke
+  springIndex: number; // C to design for
+  designFactor: number; // Static safety factor at the maximum load
+}
+
+export interface SpringDesign extends SpringGeometry {
+  rate: number;         // Rate of the rounded design
+  maxLoad: number;      // N or N·m
+}
+
+// Zimmerli's torsional endurance of spring wire: amplitude and mean (Pa)
+const ZIMMERLI = {
+  unpeened: { amplitude: 241e6, mean: 379e6 },
+  peened: { amplitude: 398e6, mean: 534e6 },
+};
+// Torsional yield and ultimate strengths as fractions of Sut
+const SHEAR_YIELD_RATIO = 0.45;
+const SHEAR_ULTIMATE_RATIO = 0.67;
+// Extension spring ends: bending yield at the hook and torsional yield where it leaves the body
+const HOOK_BENDING_YIELD_RATIO = 0.75;
+const HOOK_TORSION_YIELD_RATIO = 0.4;
+// Torsion springs: bending yield, and Zimmerli's zero-to-max torsional endurance of unpeened wire
+const BENDING_YIELD_RATIO = 0.78;
+const TORSION_ZERO_TO_MAX_STRENGTH = 465e6;
+
+// Zimmerli's data only covers wire finer than this (m)
+export const ZIMMERLI_MAX_WIRE_DIAMETER = 10e-3;
+// The strength ratios and fatigue data are for steel wire
+export const springWireCategories = ['Steel', 'Stainless Steel'];
+
+/** Wahl factor KW = (4C − 1)/(4C − 4) + 0.615/C. */
+export function wahlFactor(C: number): number {
+  return (4 * C - 1) / (4 * C - 4) + 0.615 / C;
+}
+
+/** Inner-fiber bending stress factor of a curved wire, Ki = (4C² − C − 1)/(4C(C − 1)). */
+export function curvatureFactor(C: number): number {
+  return (4 * C * C - C - 1) / (4 * C * (C - 1));
+}
+
+// Gerber fatigue factor for an amplitude and mean against an endurance amplitude Se and ultimate Su
+function gerberSafetyFactor(amplitude: number, mean: number, endurance: number | null, ultimate: number): number | null {
+  if (!(amplitude > 0) || endurance === null) return null;
+  if (!(mean > 0)) return endurance / amplitude;
+  const ratio = (2 * mean * endurance) / (ultimate * amplitude);
+  return 0.5 * (ultimate / mean) ** 2 * (amplitude / endurance) * (-1 + Math.sqrt(1 + ratio * ratio));
+}
+
+// Fully reversed torsional endurance (Gerber) through Zimmerli's point; null for wire too thick
+// or too weak for Zimmerli's data to apply
+function torsionalEndurance(ultimateShear: number, peened: boolean, wireDiameter: number): number | null {
+  const { amplitude, mean } = peened ? ZIMMERLI.peened : ZIMMERLI.unpeened;
+  if (wireDiameter >= ZIMMERLI_MAX_WIRE_DIAMETER) {
+    console.error('Zimmerli fatigue data only covers wire under 10 mm.');
+    return null;
+  }
+  if (mean >= ultimateShear) {
+    console.error('Zimmerli fatigue data needs spring wire with a higher tensile strength.');
+    return null;
+  }
+  return amplitude / (1 - (mean / ultimateShear) ** 2);
+}
+
+// Fundamental frequency of a spring held between two flat plates: f = ½·√(k/m)
+function surgeFrequency(rate: number, geometry: SpringGeometry, activeCoils: number, density?: number | null): number | null {
+  if (!density || !(density > 0)) return null;
+  const { wireDiameter: d, meanDiameter: D } = geometry;
+  const mass = density * ((Math.PI * d * d) / 4) * Math.PI * D * activeCoils;
+  return 0.5 * Math.sqrt(rate / mass);
+}
+
+function validate(geometry: SpringGeometry, loads: SpringLoads, material: SpringMaterial): boolean {
+  const { wireDiameter: d, meanDiameter: D, coils } = geometry;
+  if (!(d > 0) || !(D > d) || !(coils > 0)) {
+    console.error('Wire diameter and coils must be positive, with the mean diameter larger than the wire.');
+    return false;
+  }
+  if (!(loads.min >= 0) || !(loads.max > 0) || loads.min > loads.max) {
+    console.error('Loads must satisfy 0 ≤ min ≤ max with a positive maximum.');
+    return false;
+  }
+  if (!(material.G > 0) || !(material.E > 0) || !(material.ultimateTensileStrength > 0)) {
+    console.error('Moduli and the tensile strength must be positive.');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Rate, stresses, solid height, buckling and fatigue of a helical compression spring.
+ *
+ * @param geometry - Wire diameter, mean coil diameter and active coils Na.
+ * @param options - End type, free length (m), end support for buckling and shot peening.
+ * @param loads - Working forces Fmin and Fmax (N).
+ * @returns The analysis, or null if the inputs are invalid.
+ */
+export function analyzeCompressionSpring(
+  geometry: SpringGeometry,
+  options: { ends: CompressionEnds; freeLength: number; support: SpringSupport; peened?: boolean },
+  loads: SpringLoads,
+  material: SpringMaterial
+): CompressionSpringResult | null {
+  if (!validate(geometry, loads, material)) return null;
+  const { wireDiameter: d, meanDiameter: D, coils: Na } = geometry;
+  const { G, E, ultimateTensileStrength: Sut } = material;
+  const C = D / d;
+  const KW = wahlFactor(C);
+  const rate = (d ** 4 * G) / (8 * D ** 3 * Na);
+  const shearStress = (F: number) => (KW * 8 * F * D) / (Math.PI * d ** 3);
+
+  const ends = compressionEnds[options.ends];
+  const totalCoils = Na + ends.inactiveCoils;
+  const solidLength = d * (totalCoils + ends.solidExtra);
+  if (!(options.freeLength > solidLength)) {
+    console.error('The free length must be longer than the solid length.');
+    return null;
+  }
+  const deflectionAtMax = loads.max / rate;
+  const solidStress = shearStress(rate * (options.freeLength - solidLength));
+
+  const Ssy = SHEAR_YIELD_RATIO * Sut;
+  const Ssu = SHEAR_ULTIMATE_RATIO * Sut;
+  const stressMin = shearStress(loads.min);
+  const stressMax = shearStress(loads.max);
+  const alpha = springSupports[options.support].alpha;
+  const criticalFreeLength = ((Math.PI * D) / alpha) * Math.sqrt((2 * (E - G)) / (2 * G + E));
+
+  return {
+    type: 'compression',
+    springIndex: C,
+    indexInRange: C >= 4 && C <= 12,
+    activeCoils: Na,
+    rate,
+    stressMin,
+    stressMax,
+    yieldStrength: Ssy,
+    staticSafetyFactor: Ssy / stressMax,
+    fatigueSafetyFactor: gerberSafetyFactor((stressMax - stressMin) / 2, (stressMax + stressMin) / 2, torsionalEndurance(Ssu, options.peened ?? false, d), Ssu),
+    naturalFrequency: surgeFrequency(rate, geometry, Na, material.density),
+    wahlFactor: KW,
+    totalCoils,
+    solidLength,
+    deflectionAtMax,
+    lengthAtMax: options.freeLength - deflectionAtMax,
+    solidStress,
+    solidSafetyFactor: Ssy / solidStress,
+    clashes: options.freeLength - deflectionAtMax <= solidLength,
+    criticalFreeLength,
+    stable: options.freeLength < criticalFreeLength,
+  };
+}
+
+/**
+ * Rate, stresses and fatigue of a close-wound extension spring with full-loop (machine) hooks.
+ * The hook's bend radius is taken as D/2; r2 is the radius where the hook leaves the body.
+ *
+ * @param geometry - Wire diameter, mean coil diameter and body turns Nb.
+ * @param options - Initial tension Fi (N), hook side bend radius r2 (m) and shot peening.
+ * @param loads - Working forces Fmin and Fmax (N), at least the initial tension.
+ * @returns The analysis, or null if the inputs are invalid.
+ */
+export function analyzeExtensionSpring(
+  geometry: SpringGeometry,
+  options: { initialTension: number; hookBendRadius: number; peened?: boolean },
+  loads: SpringLoads,
+  material: SpringMaterial
+): ExtensionSpringResult | null {
+  if (!validate(geometry, loads, material)) return null;
+  const { wireDiameter: d, meanDiameter: D, coils: Nb } = geometry;
+  const { G, E, ultimateTensileStrength: Sut } = material;
+  const Fi = options.initialTension;
+  if (!(Fi >= 0) || loads.max <= Fi || !(options.hookBendRadius > d / 2)) {
+    console.error('The initial tension must be below the maximum load and the hook bend radius larger than the wire radius.');
+    return null;
+  }
+  const C = D / d;
+  const KW = wahlFactor(C);
+  // The hooks add G/E of a turn to the active coils
+  const Na = Nb + G / E;
+  const rate = (d ** 4 * G) / (8 * D ** 3 * Na);
+  const shearStress = (F: number) => (KW * 8 * F * D) / (Math.PI * d ** 3);
+
+  const Ssy = SHEAR_YIELD_RATIO * Sut;
+  const Ssu = SHEAR_ULTIMATE_RATIO * Sut;
+  const stressMin = shearStress(loads.min);
+  const stressMax = shearStress(loads.max);
+
+  // Hook bending at A (C1 = C) and torsion at B (C2 = 2·r2/d)
+  const hookBending = (F: number) => F * (curvatureFactor(C) * (16 * D) / (Math.PI * d ** 3) + 4 / (Math.PI * d * d));
+  const C2 = (2 * options.hookBendRadius) / d;
+  const hookTorsion = (F: number) => (((4 * C2 - 1) / (4 * C2 - 4)) * 8 * F * D) / (Math.PI * d ** 3);
+
+  // Preferred initial stress, Shigley Eq. 10-51 converted from psi
+  const psi = 6894.757;
+  const centre = 33500 / Math.exp(0.105 * C);
+  const band = 1000 * (4 - (C - 3) / 6.5);
+  const bodyLength = d * (Nb + 1);
+  const Sse = torsionalEndurance(Ssu, options.peened ?? false, d);
+  const fatigue = [
+    gerberSafetyFactor((stressMax - stressMin) / 2, (stressMax + stressMin) / 2, Sse, Ssu),
+    gerberSafetyFactor((hookTorsion(loads.max) - hookTorsion(loads.min)) / 2, (hookTorsion(loads.max) + hookTorsion(loads.min)) / 2, Sse, Ssu),
+  ].filter((n): n is number => n !== null);
+
+  return {
+    type: 'extension',
+    springIndex: C,
+    indexInRange: C >= 4 && C <= 12,
+    activeCoils: Na,
+    rate,
+    stressMin,
+    stressMax,
+    yieldStrength: Ssy,
+    staticSafetyFactor: Ssy / stressMax,
+    fatigueSafetyFactor: fatigue.length > 0 ? Math.min(...fatigue) : null,
+    naturalFrequency: surgeFrequency(rate, geometry, Na, material.density),
+    wahlFactor: KW,
+    initialTensionStress: shearStress(Fi),
+    preferredInitialStress: [(centre - band) * psi, (centre + band) * psi],
+    bodyLength,
+    freeLength: 2 * (D - d) + bodyLength,
+    deflectionAtMax: (loads.max - Fi) / rate,
+    hookBendingStress: hookBending(loads.max),
+    hookBendingSafetyFactor: (HOOK_BENDING_YIELD_RATIO * Sut) / hookBending(loads.max),
+    hookTorsionStress: hookTorsion(loads.max),
+    hookTorsionSafetyFactor: (HOOK_TORSION_YIELD_RATIO * Sut) / hookTorsion(loads.max),
+  };
+}
+
+/**
+ * Rate, bending stresses and fatigue of a helical torsion spring with straight legs.
+ *
+ * @param geometry - Wire diameter, mean coil diameter and body turns Nb.
+ * @param options - Leg lengths l1 and l2 (m), which add (l1 + l2)/(3πD) active turns.
+ * @param loads - Working moments Mmin and Mmax (N·m), winding the spring up.
+ * @returns The analysis, or null if the inputs are invalid.
+ */
+export function analyzeTorsionSpring(
+  geometry: SpringGeometry,
+  options: { legLengths: [number, number] },
+  loads: SpringLoads,
+  material: SpringMaterial
+): TorsionSpringResult | null {
+  if (!validate(geometry, loads, material)) return null;
+  const { wireDiameter: d, meanDiameter: D, coils: Nb } = geometry;
+  const [l1, l2] = options.legLengths;
+  if (!(l1 >= 0) || !(l2 >= 0)) {
+    console.error('Leg lengths must not be negative.');
+    return null;
+  }
+  const { E, ultimateTensileStrength: Sut } = material;
+  const C = D / d;
+  const Ki = curvatureFactor(C);
+  const Na = Nb + (l1 + l2) / (3 * Math.PI * D);
+  // Shigley's 10.8 (instead of 64/2π) allows for friction between the coils
+  const ratePerTurn = (d ** 4 * E) / (10.8 * D * Na);
+  const rate = ratePerTurn / (2 * Math.PI);
+  const bendingStress = (M: number) => (Ki * 32 * M) / (Math.PI * d ** 3);
+
+  const Sy = BENDING_YIELD_RATIO * Sut;
+  const stressMin = bendingStress(loads.min);
+  const stressMax = bendingStress(loads.max);
+  // Zimmerli's zero-to-max strength converted to bending, then to fully reversed (Gerber)
+  const Sr = TORSION_ZERO_TO_MAX_STRENGTH / 0.577;
+  const Se = Sr / 2 < Sut && d < ZIMMERLI_MAX_WIRE_DIAMETER ? Sr / 2 / (1 - (Sr / 2 / Sut) ** 2) : null;
+  const deflectionAtMax = loads.max / rate;
+
+  return {
+    type: 'torsion',
+    springIndex: C,
+    indexInRange: C >= 4 && C <= 12,
+    activeCoils: Na,
+    rate,
+    stressMin,
+    stressMax,
+    yieldStrength: Sy,
+    staticSafetyFactor: Sy / stressMax,
+    fatigueSafetyFactor: gerberSafetyFactor((stressMax - stressMin) / 2, (stressMax + stressMin) / 2, Se, Sut),
+    naturalFrequency: null,
+    curvatureFactor: Ki,
+    ratePerTurn,
+    deflectionAtMax,
+    meanDiameterAtMax: (D * Nb) / (Nb + deflectionAtMax / (2 * Math.PI)),
+  };
+}
+
+/**
+ * Inverse design: the smallest preferred wire diameter that keeps the maximum stress within
+ * the yield strength divided by the design factor at the chosen spring index, and the coil
+ * count giving the target rate (rounded to a quarter turn).
+ *
+ * @param type - Spring type; extension springs are sized for the body, torsion springs in bending.
+ * @param target - Rate, stroke, load at the start of the stroke, spring index and design factor.
+ * @returns The design, or null if the target is invalid or no preferred wire is large enough.
+ */
+export function designSpring(type: SpringType, target: SpringDesignTarget, material: SpringMaterial): SpringDesign | null {
+  const { rate, stroke, minLoad, springIndex: C, designFactor } = target;
+  if (!(rate > 0) || !(stroke > 0) || !(minLoad >= 0) || !(C > 1) || !(designFactor > 0)) {
+    console.error('Rate, stroke, index (> 1) and design factor must be positive and the minimum load not negative.');
+    return null;
+  }
+  const { G, E, ultimateTensileStrength: Sut } = material;
+  const maxLoad = minLoad + rate * stroke;
+
+  // τ = K·8FC/(πd²) for coil springs, σ = Ki·32M/(πd³) for torsion springs
+  const minimumDiameter = type === 'torsion'
+    ? Math.cbrt((curvatureFactor(C) * 32 * maxLoad * designFactor) / (Math.PI * BENDING_YIELD_RATIO * Sut))
+    : Math.sqrt((wahlFactor(C) * 8 * maxLoad * C * designFactor) / (Math.PI * SHEAR_YIELD_RATIO * Sut));
+  const d = standardWireDiameters.find((size) => size >= minimumDiameter);
+  if (d === undefined) {
+    console.error('The load needs a wire larger than the preferred sizes.');
+    return null;
+  }
+  const D = C * d;
+
+  let coils: number;
+  if (type === 'torsion') {
+    coils = (d ** 4 * E) / (10.8 * D * rate * 2 * Math.PI);
+  } else {
+    const active = (d * G) / (8 * C ** 3 * rate);
+    // Extension springs: the hooks supply G/E of the active turns
+    coils = type === 'extension' ? active - G / E : active;
+  }
+  coils = Math.max(Math.round(coils * 4) / 4, 1);
+
+  const active = type === 'extension' ? coils + G / E : coils;
+  const designRate = type === 'torsion'
+    ? (d ** 4 * E) / (10.8 * D * active) / (2 * Math.PI)
+    : (d ** 4 * G) / (8 * D ** 3 * active);
+  return { wireDiameter: d, meanDiameter: D, coils, rate: designRate, maxLoad };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeStressState, calculatePlaneStress, transformPlaneStress, vonMisesStress } from './stressState';
+
+const MPA = 1e6;
+const zero = { sx: 0, sy: 0, sz: 0, txy: 0, tyz: 0, tzx: 0 };
+
+describe('calculatePlaneStress', () => {
+  it("reproduces Shigley's Mohr's circle example (σx = 80, τxy = 50 MPa cw)", () => {
+    // Shigley, Mechanical Engineering Design, Ex. 3-4: σ1 = 104, σ2 = −24, τmax = 64 MPa, θp = 25.7° cw
+    const result = calculatePlaneStress(80 * MPA, 0, -50 * MPA);
+    expect(result.principal[0] / MPA).toBeCloseTo(104.03, 2);
+    expect(result.principal[1] / MPA).toBeCloseTo(-24.03, 2);
+    expect(result.radius / MPA).toBeCloseTo(64.03, 2);
+    expect((result.principalAngle * 180) / Math.PI).toBeCloseTo(-25.67, 2);
+  });
+
+  it('has no shear on the principal planes', () => {
+    const { principalAngle, principal } = calculatePlaneStress(80 * MPA, 0, -50 * MPA);
+    const rotated = transformPlaneStress(80 * MPA, 0, -50 * MPA, principalAngle);
+    expect(rotated.shear / MPA).toBeCloseTo(0, 9);
+    expect(rotated.normal).toBeCloseTo(principal[0], 3);
+    expect(rotated.transverse).toBeCloseTo(principal[1], 3);
+  });
+});
+
+describe('vonMisesStress', () => {
+  it('equals √3·τ in pure shear and σ in uniaxial tension', () => {
+    expect(vonMisesStress({ ...zero, txy: 100 })).toBeCloseTo(100 * Math.sqrt(3), 9);
+    expect(vonMisesStress({ ...zero, sx: -250 })).toBeCloseTo(250, 9);
+  });
+});
+
+describe('analyzeStressState', () => {
+  it('finds the principal stresses and directions of a 3D state', () => {
+    // [[30, 10, 10], [10, 30, 10], [10, 10, 30]] MPa has eigenvalues 50, 20, 20 MPa
+    const result = analyzeStressState(
+      { sx: 30 * MPA, sy: 30 * MPA, sz: 30 * MPA, txy: 10 * MPA, tyz: 10 * MPA, tzx: 10 * MPA },
+      250 * MPA
+    )!;
+    expect(result.principal.map((s) => s / MPA)).toEqual([expect.closeTo(50, 9), expect.closeTo(20, 9), expect.closeTo(20, 9)]);
+    expect(result.directions[0]!.map((c) => c * Math.sqrt(3))).toEqual([expect.closeTo(1, 9), expect.closeTo(1, 9), expect.closeTo(1, 9)]);
+    expect(result.directions[1]).toBeNull();
+    expect(result.maxShear / MPA).toBeCloseTo(15, 9);
+    expect(result.vonMises / MPA).toBeCloseTo(30, 9);
+    expect(result.vonMisesSafetyFactor).toBeCloseTo(250 / 30, 9);
+    expect(result.trescaSafetyFactor).toBeCloseTo(250 / 30, 9);
+  });
+
+  it('keeps the invariants of the input tensor', () => {
+    const stress = { sx: 40 * MPA, sy: -20 * MPA, sz: 10 * MPA, txy: 15 * MPA, tyz: -5 * MPA, tzx: 25 * MPA };
+    const result = analyzeStressState(stress)!;
+    const [s1, s2, s3] = result.principal;
+    const [I1, I2, I3] = result.invariants;
+    expect((s1 + s2 + s3) / I1).toBeCloseTo(1, 9);
+    expect((s1 * s2 + s2 * s3 + s3 * s1) / I2).toBeCloseTo(1, 9);
+    expect((s1 * s2 * s3) / I3).toBeCloseTo(1, 9);
+    expect(result.vonMisesSafetyFactor).toBeNull();
+  });
+
+  it('rejects non-finite components', () => {
+    expect(analyzeStressState({ ...zero, sx: NaN })).toBeNull();
+  });
+});
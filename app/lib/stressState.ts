@@ -0,0 +1,156 @@
+/**
+ * Stress transformation, principal stresses and yield criteria for a stress state at a point.
+ * Assumes SI units (Pascals); angles in radians, counter-clockwise from the x axis.
+ * Tensile normal stresses are positive; τxy acts in +y on the +x face.
+ */
+
+export interface StressTensor {
+  sx: number;
+  sy: number;
+  sz: number;
+  txy: number;
+  tyz: number;
+  tzx: number;
+}
+
+export interface PlaneStressResult {
+  center: number;          // (σx + σy) / 2
+  radius: number;          // Mohr's circle radius = max in-plane shear
+  principal: [number, number]; // In-plane σ1 ≥ σ2
+  principalAngle: number;  // Angle from x to the σ1 direction (−π/2, π/2]
+  shearAngle: number;      // Angle from x to the plane of maximum positive shear
+}
+
+export interface RotatedPlaneStress {
+  normal: number;     // σx'
+  shear: number;      // τx'y'
+  transverse: number; // σy'
+}
+
+export interface StressStateResult {
+  principal: [number, number, number]; // σ1 ≥ σ2 ≥ σ3
+  directions: ([number, number, number] | null)[]; // Unit vectors of σ1..σ3; null where not unique
+  maxShear: number;   // (σ1 − σ3) / 2
+  vonMises: number;
+  tresca: number;     // σ1 − σ3
+  invariants: [number, number, number]; // I1, I2, I3
+  vonMisesSafetyFactor: number | null;  // Sy / σvm, null without a yield strength or when unstressed
+  trescaSafetyFactor: number | null;    // Sy / (σ1 − σ3)
+}
+
+/**
+ * Principal stresses and Mohr's circle of a plane stress state (σz = τyz = τzx = 0).
+ */
+export function calculatePlaneStress(sx: number, sy: number, txy: number): PlaneStressResult {
+  const center = (sx + sy) / 2;
+  const radius = Math.hypot((sx - sy) / 2, txy);
+  const principalAngle = radius > 0 ? Math.atan2(2 * txy, sx - sy) / 2 : 0;
+  return {
+    center,
+    radius,
+    principal: [center + radius, center - radius],
+    principalAngle,
+    shearAngle: principalAngle - Math.PI / 4,
+  };
+}
+
+/**
+ * Stresses on the faces of an element rotated by θ (counter-clockwise) in the x-y plane.
+ */
+export function transformPlaneStress(sx: number, sy: number, txy: number, angle: number): RotatedPlaneStress {
+  const center = (sx + sy) / 2;
+  const half = (sx - sy) / 2;
+  const c = Math.cos(2 * angle);
+  const s = Math.sin(2 * angle);
+  return {
+    normal: center + half * c + txy * s,
+    shear: -half * s + txy * c,
+    transverse: center - half * c - txy * s,
+  };
+}
+
+export function vonMisesStress({ sx, sy, sz, txy, tyz, tzx }: StressTensor): number {
+  return Math.sqrt(
+    0.5 * ((sx - sy) ** 2 + (sy - sz) ** 2 + (sz - sx) ** 2) + 3 * (txy ** 2 + tyz ** 2 + tzx ** 2)
+  );
+}
+
+// Eigenvector of a symmetric 3×3 matrix for eigenvalue λ, from the largest cross product
+// of two rows of (A − λI); null when the eigenvalue is repeated
+function eigenvector(A: number[][], lambda: number, scale: number): [number, number, number] | null {
+  const M = A.map((row, i) => row.map((value, j) => (i === j ? value - lambda : value)));
+  const cross = (a: number[], b: number[]): [number, number, number] => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+  const candidates = [cross(M[0], M[1]), cross(M[1], M[2]), cross(M[2], M[0])];
+  const norms = candidates.map((v) => Math.hypot(...v));
+  const best = norms.indexOf(Math.max(...norms));
+  if (!(norms[best] > 1e-12 * scale * scale)) return null;
+  const v = candidates[best].map((x) => x / norms[best]);
+  // Make the largest component positive so the direction reads consistently
+  const largest = v.reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a), 0);
+  return (largest < 0 ? v.map((x) => -x || 0) : v) as [number, number, number];
+}
+
+/**
+ * Principal stresses, directions and equivalent stresses of a general 3D stress state.
+ * Eigenvalues use the closed-form trigonometric solution of the characteristic cubic.
+ *
+ * @param stress - Stress tensor components (Pa)
+ * @param yieldStrength - Yield strength (Pa), optional, for the safety factors.
+ * @returns The analysis, or null if any component is not finite.
+ */
+export function analyzeStressState(stress: StressTensor, yieldStrength?: number | null): StressStateResult | null {
+  const { sx, sy, sz, txy, tyz, tzx } = stress;
+  if (![sx, sy, sz, txy, tyz, tzx].every(Number.isFinite)) {
+    console.error('All stress components must be finite numbers.');
+    return null;
+  }
+
+  const A = [
+    [sx, txy, tzx],
+    [txy, sy, tyz],
+    [tzx, tyz, sz],
+  ];
+  const I1 = sx + sy + sz;
+  const I2 = sx * sy + sy * sz + sz * sx - txy ** 2 - tyz ** 2 - tzx ** 2;
+  const I3 = sx * sy * sz + 2 * txy * tyz * tzx - sx * tyz ** 2 - sy * tzx ** 2 - sz * txy ** 2;
+
+  const offDiagonal = txy ** 2 + tyz ** 2 + tzx ** 2;
+  let principal: number[];
+  if (offDiagonal === 0) {
+    principal = [sx, sy, sz];
+  } else {
+    const q = I1 / 3;
+    const p = Math.sqrt(((sx - q) ** 2 + (sy - q) ** 2 + (sz - q) ** 2 + 2 * offDiagonal) / 6);
+    // det((A − qI) / p) / 2, clamped against round-off before acos
+    const B = A.map((row, i) => row.map((value, j) => (i === j ? value - q : value) / p));
+    const detB = B[0][0] * (B[1][1] * B[2][2] - B[1][2] * B[2][1])
+      - B[0][1] * (B[1][0] * B[2][2] - B[1][2] * B[2][0])
+      + B[0][2] * (B[1][0] * B[2][1] - B[1][1] * B[2][0]);
+    const phi = Math.acos(Math.min(Math.max(detB / 2, -1), 1)) / 3;
+    const e1 = q + 2 * p * Math.cos(phi);
+    const e3 = q + 2 * p * Math.cos(phi + (2 * Math.PI) / 3);
+    principal = [e1, 3 * q - e1 - e3, e3];
+  }
+  // Round-off from the cubic solution is snapped to zero (e.g. σ3 of a plane stress state)
+  const scale = Math.max(...[sx, sy, sz, txy, tyz, tzx].map(Math.abs), 1e-300);
+  const [s1, s2, s3] = principal.map((v) => (Math.abs(v) < 1e-12 * scale ? 0 : v)).sort((a, b) => b - a);
+
+  const vonMises = vonMisesStress(stress);
+  const tresca = s1 - s3;
+  const Sy = yieldStrength && yieldStrength > 0 ? yieldStrength : null;
+
+  return {
+    principal: [s1, s2, s3],
+    directions: [s1, s2, s3].map((lambda) => eigenvector(A, lambda, scale)),
+    maxShear: tresca / 2,
+    vonMises,
+    tresca,
+    invariants: [I1, I2, I3],
+    vonMisesSafetyFactor: Sy !== null && vonMises > 0 ? Sy / vonMises : null,
+    trescaSafetyFactor: Sy !== null && tresca > 0 ? Sy / tresca : null,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Screw thread sizes and basic thread geometry.
+ * Assumes SI units (meters); inch sizes are converted on load.
+ *
+ * ISO metric (ISO 261/724) and Unified (ASME B1.1) threads share the same 60° basic
+ * profile, so both are described by the nominal diameter and pitch alone. Tolerances
+ * are ignored; only the external thread's root and stress area differ between the two.
+ */
+
+export type ThreadSeries = 'iso-coarse' | 'iso-fine' | 'unc' | 'unf';
+
+export const threadSeries: Record<ThreadSeries, string> = {
+  'iso-coarse': 'ISO metric coarse',
+  'iso-fine': 'ISO metric fine',
+  'unc': 'UNC',
+  'unf': 'UNF',
+};
+
+export interface ThreadSize {
+  designation: string;
+  series: ThreadSeries;
+  diameter: number; // Nominal (major) diameter d (m)
+  pitch: number;    // P (m)
+}
+
+export interface ThreadGeometry {
+  diameter: number;         // d (m)
+  pitch: number;            // P (m)
+  pitchDiameter: number;    // d2 = D2 (m)
+  minorDiameter: number;    // d3, external thread (m)
+  nutMinorDiameter: number; // D1, internal thread (m)
+  stressArea: number;       // As (m²)
+  minorArea: number;        // Ad3 (m²)
+  nominalArea: number;      // AN (m²)
+}
+
+const MM = 1e-3;
+const INCH = 25.4e-3;
+
+const metric = (series: ThreadSeries, designation: string, d: number, p: number): ThreadSize =>
+  ({ designation, series, diameter: d * MM, pitch: p * MM });
+const inch = (series: ThreadSeries, designation: string, d: number, tpi: number): ThreadSize =>
+  ({ designation, series, diameter: d * INCH, pitch: INCH / tpi });
+
+export const threadSizes: ThreadSize[] = [
+  metric('iso-coarse', 'M3', 3, 0.5),
+  metric('iso-coarse', 'M4', 4, 0.7),
+  metric('iso-coarse', 'M5', 5, 0.8),
+  metric('iso-coarse', 'M6', 6, 1),
+  metric('iso-coarse', 'M8', 8, 1.25),
+  metric('iso-coarse', 'M10', 10, 1.5),
+  metric('iso-coarse', 'M12', 12, 1.75),
+  metric('iso-coarse', 'M14', 14, 2),
+  metric('iso-coarse', 'M16', 16, 2),
+  metric('iso-coarse', 'M20', 20, 2.5),
+  metric('iso-coarse', 'M24', 24, 3),
+  metric('iso-coarse', 'M30', 30, 3.5),
+  metric('iso-coarse', 'M36', 36, 4),
+  metric('iso-coarse', 'M42', 42, 4.5),
+  metric('iso-coarse', 'M48', 48, 5),
+  metric('iso-fine', 'M8×1', 8, 1),
+  metric('iso-fine', 'M10×1.25', 10, 1.25),
+  metric('iso-fine', 'M12×1.25', 12, 1.25),
+  metric('iso-fine', 'M12×1.5', 12, 1.5),
+  metric('iso-fine', 'M14×1.5', 14, 1.5),
+  metric('iso-fine', 'M16×1.5', 16, 1.5),
+  metric('iso-fine', 'M20×1.5', 20, 1.5),
+  metric('iso-fine', 'M24×2', 24, 2),
+  metric('iso-fine', 'M30×2', 30, 2),
+  metric('iso-fine', 'M36×3', 36, 3),
+  inch('unc', '#4-40', 0.112, 40),
+  inch('unc', '#6-32', 0.138, 32),
+  inch('unc', '#8-32', 0.164, 32),
+  inch('unc', '#10-24', 0.19, 24),
+  inch('unc', '1/4-20', 0.25, 20),
+  inch('unc', '5/16-18', 0.3125, 18),
+  inch('unc', '3/8-16', 0.375, 16),
+  inch('unc', '7/16-14', 0.4375, 14),
+  inch('unc', '1/2-13', 0.5, 13),
+  inch('unc', '5/8-11', 0.625, 11),
+  inch('unc', '3/4-10', 0.75, 10),
+  inch('unc', '7/8-9', 0.875, 9),
+  inch('unc', '1-8', 1, 8),
+  inch('unf', '#10-32', 0.19, 32),
+  inch('unf', '1/4-28', 0.25, 28),
+  inch('unf', '5/16-24', 0.3125, 24),
+  inch('unf', '3/8-24', 0.375, 24),
+  inch('unf', '7/16-20', 0.4375, 20),
+  inch('unf', '1/2-20', 0.5, 20),
+  inch('unf', '5/8-18', 0.625, 18),
+  inch('unf', '3/4-16', 0.75, 16),
+  inch('unf', '7/8-14', 0.875, 14),
+  inch('unf', '1-12', 1, 12),
+];
+
+export const isUnifiedThread = (series: ThreadSeries) => series === 'unc' || series === 'unf';
+
+/**
+ * Basic dimensions and areas of a 60° thread.
+ * The ISO stress area uses the mean of the pitch and minor diameters (ISO 898-1); Unified
+ * threads use ASME's As = π/4·(d − 0.9743·P)² and the UNR rounded root minor diameter.
+ *
+ * @param diameter - Nominal diameter d (m)
+ * @param pitch - Pitch P (m)
+ * @param unified - Unified (UNC/UNF) rather than ISO metric thread.
+ * @returns The geometry, or null if the pitch is not smaller than the diameter.
+ */
+export function threadGeometry(diameter: number, pitch: number, unified: boolean = false): ThreadGeometry | null {
+  if (!(diameter > 0) || !(pitch > 0) || pitch >= diameter / 2) {
+    console.error('Thread diameter and pitch must be positive with the pitch well below the diameter.');
+    return null;
+  }
+  const pitchDiameter = diameter - 0.649519 * pitch;
+  const minorDiameter = diameter - (unified ? 1.190785 : 1.226869) * pitch;
+  const nutMinorDiameter = diameter - 1.082532 * pitch;
+  const area = (d: number) => (Math.PI / 4) * d * d;
+  const stressDiameter = unified ? diameter - 0.974279 * pitch : (pitchDiameter + minorDiameter) / 2;
+  return {
+    diameter,
+    pitch,
+    pitchDiameter,
+    minorDiameter,
+    nutMinorDiameter,
+    stressArea: area(stressDiameter),
+    minorArea: area(minorDiameter),
+    nominalArea: area(diameter),
+  };
+}
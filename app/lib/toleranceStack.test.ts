@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeToleranceStack, StackLink } from './toleranceStack';
+
+const links: StackLink[] = [
+  { nominal: 0.05, upperTolerance: 0.0003, lowerTolerance: 0.0003, direction: 1, distribution: 'normal' },
+  { nominal: 0.02, upperTolerance: 0.0003, lowerTolerance: 0.0003, direction: -1, distribution: 'uniform' },
+];
+
+describe('analyzeToleranceStack', () => {
+  // A 40 ± 0.1 mm housing holding a 20 ± 0.05 mm part and a 19.8 +0/−0.1 mm part
+  const assembly: StackLink[] = [
+    { nominal: 0.04, upperTolerance: 0.0001, lowerTolerance: 0.0001, direction: 1, distribution: 'normal', thermalExpansion: 12e-6 },
+    { nominal: 0.02, upperTolerance: 0.00005, lowerTolerance: 0.00005, direction: -1, distribution: 'normal' },
+    { nominal: 0.0198, upperTolerance: 0, lowerTolerance: 0.0001, direction: -1, distribution: 'normal' },
+  ];
+
+  it('centres unequal tolerances and adds the half bands for the worst case', () => {
+    const result = analyzeToleranceStack(assembly, { lowerLimit: 0.0001 })!;
+    expect(result.nominal).toBeCloseTo(0.0002, 12);
+    expect(result.mean).toBeCloseTo(0.00025, 12);
+    expect(result.worstCase.min).toBeCloseTo(0.00005, 12);
+    expect(result.worstCase.max).toBeCloseTo(0.00045, 12);
+    expect(result.worstCasePasses).toBe(false);
+    expect(result.contributions.map((c) => c.worstCase)).toEqual([
+      expect.closeTo(0.5, 12),
+      expect.closeTo(0.25, 12),
+      expect.closeTo(0.25, 12),
+    ]);
+  });
+
+  it('adds the signed thermal growth of each link', () => {
+    const result = analyzeToleranceStack(assembly, { temperatureChange: 50 })!;
+    expect(result.thermalGrowth).toBeCloseTo(0.04 * 12e-6 * 50, 12);
+    expect(result.mean).toBeCloseTo(0.00025 + 0.000024, 12);
+  });
+
+  it('uses h/3 for normal links and h/√3 for uniform links in the RSS', () => {
+    const result = analyzeToleranceStack(links)!;
+    const sigma = Math.sqrt((0.0003 / 3) ** 2 + (0.0003 / Math.sqrt(3)) ** 2);
+
+    expect(result.rss.sigma).toBeCloseTo(sigma, 12);
+    expect(result.rss.min).toBeCloseTo(0.03 - 3 * sigma, 12);
+    expect(result.rss.max).toBeCloseTo(0.03 + 3 * sigma, 12);
+    expect(result.contributions.map((c) => c.rss)).toEqual([
+      expect.closeTo(0.25, 12),
+      expect.closeTo(0.75, 12),
+    ]);
+  });
+
+  it('agrees with the Monte Carlo standard deviation', () => {
+    const result = analyzeToleranceStack(links, { samples: 50000 })!;
+    expect(result.monteCarlo.standardDeviation / result.rss.sigma).toBeCloseTo(1, 1);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * One-dimensional tolerance stack-up: worst case, root sum of squares and Monte Carlo.
+ * Assumes SI units (meters, kelvin).
+ *
+ * The stack is a chain of links, each adding (+1) or subtracting (−1) its dimension from
+ * the closing dimension (the gap). Tolerances may be unequal; each link is centred on the
+ * middle of its tolerance band. Normal links take the band as ±3σ (σ = h/3 for a half band
+ * h); uniform links have σ = h/√3. RSS reports the gap as ±3·√Σσ².
+ */
+
+export type StackDistribution = 'normal' | 'uniform';
+
+export const stackDistributions: Record<StackDistribution, string> = {
+  normal: 'Normal (±3σ)',
+  uniform: 'Uniform',
+};
+
+export interface StackLink {
+  nominal: number;         // m
+  upperTolerance: number;  // + tolerance (m, ≥ 0)
+  lowerTolerance: number;  // Magnitude of the − tolerance (m, ≥ 0)
+  direction: 1 | -1;
+  distribution: StackDistribution;
+  thermalExpansion?: number | null; // 1/K, optional
+}
+
+export interface StackOptions {
+  temperatureChange?: number; // Operating minus assembly temperature (K)
+  lowerLimit?: number | null; // Requirement on the gap (m), optional
+  upperLimit?: number | null;
+  samples?: number;           // Monte Carlo trials
+  bins?: number;              // Histogram bins
+  seed?: number;              // Fixed so results do not change between renders
+}
+
+export interface StackRange {
+  min: number; // m
+  max: number; // m
+}
+
+export interface StackContribution {
+  worstCase: number;     // Share of the worst-case tolerance, 0–1
+  rss: number;           // Share of the RSS variance, 0–1
+  thermalGrowth: number; // Signed growth of the link (m)
+}
+
+export interface StackResult {
+  nominal: number;       // Gap from the nominal dimensions at assembly temperature (m)
+  thermalGrowth: number; // Change of the gap from assembly to operating temperature (m)
+  mean: number;          // Centre of the tolerance bands at operating temperature (m)
+  worstCase: StackRange;
+  rss: StackRange & { sigma: number }; // ±3σ about the mean, σ = √Σσᵢ²
+  monteCarlo: StackRange & {
+    mean: number;
+    standardDeviation: number;
+    edges: number[];          // bins + 1 bin edges (m)
+    counts: number[];
+    outOfSpec: number | null; // Fraction outside the limits, null without limits
+  };
+  contributions: StackContribution[];
+  worstCasePasses: boolean | null; // null without limits
+  rssPasses: boolean | null;
+}
+
+// Small seeded generator (mulberry32): uniform in [0, 1)
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Analyzes a dimension chain.
+ *
+ * @param links - The chain; at least one link.
+ * @param options - Temperature change, gap limits and Monte Carlo settings.
+ * @returns The results, or null if a link or setting is invalid.
+ */
+export function analyzeToleranceStack(links: StackLink[], options: StackOptions = {}): StackResult | null {
+  const { temperatureChange = 0, lowerLimit = null, upperLimit = null, samples = 20000, bins = 40, seed = 1 } = options;
+  if (links.length === 0) {
+    console.error('A stack needs at least one link.');
+    return null;
+  }
+  if (links.some((link) => !Number.isFinite(link.nominal) || !(link.upperTolerance >= 0) || !(link.lowerTolerance >= 0))) {
+    console.error('Every link needs a nominal dimension and tolerances that are not negative.');
+    return null;
+  }
+  if (!Number.isInteger(samples) || samples < 100 || !Number.isInteger(bins) || bins < 1) {
+    console.error('Use at least 100 Monte Carlo samples and one histogram bin.');
+    return null;
+  }
+  if (lowerLimit !== null && upperLimit !== null && lowerLimit > upperLimit) {
+    console.error('The lower gap limit must not exceed the upper limit.');
+    return null;
+  }
+
+  // Each link as a centre, a symmetric half band about it and its standard deviation
+  const parts = links.map((link) => {
+    const growth = link.direction * link.nominal * (link.thermalExpansion ?? 0) * temperatureChange;
+    const centre = link.direction * (link.nominal + (link.upperTolerance - link.lowerTolerance) / 2) + growth;
+    const halfBand = (link.upperTolerance + link.lowerTolerance) / 2;
+    const sigma = link.distribution === 'normal' ? halfBand / 3 : halfBand / Math.sqrt(3);
+    return { centre, halfBand, sigma, growth, distribution: link.distribution };
+  });
+
+  const nominal = links.reduce((sum, link) => sum + link.direction * link.nominal, 0);
+  const thermalGrowth = parts.reduce((sum, part) => sum + part.growth, 0);
+  const mean = parts.reduce((sum, part) => sum + part.centre, 0);
+  const worstCaseTolerance = parts.reduce((sum, part) => sum + part.halfBand, 0);
+  const rssVariance = parts.reduce((sum, part) => sum + part.sigma ** 2, 0);
+  const rssSigma = Math.sqrt(rssVariance);
+
+  // Monte Carlo, normal samples by Box–Muller
+  const random = seededRandom(seed);
+  const standardNormal = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  const values = new Float64Array(samples);
+  for (let i = 0; i < samples; i++) {
+    let gap = 0;
+    for (const part of parts) {
+      gap += part.distribution === 'normal'
+        ? part.centre + part.sigma * standardNormal()
+        : part.centre + part.halfBand * (2 * random() - 1);
+    }
+    values[i] = gap;
+  }
+
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let outside = 0;
+  values.forEach((value) => {
+    sum += value;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    if ((lowerLimit !== null && value < lowerLimit) || (upperLimit !== null && value > upperLimit)) outside++;
+  });
+  const sampleMean = sum / samples;
+  const variance = values.reduce((acc, value) => acc + (value - sampleMean) ** 2, 0) / (samples - 1);
+
+  const width = (max - min) / bins || 1;
+  const edges = Array.from({ length: bins + 1 }, (_, i) => min + i * width);
+  const counts = Array(bins).fill(0);
+  values.forEach((value) => {
+    counts[Math.min(Math.floor((value - min) / width), bins - 1)]++;
+  });
+
+  const hasLimits = lowerLimit !== null || upperLimit !== null;
+  const passes = (range: StackRange) =>
+    hasLimits ? (lowerLimit === null || range.min >= lowerLimit) && (upperLimit === null || range.max <= upperLimit) : null;
+  const worstCase = { min: mean - worstCaseTolerance, max: mean + worstCaseTolerance };
+  const rss = { min: mean - 3 * rssSigma, max: mean + 3 * rssSigma, sigma: rssSigma };
+
+  return {
+    nominal,
+    thermalGrowth,
+    mean,
+    worstCase,
+    rss,
+    monteCarlo: {
+      min,
+      max,
+      mean: sampleMean,
+      standardDeviation: Math.sqrt(variance),
+      edges,
+      counts,
+      outOfSpec: hasLimits ? outside / samples : null,
+    },
+    contributions: parts.map((part) => ({
+      worstCase: worstCaseTolerance > 0 ? part.halfBand / worstCaseTolerance : 0,
+      rss: rssVariance > 0 ? part.sigma ** 2 / rssVariance : 0,
+      thermalGrowth: part.growth,
+    })),
+    worstCasePasses: passes(worstCase),
+    rssPasses: passes(rss),
+  };
+}
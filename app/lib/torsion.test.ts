@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTorsion, powerToTorque } from './torsion';
+
+const G = 79.3e9; // Steel (Pa)
+
+describe('powerToTorque', () => {
+  it('converts 10 kW at 1450 rpm', () => {
+    expect(powerToTorque(10e3, 1450)).toBeCloseTo(65.857, 3);
+  });
+
+  it('rejects a speed of zero', () => {
+    expect(powerToTorque(10e3, 0)).toBeNull();
+  });
+});
+
+describe('calculateTorsion', () => {
+  it('gives τ = 16T/πD³ and θ = TL/GJ for a solid shaft', () => {
+    const result = calculateTorsion({ type: 'solid-round', diameter: 0.04 }, 1000, 1, G, 350e6)!;
+    expect(result.torsionConstant).toBeCloseTo(2.5133e-7, 11);
+    expect(result.maxShearStress / 1e6).toBeCloseTo(79.577, 3);
+    expect(result.angleOfTwist).toBeCloseTo(0.050175, 6);
+    expect(result.shearYieldSafetyFactor).toBeCloseTo(350e6 / Math.sqrt(3) / 79.577e6, 4);
+  });
+
+  it('reduces to the solid shaft for a hollow shaft with no bore', () => {
+    const solid = calculateTorsion({ type: 'solid-round', diameter: 0.05 }, 500, 2, G)!;
+    const hollow = calculateTorsion({ type: 'hollow-round', outerDiameter: 0.05, innerDiameter: 0 }, 500, 2, G)!;
+    expect(hollow.maxShearStress).toBeCloseTo(solid.maxShearStress, 6);
+    expect(hollow.shearYieldSafetyFactor).toBeNull();
+  });
+
+  it('uses the Bredt–Batho shear flow for a thin-walled tube', () => {
+    // Square tube, 100 mm median line, 5 mm wall: τ = T / 2At, J = 4A²t / s
+    const A = 0.1 * 0.1;
+    const result = calculateTorsion({ type: 'thin-closed', enclosedArea: A, perimeter: 0.4, thickness: 0.005 }, 2000, 1, G)!;
+    expect(result.maxShearStress / 1e6).toBeCloseTo(20, 9);
+    expect(result.torsionConstant).toBeCloseTo((4 * A * A * 0.005) / 0.4, 15);
+  });
+
+  it('treats an open section as a thin rectangle', () => {
+    // J = bt³/3 and τ = T·t / J
+    const result = calculateTorsion({ type: 'thin-open', length: 0.3, thickness: 0.004 }, 20, 1, G)!;
+    expect(result.torsionConstant).toBeCloseTo(6.4e-9, 15);
+    expect(result.maxShearStress / 1e6).toBeCloseTo(12.5, 9);
+  });
+
+  it('rejects a bore larger than the shaft', () => {
+    expect(calculateTorsion({ type: 'hollow-round', outerDiameter: 0.04, innerDiameter: 0.05 }, 100, 1, G)).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Elastic torsion of shafts and thin-walled members.
+ * Assumes SI units (meters, Newtons, Pascals, radians).
+ *
+ * Round shafts use the polar moment of area. Thin-walled closed sections follow the
+ * Bredt–Batho shear flow theory; thin-walled open sections are treated as a set of
+ * thin rectangles (J = Σ b·t³ / 3), ignoring warping restraint at the supports.
+ */
+
+export type TorsionSection =
+  | { type: 'solid-round'; diameter: number }
+  | { type: 'hollow-round'; outerDiameter: number; innerDiameter: number }
+  | { type: 'thin-closed'; enclosedArea: number; perimeter: number; thickness: number } // Area and perimeter of the wall's median line
+  | { type: 'thin-open'; length: number; thickness: number }; // Developed length of the median line
+
+export interface TorsionResult {
+  torsionConstant: number;   // J (m⁴)
+  maxShearStress: number;    // Pa
+  angleOfTwist: number;      // rad over the shaft length
+  torsionalStiffness: number; // G·J / L (N·m/rad)
+  shearYieldSafetyFactor: number | null; // (Sy / √3) / τ_max, null without a yield strength or load
+}
+
+/**
+ * Converts transmitted power and shaft speed into torque: T = P / ω.
+ *
+ * @param power - Power (W)
+ * @param rpm - Rotational speed (rev/min)
+ * @returns Torque (N·m), or null if the speed is not positive.
+ */
+export function powerToTorque(power: number, rpm: number): number | null {
+  if (!(rpm > 0) || !Number.isFinite(power)) {
+    console.error('Speed must be positive and power finite.');
+    return null;
+  }
+  return power / ((2 * Math.PI * rpm) / 60);
+}
+
+// Torsion constant J and the ratio τ_max / T for each section type
+function torsionSectionProperties(section: TorsionSection): { J: number; stressPerTorque: number } | null {
+  switch (section.type) {
+    case 'solid-round': {
+      const D = section.diameter;
+      if (!(D > 0)) return null;
+      const J = (Math.PI * D ** 4) / 32;
+      return { J, stressPerTorque: D / 2 / J };
+    }
+    case 'hollow-round': {
+      const D = section.outerDiameter;
+      const d = section.innerDiameter;
+      if (!(D > 0) || !(d >= 0) || d >= D) return null;
+      const J = (Math.PI * (D ** 4 - d ** 4)) / 32;
+      return { J, stressPerTorque: D / 2 / J };
+    }
+    case 'thin-closed': {
+      const { enclosedArea: A, perimeter: s, thickness: t } = section;
+      if (!(A > 0) || !(s > 0) || !(t > 0)) return null;
+      // Shear flow q = T / 2A is constant round the wall, so the thinnest wall is the most stressed
+      return { J: (4 * A * A * t) / s, stressPerTorque: 1 / (2 * A * t) };
+    }
+    case 'thin-open': {
+      const { length: b, thickness: t } = section;
+      if (!(b > 0) || !(t > 0)) return null;
+      const J = (b * t ** 3) / 3;
+      return { J, stressPerTorque: t / J };
+    }
+  }
+}
+
+/**
+ * Shear stress, twist and stiffness of a member under a constant torque.
+ *
+ * @param section - Cross-section description (see `TorsionSection`).
+ * @param torque - Applied torque T (N·m); the sign is carried into the angle of twist.
+ * @param length - Member length L (m)
+ * @param G - Shear modulus (Pa)
+ * @param yieldStrength - Tensile yield strength (Pa), optional, for the von Mises shear yield check.
+ * @returns Torsion results, or null if the inputs are invalid.
+ */
+export function calculateTorsion(
+  section: TorsionSection,
+  torque: number,
+  length: number,
+  G: number,
+  yieldStrength?: number | null
+): TorsionResult | null {
+  if (!(length > 0) || !(G > 0) || !Number.isFinite(torque)) {
+    console.error('Length and shear modulus must be positive and the torque finite.');
+    return null;
+  }
+  const properties = torsionSectionProperties(section);
+  if (!properties) {
+    console.error(`Invalid dimensions for a ${section.type} section.`);
+    return null;
+  }
+
+  const { J, stressPerTorque } = properties;
+  const maxShearStress = Math.abs(torque) * stressPerTorque;
+  const shearYield = yieldStrength && yieldStrength > 0 ? yieldStrength / Math.sqrt(3) : null;
+
+  return {
+    torsionConstant: J,
+    maxShearStress,
+    angleOfTwist: (torque * length) / (G * J),
+    torsionalStiffness: (G * J) / length,
+    shearYieldSafetyFactor: shearYield !== null && maxShearStress > 0 ? shearYield / maxShearStress : null,
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeWeldGroup, electrodes, weldGroupProperties, weldPatternSegments } from './welds';
+
+const b = 0.05;
+const d = 0.1;
+
+function properties(pattern: Parameters<typeof weldPatternSegments>[0]) {
+  return weldGroupProperties(weldPatternSegments(pattern, b, d)!)!;
+}
+
+// Unit second moments of Shigley, Mechanical Engineering Design, Tables 9-1 and 9-2
+describe('weldGroupProperties', () => {
+  it('matches the tabulated torsion and bending properties of two vertical welds', () => {
+    const p = properties('two-vertical');
+    expect(p.length).toBeCloseTo(2 * d, 12);
+    expect(p.J).toBeCloseTo((d * (3 * b * b + d * d)) / 6, 12);
+    expect(p.Ix).toBeCloseTo(d ** 3 / 6, 12);
+  });
+
+  it('matches the tabulated properties of a box weld', () => {
+    const p = properties('box');
+    expect(p.centroid).toEqual({ x: b / 2, y: d / 2 });
+    expect(p.J).toBeCloseTo((b + d) ** 3 / 6, 12);
+    expect(p.Ix).toBeCloseTo((d * d * (3 * b + d)) / 6, 12);
+  });
+
+  it('locates the centroid of a three-sided weld and matches its polar moment', () => {
+    const p = properties('channel');
+    expect(p.centroid.x).toBeCloseTo((b * b) / (2 * b + d), 12);
+    expect(p.J).toBeCloseTo((8 * b ** 3 + 6 * b * d * d + d ** 3) / 12 - b ** 4 / (2 * b + d), 12);
+  });
+
+  it('matches the polar moment of an L-shaped weld', () => {
+    const p = properties('angle');
+    expect(p.J).toBeCloseTo(((b + d) ** 4 - 6 * b * b * d * d) / (12 * (b + d)), 12);
+  });
+
+  it('approximates Ju = 2πr³ for a circular weld within 0.2%', () => {
+    const p = properties('circle');
+    const r = d / 2;
+    expect(p.length / (2 * Math.PI * r)).toBeCloseTo(1, 2);
+    expect(Math.abs(p.J / (2 * Math.PI * r ** 3) - 1)).toBeLessThan(0.002);
+  });
+
+  it('rejects a group without length', () => {
+    expect(weldGroupProperties([])).toBeNull();
+    expect(weldPatternSegments('box', 0, d)).toBeNull();
+  });
+});
+
+describe('analyzeWeldGroup', () => {
+  const strengths = { electrode: electrodes.E70.ultimateStrength, base: 400e6 };
+
+  it('combines direct shear and torsion at the corner of a box weld', () => {
+    // 10 kN down, 0.2 m to the right of the centroid
+    const segments = weldPatternSegments('box', b, d)!;
+    const load = { force: { x: 0, y: -10e3, z: 0 }, point: { x: 0.2, y: 0, z: 0 } };
+    const result = analyzeWeldGroup('fillet', segments, load, strengths, 2, 0.006)!;
+
+    const J = (b + d) ** 3 / 6;
+    const T = 10e3 * 0.2;
+    const primary = 10e3 / (2 * (b + d));
+    // At the corner furthest from the load line: r = (b/2, d/2)
+    const fx = (T * (d / 2)) / J;
+    const fy = primary + (T * (b / 2)) / J;
+    expect(result.moments.z).toBeCloseTo(-T, 9);
+    expect(result.critical.shear).toBeCloseTo(Math.hypot(fx, fy), 6);
+    expect(result.critical.normal).toBeCloseTo(0, 9);
+  });
+
+  it('adds bending from a bracket arm to the direct shear of two vertical fillets', () => {
+    // 5 kN down at the end of a 0.15 m arm out of the weld plane
+    const segments = weldPatternSegments('two-vertical', b, d)!;
+    const load = { force: { x: 0, y: -5e3, z: 0 }, point: { x: 0, y: 0, z: 0.15 } };
+    const result = analyzeWeldGroup('fillet', segments, load, strengths, 2, 0.006)!;
+
+    const shear = 5e3 / (2 * d);
+    const bending = (5e3 * 0.15 * (d / 2)) / (d ** 3 / 6);
+    expect(Math.abs(result.critical.normal)).toBeCloseTo(bending, 6);
+    expect(result.critical.resultant).toBeCloseTo(Math.hypot(shear, bending), 6);
+    // Throat shear stress τ = f / 0.707h
+    expect(result.stress!).toBeCloseTo(Math.hypot(shear, bending) / (0.707 * 0.006), 3);
+  });
+
+  it('bends a single line about its own axis', () => {
+    const segments = weldPatternSegments('single-line', b, d)!;
+    const load = { force: { x: 0, y: -5e3, z: 0 }, point: { x: 0, y: 0, z: 0.15 } };
+    const result = analyzeWeldGroup('butt', segments, load, strengths, 2, 0.01)!;
+    const shear = 5e3 / d;
+    const bending = (5e3 * 0.15 * (d / 2)) / (d ** 3 / 12);
+    expect(result.critical.resultant).toBeCloseTo(Math.sqrt(bending ** 2 + 3 * shear ** 2), 6);
+  });
+
+  it('sizes a fillet on the weaker of the throat and the fusion face', () => {
+    const segments = weldPatternSegments('two-vertical', b, d)!;
+    const load = { force: { x: 0, y: 0, z: 20e3 }, point: { x: 0, y: 0, z: 0 } };
+    // E70 throat: 0.707 · 0.6 · 482 MPa < base 0.6 · 400 MPa
+    const result = analyzeWeldGroup('fillet', segments, load, strengths, 2)!;
+    expect(result.governs).toBe('weld');
+    expect(result.requiredSize).toBeCloseTo((2 * 20e3) / (2 * d) / (0.707 * 0.6 * 482e6), 12);
+    expect(result.stress).toBeNull();
+
+    const weakBase = analyzeWeldGroup('fillet', segments, load, { electrode: 482e6, base: 250e6 }, 2)!;
+    expect(weakBase.governs).toBe('base');
+  });
+
+  it('rejects an unloaded group', () => {
+    const segments = weldPatternSegments('box', b, d)!;
+    expect(analyzeWeldGroup('fillet', segments, { force: { x: 0, y: 0, z: 0 }, point: { x: 0, y: 0, z: 0 } }, strengths, 2)).toBeNull();
+  });
+});
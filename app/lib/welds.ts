@@ -0,0 +1,246 @@
+/**
+ * Static strength of fillet and butt weld groups by the line method.
+ * Assumes SI units (meters, Newtons, Pascals).
+ *
+ * Each weld is treated as a line: the group's length and unit second moments (m³) give the
+ * force per unit length of weld from direct shear, torsion and bending, as in Shigley's
+ * Mechanical Engineering Design §9-4/9-5. Fillet welds carry the resultant as shear on the
+ * throat (0.707·leg); complete penetration butt welds combine the normal and shear components
+ * into a von Mises stress over the plate thickness. Strengths are nominal: 0.6·Sut in shear
+ * for the weld metal and the base metal at the fusion face, Sut in tension.
+ */
+
+export type WeldType = 'fillet' | 'butt';
+export type WeldPattern = 'single-line' | 'two-vertical' | 'two-horizontal' | 'channel' | 'angle' | 'box' | 'circle';
+export type ElectrodeClass = 'E60' | 'E70' | 'E80' | 'E90' | 'E100' | 'E120';
+
+// Width b is horizontal and depth d vertical; the circle uses d as its diameter
+export const weldPatterns: Record<WeldPattern, { label: string; usesWidth: boolean }> = {
+  'single-line': { label: 'Single vertical line', usesWidth: false },
+  'two-vertical': { label: 'Two vertical lines', usesWidth: true },
+  'two-horizontal': { label: 'Two horizontal lines', usesWidth: true },
+  'channel': { label: 'Three sides (open right)', usesWidth: true },
+  'angle': { label: 'L (bottom and left)', usesWidth: true },
+  'box': { label: 'All around (box)', usesWidth: true },
+  'circle': { label: 'All around (circle)', usesWidth: false },
+};
+
+// Minimum tensile strength of the deposited weld metal (AWS A5.1/A5.5)
+export const electrodes: Record<ElectrodeClass, { label: string; ultimateStrength: number }> = {
+  'E60': { label: 'E60xx (427 MPa)', ultimateStrength: 427e6 },
+  'E70': { label: 'E70xx (482 MPa)', ultimateStrength: 482e6 },
+  'E80': { label: 'E80xx (551 MPa)', ultimateStrength: 551e6 },
+  'E90': { label: 'E90xx (620 MPa)', ultimateStrength: 620e6 },
+  'E100': { label: 'E100xx (689 MPa)', ultimateStrength: 689e6 },
+  'E120': { label: 'E120xx (827 MPa)', ultimateStrength: 827e6 },
+};
+
+export interface WeldSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface WeldGroupProperties {
+  length: number;                        // Total weld length Au (m)
+  centroid: { x: number; y: number };    // From the pattern's bottom-left corner (m)
+  Ix: number;                            // Unit second moment about the centroidal x-axis (m³)
+  Iy: number;                            // Unit second moment about the centroidal y-axis (m³)
+  Ixy: number;                           // Unit product moment (m³)
+  J: number;                             // Unit polar moment Ix + Iy (m³)
+}
+
+/**
+ * Load on the weld group: a force F applied at a point given relative to the weld centroid.
+ * x and y lie in the plane of the welds; z points out of it, so a bracket arm of length L
+ * carrying a force in the weld plane bends the welds.
+ */
+export interface WeldLoad {
+  force: { x: number; y: number; z: number }; // N
+  point: { x: number; y: number; z: number }; // m from the centroid
+}
+
+export interface WeldStressPoint {
+  x: number;         // From the pattern's bottom-left corner (m)
+  y: number;
+  shear: number;     // In-plane force per unit length (N/m)
+  normal: number;    // Out-of-plane force per unit length (N/m)
+  resultant: number; // Governing force per unit length for the weld type (N/m)
+}
+
+export interface WeldGroupResult {
+  properties: WeldGroupProperties;
+  moments: { x: number; y: number; z: number }; // About the centroid (N·m); z is the torsion
+  critical: WeldStressPoint;
+  weldStrength: number;                // Nominal weld metal strength used (Pa)
+  baseStrength: number;                // Nominal base metal strength used (Pa)
+  governs: 'weld' | 'base';
+  requiredSize: number;                // Leg (fillet) or thickness (butt) for the target safety factor (m)
+  size: number | null;                 // Leg or thickness checked (m)
+  stress: number | null;               // Throat shear (fillet) or von Mises (butt) stress (Pa)
+  weldSafetyFactor: number | null;
+  baseSafetyFactor: number | null;
+}
+
+const CIRCLE_SEGMENTS = 72;
+
+/**
+ * Line segments of a standard weld pattern, with the origin at its bottom-left corner.
+ * The circle is a 72-sided polygon, whose length and moments are within 0.2% of the circle's.
+ *
+ * @param width - b (m), ignored by the single line and the circle
+ * @param depth - d (m), the diameter of the circle
+ * @returns The segments, or null if a dimension is not positive.
+ */
+export function weldPatternSegments(pattern: WeldPattern, width: number, depth: number): WeldSegment[] | null {
+  const b = width;
+  const d = depth;
+  if (!(d > 0) || (weldPatterns[pattern].usesWidth && !(b > 0))) {
+    console.error('Weld pattern dimensions must be positive.');
+    return null;
+  }
+  const line = (x1: number, y1: number, x2: number, y2: number): WeldSegment => ({ x1, y1, x2, y2 });
+  switch (pattern) {
+    case 'single-line':
+      return [line(0, 0, 0, d)];
+    case 'two-vertical':
+      return [line(0, 0, 0, d), line(b, 0, b, d)];
+    case 'two-horizontal':
+      return [line(0, 0, b, 0), line(0, d, b, d)];
+    case 'channel':
+      return [line(0, 0, b, 0), line(0, 0, 0, d), line(0, d, b, d)];
+    case 'angle':
+      return [line(0, 0, b, 0), line(0, 0, 0, d)];
+    case 'box':
+      return [line(0, 0, b, 0), line(b, 0, b, d), line(b, d, 0, d), line(0, d, 0, 0)];
+    case 'circle': {
+      const r = d / 2;
+      const vertex = (i: number) => ({ x: r + r * Math.cos((2 * Math.PI * i) / CIRCLE_SEGMENTS), y: r + r * Math.sin((2 * Math.PI * i) / CIRCLE_SEGMENTS) });
+      return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+        const a = vertex(i);
+        const c = vertex(i + 1);
+        return line(a.x, a.y, c.x, c.y);
+      });
+    }
+  }
+}
+
+/**
+ * Length, centroid and unit second moments of a group of weld lines.
+ * Returns null for an empty or zero-length group.
+ */
+export function weldGroupProperties(segments: WeldSegment[]): WeldGroupProperties | null {
+  const lengths = segments.map((s) => Math.hypot(s.x2 - s.x1, s.y2 - s.y1));
+  const length = lengths.reduce((sum, l) => sum + l, 0);
+  if (!(length > 0)) {
+    console.error('A weld group needs at least one weld of non-zero length.');
+    return null;
+  }
+  const x = segments.reduce((sum, s, i) => sum + (lengths[i] * (s.x1 + s.x2)) / 2, 0) / length;
+  const y = segments.reduce((sum, s, i) => sum + (lengths[i] * (s.y1 + s.y2)) / 2, 0) / length;
+
+  // A straight line of length l about its midpoint contributes l·Δ²/12 along each projection
+  let Ix = 0;
+  let Iy = 0;
+  let Ixy = 0;
+  segments.forEach((s, i) => {
+    const l = lengths[i];
+    const mx = (s.x1 + s.x2) / 2 - x;
+    const my = (s.y1 + s.y2) / 2 - y;
+    const dx = s.x2 - s.x1;
+    const dy = s.y2 - s.y1;
+    Ix += l * (my * my + (dy * dy) / 12);
+    Iy += l * (mx * mx + (dx * dx) / 12);
+    Ixy += l * (mx * my + (dx * dy) / 12);
+  });
+  return { length, centroid: { x, y }, Ix, Iy, Ixy, J: Ix + Iy };
+}
+
+/**
+ * Force per unit length at every weld end point and the governing (critical) point.
+ * Along a straight weld the force varies linearly, so its magnitude peaks at an end.
+ */
+function criticalWeldPoint(type: WeldType, segments: WeldSegment[], properties: WeldGroupProperties, force: WeldLoad['force'], moments: WeldGroupResult['moments']): WeldStressPoint {
+  const { length, centroid, Ix, Iy, Ixy, J } = properties;
+  const denominator = Ix * Iy - Ixy * Ixy;
+  const points = segments.flatMap((s) => [{ x: s.x1, y: s.y1 }, { x: s.x2, y: s.y2 }]);
+
+  return points.map((p) => {
+    const rx = p.x - centroid.x;
+    const ry = p.y - centroid.y;
+    // Direct shear plus torsion (f = T·r / J, perpendicular to r)
+    const fx = force.x / length - (J > 0 ? (moments.z * ry) / J : 0);
+    const fy = force.y / length + (J > 0 ? (moments.z * rx) / J : 0);
+    // Direct tension plus unsymmetrical bending; a single straight line has no stiffness across itself
+    const bending = denominator > 0
+      ? ((moments.x * Iy + moments.y * Ixy) * ry - (moments.y * Ix + moments.x * Ixy) * rx) / denominator
+      : (Ix > 0 ? (moments.x * ry) / Ix : 0) - (Iy > 0 ? (moments.y * rx) / Iy : 0);
+    const normal = force.z / length + bending;
+    const shear = Math.hypot(fx, fy);
+    const resultant = type === 'fillet' ? Math.hypot(shear, normal) : Math.sqrt(normal * normal + 3 * shear * shear);
+    return { x: p.x, y: p.y, shear, normal, resultant };
+  }).reduce((worst, p) => (p.resultant > worst.resultant ? p : worst));
+}
+
+/**
+ * Analyzes a weld group under a general load.
+ *
+ * @param type - 'fillet' or 'butt' (complete joint penetration)
+ * @param segments - Weld lines, e.g. from `weldPatternSegments`.
+ * @param load - Force and its point of application relative to the weld centroid.
+ * @param strengths - Electrode and base metal ultimate tensile strengths (Pa).
+ * @param targetSafetyFactor - Safety factor the required size is calculated for.
+ * @param size - Fillet leg or butt weld thickness to check (m), or null to size only.
+ * @returns The analysis, or null if the inputs are invalid or the load is zero.
+ */
+export function analyzeWeldGroup(
+  type: WeldType,
+  segments: WeldSegment[],
+  load: WeldLoad,
+  strengths: { electrode: number; base: number },
+  targetSafetyFactor: number,
+  size: number | null = null
+): WeldGroupResult | null {
+  const properties = weldGroupProperties(segments);
+  if (!properties) return null;
+  if (!(strengths.electrode > 0) || !(strengths.base > 0) || !(targetSafetyFactor > 0) || (size !== null && !(size > 0))) {
+    console.error('Strengths, the target safety factor and the weld size must be positive.');
+    return null;
+  }
+
+  // M = r × F about the centroid
+  const { force, point } = load;
+  const moments = {
+    x: point.y * force.z - point.z * force.y,
+    y: point.z * force.x - point.x * force.z,
+    z: point.x * force.y - point.y * force.x,
+  };
+  const critical = criticalWeldPoint(type, segments, properties, force, moments);
+  if (!(critical.resultant > 0)) {
+    console.error('The weld group is unloaded.');
+    return null;
+  }
+
+  // Capacity per unit length per unit weld size: throat and fusion face for fillets, plate thickness for butts
+  const weldStrength = type === 'fillet' ? 0.6 * strengths.electrode : strengths.electrode;
+  const baseStrength = type === 'fillet' ? 0.6 * strengths.base : strengths.base;
+  const weldCapacity = type === 'fillet' ? 0.707 * weldStrength : weldStrength;
+  const baseCapacity = baseStrength;
+  const governs = weldCapacity <= baseCapacity ? 'weld' : 'base';
+  const requiredSize = (targetSafetyFactor * critical.resultant) / Math.min(weldCapacity, baseCapacity);
+
+  return {
+    properties,
+    moments,
+    critical,
+    weldStrength,
+    baseStrength,
+    governs,
+    requiredSize,
+    size,
+    stress: size !== null ? critical.resultant / (type === 'fillet' ? 0.707 * size : size) : null,
+    weldSafetyFactor: size !== null ? (weldCapacity * size) / critical.resultant : null,
+    baseSafetyFactor: size !== null ? (baseCapacity * size) / critical.resultant : null,
+  };
+}
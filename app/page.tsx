@@ -53,6 +53,80 @@ const getSuperCategory = (categoryName: string): string => {
   return 'Other'; // Default category
 };
 
+// Engineering calculators listed on the home page
+const calculators = [
+  {
+    name: 'Beam Deflection',
+    href: '/calculators/beam-deflection',
+    description: 'Single-span beams under combined loads',
+  },
+  {
+    name: 'Continuous Beam',
+    href: '/calculators/continuous-beam',
+    description: 'Multi-span beams, reactions and envelopes',
+  },
+  {
+    name: 'Plane Frame & Truss',
+    href: '/calculators/plane-frame',
+    description: '2D trusses and rigid frames',
+  },
+  {
+    name: 'Column Buckling',
+    href: '/calculators/column-buckling',
+    description: 'Euler and Johnson critical loads',
+  },
+  {
+    name: 'Shaft Torsion',
+    href: '/calculators/shaft-torsion',
+    description: 'Twist, shear stress and power to torque',
+  },
+  {
+    name: 'Shaft Design',
+    href: '/calculators/shaft-design',
+    description: 'Fatigue sizing under bending and torsion',
+  },
+  {
+    name: 'Fatigue Life',
+    href: '/calculators/fatigue',
+    description: 'S-N curves and cumulative damage',
+  },
+  {
+    name: "Mohr's Circle",
+    href: '/calculators/mohr-circle',
+    description: 'Principal stresses and yield criteria',
+  },
+  {
+    name: 'Pressure Vessels',
+    href: '/calculators/pressure-vessel',
+    description: 'Thin wall, Lamé and shrink fits',
+  },
+  {
+    name: 'Bolted Joints',
+    href: '/calculators/bolted-joint',
+    description: 'Preload, stiffness and separation',
+  },
+  {
+    name: 'Weld Groups',
+    href: '/calculators/weld',
+    description: 'Fillet and butt welds as lines',
+  },
+  {
+    name: 'Helical Springs',
+    href: '/calculators/springs',
+    description: 'Rate, stress, buckling and fatigue',
+  },
+  {
+    name: 'Limits and Fits',
+    href: '/calculators/fits',
+    description: 'ISO 286 tolerances and press fits',
+  },
+  {
+    name: 'Tolerance Stack-Up',
+    href: '/calculators/tolerance-stack',
+    description: 'Worst case, RSS and Monte Carlo',
+  },
+];
+
 export default async function HomePage() {
   // Fetch distinct categories from the database
   let categories: string[] = [];
@@ -141,6 +215,23 @@ export default async function HomePage() {
           </React.Fragment>
         ))}
       </div>
+
+      {/* Calculators */}
+      <div className="mt-16">
+        <h2 className="text-2xl font-semibold border-b border-gray-300 pb-2 mb-6 text-gray-700">
+          Calculators
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+          {calculators.map((calculator) => (
+            <Link key={calculator.href} href={calculator.href} className="block group col-span-1">
+              <div className="p-6 bg-white rounded-lg shadow-md hover:shadow-lg transition-all duration-300 border border-gray-200 flex flex-col items-center justify-center h-48 text-center">
+                <h3 className="text-xl font-semibold text-gray-700 group-hover:text-primary-600 mt-2">{calculator.name}</h3>
+                <p className="text-gray-500 mt-1 text-sm">{calculator.description}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      </div>
     </div>
   );
-} 
\ No newline at end of file
+}
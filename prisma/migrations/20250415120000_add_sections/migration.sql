@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "sections" (
+    "id" TEXT NOT NULL,
+    "designation" TEXT NOT NULL,
+    "family" TEXT NOT NULL,
+    "standard" TEXT NOT NULL,
+    "shape" TEXT NOT NULL,
+    "materialCategory" TEXT NOT NULL,
+    "height" DOUBLE PRECISION,
+    "width" DOUBLE PRECISION,
+    "webThickness" DOUBLE PRECISION,
+    "flangeThickness" DOUBLE PRECISION,
+    "wallThickness" DOUBLE PRECISION,
+    "outerDiameter" DOUBLE PRECISION,
+    "rootRadius" DOUBLE PRECISION,
+    "massPerLength" DOUBLE PRECISION,
+    "area" DOUBLE PRECISION NOT NULL,
+    "inertiaX" DOUBLE PRECISION NOT NULL,
+    "inertiaY" DOUBLE PRECISION NOT NULL,
+    "elasticModulusX" DOUBLE PRECISION,
+    "elasticModulusY" DOUBLE PRECISION,
+    "plasticModulusX" DOUBLE PRECISION,
+    "plasticModulusY" DOUBLE PRECISION,
+    "torsionConstant" DOUBLE PRECISION,
+    "radiusOfGyrationX" DOUBLE PRECISION,
+    "radiusOfGyrationY" DOUBLE PRECISION,
+    "radiusOfGyrationZ" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sections_designation_key" ON "sections"("designation");
@@ -73,6 +73,379 @@ function createMaterialPayload(mat: MaterialData, calculatedShearModulus: number
 }
 
 
+// ============================================================
+//  STANDARD STRUCTURAL PROFILES
+// ============================================================
+
+// Mirrors the Section model; everything in SI base units
+interface SectionData {
+  designation: string;
+  family: string;
+  standard: string;
+  shape: string;
+  materialCategory: string;
+  height: number | null;
+  width: number | null;
+  webThickness: number | null;
+  flangeThickness: number | null;
+  wallThickness: number | null;
+  outerDiameter: number | null;
+  rootRadius: number | null;
+  massPerLength: number | null;
+  area: number;
+  inertiaX: number;
+  inertiaY: number;
+  elasticModulusX: number | null;
+  elasticModulusY: number | null;
+  plasticModulusX: number | null;
+  plasticModulusY: number | null;
+  torsionConstant: number | null;
+  radiusOfGyrationX: number | null;
+  radiusOfGyrationY: number | null;
+  radiusOfGyrationZ?: number | null;
+}
+
+const MM = 1e-3;
+const CM = 1e-2;
+const INCH = 0.0254;
+const LB_PER_FT = 1.48816; // kg/m
+const STEEL_DENSITY = 7850; // kg/m³, used for hollow section masses
+const ALUMINUM_DENSITY = 2700; // kg/m³
+
+// European I and H sections (EN 10365), as published:
+// [name, h, b, tw, tf, r (mm), A (cm²), Iy (cm⁴), Wel,y, Wpl,y (cm³), iy (cm), Iz (cm⁴), Wel,z, Wpl,z (cm³), iz (cm), It (cm⁴), G (kg/m)]
+// EN tables call the strong axis y; it is stored as x here.
+type EuropeanIRow = [string, number, number, number, number, number, number, number, number, number, number, number, number, number, number, number, number];
+
+const europeanIBeams: EuropeanIRow[] = [
+  ['IPE 80', 80, 46, 3.8, 5.2, 5, 7.64, 80.1, 20.0, 23.2, 3.24, 8.49, 3.69, 5.82, 1.05, 0.70, 6.0],
+  ['IPE 100', 100, 55, 4.1, 5.7, 7, 10.3, 171, 34.2, 39.4, 4.07, 15.9, 5.79, 9.15, 1.24, 1.20, 8.1],
+  ['IPE 120', 120, 64, 4.4, 6.3, 7, 13.2, 318, 53.0, 60.7, 4.90, 27.7, 8.65, 13.6, 1.45, 1.74, 10.4],
+  ['IPE 140', 140, 73, 4.7, 6.9, 7, 16.4, 541, 77.3, 88.3, 5.74, 44.9, 12.3, 19.2, 1.65, 2.45, 12.9],
+  ['IPE 160', 160, 82, 5.0, 7.4, 9, 20.1, 869, 109, 124, 6.58, 68.3, 16.7, 26.1, 1.84, 3.60, 15.8],
+  ['IPE 180', 180, 91, 5.3, 8.0, 9, 23.9, 1317, 146, 166, 7.42, 101, 22.2, 34.6, 2.05, 4.79, 18.8],
+  ['IPE 200', 200, 100, 5.6, 8.5, 12, 28.5, 1943, 194, 221, 8.26, 142, 28.5, 44.6, 2.24, 6.98, 22.4],
+  ['IPE 220', 220, 110, 5.9, 9.2, 12, 33.4, 2772, 252, 285, 9.11, 205, 37.3, 58.1, 2.48, 9.07, 26.2],
+  ['IPE 240', 240, 120, 6.2, 9.8, 15, 39.1, 3892, 324, 367, 9.97, 284, 47.3, 73.9, 2.69, 12.9, 30.7],
+  ['IPE 270', 270, 135, 6.6, 10.2, 15, 45.9, 5790, 429, 484, 11.2, 420, 62.2, 97.0, 3.02, 15.9, 36.1],
+  ['IPE 300', 300, 150, 7.1, 10.7, 15, 53.8, 8356, 557, 628, 12.5, 604, 80.5, 125, 3.35, 20.1, 42.2],
+  ['IPE 330', 330, 160, 7.5, 11.5, 18, 62.6, 11770, 713, 804, 13.7, 788, 98.5, 154, 3.55, 28.2, 49.1],
+  ['IPE 360', 360, 170, 8.0, 12.7, 18, 72.7, 16270, 904, 1019, 15.0, 1043, 123, 191, 3.79, 37.3, 57.1],
+  ['IPE 400', 400, 180, 8.6, 13.5, 21, 84.5, 23130, 1156, 1307, 16.5, 1318, 146, 229, 3.95, 51.1, 66.3],
+  ['IPE 450', 450, 190, 9.4, 14.6, 21, 98.8, 33740, 1500, 1702, 18.5, 1676, 176, 276, 4.12, 66.9, 77.6],
+  ['IPE 500', 500, 200, 10.2, 16.0, 21, 116, 48200, 1928, 2194, 20.4, 2142, 214, 336, 4.31, 89.3, 90.7],
+  ['IPE 550', 550, 210, 11.1, 17.2, 24, 134, 67120, 2441, 2787, 22.3, 2668, 254, 401, 4.45, 123, 106],
+  ['IPE 600', 600, 220, 12.0, 19.0, 24, 156, 92080, 3069, 3512, 24.3, 3387, 308, 486, 4.66, 165, 122],
+  ['HEA 100', 96, 100, 5.0, 8.0, 12, 21.2, 349, 72.8, 83.0, 4.06, 134, 26.8, 41.1, 2.51, 5.24, 16.7],
+  ['HEA 120', 114, 120, 5.0, 8.0, 12, 25.3, 606, 106, 119, 4.89, 231, 38.5, 58.9, 3.02, 5.99, 19.9],
+  ['HEA 140', 133, 140, 5.5, 8.5, 12, 31.4, 1033, 155, 173, 5.73, 389, 55.6, 84.8, 3.52, 8.13, 24.7],
+  ['HEA 160', 152, 160, 6.0, 9.0, 15, 38.8, 1673, 220, 245, 6.57, 616, 76.9, 118, 3.98, 12.2, 30.4],
+  ['HEA 180', 171, 180, 6.0, 9.5, 15, 45.3, 2510, 294, 325, 7.45, 925, 103, 156, 4.52, 14.8, 35.5],
+  ['HEA 200', 190, 200, 6.5, 10.0, 18, 53.8, 3692, 389, 430, 8.28, 1336, 134, 204, 4.98, 21.0, 42.3],
+  ['HEA 220', 210, 220, 7.0, 11.0, 18, 64.3, 5410, 515, 568, 9.17, 1955, 178, 271, 5.51, 28.5, 50.5],
+  ['HEA 240', 230, 240, 7.5, 12.0, 21, 76.8, 7763, 675, 745, 10.1, 2769, 231, 352, 6.00, 41.6, 60.3],
+  ['HEA 260', 250, 260, 7.5, 12.5, 24, 86.8, 10450, 836, 920, 11.0, 3668, 282, 430, 6.50, 52.4, 68.2],
+  ['HEA 280', 270, 280, 8.0, 13.0, 24, 97.3, 13670, 1013, 1112, 11.9, 4763, 340, 518, 7.00, 62.1, 76.4],
+  ['HEA 300', 290, 300, 8.5, 14.0, 27, 112, 18260, 1260, 1383, 12.7, 6310, 421, 642, 7.49, 85.2, 88.3],
+  ['HEB 100', 100, 100, 6.0, 10.0, 12, 26.0, 450, 89.9, 104, 4.16, 167, 33.5, 51.4, 2.53, 9.25, 20.4],
+  ['HEB 120', 120, 120, 6.5, 11.0, 12, 34.0, 864, 144, 165, 5.04, 318, 52.9, 81.0, 3.06, 13.8, 26.7],
+  ['HEB 140', 140, 140, 7.0, 12.0, 12, 43.0, 1509, 216, 246, 5.93, 550, 78.5, 120, 3.58, 20.1, 33.7],
+  ['HEB 160', 160, 160, 8.0, 13.0, 15, 54.3, 2492, 311, 354, 6.78, 889, 111, 170, 4.05, 31.2, 42.6],
+  ['HEB 180', 180, 180, 8.5, 14.0, 15, 65.3, 3831, 426, 482, 7.66, 1363, 151, 231, 4.57, 42.2, 51.2],
+  ['HEB 200', 200, 200, 9.0, 15.0, 18, 78.1, 5696, 570, 642, 8.54, 2003, 200, 306, 5.07, 59.3, 61.3],
+  ['HEB 220', 220, 220, 9.5, 16.0, 18, 91.0, 8091, 736, 827, 9.43, 2843, 258, 394, 5.59, 76.6, 71.5],
+  ['HEB 240', 240, 240, 10.0, 17.0, 21, 106, 11260, 938, 1053, 10.3, 3923, 327, 498, 6.08, 103, 83.2],
+  ['HEB 260', 260, 260, 10.0, 17.5, 24, 118, 14920, 1148, 1283, 11.2, 5135, 395, 602, 6.58, 124, 93.0],
+  ['HEB 280', 280, 280, 10.5, 18.0, 24, 131, 19270, 1376, 1534, 12.1, 6595, 471, 718, 7.09, 144, 103],
+  ['HEB 300', 300, 300, 11.0, 19.0, 27, 149, 25170, 1678, 1869, 13.0, 8563, 571, 870, 7.58, 185, 117],
+];
+
+// AISC W-shapes, as published (US customary):
+// [name, d, bf, tw, tf (in), A (in²), Ix (in⁴), Sx, Zx (in³), rx (in), Iy (in⁴), Sy, Zy (in³), ry (in), J (in⁴)]
+type WShapeRow = [string, number, number, number, number, number, number, number, number, number, number, number, number, number, number];
+
+const aiscWShapes: WShapeRow[] = [
+  ['W6x15', 5.99, 5.99, 0.230, 0.260, 4.43, 29.1, 9.72, 10.8, 2.56, 9.32, 3.11, 4.75, 1.45, 0.101],
+  ['W8x31', 8.00, 8.00, 0.285, 0.435, 9.13, 110, 27.5, 30.4, 3.47, 37.1, 9.27, 14.1, 2.02, 0.536],
+  ['W10x33', 9.73, 7.96, 0.290, 0.435, 9.71, 171, 35.0, 38.8, 4.19, 36.6, 9.20, 14.0, 1.94, 0.583],
+  ['W12x26', 12.2, 6.49, 0.230, 0.380, 7.65, 204, 33.4, 37.2, 5.17, 17.3, 5.34, 8.17, 1.51, 0.300],
+  ['W14x22', 13.7, 5.00, 0.230, 0.335, 6.49, 199, 29.0, 33.2, 5.54, 7.00, 2.80, 4.39, 1.04, 0.208],
+  ['W16x26', 15.7, 5.50, 0.250, 0.345, 7.68, 301, 38.4, 44.2, 6.26, 9.59, 3.49, 5.48, 1.12, 0.262],
+  ['W18x35', 17.7, 6.00, 0.300, 0.425, 10.3, 510, 57.6, 66.5, 7.04, 15.3, 5.12, 8.06, 1.22, 0.506],
+  ['W21x44', 20.7, 6.50, 0.350, 0.450, 13.0, 843, 81.6, 95.4, 8.06, 20.7, 6.37, 10.2, 1.26, 0.770],
+  ['W24x55', 23.6, 7.01, 0.395, 0.505, 16.2, 1350, 114, 134, 9.11, 29.1, 8.30, 13.3, 1.34, 1.18],
+];
+
+// AISC C-shapes: [name, d, bf, tw, tf (in), A (in²), Ix (in⁴), Sx (in³), rx (in), Iy (in⁴), Sy (in³), ry (in)]
+type ChannelRow = [string, number, number, number, number, number, number, number, number, number, number, number];
+
+const aiscChannels: ChannelRow[] = [
+  ['C6x8.2', 6.00, 1.92, 0.200, 0.343, 2.39, 13.1, 4.35, 2.34, 0.687, 0.488, 0.536],
+  ['C8x11.5', 8.00, 2.26, 0.220, 0.390, 3.37, 32.5, 8.14, 3.11, 1.31, 0.775, 0.623],
+  ['C10x15.3', 10.0, 2.60, 0.240, 0.436, 4.48, 67.3, 13.5, 3.87, 2.27, 1.15, 0.711],
+  ['C12x20.7', 12.0, 2.94, 0.282, 0.501, 6.08, 129, 21.5, 4.61, 3.86, 1.72, 0.797],
+];
+
+// AISC equal-leg angles: [name, leg, t (in), A (in²), Ix = Iy (in⁴), Sx = Sy (in³), rx = ry (in), rz (in)]
+// rx and ry are about the geometric axes; rz is about the minor principal axis, which governs buckling.
+type AngleRow = [string, number, number, number, number, number, number, number];
+
+const aiscAngles: AngleRow[] = [
+  ['L3x3x1/4', 3, 0.25, 1.44, 1.24, 0.577, 0.930, 0.592],
+  ['L4x4x1/2', 4, 0.5, 3.75, 5.52, 1.96, 1.21, 0.776],
+  ['L6x6x1/2', 6, 0.5, 5.77, 19.9, 4.59, 1.86, 1.18],
+];
+
+/**
+ * Properties of a rectangular hollow section with rounded corners, using the formulas of
+ * EN 10219-2 Annex B (the same ones the published tables are generated from).
+ * Dimensions in meters; Ro/Ri are the outer/inner corner radii.
+ */
+function roundedHollowSectionProperties(B: number, H: number, t: number, Ro: number, Ri: number) {
+  // Each rounded corner removes a "spandrel": the square R×R minus a quarter circle
+  const spandrel = (R: number) => {
+    const area = (1 - Math.PI / 4) * R * R;
+    const e = R * (10 - 3 * Math.PI) / (12 - 3 * Math.PI); // Centroid distance from the outer edges
+    const iEdge = R ** 4 * (1 - 5 * Math.PI / 16); // About an outer edge
+    return { area, e, iOwn: iEdge - area * e * e };
+  };
+  const so = spandrel(Ro);
+  const si = spandrel(Ri);
+  const b = B - 2 * t;
+  const h = H - 2 * t;
+
+  const area = B * H - 4 * so.area - (b * h - 4 * si.area);
+  // Second moment about the axis parallel to the side of length `side`, with `depth` the other dimension
+  const inertia = (side: number, depth: number, innerSide: number, innerDepth: number) =>
+    side * depth ** 3 / 12 - 4 * (so.iOwn + so.area * (depth / 2 - so.e) ** 2)
+    - (innerSide * innerDepth ** 3 / 12 - 4 * (si.iOwn + si.area * (innerDepth / 2 - si.e) ** 2));
+  const plastic = (side: number, depth: number, innerSide: number, innerDepth: number) =>
+    side * depth ** 2 / 4 - 4 * so.area * (depth / 2 - so.e)
+    - (innerSide * innerDepth ** 2 / 4 - 4 * si.area * (innerDepth / 2 - si.e));
+
+  const Ix = inertia(B, H, b, h);
+  const Iy = inertia(H, B, h, b);
+
+  // Torsion constant per EN 10219-2 Annex B
+  const Rc = (Ro + Ri) / 2;
+  const p = 2 * ((B - t) + (H - t)) - 2 * Rc * (4 - Math.PI);
+  const Ah = (B - t) * (H - t) - Rc * Rc * (4 - Math.PI);
+  const K = 2 * Ah * t / p;
+  const J = t ** 3 * p / 3 + 2 * K * Ah;
+
+  return {
+    area,
+    inertiaX: Ix,
+    inertiaY: Iy,
+    elasticModulusX: Ix / (H / 2),
+    elasticModulusY: Iy / (B / 2),
+    plasticModulusX: plastic(B, H, b, h),
+    plasticModulusY: plastic(H, B, h, b),
+    torsionConstant: J,
+    radiusOfGyrationX: Math.sqrt(Ix / area),
+    radiusOfGyrationY: Math.sqrt(Iy / area),
+  };
+}
+
+// Corner radii for cold-formed hollow sections (EN 10219-2)
+function coldFormedCornerRadii(t: number): { Ro: number; Ri: number } {
+  if (t <= 6 * MM) return { Ro: 2 * t, Ri: t };
+  if (t <= 10 * MM) return { Ro: 2.5 * t, Ri: 1.5 * t };
+  return { Ro: 3 * t, Ri: 2 * t };
+}
+
+function circularHollowSectionProperties(D: number, t: number) {
+  const d = D - 2 * t;
+  const area = Math.PI / 4 * (D * D - d * d);
+  const I = Math.PI / 64 * (D ** 4 - d ** 4);
+  return {
+    area,
+    inertiaX: I,
+    inertiaY: I,
+    elasticModulusX: I / (D / 2),
+    elasticModulusY: I / (D / 2),
+    plasticModulusX: (D ** 3 - d ** 3) / 6,
+    plasticModulusY: (D ** 3 - d ** 3) / 6,
+    torsionConstant: 2 * I,
+    radiusOfGyrationX: Math.sqrt(I / area),
+    radiusOfGyrationY: Math.sqrt(I / area),
+  };
+}
+
+// Hollow sections by nominal size (mm): rectangular [H, B, t] and circular [D, t]
+const steelRectangularHollowSections: [number, number, number][] = [
+  [40, 40, 3], [50, 50, 4], [60, 60, 4], [80, 80, 5], [100, 100, 5], [120, 120, 6], [150, 150, 8],
+  [60, 40, 3], [80, 40, 4], [100, 50, 4], [120, 80, 5], [150, 100, 6], [200, 100, 8],
+];
+const steelCircularHollowSections: [number, number][] = [
+  [48.3, 3.2], [60.3, 3.2], [76.1, 3.6], [88.9, 4.0], [114.3, 5.0], [139.7, 5.0], [168.3, 6.3],
+];
+// Extruded aluminium tubes have (near) sharp corners
+const aluminumRectangularTubes: [number, number, number][] = [
+  [25, 25, 2], [40, 40, 3], [50, 50, 3], [50, 25, 2.5], [100, 50, 4],
+];
+const aluminumRoundTubes: [number, number][] = [
+  [25, 2], [40, 3], [50, 3], [80, 4],
+];
+
+function buildSectionsToSeed(): SectionData[] {
+  const sections: SectionData[] = [];
+  const noDimensions = {
+    height: null, width: null, webThickness: null, flangeThickness: null,
+    wallThickness: null, outerDiameter: null, rootRadius: null,
+  };
+
+  europeanIBeams.forEach(([designation, h, b, tw, tf, r, A, Iy, Wy, Wply, iy, Iz, Wz, Wplz, iz, It, G]) => {
+    sections.push({
+      designation,
+      family: designation.split(' ')[0],
+      standard: 'EN 10365',
+      shape: 'i-beam',
+      materialCategory: 'Steel',
+      ...noDimensions,
+      height: h * MM, width: b * MM, webThickness: tw * MM, flangeThickness: tf * MM, rootRadius: r * MM,
+      massPerLength: G,
+      area: A * CM ** 2,
+      inertiaX: Iy * CM ** 4,
+      inertiaY: Iz * CM ** 4,
+      elasticModulusX: Wy * CM ** 3,
+      elasticModulusY: Wz * CM ** 3,
+      plasticModulusX: Wply * CM ** 3,
+      plasticModulusY: Wplz * CM ** 3,
+      torsionConstant: It * CM ** 4,
+      radiusOfGyrationX: iy * CM,
+      radiusOfGyrationY: iz * CM,
+    });
+  });
+
+  aiscWShapes.forEach(([designation, d, bf, tw, tf, A, Ix, Sx, Zx, rx, Iy, Sy, Zy, ry, J]) => {
+    sections.push({
+      designation,
+      family: 'W',
+      standard: 'AISC',
+      shape: 'i-beam',
+      materialCategory: 'Steel',
+      ...noDimensions,
+      height: d * INCH, width: bf * INCH, webThickness: tw * INCH, flangeThickness: tf * INCH,
+      massPerLength: parseFloat(designation.split('x')[1]) * LB_PER_FT, // Nominal weight is in the name
+      area: A * INCH ** 2,
+      inertiaX: Ix * INCH ** 4,
+      inertiaY: Iy * INCH ** 4,
+      elasticModulusX: Sx * INCH ** 3,
+      elasticModulusY: Sy * INCH ** 3,
+      plasticModulusX: Zx * INCH ** 3,
+      plasticModulusY: Zy * INCH ** 3,
+      torsionConstant: J * INCH ** 4,
+      radiusOfGyrationX: rx * INCH,
+      radiusOfGyrationY: ry * INCH,
+    });
+  });
+
+  aiscChannels.forEach(([designation, d, bf, tw, tf, A, Ix, Sx, rx, Iy, Sy, ry]) => {
+    sections.push({
+      designation,
+      family: 'C',
+      standard: 'AISC',
+      shape: 'channel',
+      materialCategory: 'Steel',
+      ...noDimensions,
+      height: d * INCH, width: bf * INCH, webThickness: tw * INCH, flangeThickness: tf * INCH,
+      massPerLength: parseFloat(designation.split('x')[1]) * LB_PER_FT,
+      area: A * INCH ** 2,
+      inertiaX: Ix * INCH ** 4,
+      inertiaY: Iy * INCH ** 4,
+      elasticModulusX: Sx * INCH ** 3,
+      elasticModulusY: Sy * INCH ** 3,
+      plasticModulusX: null,
+      plasticModulusY: null,
+      torsionConstant: null,
+      radiusOfGyrationX: rx * INCH,
+      radiusOfGyrationY: ry * INCH,
+    });
+  });
+
+  aiscAngles.forEach(([designation, leg, t, A, I, S, r, rz]) => {
+    sections.push({
+      designation,
+      family: 'L',
+      standard: 'AISC',
+      shape: 'angle',
+      materialCategory: 'Steel',
+      ...noDimensions,
+      height: leg * INCH, width: leg * INCH, wallThickness: t * INCH,
+      massPerLength: A * INCH ** 2 * STEEL_DENSITY,
+      area: A * INCH ** 2,
+      inertiaX: I * INCH ** 4,
+      inertiaY: I * INCH ** 4,
+      elasticModulusX: S * INCH ** 3,
+      elasticModulusY: S * INCH ** 3,
+      plasticModulusX: null,
+      plasticModulusY: null,
+      torsionConstant: null,
+      radiusOfGyrationX: r * INCH,
+      radiusOfGyrationY: r * INCH,
+      radiusOfGyrationZ: rz * INCH,
+    });
+  });
+
+  const addRectangularHollow = (H: number, B: number, t: number, materialCategory: string, standard: string) => {
+    const { Ro, Ri } = materialCategory === 'Steel' ? coldFormedCornerRadii(t * MM) : { Ro: 0, Ri: 0 };
+    const props = roundedHollowSectionProperties(B * MM, H * MM, t * MM, Ro, Ri);
+    const family = H === B ? 'SHS' : 'RHS';
+    sections.push({
+      designation: `${materialCategory === 'Steel' ? '' : 'Al '}${family} ${H}x${B}x${t}`,
+      family,
+      standard,
+      shape: 'hollow-rectangle',
+      materialCategory,
+      ...noDimensions,
+      height: H * MM, width: B * MM, wallThickness: t * MM,
+      massPerLength: props.area * (materialCategory === 'Steel' ? STEEL_DENSITY : ALUMINUM_DENSITY),
+      ...props,
+    });
+  };
+  const addCircularHollow = (D: number, t: number, materialCategory: string, standard: string) => {
+    const props = circularHollowSectionProperties(D * MM, t * MM);
+    sections.push({
+      designation: `${materialCategory === 'Steel' ? '' : 'Al '}CHS ${D}x${t}`,
+      family: 'CHS',
+      standard,
+      shape: 'tube',
+      materialCategory,
+      ...noDimensions,
+      outerDiameter: D * MM, wallThickness: t * MM,
+      massPerLength: props.area * (materialCategory === 'Steel' ? STEEL_DENSITY : ALUMINUM_DENSITY),
+      ...props,
+    });
+  };
+
+  steelRectangularHollowSections.forEach(([H, B, t]) => addRectangularHollow(H, B, t, 'Steel', 'EN 10219'));
+  steelCircularHollowSections.forEach(([D, t]) => addCircularHollow(D, t, 'Steel', 'EN 10219'));
+  aluminumRectangularTubes.forEach(([H, B, t]) => addRectangularHollow(H, B, t, 'Aluminum', 'EN 755-9'));
+  aluminumRoundTubes.forEach(([D, t]) => addCircularHollow(D, t, 'Aluminum', 'EN 755-9'));
+
+  return sections;
+}
+
+async function seedSections() {
+  const sectionsToSeed = buildSectionsToSeed();
+  console.log(`Processing ${sectionsToSeed.length} standard sections for seeding.`);
+
+  for (const section of sectionsToSeed) {
+    try {
+      const upserted = await prisma.section.upsert({
+        where: { designation: section.designation },
+        update: section,
+        create: section,
+      });
+      console.log(` Upserted: ${upserted.designation} (ID: ${upserted.id})`);
+    } catch (error) {
+      console.error(` Failed to upsert ${section.designation}:`, error);
+    }
+  }
+}
+
+
 async function main() {
   console.log(`Start seeding with provided data...`);
 
@@ -5819,6 +6192,8 @@ async function main() {
     }
   }
 
+  await seedSections();
+
   console.log(`Seeding finished.`)
 }
 